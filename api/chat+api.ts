@@ -1,116 +1,339 @@
 /**
  * Chat API Route - Proxy for AI conversations
  *
- * This serverless function provides a secure proxy for AI chat requests.
+ * Authenticated, rate-limited proxy that keeps provider keys on the server.
  * It handles:
- * - Streaming responses from AI providers
- * - Rate limiting and request validation
- * - Integration with Convex for conversation history
+ * - WorkOS bearer token verification (the same token Convex accepts)
+ * - Per-user and per-organization rate limits, tracked in Convex
+ * - Token quotas per subscription tier (convex/usage.ts): exhausted quotas are
+ *   refused or served by cheaper models, and every reply is metered,
+ *   including cancelled and failed ones
+ * - Provider routing with fallback (services/ai/routing.ts), using the organization's
+ *   routing settings; a request may only narrow them to fewer providers
+ * - Streaming every provider's reply as one SSE event schema (services/ai/sse.ts)
+ *
+ * Request body:
+ *   { messages, task?, system?, temperature?, maxTokens?, tools?, organizationId?,
+ *     routing?: { fallbackChain? } }
  *
  * Environment variables:
- * - ANTHROPIC_API_KEY: For Claude API
- * - OPENAI_API_KEY: For OpenAI API
- * - GOOGLE_AI_API_KEY: For Gemini API
+ * - EXPO_PUBLIC_WORKOS_CLIENT_ID: For verifying access tokens
+ * - EXPO_PUBLIC_CONVEX_URL: For rate limiting and membership checks
+ * - CHAT_ALLOWED_ORIGINS: Comma-separated origins allowed to call from the browser
+ * - ANTHROPIC_API_KEY, OPENAI_API_KEY, GOOGLE_AI_API_KEY, GROQ_API_KEY: Provider keys
+ * - CONVEX_SITE_URL, USAGE_INGEST_SECRET: For recording token usage (lib/server/usage.ts)
  */
 
-import { fetch } from 'expo-server';
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import { AuthError, verifyRequest } from '@/lib/server/auth';
+import { getServerModel, isServerProviderConfigured } from '@/lib/server/ai';
+import { recordServerUsage } from '@/lib/server/usage';
+import { ChatMessage, createChatStream } from '@/services/ai/chat';
+import { estimateMessageTokens, estimateTokens } from '@/services/ai/context';
+import { toAIError } from '@/services/ai/errors';
+import {
+  ChatTask,
+  narrowRoutingPolicy,
+  planRoute,
+  resolveRoutingPolicy,
+  RoutingOverrides,
+  RouteTarget,
+  RoutingPolicy,
+  runWithFallback,
+} from '@/services/ai/routing';
+import { ChatSSEEvent, encodeSSEEvent, SSE_HEADERS, toErrorEvent } from '@/services/ai/sse';
 
-// CORS headers for cross-origin requests
-const CORS_HEADERS = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+type ChatRequestBody = {
+  messages: ChatMessage[];
+  task?: ChatTask;
+  system?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Only tools with 'safe' permission are offered */
+  tools?: string[];
+  organizationId?: string;
+  /** Only the fallback chain is read, to narrow the organization's providers */
+  routing?: RoutingOverrides;
 };
 
-export async function OPTIONS() {
-  return new Response(null, { headers: CORS_HEADERS });
+const TASKS: ChatTask[] = ['chat', 'title', 'research', 'summary'];
+const ROLES: ChatMessage['role'][] = ['user', 'assistant', 'system'];
+
+// Once a degradable quota runs out, replies use the cheap title models with a shorter limit
+const DEGRADED_TASK: ChatTask = 'title';
+const DEGRADED_MAX_TOKENS = 512;
+
+const ALLOWED_ORIGINS = (process.env.CHAT_ALLOWED_ORIGINS || '')
+  .split(',')
+  .map((origin: string) => origin.trim())
+  .filter(Boolean);
+
+/**
+ * CORS headers for a request; only listed origins may call from the browser
+ */
+function corsHeaders(request: Request): Record<string, string> {
+  const origin = request.headers.get('Origin');
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) return {};
+
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    Vary: 'Origin',
+  };
 }
 
-export async function POST(request: Request) {
-  try {
-    const body = await request.json();
-    const { provider = 'anthropic', messages, model, stream = false } = body;
-
-    // Validate request
-    if (!messages || !Array.isArray(messages)) {
-      return Response.json(
-        { error: 'Invalid request: messages array required' },
-        { status: 400, headers: CORS_HEADERS }
-      );
-    }
+function jsonError(
+  request: Request,
+  status: number,
+  error: string,
+  headers: Record<string, string> = {}
+) {
+  return Response.json({ error }, { status, headers: { ...corsHeaders(request), ...headers } });
+}
 
-    // Route to appropriate AI provider
-    let apiUrl = '';
-    let apiKey = '';
-    let headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
-
-    switch (provider) {
-      case 'anthropic':
-        apiUrl = 'https://api.anthropic.com/v1/messages';
-        apiKey = process.env.ANTHROPIC_API_KEY || '';
-        headers['anthropic-version'] = '2023-06-01';
-        headers['x-api-key'] = apiKey;
-        break;
-
-      case 'openai':
-        apiUrl = 'https://api.openai.com/v1/chat/completions';
-        apiKey = process.env.OPENAI_API_KEY || '';
-        headers['Authorization'] = `Bearer ${apiKey}`;
-        break;
-
-      case 'google':
-        apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/${model || 'gemini-pro'}:generateContent?key=${process.env.GOOGLE_AI_API_KEY}`;
-        break;
-
-      default:
-        return Response.json(
-          { error: `Unsupported provider: ${provider}` },
-          { status: 400, headers: CORS_HEADERS }
-        );
-    }
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
 
-    // Make request to AI provider
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        model: model || (provider === 'anthropic' ? 'claude-3-5-sonnet-20241022' : 'gpt-4-turbo'),
-        messages,
-        stream,
-        max_tokens: 4096,
-      }),
-    });
+/**
+ * Check the request body, returning it typed or an error message if it is malformed
+ */
+function parseBody(raw: unknown): ChatRequestBody | string {
+  if (!raw || typeof raw !== 'object') return 'JSON object required';
+  const body = raw as Record<string, unknown>;
 
-    if (!response.ok) {
-      const error = await response.text();
-      return Response.json(
-        { error: `AI provider error: ${response.status}`, details: error },
-        { status: response.status, headers: CORS_HEADERS }
-      );
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    return 'messages array required';
+  }
+  const messages: ChatMessage[] = [];
+  for (const message of body.messages as unknown[]) {
+    const { role, content } = (message ?? {}) as Record<string, unknown>;
+    if (!ROLES.includes(role as ChatMessage['role']) || typeof content !== 'string') {
+      return 'each message needs a role and string content';
     }
+    messages.push({ role: role as ChatMessage['role'], content });
+  }
 
-    // Handle streaming responses
-    if (stream) {
-      return new Response(response.body, {
-        headers: {
-          ...CORS_HEADERS,
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-        },
-      });
+  const { task, system, temperature, maxTokens, tools, organizationId, routing } = body;
+  if (task !== undefined && !TASKS.includes(task as ChatTask)) return `unknown task: ${task}`;
+  if (system !== undefined && typeof system !== 'string') return 'system must be a string';
+  if (temperature !== undefined && typeof temperature !== 'number') {
+    return 'temperature must be a number';
+  }
+  if (
+    maxTokens !== undefined &&
+    (typeof maxTokens !== 'number' || !Number.isInteger(maxTokens) || maxTokens < 1)
+  ) {
+    return 'maxTokens must be a positive integer';
+  }
+  if (tools !== undefined && !isStringArray(tools)) return 'tools must be an array of names';
+  if (organizationId !== undefined && typeof organizationId !== 'string') {
+    return 'organizationId must be a string';
+  }
+
+  let fallbackChain: string[] | undefined;
+  if (routing !== undefined && routing !== null) {
+    if (typeof routing !== 'object') return 'routing must be an object';
+    fallbackChain = (routing as Record<string, unknown>).fallbackChain as string[] | undefined;
+    if (fallbackChain !== undefined && !isStringArray(fallbackChain)) {
+      return 'routing.fallbackChain must be an array of providers';
     }
+  }
 
-    // Return non-streaming response
-    const data = await response.json();
-    return Response.json(data, { headers: CORS_HEADERS });
+  return {
+    messages,
+    task: task as ChatTask | undefined,
+    system,
+    temperature,
+    maxTokens,
+    tools,
+    organizationId,
+    routing: fallbackChain ? { fallbackChain } : undefined,
+  };
+}
 
+export async function OPTIONS(request: Request) {
+  return new Response(null, { status: 204, headers: corsHeaders(request) });
+}
+
+export async function POST(request: Request) {
+  // Authenticate
+  let token: string;
+  try {
+    ({ token } = await verifyRequest(request));
+  } catch (err) {
+    const message = err instanceof AuthError ? err.message : 'Unauthorized';
+    return jsonError(request, 401, message);
+  }
+
+  // Validate
+  let raw: unknown;
+  try {
+    raw = await request.json();
+  } catch {
+    return jsonError(request, 400, 'Invalid JSON body');
+  }
+
+  const body = parseBody(raw);
+  if (typeof body === 'string') {
+    return jsonError(request, 400, `Invalid request: ${body}`);
+  }
+
+  // Rate limit
+  const convex = new ConvexHttpClient(process.env.EXPO_PUBLIC_CONVEX_URL!);
+  convex.setAuth(token);
+
+  try {
+    const limit = await convex.mutation(api.rateLimits.consumeChatRequest, {
+      organizationId: body.organizationId as Id<'organizations'> | undefined,
+    });
+
+    if (!limit.allowed) {
+      const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+      return jsonError(request, 429, `Rate limit exceeded for ${limit.scope}`, {
+        'Retry-After': String(retryAfter),
+      });
+    }
   } catch (err) {
-    console.error('Chat API error:', err);
-    return Response.json(
-      { error: 'Internal server error', details: err instanceof Error ? err.message : 'Unknown error' },
-      { status: 500, headers: CORS_HEADERS }
+    const message = err instanceof Error ? err.message : '';
+    if (message.includes('Not authenticated')) return jsonError(request, 401, 'Unauthorized');
+    if (message.includes('Not a member')) return jsonError(request, 403, 'Forbidden');
+    console.error('Chat API rate limit error:', err);
+    return jsonError(request, 500, 'Internal server error');
+  }
+
+  // Quota and routing policy; membership was checked with the rate limit
+  let degraded = false;
+  let policy: RoutingPolicy;
+  let userId: Id<'users'>;
+  try {
+    const [user, quota, organization] = await Promise.all([
+      convex.query(api.users.getCurrentUser, {}),
+      convex.query(api.usage.checkQuota, {
+        metric: 'tokens',
+        organizationId: body.organizationId as Id<'organizations'> | undefined,
+      }),
+      body.organizationId
+        ? convex.query(api.organizations.getById, {
+            organizationId: body.organizationId as Id<'organizations'>,
+          })
+        : null,
+    ]);
+    if (!user) return jsonError(request, 401, 'Unauthorized');
+    userId = user._id;
+    if (quota?.status === 'blocked') {
+      return jsonError(request, 402, 'Token quota exhausted for your plan');
+    }
+    degraded = quota?.status === 'degraded';
+    policy = narrowRoutingPolicy(
+      resolveRoutingPolicy(organization?.settings?.aiRouting),
+      body.routing
     );
+  } catch (err) {
+    console.error('Chat API quota error:', err);
+    return jsonError(request, 500, 'Internal server error');
   }
+
+  // Stream
+  const task = body.task ?? 'chat';
+  const routes = planRoute(degraded ? DEGRADED_TASK : task, policy, isServerProviderConfigured);
+  const maxTokens = degraded
+    ? Math.min(body.maxTokens ?? DEGRADED_MAX_TOKENS, DEGRADED_MAX_TOKENS)
+    : body.maxTokens;
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  request.signal?.addEventListener('abort', () => abort.abort());
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // The client may have disconnected; there is nobody left to write to
+      const send = (event: ChatSSEEvent) => {
+        if (!abort.signal.aborted) controller.enqueue(encoder.encode(encodeSSEEvent(event)));
+      };
+      let finishReason = 'stop';
+      let totalTokens = 0;
+      // Replies cut off before the provider reports usage are billed by estimate
+      let usageReported = false;
+      let streamedText = '';
+      let served: RouteTarget | undefined;
+
+      try {
+        const result = await runWithFallback(
+          routes,
+          policy,
+          abort.signal,
+          (route, signal, markStarted) =>
+            createChatStream(
+              body.messages,
+              () => {},
+              {
+                ...route,
+                languageModel: getServerModel(route.provider, route.model),
+                system: body.system,
+                temperature: body.temperature,
+                // Capped per provider and fitted to the context window in createChatStream
+                maxTokens,
+                tools: body.tools,
+                // Tools that fetch from the network would run from inside our network
+                maxToolPermission: 'safe',
+                abortSignal: signal,
+              },
+              (event) => {
+                markStarted();
+                served = route;
+                if (event.type === 'finish') {
+                  finishReason = event.finishReason;
+                } else {
+                  if (event.type === 'usage') {
+                    usageReported = true;
+                    totalTokens += event.totalTokens ?? 0;
+                  }
+                  if (event.type === 'text-delta') streamedText += event.text;
+                  send(event);
+                }
+              }
+            )
+        );
+
+        send({ type: 'done', finishReason, provider: result.provider, model: result.model });
+      } catch (err) {
+        send(toErrorEvent(toAIError(err)));
+      } finally {
+        // Cancelled and failed replies are billed for what was already streamed
+        if (served && !usageReported) {
+          totalTokens =
+            estimateTokens(body.system ?? '') +
+            estimateMessageTokens(body.messages) +
+            estimateTokens(streamedText);
+        }
+
+        if (served && totalTokens > 0) {
+          await recordServerUsage({
+            userId,
+            metric: 'tokens',
+            quantity: totalTokens,
+            source: 'chat',
+            organizationId: body.organizationId as Id<'organizations'> | undefined,
+            metadata: {
+              provider: served.provider,
+              model: served.model,
+              task,
+              degraded,
+              estimated: !usageReported,
+            },
+          }).catch((err) => console.error('Chat API usage error:', err));
+        }
+
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, { headers: { ...corsHeaders(request), ...SSE_HEADERS } });
 }
@@ -0,0 +1,208 @@
+/**
+ * LiveKit Token API Route
+ *
+ * Issues LiveKit access tokens for voice sessions. Nothing the client sends is
+ * trusted for access:
+ * - WorkOS bearer token verification (the same token Convex accepts)
+ * - Participant identity and name come from the Convex user
+ * - Room names are scoped to the user (within the organization for members), so
+ *   nobody can join another user's session
+ * - Grants and token lifetime follow the effective subscription tier
+ * - Exhausted voice minutes are refused (convex/usage.ts)
+ * - Participant metadata (user, organization, tier) is carried in the signed token,
+ *   so agents in the room can rely on it
+ * - The voice session is opened here; LiveKit's webhooks meter it (convex/livekit.ts)
+ *
+ * Request body:
+ *   { room?, organizationId?, metadata? }
+ * `room` names a session within the caller's scope; omit it to start a new one.
+ *
+ * Response:
+ *   { token, url, identity, room, sessionId }
+ *
+ * Environment variables:
+ * - EXPO_PUBLIC_WORKOS_CLIENT_ID: For verifying access tokens
+ * - EXPO_PUBLIC_CONVEX_URL: For the user, membership, tier and quota
+ * - LIVEKIT_URL, LIVEKIT_API_KEY, LIVEKIT_API_SECRET: LiveKit project credentials
+ */
+
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import type { SubscriptionTier } from '@/convex/usage';
+import { AuthError, verifyRequest } from '@/lib/server/auth';
+import {
+  createParticipantToken,
+  getLiveKitUrl,
+  isLiveKitConfigured,
+  TrackSource,
+} from '@/lib/server/livekit';
+
+type TokenRequestBody = {
+  room?: string;
+  organizationId?: string;
+  metadata?: Record<string, unknown>;
+};
+
+type TierGrant = {
+  sources: TrackSource[];
+  // How long the token may be used to join; sessions outlive it
+  ttlSeconds: number;
+};
+
+const TIER_GRANTS: Record<SubscriptionTier, TierGrant> = {
+  free: { sources: ['microphone'], ttlSeconds: 10 * 60 },
+  starter: { sources: ['microphone'], ttlSeconds: 30 * 60 },
+  pro: { sources: ['microphone', 'camera', 'screen_share'], ttlSeconds: 60 * 60 },
+  enterprise: {
+    sources: ['microphone', 'camera', 'screen_share', 'screen_share_audio'],
+    ttlSeconds: 2 * 60 * 60,
+  },
+};
+
+const ROOM_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Client metadata is passed through to the agent, within reason
+const MAX_METADATA_BYTES = 4096;
+
+function jsonError(status: number, error: string) {
+  return Response.json({ error }, { status });
+}
+
+/**
+ * Check the request body, returning it typed or an error message if it is malformed
+ */
+function parseBody(raw: unknown): TokenRequestBody | string {
+  if (!raw || typeof raw !== 'object') return 'JSON object required';
+  const { room, organizationId, metadata } = raw as Record<string, unknown>;
+
+  if (room !== undefined && (typeof room !== 'string' || !ROOM_PATTERN.test(room))) {
+    return 'room must be 1-64 letters, digits, dashes or underscores';
+  }
+  if (organizationId !== undefined && typeof organizationId !== 'string') {
+    return 'organizationId must be a string';
+  }
+  if (metadata !== undefined) {
+    if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+      return 'metadata must be an object';
+    }
+    if (JSON.stringify(metadata).length > MAX_METADATA_BYTES) {
+      return `metadata must be under ${MAX_METADATA_BYTES} bytes`;
+    }
+  }
+
+  return { room, organizationId, metadata: metadata as Record<string, unknown> | undefined };
+}
+
+/**
+ * Room name within the caller's scope. Names already in scope are kept so a
+ * client can rejoin its session; anything else becomes a suffix.
+ */
+function scopedRoomName(scope: string, requested?: string): string {
+  if (requested?.startsWith(`${scope}-`)) return requested;
+
+  const suffix = requested ?? `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+  return `${scope}-${suffix}`;
+}
+
+export async function POST(request: Request) {
+  if (!isLiveKitConfigured()) {
+    console.error('LiveKit token API: LIVEKIT_URL, LIVEKIT_API_KEY or LIVEKIT_API_SECRET not set');
+    return jsonError(503, 'Voice is not configured');
+  }
+
+  // Authenticate
+  let token: string;
+  try {
+    ({ token } = await verifyRequest(request));
+  } catch (err) {
+    const message = err instanceof AuthError ? err.message : 'Unauthorized';
+    return jsonError(401, message);
+  }
+
+  // Validate
+  let raw: unknown;
+  try {
+    raw = await request.json();
+  } catch {
+    return jsonError(400, 'Invalid JSON body');
+  }
+
+  const body = parseBody(raw);
+  if (typeof body === 'string') {
+    return jsonError(400, `Invalid request: ${body}`);
+  }
+
+  // Resolve the user, organization and tier
+  const convex = new ConvexHttpClient(process.env.EXPO_PUBLIC_CONVEX_URL!);
+  convex.setAuth(token);
+  const organizationId = body.organizationId as Id<'organizations'> | undefined;
+
+  try {
+    const [user, membership, entitlement, quota] = await Promise.all([
+      convex.query(api.users.getCurrentUser, {}),
+      organizationId
+        ? convex.query(api.memberships.getCurrentUserMembership, { organizationId })
+        : null,
+      convex.query(api.subscriptions.getEntitlement, { organizationId }),
+      convex.query(api.usage.checkQuota, { metric: 'voice_minutes', organizationId }),
+    ]);
+
+    if (!user || !user.isActive) return jsonError(401, 'Unauthorized');
+    if (organizationId && !membership?.isActive) return jsonError(403, 'Forbidden');
+    if (quota?.status === 'blocked') {
+      return jsonError(402, 'Voice minutes used up for your plan');
+    }
+
+    const tier: SubscriptionTier = entitlement?.tier ?? 'free';
+    const grant = TIER_GRANTS[tier];
+    const identity = `user-${user._id}`;
+    const name =
+      [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || 'ALIAS User';
+    const room = scopedRoomName(
+      organizationId ? `org-${organizationId}-user-${user._id}` : `user-${user._id}`,
+      body.room
+    );
+
+    const participantToken = await createParticipantToken({
+      identity,
+      name,
+      ttlSeconds: grant.ttlSeconds,
+      grant: {
+        room,
+        roomJoin: true,
+        canPublish: true,
+        canSubscribe: true,
+        canPublishData: true,
+        canPublishSources: grant.sources,
+        // Keeps the signed metadata authoritative
+        canUpdateOwnMetadata: false,
+      },
+      metadata: {
+        ...body.metadata,
+        userId: user._id,
+        organizationId: organizationId ?? null,
+        tier,
+      },
+    });
+
+    const sessionId = await convex.mutation(api.voiceSessions.start, {
+      roomName: room,
+      organizationId,
+      participantIdentity: identity,
+    });
+
+    return Response.json({
+      token: participantToken,
+      url: getLiveKitUrl(),
+      identity,
+      room,
+      sessionId,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : '';
+    if (message.includes('Not authenticated')) return jsonError(401, 'Unauthorized');
+    console.error('LiveKit token API error:', err);
+    return jsonError(500, 'Internal server error');
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Search API Route
+ *
+ * Runs web searches and page reads for the app's search tools and deep research,
+ * so the search provider key stays on the server:
+ * - WorkOS bearer token verification (the same token Convex accepts)
+ * - Per-user and per-organization rate limits, tracked in Convex
+ * - Search quotas per subscription tier (convex/usage.ts); every call is metered
+ * - Pages are read through the provider's extractor; the server never fetches
+ *   the requested URL itself
+ *
+ * Request body:
+ *   ({ action: 'search', query, maxResults? } | { action: 'read', url }) & { organizationId? }
+ *
+ * Response:
+ *   { results } for a search, { page } for a read
+ *
+ * Environment variables:
+ * - EXPO_PUBLIC_WORKOS_CLIENT_ID: For verifying access tokens
+ * - EXPO_PUBLIC_CONVEX_URL: For rate limits, membership and quota checks
+ * - TAVILY_API_KEY: Search provider key
+ * - CONVEX_SITE_URL, USAGE_INGEST_SECRET: For recording usage (lib/server/usage.ts)
+ */
+
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import { AuthError, verifyRequest } from '@/lib/server/auth';
+import { getServerSearchProvider, isServerSearchConfigured } from '@/lib/server/search';
+import { recordServerUsage } from '@/lib/server/usage';
+
+type SearchRequestBody = (
+  | { action: 'search'; query: string; maxResults?: number }
+  | { action: 'read'; url: string }
+) & { organizationId?: Id<'organizations'> };
+
+const MAX_QUERY_LENGTH = 400;
+const MAX_RESULTS = 10;
+
+function jsonError(status: number, error: string, headers: Record<string, string> = {}) {
+  return Response.json({ error }, { status, headers });
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check the request body, returning it typed or an error message if it is malformed
+ */
+function parseBody(raw: unknown): SearchRequestBody | string {
+  if (!raw || typeof raw !== 'object') return 'JSON object required';
+  const body = raw as Record<string, unknown>;
+
+  if (body.organizationId !== undefined && typeof body.organizationId !== 'string') {
+    return 'organizationId must be a string';
+  }
+  const organizationId = body.organizationId as Id<'organizations'> | undefined;
+
+  switch (body.action) {
+    case 'search': {
+      const { query, maxResults } = body;
+      if (typeof query !== 'string' || !query.trim()) return 'query required';
+      if (query.length > MAX_QUERY_LENGTH) {
+        return `query must be under ${MAX_QUERY_LENGTH} characters`;
+      }
+      if (
+        maxResults !== undefined &&
+        (typeof maxResults !== 'number' ||
+          !Number.isInteger(maxResults) ||
+          maxResults < 1 ||
+          maxResults > MAX_RESULTS)
+      ) {
+        return `maxResults must be 1-${MAX_RESULTS}`;
+      }
+      return { action: 'search', query, maxResults, organizationId };
+    }
+    case 'read':
+      if (!isHttpUrl(body.url)) return 'url must be an http(s) URL';
+      return { action: 'read', url: body.url as string, organizationId };
+    default:
+      return 'action must be search or read';
+  }
+}
+
+export async function POST(request: Request) {
+  if (!isServerSearchConfigured()) {
+    console.error('Search API: TAVILY_API_KEY not set');
+    return jsonError(503, 'Web search is not configured');
+  }
+
+  // Authenticate
+  let token: string;
+  try {
+    ({ token } = await verifyRequest(request));
+  } catch (err) {
+    const message = err instanceof AuthError ? err.message : 'Unauthorized';
+    return jsonError(401, message);
+  }
+
+  // Validate
+  let raw: unknown;
+  try {
+    raw = await request.json();
+  } catch {
+    return jsonError(400, 'Invalid JSON body');
+  }
+
+  const body = parseBody(raw);
+  if (typeof body === 'string') {
+    return jsonError(400, `Invalid request: ${body}`);
+  }
+
+  // Rate limit and quota; the rate limit also checks organization membership
+  const convex = new ConvexHttpClient(process.env.EXPO_PUBLIC_CONVEX_URL!);
+  convex.setAuth(token);
+
+  let userId: Id<'users'>;
+  try {
+    const limit = await convex.mutation(api.rateLimits.consumeSearchRequest, {
+      organizationId: body.organizationId,
+    });
+    if (!limit.allowed) {
+      const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+      return jsonError(429, `Rate limit exceeded for ${limit.scope}`, {
+        'Retry-After': String(retryAfter),
+      });
+    }
+    userId = limit.userId;
+
+    const quota = await convex.query(api.usage.checkQuota, {
+      metric: 'searches',
+      organizationId: body.organizationId,
+    });
+    if (quota?.status === 'blocked') {
+      return jsonError(402, 'Web searches used up for your plan');
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : '';
+    if (message.includes('Not authenticated')) return jsonError(401, 'Unauthorized');
+    if (message.includes('Not a member')) return jsonError(403, 'Forbidden');
+    console.error('Search API rate limit error:', err);
+    return jsonError(500, 'Internal server error');
+  }
+
+  // Search or read
+  const provider = getServerSearchProvider();
+  if (body.action === 'read' && !provider.fetchPage) {
+    return jsonError(501, 'Page reading is not supported');
+  }
+
+  try {
+    const result =
+      body.action === 'search'
+        ? {
+            results: await provider.search(body.query, {
+              maxResults: body.maxResults,
+              signal: request.signal,
+            }),
+          }
+        : { page: await provider.fetchPage!(body.url, request.signal) };
+
+    await recordServerUsage({
+      userId,
+      metric: 'searches',
+      quantity: 1,
+      source: 'search',
+      organizationId: body.organizationId,
+      metadata: { action: body.action },
+    }).catch((err) => console.error('Search API usage error:', err));
+
+    return Response.json(result);
+  } catch (err) {
+    console.error('Search API error:', err);
+    return jsonError(502, 'Search provider request failed');
+  }
+}
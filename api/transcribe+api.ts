@@ -0,0 +1,103 @@
+/**
+ * Transcription API Route
+ *
+ * Turns recorded voice messages into text with Whisper, so the OpenAI key
+ * stays on the server:
+ * - WorkOS bearer token verification (the same token Convex accepts)
+ * - Per-user and per-organization rate limits, tracked in Convex
+ * - Audio files are capped at Whisper's upload limit
+ *
+ * Request body (multipart/form-data):
+ *   file: the recording; organizationId?: the active organization
+ *
+ * Response:
+ *   { text }
+ *
+ * Environment variables:
+ * - EXPO_PUBLIC_WORKOS_CLIENT_ID: For verifying access tokens
+ * - EXPO_PUBLIC_CONVEX_URL: For rate limits and membership checks
+ * - OPENAI_API_KEY: Whisper key
+ */
+
+import { ConvexHttpClient } from 'convex/browser';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import { AuthError, verifyRequest } from '@/lib/server/auth';
+import { isServerTranscriptionConfigured, transcribeWithWhisper } from '@/lib/server/transcription';
+
+// Whisper rejects larger uploads
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+// The global FormData type is React Native's, which cannot read fields
+type FormFields = { get(name: string): File | string | null };
+
+function jsonError(status: number, error: string, headers: Record<string, string> = {}) {
+  return Response.json({ error }, { status, headers });
+}
+
+export async function POST(request: Request) {
+  if (!isServerTranscriptionConfigured()) {
+    console.error('Transcription API: OPENAI_API_KEY not set');
+    return jsonError(503, 'Transcription is not configured');
+  }
+
+  // Authenticate
+  let token: string;
+  try {
+    ({ token } = await verifyRequest(request));
+  } catch (err) {
+    const message = err instanceof AuthError ? err.message : 'Unauthorized';
+    return jsonError(401, message);
+  }
+
+  // Validate
+  const form = (await request.formData().catch(() => null)) as FormFields | null;
+  if (!form) {
+    return jsonError(400, 'Multipart form data required');
+  }
+
+  const file = form.get('file');
+  if (!file || typeof file === 'string') {
+    return jsonError(400, 'Invalid request: file required');
+  }
+  if (file.size === 0 || file.size > MAX_AUDIO_BYTES) {
+    return jsonError(400, `Invalid request: file must be under ${MAX_AUDIO_BYTES} bytes`);
+  }
+
+  const organizationField = form.get('organizationId');
+  if (organizationField !== null && typeof organizationField !== 'string') {
+    return jsonError(400, 'Invalid request: organizationId must be a string');
+  }
+  const organizationId = (organizationField || undefined) as Id<'organizations'> | undefined;
+
+  // Rate limit; also checks organization membership
+  const convex = new ConvexHttpClient(process.env.EXPO_PUBLIC_CONVEX_URL!);
+  convex.setAuth(token);
+
+  try {
+    const limit = await convex.mutation(api.rateLimits.consumeTranscriptionRequest, {
+      organizationId,
+    });
+    if (!limit.allowed) {
+      const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+      return jsonError(429, `Rate limit exceeded for ${limit.scope}`, {
+        'Retry-After': String(retryAfter),
+      });
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : '';
+    if (message.includes('Not authenticated')) return jsonError(401, 'Unauthorized');
+    if (message.includes('Not a member')) return jsonError(403, 'Forbidden');
+    console.error('Transcription API rate limit error:', err);
+    return jsonError(500, 'Internal server error');
+  }
+
+  // Transcribe
+  try {
+    const text = await transcribeWithWhisper(file, file.name || 'recording.m4a', request.signal);
+    return Response.json({ text });
+  } catch (err) {
+    console.error('Transcription API error:', err);
+    return jsonError(502, 'Transcription request failed');
+  }
+}
@@ -1,5 +1,5 @@
 import Header from '@/components/Header';
-import React, { useState, useRef, useCallback, useEffect } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import { View, Text, Pressable, KeyboardAvoidingView, Platform, ScrollView, ActivityIndicator } from 'react-native';
 import Icon, { IconName } from '@/components/Icon';
 import ThemedText from '@/components/ThemedText';
@@ -9,69 +9,91 @@ import { BotSwitch } from '@/components/BotSwitch';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useThemeColors } from '@/contexts/ThemeColors';
 import { useAuth } from '@/contexts/AuthContext';
-import { useFocusEffect } from 'expo-router';
+import { useFocusEffect, useLocalSearchParams } from 'expo-router';
 import { Conversation, Message } from '@/components/Conversation';
+import { ToolInvocation } from '@/components/chat/ToolResults';
 import { ConversationErrorBoundary } from '@/components/ConversationErrorBoundary';
-import { streamMessage, isConfigured, AIMessage } from '@/services/ai';
-import { messageService, Conversation as ConversationType } from '@/services/messages';
+import {
+    routeChatStream,
+    isConfigured,
+    applySummary,
+    updateSummaryIfNeeded,
+    ChatMessage,
+} from '@/services/ai';
+import { messageService } from '@/services/messages';
+import { runResearch, createCitationInvocation } from '@/services/ai/research';
+import { applyToolEvent, isToolEvent } from '@/services/ai/tools';
+import { useConversation, useLatestConversation } from '@/hooks/useConversations';
+import { useOrganizationStore } from '@/stores/organizationStore';
+import { useRoutingPolicy } from '@/hooks/useRoutingPolicy';
+import { Id } from '@/convex/_generated/dataModel';
 
 const HomeScreen = () => {
     const colors = useThemeColors();
     const { user } = useAuth();
     const userName = user?.name?.split(' ')[0] || 'Guest';
     const scrollViewRef = useRef<ScrollView>(null);
-    const [messages, setMessages] = useState<Message[]>([]);
+    const params = useLocalSearchParams<{ conversationId?: string; newChat?: string }>();
+    const { activeOrganizationId } = useOrganizationStore();
+    const routingPolicy = useRoutingPolicy(activeOrganizationId);
+    // undefined until we know which conversation to show, null for a new (unsaved) chat
+    const [conversationId, setConversationId] = useState<Id<'conversations'> | null | undefined>(undefined);
+    const [pendingMessages, setPendingMessages] = useState<Message[]>([]);
     const [isTyping, setIsTyping] = useState(false);
-    const [currentConversation, setCurrentConversation] = useState<ConversationType | null>(null);
-    const [isLoading, setIsLoading] = useState(true);
+    const { conversation: latestConversation, isLoading: isLatestLoading } = useLatestConversation(activeOrganizationId);
+    const {
+        conversation,
+        messages: storedMessages,
+        isLoading: isMessagesLoading,
+        createConversation,
+        appendMessage,
+        updateSummary,
+    } = useConversation(conversationId ?? null);
 
-    // Load or create conversation on mount
+    // Read once a reply has finished, when the render that sent the message is stale
+    const conversationRef = useRef(conversation);
+    conversationRef.current = conversation;
+
+    // Persisted messages come from Convex; pending ones are optimistic or still streaming
+    const messages = useMemo(() => {
+        const storedIds = new Set(storedMessages.map(m => m.id));
+        return [...storedMessages, ...pendingMessages.filter(m => !storedIds.has(m.id))];
+    }, [storedMessages, pendingMessages]);
+
+    // Switching organization goes back to that organization's latest conversation
     useEffect(() => {
-        const initConversation = async () => {
-            try {
-                const conversations = await messageService.loadConversations();
-                
-                if (conversations.length > 0) {
-                    // Use the most recent conversation
-                    const mostRecent = conversations.sort((a, b) => b.updatedAt - a.updatedAt)[0];
-                    setCurrentConversation(mostRecent);
-                    setMessages(mostRecent.messages);
-                } else {
-                    // Create a new conversation
-                    const newConv = messageService.createConversation();
-                    setCurrentConversation(newConv);
-                    await messageService.saveConversation(newConv);
-                }
-            } catch (error) {
-                console.error('Error initializing conversation:', error);
-                // Fallback to new conversation
-                const newConv = messageService.createConversation();
-                setCurrentConversation(newConv);
-            } finally {
-                setIsLoading(false);
-            }
-        };
+        setConversationId(undefined);
+        setPendingMessages([]);
+    }, [activeOrganizationId]);
 
-        initConversation();
-    }, []);
+    // Open a specific conversation (e.g. selected from the drawer)
+    useEffect(() => {
+        if (!params.conversationId) return;
+        setConversationId(params.conversationId as Id<'conversations'>);
+        setPendingMessages([]);
+    }, [params.conversationId]);
 
-    // Save messages whenever they change
+    // Start a fresh chat; the conversation is created when the first message is sent
     useEffect(() => {
-        const saveMessages = async () => {
-            if (currentConversation && messages.length > 0) {
-                const updatedConv: ConversationType = {
-                    ...currentConversation,
-                    messages,
-                    updatedAt: Date.now(),
-                    title: messageService.generateTitle(messages),
-                };
-                await messageService.saveConversation(updatedConv);
-                setCurrentConversation(updatedConv);
-            }
-        };
+        if (!params.newChat) return;
+        setConversationId(null);
+        setPendingMessages([]);
+    }, [params.newChat]);
 
-        saveMessages();
-    }, [messages]);
+    // Default to the most recent conversation
+    useEffect(() => {
+        if (conversationId !== undefined || isLatestLoading) return;
+        setConversationId(current => current === undefined ? latestConversation?._id ?? null : current);
+    }, [conversationId, isLatestLoading, latestConversation]);
+
+    // Drop pending messages once their persisted copy has arrived
+    useEffect(() => {
+        const storedIds = new Set(storedMessages.map(m => m.id));
+        setPendingMessages(prev => {
+            const remaining = prev.filter(m => !storedIds.has(m.id));
+            return remaining.length === prev.length ? prev : remaining;
+        });
+    }, [storedMessages]);
 
     useFocusEffect(
         useCallback(() => {
@@ -83,6 +105,50 @@ const HomeScreen = () => {
         }, [messages])
     );
 
+    const updatePendingMessage = (id: string, updates: Partial<Message>) => {
+        setPendingMessages(prev => prev.map(m => (m.id === id ? { ...m, ...updates } : m)));
+    };
+
+    // Persist a message, swapping its temporary ID for the stored one
+    const persistMessage = async (
+        targetId: Id<'conversations'>,
+        localId: string,
+        role: 'user' | 'assistant',
+        content: string,
+        metadata?: Record<string, any>
+    ): Promise<string | null> => {
+        try {
+            const storedId = await appendMessage({ conversationId: targetId, role, content, metadata });
+            updatePendingMessage(localId, { id: storedId, isStreaming: false });
+            return storedId;
+        } catch (error) {
+            console.error('Error saving message:', error);
+            return null;
+        }
+    };
+
+    // Fold older turns into the conversation's rolling summary once the history gets long.
+    // Takes the finished history, as the messages of the render that sent the turn are stale.
+    const refreshSummary = (targetId: Id<'conversations'>, finished: Message[]) => {
+        const current = conversationRef.current;
+        if (targetId !== current?._id) return;
+
+        const stored = finished.filter(m => !m.id.startsWith('pending-'));
+        updateSummaryIfNeeded(messageService.toContextMessages(stored), current.summary, {
+            policy: routingPolicy,
+            organizationId: activeOrganizationId ?? undefined,
+        })
+            .then(summary => {
+                if (!summary) return;
+                return updateSummary({
+                    conversationId: targetId,
+                    ...summary,
+                    lastMessageId: summary.lastMessageId as Id<'messages'>,
+                });
+            })
+            .catch(error => console.error('Error updating conversation summary:', error));
+    };
+
     const handleSendMessage = async (
         text: string, 
         images?: string[], 
@@ -91,12 +157,30 @@ const HomeScreen = () => {
         // Add user message with mode prefix
         const modePrefix = mode === 'web-search' ? '🔍 ' : mode === 'deep-research' ? '🔬 ' : '';
         const userMessage: Message = {
-            id: Date.now().toString(),
+            id: `pending-${Date.now()}`,
             type: 'user',
             content: `${modePrefix}${text}`,
             timestamp: new Date(),
         };
-        setMessages(prev => [...prev, userMessage]);
+        const history = messages;
+        setPendingMessages(prev => [...prev, userMessage]);
+
+        // Create the conversation on the first message
+        let targetId = conversationId ?? null;
+        if (!targetId) {
+            try {
+                targetId = await createConversation({
+                    organizationId: activeOrganizationId ?? undefined,
+                });
+                setConversationId(targetId);
+            } catch (error) {
+                console.error('Error creating conversation:', error);
+            }
+        }
+
+        const userSaved = targetId
+            ? persistMessage(targetId, userMessage.id, 'user', userMessage.content)
+            : Promise.resolve(null);
 
         // Check if AI is configured
         if (!isConfigured()) {
@@ -115,12 +199,12 @@ const HomeScreen = () => {
                 }
                 
                 const assistantMessage: Message = {
-                    id: (Date.now() + 1).toString(),
+                    id: `pending-${Date.now() + 1}`,
                     type: 'assistant',
                     content: responseContent,
                     timestamp: new Date(),
                 };
-                setMessages(prev => [...prev, assistantMessage]);
+                setPendingMessages(prev => [...prev, assistantMessage]);
             }, 1000);
             return;
         }
@@ -129,7 +213,7 @@ const HomeScreen = () => {
         setIsTyping(true);
 
         // Create assistant message for streaming
-        const assistantId = (Date.now() + 1).toString();
+        const assistantId = `pending-${Date.now() + 1}`;
         const assistantMessage: Message = {
             id: assistantId,
             type: 'assistant',
@@ -138,67 +222,130 @@ const HomeScreen = () => {
             isStreaming: true,
         };
 
-        // Build conversation history for context
-        let userContent = text;
-        
-        // Add mode-specific system prompts
-        if (mode === 'web-search') {
-            userContent = `[Web Search Mode] ${text}\n\nPlease search for current information about this topic and provide relevant findings with sources if possible.`;
-        } else if (mode === 'deep-research') {
-            userContent = `[Deep Research Mode] ${text}\n\nPlease provide a comprehensive, detailed analysis of this topic with thorough explanations and examples.`;
-        }
+        // Summarize with this turn included, under the IDs it was stored with
+        const refreshSummaryWithTurn = async (
+            targetId: Id<'conversations'>,
+            reply: string,
+            replySaved: Promise<string | null>
+        ) => {
+            const [userStoredId, replyStoredId] = await Promise.all([userSaved, replySaved]);
+            if (!userStoredId || !replyStoredId) return;
+            refreshSummary(targetId, [
+                ...history,
+                { ...userMessage, id: userStoredId },
+                { ...assistantMessage, id: replyStoredId, content: reply, isStreaming: false },
+            ]);
+        };
 
-        const aiMessages: AIMessage[] = [
-            ...messages.map(m => ({
-                role: m.type as 'user' | 'assistant',
-                content: m.content.replace(/^[🔍🔬] /, ''), // Remove mode prefixes from history
-            })),
-            { role: 'user' as const, content: userContent },
+        // Build conversation history for context, with older turns replaced by the summary
+        const aiMessages: ChatMessage[] = [
+            ...applySummary(messageService.toContextMessages(history), conversation?.summary),
+            { role: 'user', content: text },
         ];
 
+        // Web search and deep research answer from live sources with numbered citations
+        if (mode !== 'chat') {
+            setIsTyping(false);
+            setPendingMessages(prev => [...prev, { ...assistantMessage, toolInvocations: [] }]);
+
+            try {
+                const { text: answer, sources, provider, model } = await runResearch(mode, text, {
+                    policy: routingPolicy,
+                    organizationId: activeOrganizationId ?? undefined,
+                    history: aiMessages.slice(0, -1),
+                    onText: (chunk) => {
+                        setPendingMessages(prev =>
+                            prev.map(m => (m.id === assistantId ? { ...m, content: m.content + chunk } : m))
+                        );
+                    },
+                    onEvent: (event) => {
+                        setPendingMessages(prev =>
+                            prev.map(m =>
+                                m.id === assistantId
+                                    ? { ...m, toolInvocations: applyToolEvent(m.toolInvocations ?? [], event) }
+                                    : m
+                            )
+                        );
+                    },
+                });
+
+                // Replace the research steps with the numbered source list
+                const toolInvocations = sources.length > 0 ? [createCitationInvocation(sources)] : [];
+                updatePendingMessage(assistantId, { content: answer, isStreaming: false, toolInvocations, provider, model });
+                if (targetId) {
+                    await refreshSummaryWithTurn(
+                        targetId,
+                        answer,
+                        persistMessage(targetId, assistantId, 'assistant', answer, { mode, toolInvocations, provider, model })
+                    );
+                }
+            } catch (error) {
+                updatePendingMessage(assistantId, {
+                    content: `Error: ${error instanceof Error ? error.message : 'Something went wrong'}`,
+                    isStreaming: false,
+                    toolInvocations: [],
+                });
+            }
+            return;
+        }
+
         try {
             setIsTyping(false);
-            setMessages(prev => [...prev, assistantMessage]);
-
-            // Stream the response
-            await streamMessage(aiMessages, (chunk) => {
-                setMessages(prev =>
-                    prev.map(m =>
-                        m.id === assistantId
-                            ? { ...m, content: m.content + chunk }
-                            : m
-                    )
-                );
-            });
+            setPendingMessages(prev => [...prev, assistantMessage]);
 
-            // Mark streaming as complete
-            setMessages(prev =>
-                prev.map(m =>
-                    m.id === assistantId
-                        ? { ...m, isStreaming: false }
-                        : m
-                )
+            // Stream the response, tracking any tool calls the model makes
+            let toolInvocations: ToolInvocation[] = [];
+            const { text: fullResponse, provider, model } = await routeChatStream(
+                aiMessages,
+                (chunk) => {
+                    if (chunk.isComplete) return;
+                    setPendingMessages(prev =>
+                        prev.map(m =>
+                            m.id === assistantId
+                                ? { ...m, content: m.content + chunk.text }
+                                : m
+                        )
+                    );
+                },
+                { task: 'chat', policy: routingPolicy, organizationId: activeOrganizationId ?? undefined },
+                (event) => {
+                    if (!isToolEvent(event)) return;
+                    toolInvocations = applyToolEvent(toolInvocations, event);
+                    updatePendingMessage(assistantId, { toolInvocations });
+                }
             );
+
+            // Mark streaming as complete and persist the reply with the provider that answered
+            updatePendingMessage(assistantId, { content: fullResponse, isStreaming: false, provider, model });
+            if (targetId) {
+                await refreshSummaryWithTurn(
+                    targetId,
+                    fullResponse,
+                    persistMessage(targetId, assistantId, 'assistant', fullResponse, {
+                        provider,
+                        model,
+                        ...(toolInvocations.length > 0 && { toolInvocations }),
+                    })
+                );
+            }
         } catch (error) {
             setIsTyping(false);
             const errorMessage: Message = {
-                id: (Date.now() + 2).toString(),
+                id: `pending-${Date.now() + 2}`,
                 type: 'assistant',
                 content: `Error: ${error instanceof Error ? error.message : 'Something went wrong'}`,
                 timestamp: new Date(),
             };
-            setMessages(prev => {
+            setPendingMessages(prev => {
                 const filtered = prev.filter(m => m.id !== assistantId || m.content !== '');
                 return [...filtered, errorMessage];
             });
         }
     };
 
-    const startNewChat = async () => {
-        const newConv = messageService.createConversation();
-        setCurrentConversation(newConv);
-        setMessages([]);
-        await messageService.saveConversation(newConv);
+    const startNewChat = () => {
+        setConversationId(null);
+        setPendingMessages([]);
     };
 
     const rightComponents = [
@@ -211,6 +358,9 @@ const HomeScreen = () => {
 
     const hasMessages = messages.length > 0;
 
+    const isLoading =
+        conversationId === undefined || (isMessagesLoading && pendingMessages.length === 0);
+
     if (isLoading) {
         return (
             <View className="flex-1 bg-background items-center justify-center">
@@ -234,7 +384,7 @@ const HomeScreen = () => {
                             leftComponent={leftComponent}
                             rightComponents={rightComponents} />
                         {hasMessages ? (
-                            <ConversationErrorBoundary onReset={() => setMessages([])}>
+                            <ConversationErrorBoundary onReset={startNewChat}>
                                 <Conversation messages={messages} isTyping={isTyping} />
                             </ConversationErrorBoundary>
                         ) : (
@@ -24,7 +24,7 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import {
   AudioSession,
   useIOSAudioManagement,
@@ -47,6 +47,8 @@ import FunctionCallDisplay from '@/components/livekit-agent/FunctionCallDisplay'
 import { useAgentState } from '@/hooks/useAgentState';
 import { useAgentTranscription } from '@/hooks/useAgentTranscription';
 import { ConnectionProvider } from '@/hooks/useConnection';
+import { useVoiceSessionRecorder } from '@/hooks/useVoiceSessionRecorder';
+import { Id } from '@/convex/_generated/dataModel';
 import Icon from '@/components/Icon';
 
 type ViewMode = 'conversation' | 'transcript' | 'metrics' | 'settings';
@@ -83,6 +85,7 @@ export default function LiveKitAgentScreen() {
 
 function LiveKitAgentContent() {
   const router = useRouter();
+  const { conversationId } = useLocalSearchParams<{ conversationId?: string }>();
   const room = useRoomContext();
   const connectionState = useConnectionState();
   const { isMicrophoneEnabled } = useLocalParticipant();
@@ -109,6 +112,14 @@ function LiveKitAgentContent() {
     isSpeaking,
   } = useAgentTranscription();
 
+  // Persist the call and its transcript for the history screen
+  useVoiceSessionRecorder({
+    transcript,
+    agentParticipant,
+    agentMetadata,
+    conversationId: conversationId as Id<'conversations'> | undefined,
+  });
+
   // Data channel for agent metadata
   const { message: agentMessage } = useDataChannel();
 
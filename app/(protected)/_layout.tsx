@@ -1,9 +1,11 @@
 import React from 'react';
 import { Stack, Redirect } from 'expo-router';
 import { useAuth } from '@/contexts/AuthContext';
+import { useInviteStore } from '@/stores/inviteStore';
 
 export default function ProtectedLayout() {
   const { isAuthenticated, isInitializing } = useAuth();
+  const pendingInviteToken = useInviteStore((state) => state.pendingToken);
 
   // Show loading state while auth is initializing
   if (isInitializing) {
@@ -15,6 +17,11 @@ export default function ProtectedLayout() {
     return <Redirect href="/screens/welcome" />;
   }
 
+  // Finish accepting an invitation link opened before signing in
+  if (pendingInviteToken) {
+    return <Redirect href={`/invite/${pendingInviteToken}`} />;
+  }
+
   return (
     <Stack
       screenOptions={{
@@ -117,6 +117,11 @@ function ThemedLayout() {
           name="screens/help"
           options={{ headerShown: false, animation: 'fade' }}
         />
+        {/* Invitation links - usable signed in or out */}
+        <Stack.Screen
+          name="invite/[token]"
+          options={{ headerShown: false, animation: 'fade' }}
+        />
         {/* Protected routes - handles auth internally */}
         <Stack.Screen
           name="(protected)"
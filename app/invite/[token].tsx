@@ -0,0 +1,168 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { View, Image, Platform, Pressable, ActivityIndicator } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import * as Linking from 'expo-linking';
+import { useMutation, useQuery } from 'convex/react';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { api } from '@/convex/_generated/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { useInviteStore } from '@/stores/inviteStore';
+import ThemedText from '@/components/ThemedText';
+import { Button } from '@/components/Button';
+
+const roleLabels: Record<string, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  viewer: 'Viewer',
+};
+
+/**
+ * Landing screen for invitation links (`alias-executive-agent://invite/<token>`,
+ * or `/invite/<token>` on the web). Signed-out users sign in or sign up first;
+ * the token is kept in the invite store and the invitation is accepted on return.
+ */
+export default function InviteScreen() {
+  const insets = useSafeAreaInsets();
+  const { token } = useLocalSearchParams<{ token: string }>();
+  const { isAuthenticated } = useAuth();
+  const { pendingToken, setPendingToken, clearPendingToken } = useInviteStore();
+
+  const invite = useQuery(api.invitations.getByToken, token ? { token } : 'skip');
+  // A fresh signup can be authenticated before its Convex user has been stored
+  const currentUser = useQuery(api.users.getCurrentUser, isAuthenticated ? {} : 'skip');
+  const acceptInvitation = useMutation(api.memberships.acceptInvitation);
+
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const autoAccepted = useRef(false);
+
+  const handleAccept = useCallback(async () => {
+    if (!token) return;
+
+    setIsAccepting(true);
+    setError(null);
+    try {
+      await acceptInvitation({ token });
+      clearPendingToken();
+      router.replace('/(protected)/(drawer)/');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept invitation');
+    } finally {
+      setIsAccepting(false);
+    }
+  }, [token, acceptInvitation, clearPendingToken]);
+
+  const handleContinue = (path: '/screens/login' | '/screens/signup') => {
+    if (token) setPendingToken(token);
+    router.push(path);
+  };
+
+  const handleDismiss = () => {
+    clearPendingToken();
+    router.replace(isAuthenticated ? '/(protected)/(drawer)/' : '/screens/welcome');
+  };
+
+  // Back from login or signup: accept without asking again
+  useEffect(() => {
+    if (autoAccepted.current) return;
+    if (!token || pendingToken !== token || !invite?.valid || !currentUser) return;
+
+    autoAccepted.current = true;
+    handleAccept();
+  }, [token, pendingToken, invite?.valid, currentUser, handleAccept]);
+
+  // A dead link should not keep redirecting here after sign-in
+  useEffect(() => {
+    if (invite && !invite.valid && pendingToken === token) {
+      clearPendingToken();
+    }
+  }, [invite, pendingToken, token, clearPendingToken]);
+
+  if (invite === undefined || (isAuthenticated && currentUser === undefined)) {
+    return (
+      <View className="flex-1 items-center justify-center bg-background">
+        <ActivityIndicator />
+      </View>
+    );
+  }
+
+  if (!invite.valid) {
+    return (
+      <View style={{ paddingTop: insets.top }} className="flex-1 bg-background p-10">
+        <ThemedText className="mb-1 mt-10 text-3xl font-bold">Invitation unavailable</ThemedText>
+        <ThemedText className="mb-14 text-subtext">{invite.error}</ThemedText>
+        <Button title="Continue" onPress={handleDismiss} size="large" rounded="full" />
+      </View>
+    );
+  }
+
+  const isSettingUp = isAuthenticated && !currentUser;
+
+  return (
+    <View style={{ paddingTop: insets.top }} className="flex-1 bg-background p-10">
+      <View className="mb-14 mt-10">
+        {invite.organization?.logoUrl && (
+          <Image
+            source={{ uri: invite.organization.logoUrl }}
+            className="mb-6 h-16 w-16 rounded-2xl"
+          />
+        )}
+        <ThemedText className="mb-1 text-3xl font-bold">
+          Join {invite.organization?.name}
+        </ThemedText>
+        <ThemedText className="text-subtext">
+          {invite.invitedByName ? `${invite.invitedByName} invited you` : 'You were invited'} to
+          join as {roleLabels[invite.role ?? 'member']}.
+        </ThemedText>
+        {invite.email && (
+          <ThemedText className="mt-2 text-sm text-subtext">Sent to {invite.email}</ThemedText>
+        )}
+      </View>
+
+      {error && <ThemedText className="mb-4 text-red-500">{error}</ThemedText>}
+
+      {isAuthenticated ? (
+        <Button
+          title={isSettingUp ? 'Setting up your account...' : 'Accept Invitation'}
+          onPress={handleAccept}
+          loading={isAccepting}
+          disabled={isAccepting || isSettingUp}
+          size="large"
+          rounded="full"
+          className="mb-4"
+        />
+      ) : (
+        <>
+          <Button
+            title="Log in to Accept"
+            onPress={() => handleContinue('/screens/login')}
+            size="large"
+            rounded="full"
+            className="mb-4"
+          />
+          <Button
+            title="Create an Account"
+            variant="outline"
+            onPress={() => handleContinue('/screens/signup')}
+            size="large"
+            rounded="full"
+            className="mb-4"
+          />
+        </>
+      )}
+
+      {Platform.OS === 'web' && token && (
+        <Pressable
+          onPress={() => Linking.openURL(`alias-executive-agent://invite/${token}`)}
+          className="mb-4 items-center">
+          <ThemedText className="underline">Open in the app</ThemedText>
+        </Pressable>
+      )}
+
+      <Pressable onPress={handleDismiss} className="mt-4 items-center">
+        <ThemedText className="text-subtext">Not now</ThemedText>
+      </Pressable>
+    </View>
+  );
+}
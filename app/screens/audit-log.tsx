@@ -0,0 +1,292 @@
+import React, { useMemo, useState } from 'react';
+import { View, FlatList, Pressable, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import Header, { HeaderIcon } from '@/components/Header';
+import ThemedText from '@/components/ThemedText';
+import Input from '@/components/forms/Input';
+import { Doc, Id } from '@/convex/_generated/dataModel';
+import {
+  AuditLogFilters,
+  useAuditLogs,
+  useOrganization,
+  useOrganizationMembers,
+} from '@/hooks/useOrganizations';
+import { useOrganizationStore } from '@/stores/organizationStore';
+import { shareTextFile } from '@/services/sharing';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RANGES: { label: string; days: number | null }[] = [
+  { label: '24h', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: 'All time', days: null },
+];
+
+const RESOURCES = [
+  'organization',
+  'organizationMembership',
+  'organizationSettings',
+  'invitation',
+  'subscription',
+  'session',
+  'user',
+];
+
+const RETENTION_OPTIONS = [30, 90, 180, 365, 730];
+
+function Chip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      className={`mr-2 rounded-full border px-3 py-1.5 ${
+        selected ? 'bg-highlight/10 border-highlight' : 'bg-surface border-border'
+      }`}>
+      <ThemedText className="text-xs">{label}</ThemedText>
+    </Pressable>
+  );
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+// e.g. "organizationMemberships: role admin → member"
+function describeChanges(changes: NonNullable<Doc<'auditLogs'>['changes']>): string {
+  return changes
+    .map((change) => {
+      if (change.operation === 'insert') return `${change.table} created`;
+      if (change.operation === 'delete') return `${change.table} deleted`;
+
+      const fields = Object.keys(change.after ?? {});
+      return `${change.table}: ${fields
+        .map(
+          (field) =>
+            `${field} ${formatValue(change.before?.[field])} → ${formatValue(change.after?.[field])}`
+        )
+        .join(', ')}`;
+    })
+    .join(' · ');
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '–';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Audit log viewer for organization admins (needs the audit.read permission)
+ */
+export default function AuditLogScreen() {
+  const { activeOrganizationId } = useOrganizationStore();
+  const { can, isLoading: isOrganizationLoading } = useOrganization(activeOrganizationId);
+  const { members } = useOrganizationMembers(activeOrganizationId);
+
+  const [actionPrefix, setActionPrefix] = useState('');
+  const [rangeDays, setRangeDays] = useState<number | null>(7);
+  const [userId, setUserId] = useState<Id<'users'> | undefined>();
+  const [resource, setResource] = useState<string | undefined>();
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Round the range start to the minute so the query args stay stable between renders
+  const filters = useMemo<AuditLogFilters>(() => {
+    const now = Math.floor(Date.now() / 60000) * 60000;
+    return {
+      userId,
+      resource,
+      actionPrefix: actionPrefix.trim() || undefined,
+      from: rangeDays ? now - rangeDays * DAY_MS : undefined,
+    };
+  }, [userId, resource, actionPrefix, rangeDays]);
+
+  const { logs, retention, isLoading, isLoadingMore, hasMore, loadMore, exportLogs, setRetention } =
+    useAuditLogs(activeOrganizationId, filters);
+
+  const handleExport = (format: 'csv' | 'jsonl') => async () => {
+    setIsExporting(true);
+    try {
+      const result = await exportLogs(format);
+      if (!result) return;
+
+      await shareTextFile(result.filename, result.content, result.mimeType);
+      if (result.truncated) {
+        Alert.alert(
+          'Export truncated',
+          `Only the newest ${result.rowCount} entries were exported. Narrow the filters to export the rest.`
+        );
+      }
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to export audit log');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const promptExport = () => {
+    Alert.alert('Export Audit Log', 'Exports the entries matching the current filters.', [
+      { text: 'CSV', onPress: handleExport('csv') },
+      { text: 'JSON Lines', onPress: handleExport('jsonl') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const promptRetention = () => {
+    Alert.alert('Keep Audit Logs For', 'Older entries are deleted nightly.', [
+      ...RETENTION_OPTIONS.map((days) => ({
+        text: `${days} days`,
+        onPress: () => {
+          setRetention(days).catch((error) =>
+            Alert.alert(
+              'Error',
+              error instanceof Error ? error.message : 'Failed to update retention'
+            )
+          );
+        },
+      })),
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  if (!isOrganizationLoading && !can('audit.read')) {
+    return (
+      <View className="flex-1 bg-background">
+        <Header title="Audit Log" showBackButton />
+        <View className="p-6">
+          <ThemedText className="text-subtext">
+            You need admin access to view this organization's audit log.
+          </ThemedText>
+        </View>
+      </View>
+    );
+  }
+
+  const memberName = (member: (typeof members)[number]) =>
+    [member.user?.firstName, member.user?.lastName].filter(Boolean).join(' ') ||
+    member.user?.email ||
+    'Unknown';
+
+  return (
+    <View className="flex-1 bg-background">
+      <Header
+        title="Audit Log"
+        showBackButton
+        rightComponents={[
+          isExporting ? (
+            <ActivityIndicator key="exporting" />
+          ) : (
+            <HeaderIcon key="export" icon="Download" href="#" onPress={promptExport} />
+          ),
+        ]}
+      />
+
+      <FlatList
+        data={logs}
+        keyExtractor={(item) => item._id}
+        onEndReached={() => hasMore && loadMore()}
+        onEndReachedThreshold={0.5}
+        ListHeaderComponent={
+          <View className="border-b border-border px-4 pb-4 pt-2">
+            <Input
+              label="Action"
+              placeholder="e.g. member."
+              value={actionPrefix}
+              onChangeText={setActionPrefix}
+              autoCapitalize="none"
+            />
+
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+              {RANGES.map((range) => (
+                <Chip
+                  key={range.label}
+                  label={range.label}
+                  selected={rangeDays === range.days}
+                  onPress={() => setRangeDays(range.days)}
+                />
+              ))}
+            </ScrollView>
+
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+              <Chip
+                label="Any resource"
+                selected={!resource}
+                onPress={() => setResource(undefined)}
+              />
+              {RESOURCES.map((name) => (
+                <Chip
+                  key={name}
+                  label={name}
+                  selected={resource === name}
+                  onPress={() => setResource(name)}
+                />
+              ))}
+            </ScrollView>
+
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <Chip label="Anyone" selected={!userId} onPress={() => setUserId(undefined)} />
+              {members.map((member) => (
+                <Chip
+                  key={member._id}
+                  label={memberName(member)}
+                  selected={userId === member.userId}
+                  onPress={() => setUserId(member.userId)}
+                />
+              ))}
+            </ScrollView>
+
+            {retention && (
+              <Pressable
+                onPress={can('roles.manage') ? promptRetention : undefined}
+                className="mt-4">
+                <ThemedText className="text-xs text-subtext">
+                  Entries are kept for {retention.days} days
+                  {can('roles.manage') ? ' · Change' : ''}
+                </ThemedText>
+              </Pressable>
+            )}
+          </View>
+        }
+        renderItem={({ item }) => (
+          <View className="border-b border-border px-4 py-3">
+            <View className="mb-1 flex-row justify-between">
+              <ThemedText className="mr-3 flex-1 font-medium" numberOfLines={1}>
+                {item.action}
+              </ThemedText>
+              <ThemedText className="text-xs text-subtext">{formatTime(item.createdAt)}</ThemedText>
+            </View>
+            <ThemedText className="text-xs text-subtext" numberOfLines={1}>
+              {item.user?.email ?? 'System'} · {item.resource}
+              {item.resourceId ? ` ${item.resourceId}` : ''}
+            </ThemedText>
+            {item.changes && item.changes.length > 0 && (
+              <ThemedText className="mt-1 text-xs text-subtext" numberOfLines={2}>
+                {describeChanges(item.changes)}
+              </ThemedText>
+            )}
+          </View>
+        )}
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator className="mt-8" />
+          ) : (
+            <ThemedText className="mt-8 text-center text-subtext">
+              No entries match these filters
+            </ThemedText>
+          )
+        }
+        ListFooterComponent={isLoadingMore ? <ActivityIndicator className="my-4" /> : null}
+      />
+    </View>
+  );
+}
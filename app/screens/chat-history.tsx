@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { View, Alert, FlatList, Pressable, ActivityIndicator } from 'react-native';
+import { router } from 'expo-router';
+import Header from '@/components/Header';
+import ThemedText from '@/components/ThemedText';
+import Icon from '@/components/Icon';
+import { Chip } from '@/components/Chip';
+import { ChatHistoryList } from '@/components/chat';
+import { Doc, Id } from '@/convex/_generated/dataModel';
+import { useChatHistory } from '@/hooks/useChatHistory';
+import { useVoiceSessions } from '@/hooks/useVoiceSessions';
+import { useOrganizationStore } from '@/stores/organizationStore';
+import { Chat, formatChatTimestamp } from '@/utils/groupChatsByDate';
+import { formatDuration } from '@/utils/date';
+
+type HistoryTab = 'chats' | 'voice';
+
+export default function ChatHistoryScreen() {
+  const { activeOrganizationId } = useOrganizationStore();
+  const [tab, setTab] = useState<HistoryTab>('chats');
+  const { groupedChats, isLoading, isLoadingMore, hasMore, loadMore, deleteChat } = useChatHistory({
+    organizationId: activeOrganizationId,
+  });
+
+  const openChat = (chat: Chat) => {
+    router.push({ pathname: '/(protected)/(drawer)/', params: { conversationId: chat.id } });
+  };
+
+  const startNewChat = () => {
+    router.push({ pathname: '/(protected)/(drawer)/', params: { newChat: Date.now().toString() } });
+  };
+
+  const confirmDelete = (chatId: string) => {
+    Alert.alert('Delete conversation', 'This conversation will be removed from all devices.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteChat(chatId) },
+    ]);
+  };
+
+  return (
+    <View className="flex-1 bg-background">
+      <Header title="History" showBackButton />
+      <View className="flex-row px-5 py-3">
+        <Chip
+          label="Chats"
+          icon="MessageSquare"
+          isSelected={tab === 'chats'}
+          onPress={() => setTab('chats')}
+          className="mr-2"
+        />
+        <Chip
+          label="Voice calls"
+          icon="Phone"
+          isSelected={tab === 'voice'}
+          onPress={() => setTab('voice')}
+        />
+      </View>
+      {tab === 'chats' ? (
+        <ChatHistoryList
+          groupedChats={groupedChats}
+          isLoading={isLoading}
+          isLoadingMore={isLoadingMore}
+          hasMore={hasMore}
+          onSelectChat={openChat}
+          onDeleteChat={confirmDelete}
+          onCreateChat={startNewChat}
+          onLoadMore={loadMore}
+        />
+      ) : (
+        <VoiceSessionHistory organizationId={activeOrganizationId} />
+      )}
+    </View>
+  );
+}
+
+/**
+ * Past voice calls; each opens a replay of its transcript
+ */
+function VoiceSessionHistory({ organizationId }: { organizationId: Id<'organizations'> | null }) {
+  const { sessions, isLoading, isLoadingMore, hasMore, loadMore, deleteSession } = useVoiceSessions(
+    { organizationId }
+  );
+
+  const openSession = (session: Doc<'voiceSessions'>) => {
+    router.push({ pathname: '/screens/voice-session', params: { sessionId: session._id } });
+  };
+
+  const confirmDelete = (session: Doc<'voiceSessions'>) => {
+    Alert.alert('Delete voice call', 'The call and its transcript will be removed.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteSession(session._id) },
+    ]);
+  };
+
+  return (
+    <FlatList
+      data={sessions}
+      keyExtractor={(item) => item._id}
+      renderItem={({ item }) => (
+        <Pressable
+          onPress={() => openSession(item)}
+          className="flex-row items-center border-b border-border px-5 py-4">
+          <Icon name="Phone" size={20} className="mr-4" />
+          <View className="mr-3 flex-1">
+            <View className="flex-row items-center justify-between">
+              <ThemedText className="font-medium">
+                {item.status === 'active' ? 'Call in progress' : 'Voice call'}
+              </ThemedText>
+              <ThemedText className="text-xs text-subtext">
+                {formatChatTimestamp(item.startedAt)}
+              </ThemedText>
+            </View>
+            {item.lastSegmentPreview && (
+              <ThemedText className="text-sm text-subtext" numberOfLines={1}>
+                {item.lastSegmentPreview}
+              </ThemedText>
+            )}
+            <ThemedText className="text-xs text-subtext">
+              {[
+                item.durationMs !== undefined && formatDuration(item.durationMs),
+                `${item.segmentCount} ${item.segmentCount === 1 ? 'line' : 'lines'}`,
+              ]
+                .filter(Boolean)
+                .join(' · ')}
+            </ThemedText>
+          </View>
+          <Pressable onPress={() => confirmDelete(item)} hitSlop={8}>
+            <Icon name="Trash2" size={16} color="#EF4444" />
+          </Pressable>
+        </Pressable>
+      )}
+      onEndReached={hasMore ? loadMore : undefined}
+      ListEmptyComponent={
+        isLoading ? (
+          <ActivityIndicator className="mt-8" />
+        ) : (
+          <ThemedText className="mt-8 text-center text-subtext">No voice calls yet</ThemedText>
+        )
+      }
+      ListFooterComponent={isLoadingMore ? <ActivityIndicator className="my-4" /> : null}
+    />
+  );
+}
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { View, FlatList, Alert, ActivityIndicator, Pressable } from 'react-native';
+import Header from '@/components/Header';
+import ThemedText from '@/components/ThemedText';
+import Icon from '@/components/Icon';
+import { Button } from '@/components/Button';
+import { Doc } from '@/convex/_generated/dataModel';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSessions } from '@/hooks/useOrganizations';
+
+const DEVICE_ICONS = {
+  ios: 'Smartphone',
+  android: 'Smartphone',
+  web: 'Globe',
+} as const;
+
+function formatLastActive(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 5) return 'Active now';
+  if (minutes < 60) return `Active ${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Active ${hours}h ago`;
+
+  return `Last active ${new Date(timestamp).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+  })}`;
+}
+
+/**
+ * Devices signed in to the account, with remote sign-out
+ */
+export default function DevicesScreen() {
+  const { logout } = useAuth();
+  const { sessions, currentSessionId, isLoading, endSession, endAllOtherSessions } = useSessions();
+  const [isEndingOthers, setIsEndingOthers] = useState(false);
+
+  const otherSessions = sessions.filter((session) => session._id !== currentSessionId);
+
+  const handleSignOut = (session: Doc<'sessions'>) => {
+    const isCurrent = session._id === currentSessionId;
+
+    Alert.alert(
+      'Sign out this device?',
+      isCurrent
+        ? 'You will be signed out of the app on this device.'
+        : `${session.deviceName ?? 'This device'} will be signed out the next time it connects.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign out',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              if (isCurrent) {
+                await logout();
+              } else {
+                await endSession(session._id);
+              }
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to sign out');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSignOutOthers = () => {
+    Alert.alert(
+      'Sign out everywhere else?',
+      `${otherSessions.length} other ${otherSessions.length === 1 ? 'device' : 'devices'} will be signed out.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign out',
+          style: 'destructive',
+          onPress: async () => {
+            setIsEndingOthers(true);
+            try {
+              await endAllOtherSessions();
+            } catch (error) {
+              Alert.alert('Error', error instanceof Error ? error.message : 'Failed to sign out');
+            } finally {
+              setIsEndingOthers(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View className="flex-1 bg-background">
+      <Header title="Devices" showBackButton />
+
+      <FlatList
+        data={sessions}
+        keyExtractor={(item) => item._id}
+        renderItem={({ item }) => {
+          const isCurrent = item._id === currentSessionId;
+          const icon =
+            DEVICE_ICONS[item.deviceType as keyof typeof DEVICE_ICONS] ?? 'MonitorSmartphone';
+
+          return (
+            <View className="flex-row items-center border-b border-border px-5 py-4">
+              <Icon name={icon} size={22} className="mr-4" />
+              <View className="mr-3 flex-1">
+                <ThemedText className="font-medium" numberOfLines={1}>
+                  {item.deviceName ?? 'Unknown Device'}
+                  {isCurrent ? ' · This device' : ''}
+                </ThemedText>
+                <ThemedText className="text-xs text-subtext" numberOfLines={1}>
+                  {[item.osVersion, item.appVersion && `App ${item.appVersion}`]
+                    .filter(Boolean)
+                    .join(' · ') || item.deviceType}
+                </ThemedText>
+                <ThemedText className="text-xs text-subtext">
+                  {isCurrent ? 'Active now' : formatLastActive(item.lastActiveAt)}
+                </ThemedText>
+              </View>
+              <Pressable onPress={() => handleSignOut(item)} hitSlop={8}>
+                <ThemedText className="text-sm text-red-500">Sign out</ThemedText>
+              </Pressable>
+            </View>
+          );
+        }}
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator className="mt-8" />
+          ) : (
+            <ThemedText className="mt-8 text-center text-subtext">No active sessions</ThemedText>
+          )
+        }
+        ListFooterComponent={
+          otherSessions.length > 0 ? (
+            <View className="p-5">
+              <Button
+                title="Sign Out Everywhere Else"
+                variant="outline"
+                onPress={handleSignOutOthers}
+                loading={isEndingOthers}
+                rounded="full"
+              />
+            </View>
+          ) : null
+        }
+      />
+    </View>
+  );
+}
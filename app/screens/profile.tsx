@@ -8,9 +8,14 @@ import ThemedScroller from '@/components/ThemeScroller';
 import { shadowPresets } from '@/utils/useShadow';
 import { useAuth } from '@/contexts/AuthContext';
 import { router } from 'expo-router';
+import { useOrganization } from '@/hooks/useOrganizations';
+import { useOrganizationStore } from '@/stores/organizationStore';
 
 export default function ProfileScreen() {
     const { user, logout, isLoading } = useAuth();
+    const { activeOrganizationId } = useOrganizationStore();
+    const { can } = useOrganization(activeOrganizationId);
+    const canReadAuditLog = can('audit.read');
 
     const handleLogout = () => {
         Alert.alert(
@@ -65,6 +70,10 @@ export default function ProfileScreen() {
                     <ListLink className='px-5' hasBorder title="Settings" icon="Settings" href="/screens/edit-profile" />
                     <ListLink className='px-5' hasBorder title="Upgrade to plus" icon="MapPin" href="/screens/subscription" />
                     <ListLink className='px-5' hasBorder title="Ai Voice" icon="MicVocal" href="/screens/ai-voice" />
+                    <ListLink className='px-5' hasBorder title="Devices" icon="MonitorSmartphone" href="/screens/devices" />
+                    {canReadAuditLog && (
+                        <ListLink className='px-5' hasBorder title="Audit Log" icon="ScrollText" href="/screens/audit-log" />
+                    )}
                     <ListLink className='px-5' hasBorder title="Help" icon="HelpCircle" href="/screens/help" />
                     
                     {/* Logout button with confirmation */}
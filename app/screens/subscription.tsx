@@ -8,6 +8,16 @@ import Icon from '@/components/Icon';
 import ActionSheet, { ActionSheetRef } from 'react-native-actions-sheet';
 import ThemedScroller from '@/components/ThemeScroller';
 import ThemedText from '@/components/ThemedText';
+import { useQuery } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import { useOrganizationStore } from '@/stores/organizationStore';
+
+const USAGE_LABELS: Record<string, { label: string; unit: string }> = {
+  tokens: { label: 'AI Tokens', unit: 'tokens' },
+  voice_minutes: { label: 'Voice Conversations', unit: 'min' },
+  files: { label: 'File Uploads', unit: 'files' },
+  searches: { label: 'Web Searches', unit: 'searches' },
+};
 
 
 const Subscription = () => {
@@ -27,6 +37,12 @@ const Subscription = () => {
     setSelectedPlan(plan); // Update the selected plan
   };
   const actionSheetRef = useRef<ActionSheetRef>(null);
+  const { activeOrganizationId } = useOrganizationStore();
+  const usage = useQuery(
+    api.usage.getSummary,
+    activeOrganizationId ? { organizationId: activeOrganizationId } : {}
+  );
+  const subscription = useQuery(api.subscriptions.getUserSubscription);
 
   return (
     <>
@@ -59,6 +75,48 @@ const Subscription = () => {
             </View>
             <ThemedScroller className='h-full px-4'>
               <View className='h-6 w-full' />
+              {subscription?.status === 'past_due' && subscription.gracePeriodEndsAt && (
+                <View className='mb-6 p-4 rounded-lg bg-red-500/10 border border-red-500'>
+                  <ThemedText className='font-outfit-bold'>Payment failed</ThemedText>
+                  <ThemedText className='text-subtext text-sm mt-1'>
+                    Update your payment method by {new Date(subscription.gracePeriodEndsAt).toLocaleDateString()} to keep your {subscription.tier} plan.
+                  </ThemedText>
+                </View>
+              )}
+              {subscription?.status === 'trialing' && subscription.trialEndsAt && (
+                <View className='mb-6 p-4 rounded-lg bg-secondary'>
+                  <ThemedText className='text-sm'>
+                    Your trial ends on {new Date(subscription.trialEndsAt).toLocaleDateString()}.
+                  </ThemedText>
+                </View>
+              )}
+              {usage && (
+                <View className='mb-8'>
+                  <View className='flex-row items-center justify-between mb-2'>
+                    <ThemedText className='text-xl font-outfit-bold'>Usage</ThemedText>
+                    <ThemedText className='text-subtext capitalize'>{usage.tier} plan</ThemedText>
+                  </View>
+                  {usage.metrics.map((metric) => (
+                    <UsageRow
+                      key={metric.metric}
+                      metric={metric.metric}
+                      used={metric.monthly.used}
+                      limit={metric.monthly.limit}
+                      today={metric.daily.used}
+                      dailyLimit={metric.daily.limit}
+                      status={metric.status}
+                    />
+                  ))}
+                  {usage.organization && (
+                    <ThemedText className='text-subtext text-sm mt-3'>
+                      Your organization this month:{' '}
+                      {usage.organization
+                        .map((metric) => `${metric.monthly.toLocaleString()} ${USAGE_LABELS[metric.metric].unit}`)
+                        .join(' · ')}
+                    </ThemedText>
+                  )}
+                </View>
+              )}
               <RowItem isFree isPro label="Unlimited Chat Messages" />
               <RowItem isFree isPro label="Image Generation" />
               <RowItem isFree isPro label="Text to Speech" />
@@ -138,6 +196,47 @@ const SelectPlan = (props: { badge: any; save: any; price: any; period: any; isS
 }
 
 
+const UsageRow = (props: {
+  metric: string;
+  used: number;
+  limit?: number;
+  today: number;
+  dailyLimit?: number;
+  status: 'ok' | 'degraded' | 'blocked';
+}) => {
+  const { metric, used, limit, today, dailyLimit, status } = props
+  const { label, unit } = USAGE_LABELS[metric]
+  const progress = limit ? Math.min(used / limit, 1) : 0
+  const barColor = status === 'blocked' ? 'bg-red-500' : status === 'degraded' ? 'bg-amber-500' : 'bg-sky-500'
+
+  return (
+    <View className='py-4 border-b border-border'>
+      <View className='flex-row justify-between mb-2'>
+        <ThemedText className='text-base'>{label}</ThemedText>
+        <ThemedText className='text-subtext'>
+          {used.toLocaleString()} / {limit !== undefined ? limit.toLocaleString() : 'Unlimited'} {unit}
+        </ThemedText>
+      </View>
+      {limit !== undefined && (
+        <View className='h-2 w-full bg-secondary rounded-full overflow-hidden'>
+          <View className={`h-2 rounded-full ${barColor}`} style={{ width: `${progress * 100}%` }} />
+        </View>
+      )}
+      <View className='flex-row justify-between mt-2'>
+        <ThemedText className='text-subtext text-xs'>
+          Today: {today.toLocaleString()}{dailyLimit !== undefined ? ` / ${dailyLimit.toLocaleString()}` : ''} {unit}
+        </ThemedText>
+        {status === 'degraded' && (
+          <ThemedText className='text-xs text-amber-500'>Using lighter models</ThemedText>
+        )}
+        {status === 'blocked' && (
+          <ThemedText className='text-xs text-red-500'>Limit reached</ThemedText>
+        )}
+      </View>
+    </View>
+  )
+}
+
 const RowItem = (props: { label: any; isFree?: any; isPro?: any; }) => {
   const { label, isFree, isPro } = props
   return (
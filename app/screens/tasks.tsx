@@ -0,0 +1,98 @@
+import React from 'react';
+import { View, FlatList, Alert, ActivityIndicator, Pressable } from 'react-native';
+import { router } from 'expo-router';
+import Header from '@/components/Header';
+import ThemedText from '@/components/ThemedText';
+import Icon from '@/components/Icon';
+import { Doc } from '@/convex/_generated/dataModel';
+import { useTasks } from '@/hooks/useTasks';
+import { useOrganizationStore } from '@/stores/organizationStore';
+import { formatCalendarDate, formatToYYYYMMDD } from '@/utils/date';
+
+/**
+ * Tasks, mostly added from voice call summaries; open tasks first
+ */
+export default function TasksScreen() {
+  const { activeOrganizationId } = useOrganizationStore();
+  const { tasks, isLoading, isLoadingMore, hasMore, loadMore, toggleTask, deleteTask } = useTasks({
+    organizationId: activeOrganizationId,
+  });
+
+  const today = formatToYYYYMMDD(new Date());
+  const sorted = [...tasks].sort(
+    (a, b) => Number(a.status === 'done') - Number(b.status === 'done')
+  );
+
+  const confirmDelete = (task: Doc<'tasks'>) => {
+    Alert.alert('Delete task', `"${task.title}" will be removed.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteTask(task._id) },
+    ]);
+  };
+
+  return (
+    <View className="flex-1 bg-background">
+      <Header title="Tasks" showBackButton />
+
+      <FlatList
+        data={sorted}
+        keyExtractor={(item) => item._id}
+        renderItem={({ item }) => {
+          const isDone = item.status === 'done';
+          const isOverdue = !isDone && !!item.dueDate && item.dueDate < today;
+
+          return (
+            <View className="flex-row items-center border-b border-border px-5 py-4">
+              <Pressable onPress={() => toggleTask(item._id, !isDone)} hitSlop={8} className="mr-4">
+                <Icon
+                  name={isDone ? 'CircleCheck' : 'Circle'}
+                  size={22}
+                  color={isDone ? '#10B981' : undefined}
+                />
+              </Pressable>
+              <View className="mr-3 flex-1">
+                <ThemedText
+                  className={`font-medium ${isDone ? 'text-subtext line-through' : ''}`}
+                  numberOfLines={2}>
+                  {item.title}
+                </ThemedText>
+                {(item.owner || item.dueDate) && (
+                  <ThemedText className={`text-xs ${isOverdue ? 'text-red-500' : 'text-subtext'}`}>
+                    {[item.owner, item.dueDate && `Due ${formatCalendarDate(item.dueDate)}`]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </ThemedText>
+                )}
+                {item.voiceSessionId && (
+                  <Pressable
+                    onPress={() =>
+                      router.push({
+                        pathname: '/screens/voice-session',
+                        params: { sessionId: item.voiceSessionId! },
+                      })
+                    }>
+                    <ThemedText className="text-xs text-highlight">From a voice call</ThemedText>
+                  </Pressable>
+                )}
+              </View>
+              <Pressable onPress={() => confirmDelete(item)} hitSlop={8}>
+                <Icon name="Trash2" size={16} color="#EF4444" />
+              </Pressable>
+            </View>
+          );
+        }}
+        onEndReached={hasMore ? loadMore : undefined}
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator className="mt-8" />
+          ) : (
+            <ThemedText className="mt-8 px-8 text-center text-subtext">
+              No tasks yet. Action items from voice call summaries can be added here.
+            </ThemedText>
+          )
+        }
+        ListFooterComponent={isLoadingMore ? <ActivityIndicator className="my-4" /> : null}
+      />
+    </View>
+  );
+}
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { View, FlatList, ActivityIndicator, Alert } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import Header from '@/components/Header';
+import ThemedText from '@/components/ThemedText';
+import { Button } from '@/components/Button';
+import CallSummaryCard from '@/components/livekit-agent/CallSummaryCard';
+import { Id } from '@/convex/_generated/dataModel';
+import { useVoiceSession } from '@/hooks/useVoiceSessions';
+import { formatDuration } from '@/utils/date';
+
+/**
+ * Replay of a past voice call: its summary, then the transcript with each line's
+ * time into the call
+ */
+export default function VoiceSessionScreen() {
+  const { sessionId } = useLocalSearchParams<{ sessionId: string }>();
+  const { session, segments, isLoading, canSummarize, isSummarizing, summarize, createTasks } =
+    useVoiceSession(sessionId ? (sessionId as Id<'voiceSessions'>) : null);
+  const [isCreatingTasks, setIsCreatingTasks] = useState(false);
+
+  const handleSummarize = async () => {
+    try {
+      await summarize();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to summarize call');
+    }
+  };
+
+  const handleCreateTasks = async () => {
+    setIsCreatingTasks(true);
+    try {
+      const created = await createTasks();
+      Alert.alert(
+        'Added to Tasks',
+        `${created} ${created === 1 ? 'task was' : 'tasks were'} added.`,
+        [
+          { text: 'OK', style: 'cancel' },
+          { text: 'View Tasks', onPress: () => router.push('/screens/tasks') },
+        ]
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to create tasks');
+    } finally {
+      setIsCreatingTasks(false);
+    }
+  };
+
+  const openConversation = () => {
+    if (!session?.conversationId) return;
+    router.push({
+      pathname: '/(protected)/(drawer)/',
+      params: { conversationId: session.conversationId },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <View className="flex-1 bg-background">
+        <Header title="Voice call" showBackButton />
+        <ActivityIndicator className="mt-8" />
+      </View>
+    );
+  }
+
+  if (!session) {
+    return (
+      <View className="flex-1 bg-background">
+        <Header title="Voice call" showBackButton />
+        <ThemedText className="mt-8 text-center text-subtext">
+          This call is not available
+        </ThemedText>
+      </View>
+    );
+  }
+
+  const startedAt = new Date(session.startedAt).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+  return (
+    <View className="flex-1 bg-background">
+      <Header title="Voice call" showBackButton />
+
+      <FlatList
+        data={segments}
+        keyExtractor={(item) => item._id}
+        ListHeaderComponent={
+          <View className="border-b border-border px-5 py-4">
+            <ThemedText className="font-medium">{startedAt}</ThemedText>
+            <ThemedText className="text-xs text-subtext">
+              {session.status === 'active'
+                ? 'In progress'
+                : formatDuration(session.durationMs ?? 0)}
+              {session.agentMetadata?.name ? ` · ${session.agentMetadata.name}` : ''}
+            </ThemedText>
+            {session.summary ? (
+              <View className="mt-4">
+                <CallSummaryCard
+                  summary={session.summary}
+                  onCreateTasks={handleCreateTasks}
+                  isCreatingTasks={isCreatingTasks}
+                />
+              </View>
+            ) : (
+              session.status === 'ended' &&
+              canSummarize && (
+                <View className="mt-3">
+                  <Button
+                    title="Summarize Call"
+                    variant="outline"
+                    size="small"
+                    onPress={handleSummarize}
+                    loading={isSummarizing}
+                    rounded="full"
+                  />
+                </View>
+              )
+            )}
+            {session.conversationId && (
+              <View className="mt-3">
+                <Button
+                  title="Open Conversation"
+                  variant="outline"
+                  size="small"
+                  onPress={openConversation}
+                  rounded="full"
+                />
+              </View>
+            )}
+          </View>
+        }
+        renderItem={({ item }) => (
+          <View className="flex-row px-5 py-3">
+            <ThemedText className="mr-4 w-12 text-xs text-subtext">
+              {formatDuration(item.offsetMs)}
+            </ThemedText>
+            <View className="flex-1">
+              <ThemedText className="mb-1 text-xs font-semibold uppercase text-subtext">
+                {item.speaker === 'user' ? 'You' : 'Agent'}
+              </ThemedText>
+              <ThemedText>{item.text}</ThemedText>
+            </View>
+          </View>
+        )}
+        ListEmptyComponent={
+          <ThemedText className="mt-8 text-center text-subtext">
+            No transcript was recorded for this call
+          </ThemedText>
+        }
+      />
+    </View>
+  );
+}
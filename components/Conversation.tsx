@@ -12,6 +12,8 @@ import Markdown from 'react-native-markdown-display';
 import { ShimmerText } from './ShimmerText';
 import * as Clipboard from 'expo-clipboard';
 import * as Sharing from 'expo-sharing';
+import ToolResults, { ToolInvocation } from './chat/ToolResults';
+import { ChatProvider, getProviderLabel } from '@/services/ai/providers';
 
 export type Message = {
     id: string;
@@ -19,6 +21,10 @@ export type Message = {
     content: string;
     timestamp: Date;
     isStreaming?: boolean;
+    toolInvocations?: ToolInvocation[];
+    // Provider and model that produced an assistant reply
+    provider?: ChatProvider;
+    model?: string;
 };
 
 type ConversationProps = {
@@ -137,6 +143,9 @@ export const Conversation = ({ messages, isTyping }: ConversationProps) => {
                             <AssistantMessage
                                 content={message.content}
                                 isStreaming={message.isStreaming}
+                                toolInvocations={message.toolInvocations}
+                                provider={message.provider}
+                                model={message.model}
                                 isLiked={likedMessages.has(message.id)}
                                 onLike={() => toggleLike(message.id)}
                                 onCopy={() => handleCopy(message.content)}
@@ -195,13 +204,16 @@ const UserMessage = ({ content }: { content: string }) => (
 type AssistantMessageProps = {
     content: string;
     isStreaming?: boolean;
+    toolInvocations?: ToolInvocation[];
+    provider?: ChatProvider;
+    model?: string;
     isLiked: boolean;
     onLike: () => void;
     onCopy: () => void;
     onShare: () => void;
 };
 
-const AssistantMessage = ({ content, isStreaming, isLiked, onLike, onCopy, onShare }: AssistantMessageProps) => {
+const AssistantMessage = ({ content, isStreaming, toolInvocations, provider, model, isLiked, onLike, onCopy, onShare }: AssistantMessageProps) => {
     const colors = useThemeColors();
 
     const markdownStyles = StyleSheet.create({
@@ -289,6 +301,9 @@ const AssistantMessage = ({ content, isStreaming, isLiked, onLike, onCopy, onSha
     return (
         <AnimatedView animation="fadeIn" duration={400} delay={200}>
             <View className="max-w-[95%]">
+                {toolInvocations && toolInvocations.length > 0 && (
+                    <ToolResults invocations={toolInvocations} />
+                )}
                 <View className="mb-4">
                     <Markdown style={markdownStyles}>
                         {content}
@@ -298,7 +313,7 @@ const AssistantMessage = ({ content, isStreaming, isLiked, onLike, onCopy, onSha
                 {!isStreaming && (
                     <>
                         <Divider className="my-3" />
-                        <View className="flex-row mt-2">
+                        <View className="flex-row items-center mt-2">
                             <Pressable
                                 onPress={onLike}
                                 className="flex-row items-center mr-6 active:opacity-60"
@@ -332,6 +347,14 @@ const AssistantMessage = ({ content, isStreaming, isLiked, onLike, onCopy, onSha
                             >
                                 <Icon name="Share2" size={18} />
                             </Pressable>
+                            {provider && (
+                                <ThemedText
+                                    className="ml-auto text-xs opacity-50"
+                                    accessibilityLabel={`Answered by ${getProviderLabel(provider)}`}
+                                >
+                                    {getProviderLabel(provider)}{model ? ` · ${model}` : ''}
+                                </ThemedText>
+                            )}
                         </View>
                     </>
                 )}
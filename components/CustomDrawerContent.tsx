@@ -9,16 +9,17 @@ import ThemedScroller from './ThemeScroller';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Avatar from './Avatar';
 import { useAuth } from '@/contexts/AuthContext';
-import { useEffect, useState } from 'react';
-import { messageService, Conversation } from '@/services/messages';
+import { useState } from 'react';
+import { useChatHistory } from '@/hooks/useChatHistory';
+import { useOrganizationStore } from '@/stores/organizationStore';
 
 export default function CustomDrawerContent() {
     const insets = useSafeAreaInsets();
     const colors = useThemeColors();
     const { user } = useAuth();
-    const [conversations, setConversations] = useState<Conversation[]>([]);
+    const { activeOrganizationId } = useOrganizationStore();
+    const { chats, isLoading } = useChatHistory({ organizationId: activeOrganizationId });
     const [searchQuery, setSearchQuery] = useState('');
-    const [isLoading, setIsLoading] = useState(true);
 
     const displayName = user?.name || 'Guest User';
     const displayEmail = user?.email || 'guest@example.com';
@@ -26,36 +27,12 @@ export default function CustomDrawerContent() {
         ? { uri: user.avatarUrl } 
         : require('@/assets/img/thomino.jpg');
 
-    // Load conversations
-    useEffect(() => {
-        const loadConversations = async () => {
-            try {
-                const loaded = await messageService.loadConversations();
-                // Sort by most recent
-                const sorted = loaded.sort((a, b) => b.updatedAt - a.updatedAt);
-                setConversations(sorted);
-            } catch (error) {
-                console.error('Error loading conversations:', error);
-            } finally {
-                setIsLoading(false);
-            }
-        };
-
-        loadConversations();
-        
-        // Refresh conversations when drawer opens
-        const interval = setInterval(loadConversations, 2000);
-        return () => clearInterval(interval);
-    }, []);
-
-    const filteredConversations = conversations.filter(conv => 
+    const filteredConversations = chats.filter(conv => 
         conv.title.toLowerCase().includes(searchQuery.toLowerCase())
     );
 
-    const handleNewChat = async () => {
-        const newConv = messageService.createConversation();
-        await messageService.saveConversation(newConv);
-        router.push('/(protected)/(drawer)/');
+    const handleNewChat = () => {
+        router.push({ pathname: '/(protected)/(drawer)/', params: { newChat: Date.now().toString() } });
     };
 
     return (
@@ -97,6 +74,8 @@ export default function CustomDrawerContent() {
                         </View>
                     </TouchableOpacity>
                     <NavItem href="/screens/search-form" icon="LayoutGrid" label="Explore" />
+                    <NavItem href="/screens/chat-history" icon="History" label="History" />
+                    <NavItem href="/screens/tasks" icon="ListTodo" label="Tasks" />
                 </View>
 
                 {/* Conversation History */}
@@ -115,7 +94,7 @@ export default function CustomDrawerContent() {
                         scrollEnabled={false}
                         renderItem={({ item }) => (
                             <TouchableOpacity
-                                onPress={() => router.push('/(protected)/(drawer)/')}
+                                onPress={() => router.push({ pathname: '/(protected)/(drawer)/', params: { conversationId: item.id } })}
                                 className='py-3 px-4 active:opacity-70'
                                 accessibilityLabel={item.title}
                                 accessibilityHint="Double tap to open this conversation"
@@ -128,7 +107,7 @@ export default function CustomDrawerContent() {
                                     {item.title}
                                 </ThemedText>
                                 <ThemedText className='text-subtext text-xs mt-1'>
-                                    {new Date(item.updatedAt).toLocaleDateString()}
+                                    {new Date(item.updatedAt || item.createdAt).toLocaleDateString()}
                                 </ThemedText>
                             </TouchableOpacity>
                         )}
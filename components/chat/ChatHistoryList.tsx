@@ -11,19 +11,25 @@ import { GroupedChats, getGroupLabel, formatChatTimestamp, Chat } from '@/utils/
 interface ChatHistoryListProps {
   groupedChats: GroupedChats;
   isLoading: boolean;
+  isLoadingMore?: boolean;
+  hasMore?: boolean;
   selectedChatId?: string;
   onSelectChat: (chat: Chat) => void;
   onDeleteChat?: (chatId: string) => void;
   onCreateChat: () => void;
+  onLoadMore?: () => void;
 }
 
 export default function ChatHistoryList({
   groupedChats,
   isLoading,
+  isLoadingMore = false,
+  hasMore = false,
   selectedChatId,
   onSelectChat,
   onDeleteChat,
   onCreateChat,
+  onLoadMore,
 }: ChatHistoryListProps) {
   if (isLoading) {
     return (
@@ -88,6 +94,18 @@ export default function ChatHistoryList({
           </View>
         );
       })}
+
+      {/* Pagination */}
+      {isLoadingMore ? (
+        <ActivityIndicator style={styles.loadMore} color="#3B82F6" />
+      ) : (
+        hasMore &&
+        onLoadMore && (
+          <Pressable style={styles.loadMore} onPress={onLoadMore}>
+            <Text style={styles.loadMoreText}>Load older conversations</Text>
+          </Pressable>
+        )
+      )}
     </ScrollView>
   );
 }
@@ -285,6 +303,15 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     fontSize: 11,
   },
+  loadMore: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  loadMoreText: {
+    color: '#3B82F6',
+    fontSize: 14,
+    fontWeight: '500',
+  },
   deleteButton: {
     padding: 8,
     marginLeft: 8,
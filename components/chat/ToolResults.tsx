@@ -52,6 +52,8 @@ function ToolResultItem({ invocation }: { invocation: ToolInvocation }) {
     case 'webSearch':
     case 'search':
       return <SearchResultsCard results={result?.results || []} query={args.query} />;
+    case 'citations':
+      return <SearchResultsCard results={result?.results || []} numbered />;
     case 'codeExecution':
     case 'runCode':
       return <CodeExecutionCard code={args.code} result={result} language={args.language} />;
@@ -181,24 +183,36 @@ interface SearchResult {
   snippet?: string;
 }
 
-function SearchResultsCard({ results, query }: { results: SearchResult[]; query?: string }) {
+function SearchResultsCard({
+  results,
+  query,
+  numbered,
+}: {
+  results: SearchResult[];
+  query?: string;
+  // Citation mode: list every source, numbered to match [n] references in the answer
+  numbered?: boolean;
+}) {
+  const visible = numbered ? results : results.slice(0, 3);
+  const title = numbered ? 'Sources' : query ? `Results for "${query}"` : 'Search results';
+
   return (
     <View style={styles.searchCard}>
       <View style={styles.searchHeader}>
-        <Icon name="Search" size={18} color="#3B82F6" />
+        <Icon name={numbered ? 'BookOpen' : 'Search'} size={18} color="#3B82F6" />
         <Text style={styles.searchQuery} numberOfLines={1}>
-          {query ? `Results for "${query}"` : 'Search results'}
+          {title}
         </Text>
       </View>
       <View style={styles.searchResults}>
-        {results.slice(0, 3).map((result, index) => (
+        {visible.map((result, index) => (
           <Pressable
             key={index}
             style={styles.searchResult}
             onPress={() => Linking.openURL(result.url)}
           >
             <Text style={styles.searchResultTitle} numberOfLines={1}>
-              {result.title}
+              {numbered ? `[${index + 1}] ${result.title}` : result.title}
             </Text>
             {result.snippet && (
               <Text style={styles.searchResultSnippet} numberOfLines={2}>
@@ -210,8 +224,8 @@ function SearchResultsCard({ results, query }: { results: SearchResult[]; query?
             </Text>
           </Pressable>
         ))}
-        {results.length > 3 && (
-          <Text style={styles.searchMore}>+{results.length - 3} more results</Text>
+        {results.length > visible.length && (
+          <Text style={styles.searchMore}>+{results.length - visible.length} more results</Text>
         )}
       </View>
     </View>
@@ -3,17 +3,27 @@
  * Display full conversation transcript with STT/TTS segments
  */
 
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   ScrollView,
   Pressable,
+  Switch,
+  Alert,
 } from 'react-native';
 import { TranscriptSegment } from '@/hooks/useAgentTranscription';
+import { exportTranscript, TranscriptExportFormat } from '@/services/transcriptExport';
 import Icon from '@/components/Icon';
 
+const EXPORT_FORMATS: Array<{ format: TranscriptExportFormat; label: string }> = [
+  { format: 'srt', label: 'SRT' },
+  { format: 'vtt', label: 'WebVTT' },
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+];
+
 interface AgentTranscriptProps {
   transcript: TranscriptSegment[];
   userTranscript: {
@@ -32,6 +42,10 @@ export default function AgentTranscript({
   agentTranscript,
 }: AgentTranscriptProps) {
   const scrollViewRef = useRef<ScrollView>(null);
+  const [showExportOptions, setShowExportOptions] = useState(false);
+  const [finalOnly, setFinalOnly] = useState(true);
+  const [anonymize, setAnonymize] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<TranscriptExportFormat | null>(null);
 
   // Auto-scroll to bottom when new transcript arrives
   useEffect(() => {
@@ -43,15 +57,19 @@ export default function AgentTranscript({
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
   };
 
-  const exportTranscript = () => {
-    // Export transcript as text
-    const text = transcript
-      .filter(s => s.isFinal)
-      .map(s => `[${formatTime(s.timestamp)}] ${s.speaker === 'user' ? 'You' : 'Agent'}: ${s.text}`)
-      .join('\n');
-    
-    console.log('Export transcript:', text);
-    // In a real app, save to file or share
+  const handleExport = async (format: TranscriptExportFormat) => {
+    setExportingFormat(format);
+    try {
+      await exportTranscript(transcript, format, { finalOnly, anonymize });
+      setShowExportOptions(false);
+    } catch (error) {
+      Alert.alert(
+        'Export failed',
+        error instanceof Error ? error.message : 'Failed to export transcript'
+      );
+    } finally {
+      setExportingFormat(null);
+    }
   };
 
   return (
@@ -59,12 +77,41 @@ export default function AgentTranscript({
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.headerTitle}>Conversation Transcript</Text>
-        <Pressable onPress={exportTranscript} style={styles.exportButton}>
-          <Icon name="Download" size={20} color="#3B82F6" />
+        <Pressable
+          onPress={() => setShowExportOptions(prev => !prev)}
+          style={styles.exportButton}
+        >
+          <Icon name={showExportOptions ? 'X' : 'Share'} size={20} color="#3B82F6" />
           <Text style={styles.exportText}>Export</Text>
         </Pressable>
       </View>
 
+      {/* Export options */}
+      {showExportOptions && (
+        <View style={styles.exportPanel}>
+          <View style={styles.exportOption}>
+            <Text style={styles.exportOptionText}>Final segments only</Text>
+            <Switch value={finalOnly} onValueChange={setFinalOnly} />
+          </View>
+          <View style={styles.exportOption}>
+            <Text style={styles.exportOptionText}>Anonymize speakers</Text>
+            <Switch value={anonymize} onValueChange={setAnonymize} />
+          </View>
+          <View style={styles.exportFormats}>
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <Pressable
+                key={format}
+                onPress={() => handleExport(format)}
+                disabled={exportingFormat !== null}
+                style={[styles.exportFormat, exportingFormat === format && styles.exportFormatActive]}
+              >
+                <Text style={styles.exportFormatText}>{label}</Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      )}
+
       {/* Transcript list */}
       <ScrollView
         ref={scrollViewRef}
@@ -199,6 +246,43 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
+  exportPanel: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 8,
+    backgroundColor: '#111111',
+    borderBottomWidth: 1,
+    borderBottomColor: '#1F1F1F',
+  },
+  exportOption: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  exportOptionText: {
+    color: '#D1D5DB',
+    fontSize: 14,
+  },
+  exportFormats: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  exportFormat: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    backgroundColor: '#1F1F1F',
+    borderRadius: 6,
+  },
+  exportFormatActive: {
+    backgroundColor: 'rgba(59, 130, 246, 0.15)',
+  },
+  exportFormatText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   scrollView: {
     flex: 1,
   },
@@ -0,0 +1,107 @@
+/**
+ * Call Summary Card
+ * Post-call summary of a voice session, with one-tap conversion of action items to tasks
+ */
+
+import React from 'react';
+import { View } from 'react-native';
+import ThemedText from '@/components/ThemedText';
+import Icon from '@/components/Icon';
+import { Button } from '@/components/Button';
+import { Doc } from '@/convex/_generated/dataModel';
+import { formatCalendarDate } from '@/utils/date';
+
+type StoredCallSummary = NonNullable<Doc<'voiceSessions'>['summary']>;
+
+interface CallSummaryCardProps {
+  summary: StoredCallSummary;
+  onCreateTasks: () => void;
+  isCreatingTasks?: boolean;
+}
+
+function Section({ title, items }: { title: string; items: string[] }) {
+  if (items.length === 0) return null;
+
+  return (
+    <View className="mt-4">
+      <ThemedText className="mb-1 text-xs font-semibold uppercase text-subtext">{title}</ThemedText>
+      {items.map((item, index) => (
+        <ThemedText key={index} className="mb-1 text-sm">
+          {`• ${item}`}
+        </ThemedText>
+      ))}
+    </View>
+  );
+}
+
+export default function CallSummaryCard({
+  summary,
+  onCreateTasks,
+  isCreatingTasks = false,
+}: CallSummaryCardProps) {
+  const pendingCount = summary.actionItems.filter((item) => !item.taskId).length;
+  const isEmpty =
+    summary.keyPoints.length === 0 &&
+    summary.decisions.length === 0 &&
+    summary.actionItems.length === 0 &&
+    summary.followUpQuestions.length === 0;
+
+  return (
+    <View className="rounded-2xl bg-secondary p-4">
+      <View className="flex-row items-center">
+        <Icon name="Sparkles" size={16} className="mr-2" />
+        <ThemedText className="font-semibold">Call Summary</ThemedText>
+      </View>
+
+      {isEmpty && (
+        <ThemedText className="mt-3 text-sm text-subtext">
+          Nothing worth summarizing was said on this call.
+        </ThemedText>
+      )}
+
+      <Section title="Key points" items={summary.keyPoints} />
+      <Section title="Decisions" items={summary.decisions} />
+
+      {summary.actionItems.length > 0 && (
+        <View className="mt-4">
+          <ThemedText className="mb-1 text-xs font-semibold uppercase text-subtext">
+            Action items
+          </ThemedText>
+          {summary.actionItems.map((item, index) => (
+            <View key={index} className="mb-2 flex-row items-start">
+              <Icon
+                name={item.taskId ? 'CircleCheck' : 'Circle'}
+                size={16}
+                color={item.taskId ? '#10B981' : undefined}
+                className="mr-2 mt-0.5"
+              />
+              <View className="flex-1">
+                <ThemedText className="text-sm">{item.title}</ThemedText>
+                {(item.owner || item.dueDate) && (
+                  <ThemedText className="text-xs text-subtext">
+                    {[item.owner, item.dueDate && `Due ${formatCalendarDate(item.dueDate)}`]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </ThemedText>
+                )}
+              </View>
+            </View>
+          ))}
+          {pendingCount > 0 && (
+            <View className="mt-2">
+              <Button
+                title={pendingCount === 1 ? 'Add to Tasks' : `Add ${pendingCount} to Tasks`}
+                size="small"
+                onPress={onCreateTasks}
+                loading={isCreatingTasks}
+                rounded="full"
+              />
+            </View>
+          )}
+        </View>
+      )}
+
+      <Section title="Follow-up questions" items={summary.followUpQuestions} />
+    </View>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
-import { View, Modal, Pressable, Alert } from 'react-native';
-import { useOrganizationMembers } from '@/hooks/useOrganizations';
+import { View, Modal, Pressable, Alert, ScrollView } from 'react-native';
+import { useInvitationDeliveries, useOrganizationMembers } from '@/hooks/useOrganizations';
 import ThemedText from '@/components/ThemedText';
 import Input from '@/components/forms/Input';
 import Button from '@/components/Button';
@@ -22,9 +22,19 @@ const roles: { value: Role; label: string; description: string }[] = [
   { value: 'viewer', label: 'Viewer', description: 'View-only access' },
 ];
 
+type DeliveryStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+const deliveryLabels: Record<DeliveryStatus, { label: string; className: string }> = {
+  pending: { label: 'Queued', className: 'text-subtext' },
+  sending: { label: 'Sending', className: 'text-subtext' },
+  sent: { label: 'Delivered', className: 'text-green-500' },
+  failed: { label: 'Failed', className: 'text-red-500' },
+};
+
 export function InviteModal({ organizationId, isVisible, onClose }: InviteModalProps) {
   const colors = useThemeColors();
   const { inviteMember } = useOrganizationMembers(organizationId);
+  const { deliveries, retryDelivery } = useInvitationDeliveries(organizationId);
   
   const [email, setEmail] = useState('');
   const [firstName, setFirstName] = useState('');
@@ -54,9 +64,8 @@ export function InviteModal({ organizationId, isVisible, onClose }: InviteModalP
         role: selectedRole,
       });
       
-      Alert.alert('Success', `Invitation sent to ${email}`);
+      // Stay open so the delivery status of the new invitation shows below
       resetForm();
-      onClose();
     } catch (error) {
       Alert.alert(
         'Error', 
@@ -67,6 +76,17 @@ export function InviteModal({ organizationId, isVisible, onClose }: InviteModalP
     }
   };
 
+  const handleRetry = async (emailId: Id<'emailOutbox'>) => {
+    try {
+      await retryDelivery({ emailId });
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to retry delivery'
+      );
+    }
+  };
+
   const resetForm = () => {
     setEmail('');
     setFirstName('');
@@ -96,77 +116,122 @@ export function InviteModal({ organizationId, isVisible, onClose }: InviteModalP
             </Pressable>
           </View>
 
-          {/* Form */}
-          <View className="p-6 space-y-4">
-            <Input
-              label="Email"
-              placeholder="colleague@company.com"
-              value={email}
-              onChangeText={setEmail}
-              keyboardType="email-address"
-              autoCapitalize="none"
-            />
-
-            <View className="flex-row gap-3">
-              <View className="flex-1">
-                <Input
-                  label="First Name (optional)"
-                  placeholder="John"
-                  value={firstName}
-                  onChangeText={setFirstName}
-                />
+          <ScrollView>
+            {/* Form */}
+            <View className="p-6 space-y-4">
+              <Input
+                label="Email"
+                placeholder="colleague@company.com"
+                value={email}
+                onChangeText={setEmail}
+                keyboardType="email-address"
+                autoCapitalize="none"
+              />
+
+              <View className="flex-row gap-3">
+                <View className="flex-1">
+                  <Input
+                    label="First Name (optional)"
+                    placeholder="John"
+                    value={firstName}
+                    onChangeText={setFirstName}
+                  />
+                </View>
+                <View className="flex-1">
+                  <Input
+                    label="Last Name (optional)"
+                    placeholder="Doe"
+                    value={lastName}
+                    onChangeText={setLastName}
+                  />
+                </View>
               </View>
-              <View className="flex-1">
-                <Input
-                  label="Last Name (optional)"
-                  placeholder="Doe"
-                  value={lastName}
-                  onChangeText={setLastName}
-                />
+
+              {/* Role Selection */}
+              <View>
+                <ThemedText className="text-sm font-medium mb-3">Role</ThemedText>
+                {roles.map((role) => (
+                  <Pressable
+                    key={role.value}
+                    onPress={() => setSelectedRole(role.value)}
+                    className={`flex-row items-center p-4 rounded-xl mb-2 border ${
+                      selectedRole === role.value
+                        ? 'border-highlight bg-highlight/10'
+                        : 'border-border bg-surface'
+                    }`}
+                  >
+                    <View className={`w-5 h-5 rounded-full border-2 mr-3 items-center justify-center ${
+                      selectedRole === role.value ? 'border-highlight' : 'border-subtext'
+                    }`}>
+                      {selectedRole === role.value && (
+                        <View className="w-2.5 h-2.5 rounded-full bg-highlight" />
+                      )}
+                    </View>
+                    <View className="flex-1">
+                      <ThemedText className="font-medium">{role.label}</ThemedText>
+                      <ThemedText className="text-xs text-subtext">
+                        {role.description}
+                      </ThemedText>
+                    </View>
+                  </Pressable>
+                ))}
               </View>
-            </View>
 
-            {/* Role Selection */}
-            <View>
-              <ThemedText className="text-sm font-medium mb-3">Role</ThemedText>
-              {roles.map((role) => (
-                <Pressable
-                  key={role.value}
-                  onPress={() => setSelectedRole(role.value)}
-                  className={`flex-row items-center p-4 rounded-xl mb-2 border ${
-                    selectedRole === role.value
-                      ? 'border-highlight bg-highlight/10'
-                      : 'border-border bg-surface'
-                  }`}
-                >
-                  <View className={`w-5 h-5 rounded-full border-2 mr-3 items-center justify-center ${
-                    selectedRole === role.value ? 'border-highlight' : 'border-subtext'
-                  }`}>
-                    {selectedRole === role.value && (
-                      <View className="w-2.5 h-2.5 rounded-full bg-highlight" />
-                    )}
-                  </View>
-                  <View className="flex-1">
-                    <ThemedText className="font-medium">{role.label}</ThemedText>
-                    <ThemedText className="text-xs text-subtext">
-                      {role.description}
-                    </ThemedText>
-                  </View>
-                </Pressable>
-              ))}
+              {/* Submit Button */}
+              <Button
+                title="Send Invitation"
+                onPress={handleSubmit}
+                loading={isSubmitting}
+                disabled={isSubmitting}
+                size="large"
+                rounded="full"
+                className="mt-4"
+              />
             </View>
 
-            {/* Submit Button */}
-            <Button
-              title="Send Invitation"
-              onPress={handleSubmit}
-              loading={isSubmitting}
-              disabled={isSubmitting}
-              size="large"
-              rounded="full"
-              className="mt-4"
-            />
-          </View>
+            {/* Delivery Status */}
+            {deliveries.length > 0 && (
+              <View className="px-6 pb-6">
+                <ThemedText className="text-sm font-medium mb-3">Pending Invitations</ThemedText>
+                {deliveries.map((invitation) => {
+                  const delivery = invitation.delivery;
+                  const status = delivery
+                    ? deliveryLabels[delivery.status]
+                    : deliveryLabels.pending;
+                  const isRetrying = delivery?.status === 'pending' && delivery.attempts > 0;
+
+                  return (
+                    <View
+                      key={invitation.invitationId}
+                      className="flex-row items-center p-3 rounded-xl mb-2 bg-surface"
+                    >
+                      <View className="flex-1 mr-3">
+                        <ThemedText className="font-medium" numberOfLines={1}>
+                          {invitation.email}
+                        </ThemedText>
+                        {delivery?.lastError && delivery.status !== 'sent' && (
+                          <ThemedText className="text-xs text-subtext" numberOfLines={2}>
+                            {delivery.lastError}
+                          </ThemedText>
+                        )}
+                      </View>
+                      <ThemedText className={`text-xs ${status.className}`}>
+                        {isRetrying ? `Retrying (attempt ${delivery.attempts + 1})` : status.label}
+                      </ThemedText>
+                      {delivery?.status === 'failed' && (
+                        <Pressable
+                          onPress={() => handleRetry(delivery.emailId)}
+                          className="ml-3 p-1"
+                        >
+                          <Icon name="RotateCw" size={16} color={colors.text} />
+                        </Pressable>
+                      )}
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+          </ScrollView>
         </View>
       </View>
     </Modal>
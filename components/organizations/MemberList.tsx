@@ -21,7 +21,7 @@ const roleLabels: Record<string, string> = {
 export function MemberList({ organizationId }: MemberListProps) {
   const colors = useThemeColors();
   const { members, isLoading, removeMember, updateRole } = useOrganizationMembers(organizationId);
-  const { currentMembership, isAdmin, isOwner } = useOrganization(organizationId);
+  const { currentMembership, can } = useOrganization(organizationId);
 
   if (isLoading) {
     return (
@@ -47,7 +47,7 @@ export function MemberList({ organizationId }: MemberListProps) {
   };
 
   const handleUpdateRole = (userId: Id<'users'>, currentRole: string) => {
-    const options = isOwner 
+    const options = can('members.manage_admins')
       ? ['admin', 'member', 'viewer'] 
       : ['member', 'viewer'];
     
@@ -66,7 +66,11 @@ export function MemberList({ organizationId }: MemberListProps) {
 
   const renderMember = ({ item }: { item: typeof members[0] }) => {
     const isCurrentUser = item.userId === currentMembership?.userId;
-    const canManage = isAdmin && item.role !== 'owner' && !isCurrentUser;
+    const canManage =
+      item.role !== 'owner' &&
+      !isCurrentUser &&
+      can('members.update_role') &&
+      (item.role !== 'admin' || can('members.manage_admins'));
 
     return (
       <View className="flex-row items-center p-4 border-b border-border">
@@ -134,7 +138,7 @@ export function MemberList({ organizationId }: MemberListProps) {
         <ThemedText className="font-outfit-bold text-lg">
           Members ({members.length})
         </ThemedText>
-        {isAdmin && (
+        {can('members.invite') && (
           <Button
             title="Invite"
             variant="ghost"
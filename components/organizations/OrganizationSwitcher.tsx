@@ -7,14 +7,17 @@ import ThemedText from '@/components/ThemedText';
 import Icon from '@/components/Icon';
 import useThemeColors from '@/contexts/ThemeColors';
 import { Id } from '@/convex/_generated/dataModel';
+import { useOrganizationStore } from '@/stores/organizationStore';
 
 interface OrganizationSwitcherProps {
   currentOrganizationId?: Id<'organizations'>;
   onSelect?: (orgId: Id<'organizations'>) => void;
 }
 
-export function OrganizationSwitcher({ currentOrganizationId, onSelect }: OrganizationSwitcherProps) {
+export function OrganizationSwitcher({ currentOrganizationId: currentOrganizationIdProp, onSelect }: OrganizationSwitcherProps) {
   const colors = useThemeColors();
+  const { activeOrganizationId, setActiveOrganization } = useOrganizationStore();
+  const currentOrganizationId = currentOrganizationIdProp ?? activeOrganizationId ?? undefined;
   const router = useRouter();
   const { workOSOrganization } = useAuth();
   const { organizations, isLoading } = useOrganizations();
@@ -42,6 +45,7 @@ export function OrganizationSwitcher({ currentOrganizationId, onSelect }: Organi
 
   const handleSelect = (orgId: Id<'organizations'>) => {
     setIsOpen(false);
+    setActiveOrganization(orgId);
     onSelect?.(orgId);
   };
 
@@ -1,17 +1,30 @@
-import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
+import { Alert, AppState } from 'react-native';
 import * as WebBrowser from 'expo-web-browser';
 import * as Linking from 'expo-linking';
-import { useMutation } from 'convex/react';
+import { useMutation, useQuery } from 'convex/react';
 import { api } from '../convex/_generated/api';
-import { authService, type User, type LoginCredentials, type SignupCredentials } from '@/services/auth';
+import {
+  loadSession,
+  getCurrentSession,
+  setSession,
+  clearSession,
+  updateSessionUser,
+  refreshSession,
+  onSessionChanged,
+  type AuthSession,
+  type User,
+  type LoginCredentials,
+  type SignupCredentials,
+} from '@/services/auth';
+import { login as loginWithPassword, register, logout as logoutFromApi } from '@/services/api/auth';
+import { getDeviceInfo } from '@/services/device';
+import { useSessionStore } from '@/stores/sessionStore';
 import {
   getSignInUrl,
   getGoogleSignInUrl,
   getAppleSignInUrl,
   handleCallback,
-  getUser as getWorkOSUser,
-  clearSession,
-  getSessionId,
   getLogoutUrl,
   REDIRECT_URI,
   type WorkOSUser,
@@ -21,6 +34,9 @@ import {
 // Ensure auth sessions complete properly on web
 WebBrowser.maybeCompleteAuthSession();
 
+// How often an open app reports its session as active
+const HEARTBEAT_INTERVAL_MS = 5 * 60 * 1000;
+
 interface AuthContextType {
   user: User | null;
   workOSUser: WorkOSUser | null;
@@ -55,46 +71,98 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [isInitializing, setIsInitializing] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const storeUser = useMutation(api.users.store);
+  const createSession = useMutation(api.sessions.create);
+  const reportActive = useMutation(api.sessions.updateLastActive);
+  const endSession = useMutation(api.sessions.endSession);
+  const { sessionId, setSessionId } = useSessionStore();
+
+  // Set while this device signs itself out, so ending its own session is not
+  // reported as a sign-out from elsewhere
+  const isSigningOutRef = useRef(false);
+
+  // Revoked from another device (or by deactivation) while this one is open
+  const currentSession = useQuery(
+    api.sessions.getById,
+    isAuthenticated && sessionId ? { sessionId } : 'skip'
+  );
+
+  /**
+   * Record this device's session after a WorkOS sign-in. Password sessions are
+   * not authenticated with Convex (see ConvexClientProvider), so they have none.
+   * A WorkOS session that was signed out from another device is refused, and
+   * this device signs out.
+   */
+  const startSession = useCallback(
+    async (workosSessionId?: string) => {
+      try {
+        const id = await createSession({ ...getDeviceInfo(), workosSessionId });
+        setSessionId(id);
+      } catch (err) {
+        if (err instanceof Error && err.message.includes('Session has ended')) {
+          await clearSession();
+          return;
+        }
+        console.error('[Auth] Failed to start session:', err);
+      }
+    },
+    [createSession, setSessionId]
+  );
+
+  /**
+   * Store a WorkOS user in Convex and record this device's session
+   */
+  const registerWorkOSSession = useCallback(
+    async (session: AuthSession) => {
+      const osUser = session.workosUser;
+      if (!osUser) return;
+
+      await storeUser({
+        workosId: osUser.id,
+        email: osUser.email,
+        firstName: osUser.firstName ?? undefined,
+        lastName: osUser.lastName ?? undefined,
+        profilePictureUrl: osUser.profilePictureUrl ?? undefined,
+      });
+      await startSession(session.workosSessionId);
+    },
+    [storeUser, startSession]
+  );
+
+  /**
+   * Exchange a WorkOS callback code and sign in with the resulting session
+   */
+  const completeWorkOSSignIn = useCallback(
+    async (code: string) => {
+      const session = await handleCallback(code);
+      await setSession(session);
+      await registerWorkOSSession(session);
+      return session;
+    },
+    [registerWorkOSSession]
+  );
+
+  // Mirror the session manager: sign-in, token refresh, profile updates and sign-out
+  useEffect(
+    () =>
+      onSessionChanged((session) => {
+        setUser(session?.user ?? null);
+        setWorkOSUser(session?.workosUser ?? null);
+        setWorkOSOrganization(session?.organization ?? null);
+        setIsAuthenticated(!!session);
+        if (!session) useSessionStore.getState().clearSessionId();
+      }),
+    []
+  );
 
   // Initialize auth state on app start
   useEffect(() => {
     const initAuth = async () => {
       try {
-        // Try to load WorkOS session first
-        const session = await getWorkOSUser();
-        if (session) {
-          const { user: osUser, organization } = session;
-          setWorkOSUser(osUser);
-          setWorkOSOrganization(organization ?? null);
-          
-          // Store user in Convex
-          await storeUser({
-            workosId: osUser.id,
-            email: osUser.email,
-            firstName: osUser.firstName ?? undefined,
-            lastName: osUser.lastName ?? undefined,
-            profilePictureUrl: osUser.profilePictureUrl ?? undefined,
-          });
-          
-          // Set legacy user format for compatibility
-          setUser({
-            id: osUser.id,
-            email: osUser.email,
-            name: `${osUser.firstName || ''} ${osUser.lastName || ''}`.trim() || osUser.email,
-            avatarUrl: osUser.profilePictureUrl ?? undefined,
-          });
-          setIsAuthenticated(true);
-        } else {
-          // Fallback to legacy auth
-          const [currentUser, authenticated] = await Promise.all([
-            authService.getCurrentUser(),
-            authService.isAuthenticated(),
-          ]);
-
-          if (authenticated && currentUser) {
-            setUser(currentUser);
-            setIsAuthenticated(true);
-          }
+        const session = await loadSession();
+
+        // Restored sessions keep their record; the heartbeat checks it is still active
+        if (session?.provider === 'workos' && !useSessionStore.getState().sessionId) {
+          await registerWorkOSSession(session);
         }
       } catch (err) {
         console.error('Auth initialization error:', err);
@@ -104,7 +172,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
 
     initAuth();
-  }, [storeUser]);
+  }, [registerWorkOSSession]);
 
   // Handle deep link callbacks for WorkOS OAuth (for cold start)
   useEffect(() => {
@@ -132,23 +200,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
       setIsLoading(true);
       try {
-        const { user: newUser, organization } = await handleCallback(code);
-        await storeUser({
-          workosId: newUser.id,
-          email: newUser.email,
-          firstName: newUser.firstName ?? undefined,
-          lastName: newUser.lastName ?? undefined,
-          profilePictureUrl: newUser.profilePictureUrl ?? undefined,
-        });
-        setWorkOSUser(newUser);
-        setWorkOSOrganization(organization ?? null);
-        setUser({
-          id: newUser.id,
-          email: newUser.email,
-          name: `${newUser.firstName || ''} ${newUser.lastName || ''}`.trim() || newUser.email,
-          avatarUrl: newUser.profilePictureUrl ?? undefined,
-        });
-        setIsAuthenticated(true);
+        await completeWorkOSSignIn(code);
       } catch (err) {
         console.error('Auth callback failed:', err);
         setError(err instanceof Error ? err.message : 'Authentication failed');
@@ -163,7 +215,42 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     });
 
     return () => subscription.remove();
-  }, [storeUser]);
+  }, [completeWorkOSSignIn]);
+
+  // Heartbeat while the app is open, and whenever it returns to the foreground
+  useEffect(() => {
+    if (!isAuthenticated || !sessionId) return;
+
+    const beat = async () => {
+      try {
+        const { isActive } = await reportActive({ sessionId });
+        if (!isActive) {
+          await clearSession();
+        }
+      } catch (err) {
+        console.warn('[Auth] Session heartbeat failed:', err);
+      }
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') beat();
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [isAuthenticated, sessionId, reportActive]);
+
+  useEffect(() => {
+    if (currentSession && !currentSession.isActive && !isSigningOutRef.current) {
+      clearSession().then(() => {
+        Alert.alert('Signed out', 'This device was signed out from another session.');
+      });
+    }
+  }, [currentSession]);
 
   const clearError = () => setError(null);
 
@@ -172,9 +259,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setError(null);
     
     try {
-      const user = await authService.login(credentials);
-      setUser(user);
-      setIsAuthenticated(true);
+      await loginWithPassword(credentials);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Login failed';
       setError(message);
@@ -189,9 +274,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setError(null);
     
     try {
-      const user = await authService.signup(credentials);
-      setUser(user);
-      setIsAuthenticated(true);
+      await register(credentials);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Signup failed';
       setError(message);
@@ -233,26 +316,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       }
 
       console.log('[Auth] Exchanging code for tokens...');
-      const { user: newUser, organization } = await handleCallback(code);
-      console.log('[Auth] Got user:', newUser.email);
-
-      await storeUser({
-        workosId: newUser.id,
-        email: newUser.email,
-        firstName: newUser.firstName ?? undefined,
-        lastName: newUser.lastName ?? undefined,
-        profilePictureUrl: newUser.profilePictureUrl ?? undefined,
-      });
-
-      setWorkOSUser(newUser);
-      setWorkOSOrganization(organization ?? null);
-      setUser({
-        id: newUser.id,
-        email: newUser.email,
-        name: `${newUser.firstName || ''} ${newUser.lastName || ''}`.trim() || newUser.email,
-        avatarUrl: newUser.profilePictureUrl ?? undefined,
-      });
-      setIsAuthenticated(true);
+      const session = await completeWorkOSSignIn(code);
+      console.log('[Auth] Got user:', session.user.email);
       return { success: true };
     } catch (err) {
       console.error('[Auth] Google sign in failed:', err);
@@ -262,7 +327,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } finally {
       setIsLoading(false);
     }
-  }, [storeUser]);
+  }, [completeWorkOSSignIn]);
 
   const loginWithApple = useCallback(async (): Promise<{
     success: boolean;
@@ -296,26 +361,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       }
 
       console.log('[Auth] Exchanging code for tokens...');
-      const { user: newUser, organization } = await handleCallback(code);
-      console.log('[Auth] Got user:', newUser.email);
-
-      await storeUser({
-        workosId: newUser.id,
-        email: newUser.email,
-        firstName: newUser.firstName ?? undefined,
-        lastName: newUser.lastName ?? undefined,
-        profilePictureUrl: newUser.profilePictureUrl ?? undefined,
-      });
-
-      setWorkOSUser(newUser);
-      setWorkOSOrganization(organization ?? null);
-      setUser({
-        id: newUser.id,
-        email: newUser.email,
-        name: `${newUser.firstName || ''} ${newUser.lastName || ''}`.trim() || newUser.email,
-        avatarUrl: newUser.profilePictureUrl ?? undefined,
-      });
-      setIsAuthenticated(true);
+      const session = await completeWorkOSSignIn(code);
+      console.log('[Auth] Got user:', session.user.email);
       return { success: true };
     } catch (err) {
       console.error('[Auth] Apple sign in failed:', err);
@@ -325,7 +372,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } finally {
       setIsLoading(false);
     }
-  }, [storeUser]);
+  }, [completeWorkOSSignIn]);
 
   const loginWithWorkOS = useCallback(async (): Promise<{
     success: boolean;
@@ -359,26 +406,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       }
 
       console.log('[Auth] Exchanging code for tokens...');
-      const { user: newUser, organization } = await handleCallback(code);
-      console.log('[Auth] Got user:', newUser.email);
-
-      await storeUser({
-        workosId: newUser.id,
-        email: newUser.email,
-        firstName: newUser.firstName ?? undefined,
-        lastName: newUser.lastName ?? undefined,
-        profilePictureUrl: newUser.profilePictureUrl ?? undefined,
-      });
-
-      setWorkOSUser(newUser);
-      setWorkOSOrganization(organization ?? null);
-      setUser({
-        id: newUser.id,
-        email: newUser.email,
-        name: `${newUser.firstName || ''} ${newUser.lastName || ''}`.trim() || newUser.email,
-        avatarUrl: newUser.profilePictureUrl ?? undefined,
-      });
-      setIsAuthenticated(true);
+      const session = await completeWorkOSSignIn(code);
+      console.log('[Auth] Got user:', session.user.email);
       return { success: true };
     } catch (err) {
       console.error('[Auth] WorkOS sign in failed:', err);
@@ -388,33 +417,36 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } finally {
       setIsLoading(false);
     }
-  }, [storeUser]);
+  }, [completeWorkOSSignIn]);
 
   const logout = async () => {
     setIsLoading(true);
+    isSigningOutRef.current = true;
 
     try {
-      // Handle WorkOS logout if session exists
-      if (workOSUser) {
-        const sessionId = await getSessionId();
+      const session = getCurrentSession();
+
+      if (sessionId) {
+        // Stop watching the session before ending it
+        useSessionStore.getState().clearSessionId();
+        await endSession({ sessionId }).catch((err) =>
+          console.warn('[Auth] Failed to end session:', err)
+        );
+      }
+
+      if (session?.provider === 'workos') {
         await clearSession();
-        setWorkOSUser(null);
-        setWorkOSOrganization(null);
-        setUser(null);
-        setIsAuthenticated(false);
 
-        if (sessionId) {
-          await WebBrowser.openBrowserAsync(getLogoutUrl(sessionId));
+        if (session.workosSessionId) {
+          await WebBrowser.openBrowserAsync(getLogoutUrl(session.workosSessionId));
         }
       } else {
-        // Legacy auth logout
-        await authService.logout();
-        setUser(null);
-        setIsAuthenticated(false);
+        await logoutFromApi();
       }
     } catch (err) {
       console.error('Logout error:', err);
     } finally {
+      isSigningOutRef.current = false;
       setIsLoading(false);
     }
   };
@@ -423,8 +455,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setIsLoading(true);
     
     try {
-      const updatedUser = await authService.updateProfile(updates);
-      setUser(updatedUser);
+      await updateSessionUser(updates);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Profile update failed';
       setError(message);
@@ -434,21 +465,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // A rejected refresh token signs the user out through onSessionChanged
   const refreshAuth = async (): Promise<boolean> => {
     try {
-      const success = await authService.refreshTokens();
-      if (!success) {
-        setUser(null);
-        setWorkOSUser(null);
-        setWorkOSOrganization(null);
-        setIsAuthenticated(false);
-      }
-      return success;
+      return !!(await refreshSession());
     } catch {
-      setUser(null);
-      setWorkOSUser(null);
-      setWorkOSOrganization(null);
-      setIsAuthenticated(false);
       return false;
     }
   };
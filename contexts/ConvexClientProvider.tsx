@@ -1,10 +1,25 @@
 import { ReactNode } from 'react';
 import { ConvexProvider, ConvexReactClient } from 'convex/react';
+import { getAccessToken, onSessionChanged } from '@/services/auth/session';
 
 const convex = new ConvexReactClient(process.env.EXPO_PUBLIC_CONVEX_URL!, {
   unsavedChangesWarning: false,
 });
 
+// Convex accepts WorkOS tokens only (see convex/auth.config.ts)
+let authProvider: string | null = null;
+onSessionChanged((session) => {
+  const provider = session?.provider === 'workos' ? session.provider : null;
+  if (provider === authProvider) return;
+  authProvider = provider;
+
+  if (provider) {
+    convex.setAuth(({ forceRefreshToken }) => getAccessToken({ forceRefresh: forceRefreshToken }));
+  } else {
+    convex.clearAuth();
+  }
+});
+
 export function ConvexClientProvider({ children }: { children: ReactNode }) {
   return <ConvexProvider client={convex}>{children}</ConvexProvider>;
 }
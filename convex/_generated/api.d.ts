@@ -8,14 +8,35 @@
  * @module
  */
 
+import type * as audit from "../audit.js";
 import type * as auditLogs from "../auditLogs.js";
+import type * as callSummaries from "../callSummaries.js";
 import type * as config from "../config.js";
+import type * as conversations from "../conversations.js";
+import type * as crons from "../crons.js";
+import type * as emailDelivery from "../emailDelivery.js";
+import type * as emailTemplates from "../emailTemplates.js";
+import type * as emails from "../emails.js";
+import type * as http from "../http.js";
+import type * as invitationTokens from "../invitationTokens.js";
 import type * as invitations from "../invitations.js";
+import type * as livekit from "../livekit.js";
+import type * as mailTransport from "../mailTransport.js";
 import type * as memberships from "../memberships.js";
+import type * as messages from "../messages.js";
 import type * as organizations from "../organizations.js";
+import type * as permissions from "../permissions.js";
+import type * as rateLimits from "../rateLimits.js";
 import type * as sessions from "../sessions.js";
+import type * as stripe from "../stripe.js";
+import type * as subscriptions from "../subscriptions.js";
+import type * as tasks from "../tasks.js";
 import type * as types from "../types.js";
+import type * as usage from "../usage.js";
 import type * as users from "../users.js";
+import type * as voiceSessions from "../voiceSessions.js";
+import type * as webhooks from "../webhooks.js";
+import type * as workos from "../workos.js";
 
 import type {
   ApiFromModules,
@@ -24,14 +45,35 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  audit: typeof audit;
   auditLogs: typeof auditLogs;
+  callSummaries: typeof callSummaries;
   config: typeof config;
+  conversations: typeof conversations;
+  crons: typeof crons;
+  emailDelivery: typeof emailDelivery;
+  emailTemplates: typeof emailTemplates;
+  emails: typeof emails;
+  http: typeof http;
+  invitationTokens: typeof invitationTokens;
   invitations: typeof invitations;
+  livekit: typeof livekit;
+  mailTransport: typeof mailTransport;
   memberships: typeof memberships;
+  messages: typeof messages;
   organizations: typeof organizations;
+  permissions: typeof permissions;
+  rateLimits: typeof rateLimits;
   sessions: typeof sessions;
+  stripe: typeof stripe;
+  subscriptions: typeof subscriptions;
+  tasks: typeof tasks;
   types: typeof types;
+  usage: typeof usage;
   users: typeof users;
+  voiceSessions: typeof voiceSessions;
+  webhooks: typeof webhooks;
+  workos: typeof workos;
 }>;
 
 /**
@@ -0,0 +1,296 @@
+import { Infer, ObjectType, PropertyValidators, Validator } from "convex/values";
+import { RegisteredMutation } from "convex/server";
+import { mutation, internalMutation, MutationCtx } from "./_generated/server";
+import { Doc, Id, TableNames } from "./_generated/dataModel";
+import schema, { auditChange } from "./schema";
+import { getCurrentUser } from "./conversations";
+
+/**
+ * Audited Mutations
+ * Wrappers for mutation definitions that record every document the handler
+ * writes in the audit log: actor, organization, action, resource and the
+ * before/after values of the changed fields. Handlers can refine the entry
+ * (e.g. a different action per branch) through `ctx.audit.set`.
+ */
+
+type AuditChange = Infer<typeof auditChange>;
+
+// Audit log resource name -> the table holding that resource
+const RESOURCE_TABLES = {
+  organization: "organizations",
+  organizationMembership: "organizationMemberships",
+  organizationSettings: "organizationSettings",
+  invitation: "invitations",
+  subscription: "subscriptions",
+  payment: "paymentHistory",
+  session: "sessions",
+  user: "users",
+} as const satisfies Record<string, TableNames>;
+
+export type AuditResource = keyof typeof RESOURCE_TABLES;
+
+// Bumped on nearly every write, so never worth a diff on their own
+const IGNORED_FIELDS = ["updatedAt"];
+
+// Recorded as changed without their values
+const REDACTED_FIELDS = new Set(["tokenNonce"]);
+
+const TABLES = Object.keys(schema.tables) as TableNames[];
+
+export type AuditEntry = {
+  action?: string;
+  resourceId?: string;
+  organizationId?: Id<"organizations">;
+  // Defaults to the authenticated user, if any
+  userId?: Id<"users">;
+  metadata?: Doc<"auditLogs">["metadata"];
+};
+
+export type AuditedMutationCtx = MutationCtx & {
+  audit: {
+    set: (entry: AuditEntry) => void;
+  };
+};
+
+type AuditedMutationDefinition<Args extends PropertyValidators, Output> = {
+  audit: {
+    action: string;
+    resource: AuditResource;
+    // Fields whose changes alone don't warrant an entry (e.g. activity timestamps)
+    ignoreFields?: string[];
+  };
+  args: Args;
+  returns?: Validator<any, "required", any>;
+  handler: (ctx: AuditedMutationCtx, args: ObjectType<Args>) => Promise<Output>;
+};
+
+type TrackedWrite = {
+  table: TableNames;
+  id: Id<TableNames>;
+  // null for documents the handler inserted
+  before: Doc<TableNames> | null;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Serialize a Convex value with sorted object keys, for equality checks
+ */
+function canonical(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, v) => {
+    if (typeof v === "bigint") return v.toString();
+    if (v && typeof v === "object" && !Array.isArray(v)) {
+      return Object.fromEntries(Object.entries(v).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+    }
+    return v;
+  });
+}
+
+/**
+ * Before/after values of the fields that differ between two versions of a
+ * document, or null when nothing (outside the ignored fields) changed
+ */
+function diffDocument(
+  before: Doc<TableNames> | null,
+  after: Doc<TableNames> | null,
+  ignored: Set<string>
+): Pick<AuditChange, "before" | "after"> | null {
+  const previous: Record<string, unknown> = before ?? {};
+  const next: Record<string, unknown> = after ?? {};
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  let changed = false;
+
+  for (const field of fields) {
+    if (field.startsWith("_") || ignored.has(field)) continue;
+    if (canonical(previous[field]) === canonical(next[field])) continue;
+
+    const redacted = REDACTED_FIELDS.has(field);
+    changedBefore[field] = redacted ? "[redacted]" : (previous[field] ?? null);
+    changedAfter[field] = redacted ? "[redacted]" : (next[field] ?? null);
+    changed = true;
+  }
+
+  if (!changed) return null;
+  return {
+    before: before ? changedBefore : undefined,
+    after: after ? changedAfter : undefined,
+  };
+}
+
+/**
+ * Organization a document belongs to (organizations belong to themselves)
+ */
+function organizationOf(
+  table: TableNames,
+  document: Doc<TableNames>
+): Id<"organizations"> | undefined {
+  if (table === "organizations") return document._id as Id<"organizations">;
+  return "organizationId" in document
+    ? (document.organizationId as Id<"organizations"> | undefined)
+    : undefined;
+}
+
+/**
+ * Wrap a database writer so each document's state before its first write is remembered.
+ * Writes to the audit log itself are not tracked.
+ */
+function trackWrites(
+  db: MutationCtx["db"],
+  writes: Map<string, TrackedWrite>
+): MutationCtx["db"] {
+  // Id-only calls (`db.patch(id, value)`) don't name the table
+  const tableOf = (id: string, table?: TableNames) =>
+    table ?? TABLES.find((name) => db.normalizeId(name, id) !== null);
+
+  const remember = async (id: Id<TableNames>, table?: TableNames) => {
+    const name = tableOf(id, table);
+    if (writes.has(id) || !name || name === "auditLogs") return;
+    writes.set(id, { table: name, id, before: await db.get(id) });
+  };
+
+  // Calls come as (table, id, value?) or (id, value?)
+  const withTable = (args: unknown[], arity: number) =>
+    args.length > arity
+      ? { table: args[0] as TableNames, id: args[1] as Id<TableNames> }
+      : { table: undefined, id: args[0] as Id<TableNames> };
+
+  const overrides = {
+    insert: async (table: TableNames, value: unknown) => {
+      const id = await (db.insert as (...args: unknown[]) => Promise<Id<TableNames>>)(table, value);
+      if (table !== "auditLogs") writes.set(id, { table, id, before: null });
+      return id;
+    },
+    patch: async (...args: unknown[]) => {
+      const { table, id } = withTable(args, 2);
+      await remember(id, table);
+      return (db.patch as (...args: unknown[]) => Promise<void>)(...args);
+    },
+    replace: async (...args: unknown[]) => {
+      const { table, id } = withTable(args, 2);
+      await remember(id, table);
+      return (db.replace as (...args: unknown[]) => Promise<void>)(...args);
+    },
+    delete: async (...args: unknown[]) => {
+      const { table, id } = withTable(args, 1);
+      await remember(id, table);
+      return (db.delete as (...args: unknown[]) => Promise<void>)(...args);
+    },
+  };
+
+  return new Proxy(db, {
+    get(target, property, receiver) {
+      if (property in overrides) return overrides[property as keyof typeof overrides];
+      const value = Reflect.get(target, property, receiver);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * Run a handler with write tracking, then write one audit log entry for
+ * everything it changed. Handlers that change nothing leave no entry.
+ */
+async function runAudited<Args extends PropertyValidators, Output>(
+  ctx: MutationCtx,
+  args: ObjectType<Args>,
+  definition: AuditedMutationDefinition<Args, Output>
+): Promise<Output> {
+  const writes = new Map<string, TrackedWrite>();
+  const entry: AuditEntry = {};
+
+  const result = await definition.handler(
+    {
+      ...ctx,
+      db: trackWrites(ctx.db, writes),
+      audit: { set: (fields) => Object.assign(entry, fields) },
+    },
+    args
+  );
+
+  const { resource } = definition.audit;
+  const ignored = new Set([...IGNORED_FIELDS, ...(definition.audit.ignoreFields ?? [])]);
+  const changes: AuditChange[] = [];
+  const organizations = new Set<Id<"organizations">>();
+  let primary: { id: string; organizationId?: Id<"organizations"> } | undefined;
+
+  for (const write of writes.values()) {
+    const after = await ctx.db.get(write.id);
+    const diff = diffDocument(write.before, after, ignored);
+    if (!diff) continue;
+
+    changes.push({
+      table: write.table,
+      documentId: write.id,
+      operation: !write.before ? "insert" : !after ? "delete" : "update",
+      ...diff,
+    });
+
+    const organizationId = organizationOf(write.table, (after ?? write.before)!);
+    if (organizationId) organizations.add(organizationId);
+    if (!primary && write.table === RESOURCE_TABLES[resource]) {
+      primary = { id: write.id, organizationId };
+    }
+  }
+
+  if (changes.length === 0) return result;
+
+  // Explicit, then the organization argument, then the resource's own, then
+  // whichever single organization every change belongs to
+  const argsOrganization =
+    "organizationId" in args && typeof args.organizationId === "string"
+      ? ctx.db.normalizeId("organizations", args.organizationId)
+      : null;
+  const organizationId =
+    entry.organizationId ??
+    argsOrganization ??
+    primary?.organizationId ??
+    (organizations.size === 1 ? [...organizations][0] : undefined);
+
+  await ctx.db.insert("auditLogs", {
+    organizationId,
+    userId: entry.userId ?? (await getCurrentUser(ctx))?._id,
+    action: entry.action ?? definition.audit.action,
+    resource,
+    resourceId: entry.resourceId ?? primary?.id,
+    metadata: entry.metadata,
+    changes,
+    createdAt: Date.now(),
+  });
+
+  return result;
+}
+
+// ============================================================================
+// Builders
+// ============================================================================
+
+/**
+ * Define a public mutation whose writes are recorded in the audit log
+ */
+export function auditedMutation<Args extends PropertyValidators, Output>(
+  definition: AuditedMutationDefinition<Args, Output>
+): RegisteredMutation<"public", ObjectType<Args>, Promise<Output>> {
+  return mutation({
+    args: definition.args,
+    returns: definition.returns,
+    handler: (ctx, args: ObjectType<Args>) => runAudited(ctx, args, definition),
+  });
+}
+
+/**
+ * Define an internal mutation whose writes are recorded in the audit log
+ */
+export function auditedInternalMutation<Args extends PropertyValidators, Output>(
+  definition: AuditedMutationDefinition<Args, Output>
+): RegisteredMutation<"internal", ObjectType<Args>, Promise<Output>> {
+  return internalMutation({
+    args: definition.args,
+    returns: definition.returns,
+    handler: (ctx, args: ObjectType<Args>) => runAudited(ctx, args, definition),
+  });
+}
@@ -1,101 +1,183 @@
-import { v } from "convex/values";
-import { query, mutation, internalMutation } from "./_generated/server";
+import { v, Infer } from "convex/values";
+import { paginationOptsValidator, PaginationResult } from "convex/server";
+import { query, action, internalMutation, QueryCtx } from "./_generated/server";
+import { api, internal } from "./_generated/api";
 import { Doc, Id } from "./_generated/dataModel";
+import { getCurrentUser } from "./conversations";
+import { getActiveMembership, hasPermission, requirePermission } from "./permissions";
+import { getOrganizationSettings } from "./subscriptions";
+import { auditedMutation } from "./audit";
 
 /**
  * Audit Log Functions
  * Tracks all important actions for security and compliance
  */
 
+// Server-side filters shared by the viewer query and exports
+const auditLogFilters = v.object({
+  userId: v.optional(v.id("users")),
+  actionPrefix: v.optional(v.string()),
+  resource: v.optional(v.string()),
+  from: v.optional(v.number()),
+  to: v.optional(v.number()),
+});
+
+type AuditLogFilters = Infer<typeof auditLogFilters>;
+
+export const DEFAULT_AUDIT_RETENTION_DAYS = 365;
+const MIN_AUDIT_RETENTION_DAYS = 7;
+const MAX_AUDIT_RETENTION_DAYS = 3650;
+
+// Deletes per cleanup mutation; larger backlogs continue in follow-up runs
+const PURGE_BATCH_SIZE = 500;
+
+const EXPORT_PAGE_SIZE = 500;
+const MAX_EXPORT_ROWS = 10000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Query an organization's logs through the most selective index for the filters.
+ * Action prefix (and resource, when filtering by actor) still need a `filter`.
+ */
+function queryByFilters(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  filters: AuditLogFilters
+) {
+  const from = filters.from ?? 0;
+  const to = filters.to ?? Number.MAX_SAFE_INTEGER;
+  const logs = ctx.db.query("auditLogs");
+
+  const { userId, resource } = filters;
+  if (userId) {
+    return logs.withIndex("by_organization_and_user", (q) =>
+      q
+        .eq("organizationId", organizationId)
+        .eq("userId", userId)
+        .gte("createdAt", from)
+        .lte("createdAt", to)
+    );
+  }
+
+  if (resource) {
+    return logs.withIndex("by_organization_and_resource", (q) =>
+      q
+        .eq("organizationId", organizationId)
+        .eq("resource", resource)
+        .gte("createdAt", from)
+        .lte("createdAt", to)
+    );
+  }
+
+  return logs.withIndex("by_organization_and_time", (q) =>
+    q.eq("organizationId", organizationId).gte("createdAt", from).lte("createdAt", to)
+  );
+}
+
+const EXPORT_COLUMNS = [
+  "id",
+  "createdAt",
+  "actorId",
+  "actorEmail",
+  "action",
+  "resource",
+  "resourceId",
+  "ipAddress",
+  "userAgent",
+  "metadata",
+  "changes",
+] as const;
+
+type ExportRow = Record<(typeof EXPORT_COLUMNS)[number], string | null>;
+
+type AuditLogWithUser = Doc<"auditLogs"> & { user: Doc<"users"> | null };
+
+function toExportRow(log: AuditLogWithUser): ExportRow {
+  return {
+    id: log._id,
+    createdAt: new Date(log.createdAt).toISOString(),
+    actorId: log.userId ?? null,
+    actorEmail: log.user?.email ?? null,
+    action: log.action,
+    resource: log.resource,
+    resourceId: log.resourceId ?? null,
+    ipAddress: log.ipAddress ?? null,
+    userAgent: log.userAgent ?? null,
+    metadata: log.metadata ? JSON.stringify(log.metadata) : null,
+    changes: log.changes ? JSON.stringify(log.changes) : null,
+  };
+}
+
+function csvCell(value: string | null): string {
+  if (value === null) return "";
+
+  // Keep spreadsheet apps from evaluating cells as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function formatExport(rows: ExportRow[], format: "csv" | "jsonl"): string {
+  if (format === "jsonl") {
+    return rows.map((row) => JSON.stringify(row)).join("\n");
+  }
+
+  const lines = rows.map((row) => EXPORT_COLUMNS.map((column) => csvCell(row[column])).join(","));
+  return [EXPORT_COLUMNS.join(","), ...lines].join("\r\n");
+}
+
 // ============================================================================
 // Queries
 // ============================================================================
 
 /**
- * Get audit logs for an organization
+ * Get audit logs for an organization, newest first, optionally filtered by
+ * actor, action prefix (e.g. "member."), resource and date range
  */
 export const getForOrganization = query({
   args: {
     organizationId: v.id("organizations"),
-    limit: v.optional(v.number()),
-    cursor: v.optional(v.string()),
+    ...auditLogFilters.fields,
+    paginationOpts: paginationOptsValidator,
   },
-  returns: v.object({
-    logs: v.array(v.any()),
-    nextCursor: v.optional(v.string()),
-  }),
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      return { logs: [] };
-    }
+    const empty = { page: [], isDone: true, continueCursor: "" };
 
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
-    if (!user) {
-      return { logs: [] };
-    }
-
-    // Check permissions (admin or owner)
-    const membership = await ctx.db
-      .query("organizationMemberships")
-      .withIndex("by_user_and_org", (q) => 
-        q.eq("userId", user._id).eq("organizationId", args.organizationId)
-      )
-      .unique();
-
-    if (!membership || !membership.isActive) {
-      return { logs: [] };
-    }
+    const user = await getCurrentUser(ctx);
+    if (!user) return empty;
 
-    if (!["owner", "admin"].includes(membership.role)) {
-      return { logs: [] };
+    const membership = await getActiveMembership(ctx, user._id, args.organizationId);
+    if (!(await hasPermission(ctx, membership, "audit.read"))) {
+      return empty;
     }
 
-    const limit = args.limit ?? 50;
-
-    let logs;
-    if (args.cursor) {
-      const cursorDoc = await ctx.db.get(args.cursor as Id<"auditLogs">);
-      if (!cursorDoc) {
-        return { logs: [] };
-      }
-      
-      logs = await ctx.db
-        .query("auditLogs")
-        .withIndex("by_organization_and_time", (q) => 
-          q.eq("organizationId", args.organizationId)
+    const prefix = args.actionPrefix;
+    const result = await queryByFilters(ctx, args.organizationId, args)
+      .order("desc")
+      .filter((q) =>
+        q.and(
+          args.userId && args.resource ? q.eq(q.field("resource"), args.resource) : true,
+          // Every action starting with the prefix sorts between it and prefix + U+FFFF
+          prefix
+            ? q.and(q.gte(q.field("action"), prefix), q.lt(q.field("action"), `${prefix}\uffff`))
+            : true
         )
-        .filter((q) => q.lt("_creationTime", cursorDoc._creationTime))
-        .order("desc")
-        .take(limit);
-    } else {
-      logs = await ctx.db
-        .query("auditLogs")
-        .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
-        .order("desc")
-        .take(limit);
-    }
+      )
+      .paginate(args.paginationOpts);
 
     // Enrich logs with user info
-    const enrichedLogs = await Promise.all(
-      logs.map(async (log) => ({
+    const page = await Promise.all(
+      result.page.map(async (log) => ({
         ...log,
         user: log.userId ? await ctx.db.get(log.userId) : null,
       }))
     );
 
-    const nextCursor = logs.length === limit 
-      ? logs[logs.length - 1]._id 
-      : undefined;
-
-    return {
-      logs: enrichedLogs,
-      nextCursor,
-    };
+    return { ...result, page };
   },
 });
 
@@ -171,29 +253,13 @@ export const getActivitySummary = query({
     actionCounts: v.any(),
   }),
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      return { totalActions: 0, recentActions: [], actionCounts: {} };
-    }
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
+    const user = await getCurrentUser(ctx);
     if (!user) {
       return { totalActions: 0, recentActions: [], actionCounts: {} };
     }
 
-    // Check membership
-    const membership = await ctx.db
-      .query("organizationMemberships")
-      .withIndex("by_user_and_org", (q) => 
-        q.eq("userId", user._id).eq("organizationId", args.organizationId)
-      )
-      .unique();
-
-    if (!membership || !membership.isActive) {
+    const membership = await getActiveMembership(ctx, user._id, args.organizationId);
+    if (!(await hasPermission(ctx, membership, "audit.read"))) {
       return { totalActions: 0, recentActions: [], actionCounts: {} };
     }
 
@@ -234,41 +300,145 @@ export const getActivitySummary = query({
   },
 });
 
+/**
+ * Get an organization's audit log retention
+ */
+export const getRetention = query({
+  args: { organizationId: v.id("organizations") },
+  returns: v.object({
+    days: v.number(),
+    isDefault: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    await requirePermission(ctx, args.organizationId, "audit.read");
+
+    const settings = await getOrganizationSettings(ctx, args.organizationId);
+    const days = settings?.auditRetentionDays;
+
+    return { days: days ?? DEFAULT_AUDIT_RETENTION_DAYS, isDefault: days === undefined };
+  },
+});
+
 // ============================================================================
 // Mutations
 // ============================================================================
 
 /**
- * Create an audit log entry
+ * Set how many days an organization's audit logs are kept. Needs roles.manage
+ * (owners only by default), so admins cannot shorten the trail of their own actions.
  */
-export const create = mutation({
+export const setRetention = auditedMutation({
+  audit: { action: "audit.retention_updated", resource: "organizationSettings" },
   args: {
-    action: v.string(),
-    resource: v.string(),
-    resourceId: v.optional(v.string()),
-    organizationId: v.optional(v.id("organizations")),
-    metadata: v.optional(v.record(v.string(), v.any())),
+    organizationId: v.id("organizations"),
+    days: v.number(),
   },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
+    const { user } = await requirePermission(ctx, args.organizationId, "roles.manage");
+
+    if (
+      !Number.isInteger(args.days) ||
+      args.days < MIN_AUDIT_RETENTION_DAYS ||
+      args.days > MAX_AUDIT_RETENTION_DAYS
+    ) {
+      throw new Error(
+        `Retention must be between ${MIN_AUDIT_RETENTION_DAYS} and ${MAX_AUDIT_RETENTION_DAYS} days`
+      );
     }
 
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
+    const now = Date.now();
+    const settings = await getOrganizationSettings(ctx, args.organizationId);
+    const previous = settings?.auditRetentionDays ?? DEFAULT_AUDIT_RETENTION_DAYS;
 
-    await ctx.db.insert("auditLogs", {
+    if (settings) {
+      await ctx.db.patch(settings._id, {
+        auditRetentionDays: args.days,
+        updatedAt: now,
+        updatedBy: user._id,
+      });
+    } else {
+      await ctx.db.insert("organizationSettings", {
+        organizationId: args.organizationId,
+        auditRetentionDays: args.days,
+        updatedAt: now,
+        updatedBy: user._id,
+      });
+    }
+
+    ctx.audit.set({ metadata: { previous, days: args.days } });
+  },
+});
+
+// ============================================================================
+// Actions
+// ============================================================================
+
+/**
+ * Export an organization's filtered audit logs as CSV or JSON Lines, newest first.
+ * Capped at MAX_EXPORT_ROWS; narrow the date range to export more.
+ */
+export const exportForOrganization = action({
+  args: {
+    organizationId: v.id("organizations"),
+    ...auditLogFilters.fields,
+    format: v.union(v.literal("csv"), v.literal("jsonl")),
+  },
+  returns: v.object({
+    filename: v.string(),
+    mimeType: v.string(),
+    content: v.string(),
+    rowCount: v.number(),
+    truncated: v.boolean(),
+  }),
+  handler: async (ctx, args) => {
+    const { format, ...filters } = args;
+
+    const allowed = await ctx.runQuery(api.memberships.checkPermission, {
+      organizationId: args.organizationId,
+      permission: "audit.read",
+    });
+    if (!allowed) {
+      throw new Error("Insufficient permissions");
+    }
+
+    const rows: ExportRow[] = [];
+    let cursor: string | null = null;
+    let truncated = false;
+
+    while (true) {
+      const result: PaginationResult<AuditLogWithUser> = await ctx.runQuery(
+        api.auditLogs.getForOrganization,
+        { ...filters, paginationOpts: { numItems: EXPORT_PAGE_SIZE, cursor } }
+      );
+
+      rows.push(...result.page.map(toExportRow));
+      if (rows.length >= MAX_EXPORT_ROWS) {
+        truncated = rows.length > MAX_EXPORT_ROWS || !result.isDone;
+        rows.length = MAX_EXPORT_ROWS;
+        break;
+      }
+      if (result.isDone) break;
+      cursor = result.continueCursor;
+    }
+
+    const user = await ctx.runQuery(api.users.getCurrentUser, {});
+
+    await ctx.runMutation(internal.auditLogs.internalCreate, {
       organizationId: args.organizationId,
       userId: user?._id,
-      action: args.action,
-      resource: args.resource,
-      resourceId: args.resourceId,
-      metadata: args.metadata,
-      createdAt: Date.now(),
+      action: "audit.exported",
+      resource: "auditLogs",
+      metadata: { format, rowCount: rows.length, filters },
     });
+
+    const date = new Date().toISOString().slice(0, 10);
+    return {
+      filename: `audit-log-${date}.${format}`,
+      mimeType: format === "csv" ? "text/csv" : "application/x-ndjson",
+      content: formatExport(rows, format),
+      rowCount: rows.length,
+      truncated,
+    };
   },
 });
 
@@ -302,24 +472,55 @@ export const internalCreate = internalMutation({
 });
 
 /**
- * Cleanup old audit logs (run periodically)
+ * Schedule retention cleanup for every organization, plus logs outside any
+ * organization at the default retention (run daily by cron)
  */
-export const cleanupOld = internalMutation({
+export const enforceRetention = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const now = Date.now();
+    const organizations = await ctx.db.query("organizations").collect();
+
+    for (const organization of organizations) {
+      const settings = await getOrganizationSettings(ctx, organization._id);
+      const days = settings?.auditRetentionDays ?? DEFAULT_AUDIT_RETENTION_DAYS;
+
+      await ctx.scheduler.runAfter(0, internal.auditLogs.purgeExpired, {
+        organizationId: organization._id,
+        before: now - days * DAY_MS,
+      });
+    }
+
+    await ctx.scheduler.runAfter(0, internal.auditLogs.purgeExpired, {
+      before: now - DEFAULT_AUDIT_RETENTION_DAYS * DAY_MS,
+    });
+  },
+});
+
+/**
+ * Delete one organization's logs created before a cutoff, a batch at a time
+ */
+export const purgeExpired = internalMutation({
   args: {
-    olderThanDays: v.number(), // Delete logs older than X days
+    organizationId: v.optional(v.id("organizations")),
+    before: v.number(),
   },
   handler: async (ctx, args) => {
-    const cutoff = Date.now() - args.olderThanDays * 24 * 60 * 60 * 1000;
-
-    const oldLogs = await ctx.db
+    const expired = await ctx.db
       .query("auditLogs")
-      .filter((q) => q.lt("createdAt", cutoff))
-      .collect();
+      .withIndex("by_organization_and_time", (q) =>
+        q.eq("organizationId", args.organizationId).lt("createdAt", args.before)
+      )
+      .take(PURGE_BATCH_SIZE);
 
-    for (const log of oldLogs) {
+    for (const log of expired) {
       await ctx.db.delete(log._id);
     }
 
-    return { deleted: oldLogs.length };
+    if (expired.length === PURGE_BATCH_SIZE) {
+      await ctx.scheduler.runAfter(0, internal.auditLogs.purgeExpired, args);
+    }
+
+    return { deleted: expired.length };
   },
 });
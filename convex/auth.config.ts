@@ -0,0 +1,27 @@
+/**
+ * Convex Auth Configuration
+ * Accepts WorkOS AuthKit access tokens so ctx.auth.getUserIdentity() resolves
+ * the signed-in user. Set WORKOS_CLIENT_ID in the Convex deployment environment.
+ * users.store reads the user's email from the token, so the WorkOS JWT template
+ * must include an `email` claim.
+ */
+
+const clientId = process.env.WORKOS_CLIENT_ID;
+
+export default {
+  providers: [
+    {
+      type: "customJwt",
+      issuer: "https://api.workos.com/",
+      algorithm: "RS256",
+      jwks: `https://api.workos.com/sso/jwks/${clientId}`,
+      applicationID: clientId,
+    },
+    {
+      type: "customJwt",
+      issuer: `https://api.workos.com/user_management/${clientId}`,
+      algorithm: "RS256",
+      jwks: `https://api.workos.com/sso/jwks/${clientId}`,
+    },
+  ],
+};
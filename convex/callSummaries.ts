@@ -0,0 +1,209 @@
+"use node";
+
+import { v } from "convex/values";
+import { generateText, LanguageModel } from "ai";
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createGroq } from "@ai-sdk/groq";
+import { createOpenAI } from "@ai-sdk/openai";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { aiProviders, callSummaryContent } from "./schema";
+
+/**
+ * Call Summaries
+ * Turns the stored transcript of an ended voice call into a structured summary:
+ * key points, decisions, action items and follow-up questions. Scheduled by
+ * voiceSessions.ts when a call ends; uses the organization's routing settings for
+ * the provider order and summary models, and the provider keys set on Convex.
+ * The tokens each attempt uses count toward the call owner's token quota.
+ */
+
+type Provider = typeof aiProviders.type;
+type CallSummary = typeof callSummaryContent.type;
+type CallActionItem = CallSummary["actionItems"][number];
+
+// Calls shorter than this have nothing worth summarizing
+const MIN_SUMMARY_LINES = 2;
+
+// Longer transcripts keep their most recent lines (about 12k tokens)
+const MAX_TRANSCRIPT_CHARS = 48000;
+
+const CALL_SUMMARY_MAX_TOKENS = 1500;
+const MAX_ITEMS_PER_SECTION = 10;
+
+// Same order and summary models as the app's default routing policy (services/ai/routing.ts)
+const DEFAULT_PROVIDERS: Provider[] = ["openai", "groq", "anthropic", "gemini"];
+
+const SUMMARY_MODELS: Record<Provider, string> = {
+  openai: "gpt-4o-mini",
+  groq: "llama-3.1-8b-instant",
+  anthropic: "claude-3-5-haiku-latest",
+  gemini: "gemini-2.0-flash",
+};
+
+const PROVIDERS: Record<
+  Provider,
+  { apiKey: string | undefined; createModel: (apiKey: string, model: string) => LanguageModel }
+> = {
+  openai: {
+    apiKey: process.env.OPENAI_API_KEY,
+    createModel: (apiKey, model) => createOpenAI({ apiKey })(model),
+  },
+  groq: {
+    apiKey: process.env.GROQ_API_KEY,
+    createModel: (apiKey, model) => createGroq({ apiKey })(model),
+  },
+  anthropic: {
+    apiKey: process.env.ANTHROPIC_API_KEY,
+    createModel: (apiKey, model) => createAnthropic({ apiKey })(model),
+  },
+  gemini: {
+    apiKey: process.env.GOOGLE_AI_API_KEY,
+    createModel: (apiKey, model) => createGoogleGenerativeAI({ apiKey })(model),
+  },
+};
+
+const CALL_SUMMARY_PROMPT = `You summarize a voice call between a user and an AI assistant.
+Reply with a JSON object and nothing else, in this shape:
+{"keyPoints": string[], "decisions": string[], "actionItems": [{"title": string, "owner": string | null, "dueDate": "YYYY-MM-DD" | null}], "followUpQuestions": string[]}
+- keyPoints: the main facts and topics discussed, one short sentence each.
+- decisions: only what was actually agreed or decided.
+- actionItems: concrete next steps. The owner is the person named as responsible ("me" is the user); use null when nobody was named. Resolve relative dates ("next Friday") against the call date; use null when no date was given.
+- followUpQuestions: questions left open that are worth raising next time.
+Use empty arrays for sections with nothing to report. Do not invent content that is not in the transcript.`;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === "string" && item.trim().length > 0)
+    .map((item) => item.trim())
+    .slice(0, MAX_ITEMS_PER_SECTION);
+}
+
+function toActionItems(value: unknown): CallActionItem[] {
+  if (!Array.isArray(value)) return [];
+
+  const items: CallActionItem[] = [];
+  for (const item of value) {
+    const title = typeof item?.title === "string" ? item.title.trim() : "";
+    if (!title) continue;
+
+    items.push({
+      title,
+      owner: typeof item.owner === "string" && item.owner.trim() ? item.owner.trim() : undefined,
+      dueDate:
+        typeof item.dueDate === "string" && DATE_PATTERN.test(item.dueDate)
+          ? item.dueDate
+          : undefined,
+    });
+  }
+  return items.slice(0, MAX_ITEMS_PER_SECTION);
+}
+
+/**
+ * Parse the model's reply, dropping anything that does not fit the summary shape
+ */
+function parseCallSummary(response: string): CallSummary {
+  const json = response.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    throw new Error("Call summary response did not contain JSON");
+  }
+
+  const data = JSON.parse(json);
+  return {
+    keyPoints: toStringList(data.keyPoints),
+    decisions: toStringList(data.decisions),
+    actionItems: toActionItems(data.actionItems),
+    followUpQuestions: toStringList(data.followUpQuestions),
+  };
+}
+
+// ============================================================================
+// Summarization
+// ============================================================================
+
+/**
+ * Transcript lines for the prompt, most recent kept when over the length budget
+ */
+function formatTranscript(segments: { speaker: "user" | "agent"; text: string }[]): string[] {
+  const kept: string[] = [];
+  let used = 0;
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const text = segments[i].text.trim();
+    if (!text) continue;
+
+    const line = `${segments[i].speaker === "user" ? "User" : "Assistant"}: ${text}`;
+    if (kept.length > 0 && used + line.length > MAX_TRANSCRIPT_CHARS) break;
+    kept.unshift(line);
+    used += line.length;
+  }
+  return kept;
+}
+
+/**
+ * Summarize an ended voice session and save the summary on it.
+ * Providers are tried in the routing order until one answers.
+ */
+export const summarize = internalAction({
+  args: { sessionId: v.id("voiceSessions") },
+  handler: async (ctx, args) => {
+    const input = await ctx.runQuery(internal.voiceSessions.getSummaryInput, {
+      sessionId: args.sessionId,
+    });
+    if (!input) return;
+
+    const lines = formatTranscript(input.segments);
+    if (lines.length < MIN_SUMMARY_LINES) return;
+
+    const routing = input.aiRouting;
+    const chain = (routing?.fallbackChain?.length ? routing.fallbackChain : DEFAULT_PROVIDERS)
+      .filter((provider) => !!PROVIDERS[provider].apiKey);
+    if (chain.length === 0) {
+      console.error("[Call summary] No AI provider key is set on Convex");
+      return;
+    }
+
+    const callDate = new Date(input.startedAt).toISOString().slice(0, 10);
+    const prompt = `Call date: ${callDate}\n\nTranscript:\n\n${lines.join("\n")}`;
+
+    for (const provider of chain) {
+      const { apiKey, createModel } = PROVIDERS[provider];
+      const model = routing?.models?.summary?.[provider] ?? SUMMARY_MODELS[provider];
+
+      try {
+        const { text, usage } = await generateText({
+          model: createModel(apiKey!, model),
+          system: CALL_SUMMARY_PROMPT,
+          prompt,
+          temperature: 0,
+          maxOutputTokens: CALL_SUMMARY_MAX_TOKENS,
+        });
+
+        // Billed even when the reply cannot be parsed
+        await ctx.runMutation(internal.voiceSessions.recordSummaryUsage, {
+          sessionId: args.sessionId,
+          tokens: usage.totalTokens ?? (usage.inputTokens ?? 0) + (usage.outputTokens ?? 0),
+          provider,
+          model,
+        });
+
+        await ctx.runMutation(internal.voiceSessions.saveSummary, {
+          sessionId: args.sessionId,
+          summary: parseCallSummary(text),
+        });
+        return;
+      } catch (error) {
+        console.warn(`[Call summary] ${provider} failed for ${args.sessionId}:`, error);
+      }
+    }
+
+    console.error(`[Call summary] No provider could summarize ${args.sessionId}`);
+  },
+});
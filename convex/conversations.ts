@@ -0,0 +1,332 @@
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+
+/**
+ * Conversation Functions
+ * Handles chat threads scoped to a user and, optionally, an organization
+ */
+
+export const DEFAULT_CONVERSATION_TITLE = "New Chat";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Resolve the authenticated user, or null when signed out
+ */
+export async function getCurrentUser(ctx: QueryCtx): Promise<Doc<"users"> | null> {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) return null;
+
+  return await ctx.db
+    .query("users")
+    .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+    .unique();
+}
+
+/**
+ * Check that a user is an active member of an organization
+ */
+export async function isActiveMember(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  organizationId: Id<"organizations">
+): Promise<boolean> {
+  const membership = await ctx.db
+    .query("organizationMemberships")
+    .withIndex("by_user_and_org", (q) =>
+      q.eq("userId", userId).eq("organizationId", organizationId)
+    )
+    .unique();
+
+  return !!membership && membership.isActive;
+}
+
+/**
+ * Organizations a user is an active member of
+ */
+export async function getActiveOrganizationIds(
+  ctx: QueryCtx,
+  userId: Id<"users">
+): Promise<Id<"organizations">[]> {
+  const memberships = await ctx.db
+    .query("organizationMemberships")
+    .withIndex("by_user_active", (q) => q.eq("userId", userId).eq("isActive", true))
+    .collect();
+
+  return memberships.map((membership) => membership.organizationId);
+}
+
+/**
+ * Load a conversation the user owns and can still access.
+ * Conversations in an organization become inaccessible once membership ends.
+ */
+export async function getAccessibleConversation(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  conversationId: Id<"conversations">
+): Promise<Doc<"conversations"> | null> {
+  const conversation = await ctx.db.get(conversationId);
+  if (!conversation || conversation.userId !== user._id) return null;
+
+  if (
+    conversation.organizationId &&
+    !(await isActiveMember(ctx, user._id, conversation.organizationId))
+  ) {
+    return null;
+  }
+
+  return conversation;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * List conversations for the current user, most recently updated first.
+ * When an organization is given only conversations in that organization are returned;
+ * otherwise personal conversations and those in organizations the user still belongs to.
+ */
+export const list = query({
+  args: {
+    organizationId: v.optional(v.id("organizations")),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const empty = { page: [], isDone: true, continueCursor: "" };
+
+    const user = await getCurrentUser(ctx);
+    if (!user) return empty;
+
+    if (args.organizationId) {
+      if (!(await isActiveMember(ctx, user._id, args.organizationId))) {
+        return empty;
+      }
+
+      return await ctx.db
+        .query("conversations")
+        .withIndex("by_user_and_org", (q) =>
+          q.eq("userId", user._id).eq("organizationId", args.organizationId)
+        )
+        .order("desc")
+        .paginate(args.paginationOpts);
+    }
+
+    const organizationIds = await getActiveOrganizationIds(ctx, user._id);
+    return await ctx.db
+      .query("conversations")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .filter((q) =>
+        q.or(
+          q.eq(q.field("organizationId"), undefined),
+          ...organizationIds.map((id) => q.eq(q.field("organizationId"), id))
+        )
+      )
+      .paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * Get the most recently updated conversation for the current user
+ */
+export const getLatest = query({
+  args: { organizationId: v.optional(v.id("organizations")) },
+  returns: v.union(v.null(), v.any()),
+  handler: async (ctx, args): Promise<Doc<"conversations"> | null> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return null;
+
+    if (args.organizationId) {
+      if (!(await isActiveMember(ctx, user._id, args.organizationId))) return null;
+
+      return await ctx.db
+        .query("conversations")
+        .withIndex("by_user_and_org", (q) =>
+          q.eq("userId", user._id).eq("organizationId", args.organizationId)
+        )
+        .order("desc")
+        .first();
+    }
+
+    const organizationIds = await getActiveOrganizationIds(ctx, user._id);
+    return await ctx.db
+      .query("conversations")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .filter((q) =>
+        q.or(
+          q.eq(q.field("organizationId"), undefined),
+          ...organizationIds.map((id) => q.eq(q.field("organizationId"), id))
+        )
+      )
+      .first();
+  },
+});
+
+/**
+ * Get conversation by ID
+ */
+export const getById = query({
+  args: { conversationId: v.id("conversations") },
+  returns: v.union(v.null(), v.any()),
+  handler: async (ctx, args): Promise<Doc<"conversations"> | null> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return null;
+
+    return await getAccessibleConversation(ctx, user, args.conversationId);
+  },
+});
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Create a new conversation
+ */
+export const create = mutation({
+  args: {
+    organizationId: v.optional(v.id("organizations")),
+    title: v.optional(v.string()),
+  },
+  returns: v.id("conversations"),
+  handler: async (ctx, args): Promise<Id<"conversations">> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    if (args.organizationId && !(await isActiveMember(ctx, user._id, args.organizationId))) {
+      throw new Error("Not a member of this organization");
+    }
+
+    const now = Date.now();
+
+    return await ctx.db.insert("conversations", {
+      userId: user._id,
+      organizationId: args.organizationId,
+      title: args.title?.trim() || DEFAULT_CONVERSATION_TITLE,
+      messageCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Rename a conversation
+ */
+export const updateTitle = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    title: v.string(),
+  },
+  returns: v.id("conversations"),
+  handler: async (ctx, args): Promise<Id<"conversations">> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const conversation = await getAccessibleConversation(ctx, user, args.conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    await ctx.db.patch(conversation._id, {
+      title: args.title.trim() || DEFAULT_CONVERSATION_TITLE,
+      updatedAt: Date.now(),
+    });
+
+    return conversation._id;
+  },
+});
+
+/**
+ * Replace the rolling summary of a conversation's older turns
+ */
+export const updateSummary = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    content: v.string(),
+    lastMessageId: v.id("messages"),
+    messageCount: v.number(),
+  },
+  returns: v.id("conversations"),
+  handler: async (ctx, args): Promise<Id<"conversations">> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const conversation = await getAccessibleConversation(ctx, user, args.conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    const lastMessage = await ctx.db.get(args.lastMessageId);
+    if (!lastMessage || lastMessage.conversationId !== conversation._id) {
+      throw new Error("Message not found");
+    }
+
+    // Summaries only move forward; ignore a slower request that summarized less
+    if (conversation.summary && conversation.summary.messageCount >= args.messageCount) {
+      return conversation._id;
+    }
+
+    await ctx.db.patch(conversation._id, {
+      summary: {
+        content: args.content,
+        lastMessageId: args.lastMessageId,
+        messageCount: args.messageCount,
+        updatedAt: Date.now(),
+      },
+    });
+
+    return conversation._id;
+  },
+});
+
+/**
+ * Delete a conversation and all of its messages
+ */
+export const remove = mutation({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const conversation = await getAccessibleConversation(ctx, user, args.conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", conversation._id))
+      .collect();
+
+    for (const message of messages) {
+      await ctx.db.delete(message._id);
+    }
+
+    // Voice sessions started from the chat outlive it
+    const voiceSessions = await ctx.db
+      .query("voiceSessions")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", conversation._id))
+      .collect();
+
+    for (const session of voiceSessions) {
+      await ctx.db.patch(session._id, { conversationId: undefined });
+    }
+
+    await ctx.db.delete(conversation._id);
+  },
+});
@@ -0,0 +1,26 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+/**
+ * Scheduled Jobs
+ */
+
+const crons = cronJobs();
+
+// Expire ended trials and past-due subscriptions out of their grace period
+crons.interval("expire lapsed subscriptions", { hours: 1 }, internal.subscriptions.expireLapsed);
+
+// Retry email deliveries interrupted mid-send
+crons.interval("requeue stalled emails", { minutes: 15 }, internal.emails.requeueStalled);
+
+// Close voice sessions whose user never joined the room
+crons.interval("end stale voice sessions", { minutes: 30 }, internal.voiceSessions.endStale);
+
+// Delete audit logs past each organization's retention
+crons.daily(
+  "enforce audit log retention",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.auditLogs.enforceRetention
+);
+
+export default crons;
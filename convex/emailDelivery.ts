@@ -0,0 +1,45 @@
+"use node";
+
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { renderEmail } from "./emailTemplates";
+import { getMailFrom, getMailTransport, PermanentMailError } from "./mailTransport";
+
+/**
+ * Email Delivery
+ * Sends queued outbox emails through the configured mail transport
+ */
+
+/**
+ * Render and send one outbox email. Scheduled by emails.ts on enqueue and for each retry.
+ */
+export const deliver = internalAction({
+  args: { emailId: v.id("emailOutbox") },
+  handler: async (ctx, args) => {
+    const claimed = await ctx.runMutation(internal.emails.claim, { emailId: args.emailId });
+    if (!claimed) return;
+
+    try {
+      const transport = getMailTransport();
+      const content = renderEmail(claimed.template, claimed.data);
+
+      const { messageId } = await transport.send({
+        from: getMailFrom(),
+        to: claimed.to,
+        ...content,
+      });
+
+      await ctx.runMutation(internal.emails.markSent, { emailId: args.emailId, messageId });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Mail] Delivery of ${args.emailId} failed:`, message);
+
+      await ctx.runMutation(internal.emails.markFailed, {
+        emailId: args.emailId,
+        error: message,
+        retryable: !(error instanceof PermanentMailError),
+      });
+    }
+  },
+});
@@ -0,0 +1,125 @@
+import { Doc } from "./_generated/dataModel";
+
+/**
+ * Email Templates
+ * Subject, plain-text and HTML bodies for each outbox template.
+ * Pure functions, shared by the delivery action and previews.
+ */
+
+export type EmailTemplate = Doc<"emailOutbox">["template"];
+
+export type InvitationEmailData = {
+  organizationName: string;
+  inviterName: string;
+  recipientName?: string;
+  role: string;
+  inviteUrl: string;
+  // Browser fallback for recipients without the app
+  webUrl?: string;
+  expiresAt: number;
+};
+
+export type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function roleLabel(role: string): string {
+  return role.charAt(0).toUpperCase() + role.slice(1);
+}
+
+/**
+ * Wrap paragraphs and a call-to-action button in a minimal inline-styled layout
+ */
+function layout(
+  paragraphs: string[],
+  action: { label: string; url: string },
+  fallbackUrl?: string
+): string {
+  const body = paragraphs
+    .map((p) => `<p style="margin:0 0 16px;font-size:15px;line-height:22px;">${p}</p>`)
+    .join("");
+
+  return [
+    '<div style="font-family:Helvetica,Arial,sans-serif;color:#111;max-width:480px;margin:0 auto;padding:24px;">',
+    body,
+    `<p style="margin:24px 0;"><a href="${escapeHtml(action.url)}" style="background:#111;color:#fff;padding:12px 20px;border-radius:999px;text-decoration:none;font-size:15px;">${escapeHtml(action.label)}</a></p>`,
+    `<p style="margin:0;font-size:12px;color:#666;">Or open this link: ${escapeHtml(action.url)}</p>`,
+    fallbackUrl
+      ? `<p style="margin:8px 0 0;font-size:12px;color:#666;">Don't have the app? <a href="${escapeHtml(fallbackUrl)}">Open the invitation in your browser</a></p>`
+      : "",
+    "</div>",
+  ].join("");
+}
+
+// ============================================================================
+// Templates
+// ============================================================================
+
+function renderInvitation(data: InvitationEmailData, reminder: boolean): RenderedEmail {
+  const greeting = data.recipientName ? `Hi ${data.recipientName},` : "Hi,";
+  const expires = formatDate(data.expiresAt);
+  const role = roleLabel(data.role);
+
+  const subject = reminder
+    ? `Reminder: join ${data.organizationName}`
+    : `${data.inviterName} invited you to join ${data.organizationName}`;
+
+  const intro = reminder
+    ? `${data.inviterName} is still waiting for you to join ${data.organizationName} as ${role}.`
+    : `${data.inviterName} invited you to join ${data.organizationName} as ${role}.`;
+  const expiry = `This invitation expires on ${expires}.`;
+
+  const text = [
+    greeting,
+    "",
+    intro,
+    expiry,
+    "",
+    `Accept the invitation: ${data.inviteUrl}`,
+    ...(data.webUrl ? [`Don't have the app? Open it in your browser: ${data.webUrl}`] : []),
+  ].join("\n");
+
+  const html = layout(
+    [escapeHtml(greeting), escapeHtml(intro), escapeHtml(expiry)],
+    { label: "Accept invitation", url: data.inviteUrl },
+    data.webUrl
+  );
+
+  return { subject, text, html };
+}
+
+/**
+ * Render an outbox template with its data
+ */
+export function renderEmail(template: EmailTemplate, data: InvitationEmailData): RenderedEmail {
+  switch (template) {
+    case "invitation":
+      return renderInvitation(data, false);
+    case "invitation_reminder":
+      return renderInvitation(data, true);
+  }
+}
@@ -0,0 +1,335 @@
+import { v } from "convex/values";
+import { query, mutation, internalMutation, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { emailStatus } from "./schema";
+import { getCurrentUser } from "./conversations";
+import { EmailTemplate, InvitationEmailData } from "./emailTemplates";
+import { generateTokenNonce, getInviteLinks, signInvitationToken } from "./invitationTokens";
+import { getActiveMembership, hasPermission, requirePermission } from "./permissions";
+
+/**
+ * Email Outbox Functions
+ * Emails are queued in the same transaction as the change that triggers them,
+ * then delivered by emailDelivery.deliver. Failed attempts are retried with backoff.
+ */
+
+// Delay before each retry; an email fails for good once these run out
+const RETRY_DELAYS_MS = [
+  60 * 1000, // 1 minute
+  5 * 60 * 1000, // 5 minutes
+  30 * 60 * 1000, // 30 minutes
+  2 * 60 * 60 * 1000, // 2 hours
+];
+
+// A delivery still marked sending after this long is assumed to have crashed
+const SENDING_TIMEOUT_MS = 10 * 60 * 1000;
+
+// A single addr-spec: no display name, brackets, separators or whitespace
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>,;:"()[\]\\]+@[^\s@<>,;:"()[\]\\]+\.[^\s@<>,;:"()[\]\\]+$/;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Reject anything but a single plain email address before it reaches the mail transport
+ */
+export function assertEmailAddress(email: string): void {
+  if (email.length > 254 || !EMAIL_ADDRESS_PATTERN.test(email)) {
+    throw new Error("Invalid email address");
+  }
+}
+
+/**
+ * Queue an invitation email and schedule its delivery
+ */
+export async function enqueueInvitationEmail(
+  ctx: MutationCtx,
+  invitation: Pick<Doc<"invitations">, "_id" | "email" | "organizationId">,
+  template: EmailTemplate
+): Promise<Id<"emailOutbox">> {
+  const now = Date.now();
+
+  const emailId = await ctx.db.insert("emailOutbox", {
+    template,
+    to: invitation.email,
+    organizationId: invitation.organizationId,
+    invitationId: invitation._id,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.emailDelivery.deliver, { emailId });
+  return emailId;
+}
+
+/**
+ * Record a failed attempt: schedule the next retry, or fail the email
+ * once it is out of attempts
+ */
+async function recordFailure(
+  ctx: MutationCtx,
+  email: Doc<"emailOutbox">,
+  error: string,
+  retryable: boolean
+): Promise<void> {
+  const now = Date.now();
+  const delay = RETRY_DELAYS_MS[email.attempts - 1];
+
+  if (!retryable || delay === undefined) {
+    await ctx.db.patch(email._id, {
+      status: "failed",
+      lastError: error,
+      nextAttemptAt: undefined,
+      updatedAt: now,
+    });
+    return;
+  }
+
+  await ctx.db.patch(email._id, {
+    status: "pending",
+    lastError: error,
+    nextAttemptAt: now + delay,
+    updatedAt: now,
+  });
+  await ctx.scheduler.runAfter(delay, internal.emailDelivery.deliver, { emailId: email._id });
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Pending invitations of an organization with the delivery status of
+ * their latest email
+ */
+export const getInvitationDeliveries = query({
+  args: { organizationId: v.id("organizations") },
+  returns: v.array(v.object({
+    invitationId: v.id("invitations"),
+    email: v.string(),
+    role: v.string(),
+    expiresAt: v.number(),
+    delivery: v.union(v.null(), v.object({
+      emailId: v.id("emailOutbox"),
+      status: emailStatus,
+      attempts: v.number(),
+      lastError: v.optional(v.string()),
+      nextAttemptAt: v.optional(v.number()),
+      sentAt: v.optional(v.number()),
+    })),
+  })),
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return [];
+
+    const membership = await getActiveMembership(ctx, user._id, args.organizationId);
+    if (!(await hasPermission(ctx, membership, "members.invite"))) return [];
+
+    const now = Date.now();
+    const invitations = await ctx.db
+      .query("invitations")
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
+      .filter((q) => q.eq(q.field("status"), "pending"))
+      .collect();
+
+    return await Promise.all(
+      invitations
+        .filter((i) => i.expiresAt > now)
+        .map(async (i) => {
+          const latest = await ctx.db
+            .query("emailOutbox")
+            .withIndex("by_invitation", (q) => q.eq("invitationId", i._id))
+            .order("desc")
+            .first();
+
+          return {
+            invitationId: i._id,
+            email: i.email,
+            role: i.role,
+            expiresAt: i.expiresAt,
+            delivery: latest
+              ? {
+                  emailId: latest._id,
+                  status: latest.status,
+                  attempts: latest.attempts,
+                  lastError: latest.lastError,
+                  nextAttemptAt: latest.nextAttemptAt,
+                  sentAt: latest.sentAt,
+                }
+              : null,
+          };
+        })
+    );
+  },
+});
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Retry a failed invitation email now, with a fresh set of attempts
+ */
+export const retryDelivery = mutation({
+  args: { emailId: v.id("emailOutbox") },
+  handler: async (ctx, args) => {
+    const email = await ctx.db.get(args.emailId);
+    if (!email || !email.organizationId) {
+      throw new Error("Email not found");
+    }
+
+    await requirePermission(ctx, email.organizationId, "members.invite");
+
+    if (email.status !== "failed") {
+      throw new Error("Only failed emails can be retried");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(email._id, {
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: now,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(0, internal.emailDelivery.deliver, { emailId: email._id });
+  },
+});
+
+// ============================================================================
+// Internal Functions
+// ============================================================================
+
+/**
+ * Claim a pending email for delivery and load its template data.
+ * Returns null if it was already claimed, or fails it if its invitation is no longer pending.
+ */
+export const claim = internalMutation({
+  args: { emailId: v.id("emailOutbox") },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ to: string; template: EmailTemplate; data: InvitationEmailData } | null> => {
+    const email = await ctx.db.get(args.emailId);
+    if (!email || email.status !== "pending") return null;
+
+    const now = Date.now();
+
+    const invitation = email.invitationId ? await ctx.db.get(email.invitationId) : null;
+    if (!invitation || invitation.status !== "pending" || invitation.expiresAt < now) {
+      await ctx.db.patch(email._id, {
+        status: "failed",
+        lastError: "Invitation is no longer pending",
+        nextAttemptAt: undefined,
+        updatedAt: now,
+      });
+      return null;
+    }
+
+    const organization = await ctx.db.get(invitation.organizationId);
+    const inviter = await ctx.db.get(invitation.invitedBy);
+
+    // Invitations created before link tokens get a nonce on first send
+    let tokenNonce = invitation.tokenNonce;
+    if (!tokenNonce) {
+      tokenNonce = generateTokenNonce();
+      await ctx.db.patch(invitation._id, { tokenNonce });
+    }
+
+    let links: ReturnType<typeof getInviteLinks>;
+    try {
+      links = getInviteLinks(await signInvitationToken(invitation._id, tokenNonce));
+    } catch (error) {
+      // Missing signing configuration; retrying will not help
+      await ctx.db.patch(email._id, {
+        status: "failed",
+        lastError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt: undefined,
+        updatedAt: now,
+      });
+      return null;
+    }
+
+    await ctx.db.patch(email._id, {
+      status: "sending",
+      attempts: email.attempts + 1,
+      updatedAt: now,
+    });
+
+    const inviterName = [inviter?.firstName, inviter?.lastName].filter(Boolean).join(" ");
+
+    return {
+      to: email.to,
+      template: email.template,
+      data: {
+        organizationName: organization?.name ?? "an organization",
+        inviterName: inviterName || inviter?.email || "A teammate",
+        recipientName: invitation.firstName,
+        role: invitation.role,
+        inviteUrl: links.appUrl,
+        webUrl: links.webUrl,
+        expiresAt: invitation.expiresAt,
+      },
+    };
+  },
+});
+
+/**
+ * Record a successful delivery
+ */
+export const markSent = internalMutation({
+  args: {
+    emailId: v.id("emailOutbox"),
+    messageId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    await ctx.db.patch(args.emailId, {
+      status: "sent",
+      messageId: args.messageId,
+      lastError: undefined,
+      nextAttemptAt: undefined,
+      sentAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Record a failed delivery attempt
+ */
+export const markFailed = internalMutation({
+  args: {
+    emailId: v.id("emailOutbox"),
+    error: v.string(),
+    retryable: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const email = await ctx.db.get(args.emailId);
+    if (!email || email.status !== "sending") return;
+
+    await recordFailure(ctx, email, args.error, args.retryable);
+  },
+});
+
+/**
+ * Retry deliveries whose action died mid-send (run by cron)
+ */
+export const requeueStalled = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - SENDING_TIMEOUT_MS;
+    const stalled = await ctx.db
+      .query("emailOutbox")
+      .withIndex("by_status", (q) => q.eq("status", "sending").lt("updatedAt", cutoff))
+      .collect();
+
+    for (const email of stalled) {
+      await recordFailure(ctx, email, "Delivery timed out", true);
+    }
+  },
+});
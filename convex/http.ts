@@ -0,0 +1,195 @@
+import { FunctionArgs, httpRouter } from "convex/server";
+import { httpAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { LiveKitEvent, processLiveKitEvent, verifyLiveKitWebhook } from "./livekit";
+import { processStripeEvent, StripeEvent, verifyStripeSignature } from "./stripe";
+import { timingSafeEqual } from "./webhooks";
+import { processWorkOSEvent, verifyWorkOSSignature, WorkOSEvent } from "./workos";
+
+/**
+ * HTTP Routes
+ * Served from the deployment's .convex.site URL
+ */
+
+const http = httpRouter();
+
+// ============================================================================
+// Stripe
+// ============================================================================
+
+/**
+ * Stripe webhook. Responds 2xx once an event is applied (or was already),
+ * and 5xx when processing fails so Stripe retries the delivery.
+ */
+http.route({
+  path: "/stripe/webhook",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) {
+      console.error("[Stripe] STRIPE_WEBHOOK_SECRET is not set");
+      return new Response("Webhook not configured", { status: 500 });
+    }
+
+    // Verify against the raw body; re-serialized JSON would not match the signature
+    const payload = await request.text();
+    const valid = await verifyStripeSignature(
+      payload,
+      request.headers.get("stripe-signature"),
+      secret
+    );
+    if (!valid) {
+      return new Response("Invalid signature", { status: 400 });
+    }
+
+    let event: StripeEvent;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      return new Response("Invalid payload", { status: 400 });
+    }
+
+    try {
+      const result = await processStripeEvent(ctx, event);
+      return Response.json({ received: true, result });
+    } catch (error) {
+      console.error(`[Stripe] Failed to process ${event.type} (${event.id}):`, error);
+      return new Response("Event processing failed", { status: 500 });
+    }
+  }),
+});
+
+// ============================================================================
+// WorkOS
+// ============================================================================
+
+/**
+ * WorkOS webhook (user, organization, membership and directory sync events).
+ * Responds 5xx when processing fails so WorkOS retries the delivery.
+ */
+http.route({
+  path: "/workos/webhook",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const secret = process.env.WORKOS_WEBHOOK_SECRET;
+    if (!secret) {
+      console.error("[WorkOS] WORKOS_WEBHOOK_SECRET is not set");
+      return new Response("Webhook not configured", { status: 500 });
+    }
+
+    const payload = await request.text();
+    const valid = await verifyWorkOSSignature(
+      payload,
+      request.headers.get("workos-signature"),
+      secret
+    );
+    if (!valid) {
+      return new Response("Invalid signature", { status: 400 });
+    }
+
+    let event: WorkOSEvent;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      return new Response("Invalid payload", { status: 400 });
+    }
+
+    try {
+      const handled = await processWorkOSEvent(ctx, event);
+      return Response.json({ received: true, handled });
+    } catch (error) {
+      console.error(`[WorkOS] Failed to process ${event.event} (${event.id}):`, error);
+      return new Response("Event processing failed", { status: 500 });
+    }
+  }),
+});
+
+// ============================================================================
+// LiveKit
+// ============================================================================
+
+/**
+ * LiveKit webhook (participant and room events), which meters voice sessions.
+ * Responds 5xx when processing fails so LiveKit retries the delivery.
+ */
+http.route({
+  path: "/livekit/webhook",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const apiKey = process.env.LIVEKIT_API_KEY;
+    const apiSecret = process.env.LIVEKIT_API_SECRET;
+    if (!apiKey || !apiSecret) {
+      console.error("[LiveKit] LIVEKIT_API_KEY or LIVEKIT_API_SECRET is not set");
+      return new Response("Webhook not configured", { status: 500 });
+    }
+
+    const payload = await request.text();
+    const valid = await verifyLiveKitWebhook(
+      payload,
+      request.headers.get("authorization"),
+      apiKey,
+      apiSecret
+    );
+    if (!valid) {
+      return new Response("Invalid signature", { status: 400 });
+    }
+
+    let event: LiveKitEvent;
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      return new Response("Invalid payload", { status: 400 });
+    }
+
+    try {
+      const handled = await processLiveKitEvent(ctx, event);
+      return Response.json({ received: true, handled });
+    } catch (error) {
+      console.error(`[LiveKit] Failed to process ${event.event} (${event.id}):`, error);
+      return new Response("Event processing failed", { status: 500 });
+    }
+  }),
+});
+
+// ============================================================================
+// Usage
+// ============================================================================
+
+/**
+ * Usage measured by the app's server routes (chat tokens from api/chat+api.ts),
+ * authenticated with the shared USAGE_INGEST_SECRET
+ */
+http.route({
+  path: "/usage/record",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    const secret = process.env.USAGE_INGEST_SECRET;
+    if (!secret) {
+      console.error("[Usage] USAGE_INGEST_SECRET is not set");
+      return new Response("Usage ingest not configured", { status: 500 });
+    }
+
+    const authorization = request.headers.get("authorization") ?? "";
+    if (!timingSafeEqual(authorization, `Bearer ${secret}`)) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+
+    // Checked against internal.usage.record's validators when it runs
+    let event: FunctionArgs<typeof internal.usage.record>;
+    try {
+      event = await request.json();
+    } catch {
+      return new Response("Invalid payload", { status: 400 });
+    }
+
+    try {
+      const eventId = await ctx.runMutation(internal.usage.record, event);
+      return Response.json({ eventId });
+    } catch (error) {
+      console.error("[Usage] Failed to record usage:", error);
+      return new Response("Usage could not be recorded", { status: 400 });
+    }
+  }),
+});
+
+export default http;
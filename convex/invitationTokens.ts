@@ -0,0 +1,65 @@
+import { Id } from "./_generated/dataModel";
+import { hmacSha256Hex, timingSafeEqual } from "./webhooks";
+
+/**
+ * Invitation Link Tokens
+ * `<invitationId>.<nonce>.<signature>`, signed with INVITE_TOKEN_SECRET. The nonce is
+ * stored on the invitation, so a token only works for the invitation it was issued for,
+ * and only until the invitation is accepted.
+ */
+
+const APP_SCHEME = "alias-executive-agent";
+
+function getSecret(): string {
+  const secret = process.env.INVITE_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error("INVITE_TOKEN_SECRET is not set");
+  }
+  return secret;
+}
+
+/**
+ * Random nonce to store on a new invitation
+ */
+export function generateTokenNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function signInvitationToken(
+  invitationId: Id<"invitations">,
+  nonce: string
+): Promise<string> {
+  const payload = `${invitationId}.${nonce}`;
+  return `${payload}.${await hmacSha256Hex(getSecret(), payload)}`;
+}
+
+/**
+ * Check a token's signature. The caller still has to match the nonce
+ * against the invitation.
+ */
+export async function verifyInvitationToken(
+  token: string
+): Promise<{ invitationId: string; nonce: string } | null> {
+  const [invitationId, nonce, signature, ...rest] = token.split(".");
+  if (!invitationId || !nonce || !signature || rest.length > 0) return null;
+
+  const expected = await hmacSha256Hex(getSecret(), `${invitationId}.${nonce}`);
+  if (!timingSafeEqual(signature, expected)) return null;
+
+  return { invitationId, nonce };
+}
+
+/**
+ * Deep link into the app, plus a web fallback when APP_WEB_URL is set
+ */
+export function getInviteLinks(token: string): { appUrl: string; webUrl?: string } {
+  const webBase = process.env.APP_WEB_URL?.replace(/\/+$/, "");
+
+  return {
+    appUrl: `${APP_SCHEME}://invite/${token}`,
+    webUrl: webBase ? `${webBase}/invite/${token}` : undefined,
+  };
+}
@@ -1,6 +1,10 @@
 import { v } from "convex/values";
 import { query, mutation } from "./_generated/server";
 import { Doc } from "./_generated/dataModel";
+import { organizationRoles } from "./schema";
+import { assertEmailAddress, enqueueInvitationEmail } from "./emails";
+import { verifyInvitationToken } from "./invitationTokens";
+import { requirePermission, requireUser } from "./permissions";
 
 /**
  * Invitation Management Functions
@@ -97,55 +101,91 @@ export const validate = query({
   },
 });
 
+/**
+ * Look up an invitation from its link token. Public, so the invite screen can
+ * show what is being accepted before the user signs in.
+ */
+export const getByToken = query({
+  args: { token: v.string() },
+  returns: v.object({
+    valid: v.boolean(),
+    error: v.optional(v.string()),
+    organization: v.optional(v.object({
+      name: v.string(),
+      logoUrl: v.optional(v.string()),
+    })),
+    role: v.optional(organizationRoles),
+    email: v.optional(v.string()),
+    invitedByName: v.optional(v.string()),
+    expiresAt: v.optional(v.number()),
+  }),
+  handler: async (ctx, args) => {
+    const verified = await verifyInvitationToken(args.token);
+    const invitationId = verified && ctx.db.normalizeId("invitations", verified.invitationId);
+    const invitation = invitationId ? await ctx.db.get(invitationId) : null;
+
+    if (!invitation || invitation.tokenNonce !== verified?.nonce) {
+      return { valid: false, error: "This invitation link is invalid" };
+    }
+
+    if (invitation.tokenUsedAt || invitation.status === "accepted") {
+      return { valid: false, error: "This invitation has already been accepted" };
+    }
+
+    if (invitation.status !== "pending") {
+      return { valid: false, error: `Invitation is ${invitation.status}` };
+    }
+
+    if (invitation.expiresAt < Date.now()) {
+      return { valid: false, error: "Invitation has expired" };
+    }
+
+    const organization = await ctx.db.get(invitation.organizationId);
+    if (!organization || !organization.isActive) {
+      return { valid: false, error: "Organization no longer exists" };
+    }
+
+    const inviter = await ctx.db.get(invitation.invitedBy);
+    const inviterName = [inviter?.firstName, inviter?.lastName].filter(Boolean).join(" ");
+
+    return {
+      valid: true,
+      organization: { name: organization.name, logoUrl: organization.logoUrl },
+      role: invitation.role,
+      email: invitation.email,
+      invitedByName: inviterName || inviter?.email,
+      expiresAt: invitation.expiresAt,
+    };
+  },
+});
+
 // ============================================================================
 // Mutations
 // ============================================================================
 
 /**
- * Resend invitation (refreshes expiration)
+ * Resend invitation (refreshes expiration and emails a reminder)
  */
 export const resend = mutation({
   args: { invitationId: v.id("invitations") },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
-    if (!user) {
-      throw new Error("User not found");
-    }
-
     const invitation = await ctx.db.get(args.invitationId);
     if (!invitation) {
       throw new Error("Invitation not found");
     }
 
-    // Check permissions
-    const membership = await ctx.db
-      .query("organizationMemberships")
-      .withIndex("by_user_and_org", (q) => 
-        q.eq("userId", user._id).eq("organizationId", invitation.organizationId)
-      )
-      .unique();
-
-    if (!membership || !membership.isActive) {
-      throw new Error("Not a member of this organization");
-    }
+    await requirePermission(ctx, invitation.organizationId, "members.invite");
 
-    if (!["owner", "admin"].includes(membership.role)) {
-      throw new Error("Insufficient permissions");
+    if (invitation.status !== "pending") {
+      throw new Error(`Invitation is ${invitation.status}`);
     }
+    assertEmailAddress(invitation.email);
 
     // Extend expiration by 7 days
-    await ctx.db.patch(invitation._id, {
-      expiresAt: Date.now() + 7 * 24 * 60 * 60 * 1000,
-    });
+    const expiresAt = Date.now() + 7 * 24 * 60 * 60 * 1000;
+    await ctx.db.patch(invitation._id, { expiresAt });
+
+    await enqueueInvitationEmail(ctx, invitation, "invitation_reminder");
   },
 });
 
@@ -155,15 +195,7 @@ export const resend = mutation({
 export const cleanupExpired = mutation({
   args: {},
   handler: async (ctx) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) return;
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
-    if (!user) return;
+    await requireUser(ctx);
 
     const now = Date.now();
 
@@ -0,0 +1,146 @@
+import { ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { decodeBase64Url, hmacSha256Base64Url, sha256Base64, timingSafeEqual } from "./webhooks";
+
+/**
+ * LiveKit Webhook Functions
+ * Signature verification and event handling for the /livekit/webhook HTTP route
+ * (see http.ts). Voice sessions are metered from when the user joins the room
+ * until they leave it or the room closes, as LiveKit reports it.
+ */
+
+export type LiveKitParticipant = {
+  identity: string;
+  metadata?: string;
+};
+
+export type LiveKitEvent = {
+  id: string;
+  event: string;
+  room?: { name: string };
+  participant?: LiveKitParticipant;
+  // Unix seconds; protobuf JSON encodes 64-bit integers as strings
+  createdAt?: number | string;
+};
+
+// Allowance for clock drift when checking the token's validity window
+const CLOCK_SKEW_SECONDS = 60;
+
+// Identities the token route (api/livekit-token+api.ts) gives users; agents have others
+const USER_IDENTITY_PREFIX = "user-";
+
+// ============================================================================
+// Signature Verification
+// ============================================================================
+
+/**
+ * Verify the JWT LiveKit sends in the `Authorization` header: signed with the
+ * API secret, issued for the API key, and carrying the SHA-256 of the raw body
+ */
+export async function verifyLiveKitWebhook(
+  payload: string,
+  header: string | null,
+  apiKey: string,
+  apiSecret: string,
+  now: number = Date.now()
+): Promise<boolean> {
+  if (!header) return false;
+
+  const parts = header.replace(/^Bearer\s+/i, "").split(".");
+  if (parts.length !== 3) return false;
+  const [encodedHeader, encodedClaims, signature] = parts;
+
+  let jwtHeader: { alg?: string };
+  let claims: { iss?: string; exp?: number; nbf?: number; sha256?: string };
+  try {
+    jwtHeader = JSON.parse(decodeBase64Url(encodedHeader));
+    claims = JSON.parse(decodeBase64Url(encodedClaims));
+  } catch {
+    return false;
+  }
+  if (jwtHeader.alg !== "HS256") return false;
+
+  const expected = await hmacSha256Base64Url(apiSecret, `${encodedHeader}.${encodedClaims}`);
+  if (!timingSafeEqual(signature, expected)) return false;
+
+  const nowSeconds = now / 1000;
+  if (claims.iss !== apiKey) return false;
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < nowSeconds) return false;
+  if (typeof claims.nbf === "number" && claims.nbf - CLOCK_SKEW_SECONDS > nowSeconds) return false;
+
+  return !!claims.sha256 && timingSafeEqual(claims.sha256, await sha256Base64(payload));
+}
+
+// ============================================================================
+// Event Handlers
+// ============================================================================
+
+/**
+ * When the event happened, in milliseconds
+ */
+function eventTime(event: LiveKitEvent): number {
+  const seconds = Number(event.createdAt);
+  return seconds > 0 ? seconds * 1000 : Date.now();
+}
+
+/**
+ * Organization from the participant metadata the token route signed
+ */
+function participantOrganizationId(participant: LiveKitParticipant): string | undefined {
+  try {
+    const metadata = JSON.parse(participant.metadata || "{}");
+    return typeof metadata.organizationId === "string" ? metadata.organizationId : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function handleParticipantJoined(ctx: ActionCtx, event: LiveKitEvent): Promise<boolean> {
+  const { room, participant } = event;
+  if (!room || !participant?.identity.startsWith(USER_IDENTITY_PREFIX)) return false;
+
+  return await ctx.runMutation(internal.voiceSessions.recordParticipantJoined, {
+    roomName: room.name,
+    userId: participant.identity.substring(USER_IDENTITY_PREFIX.length),
+    organizationId: participantOrganizationId(participant),
+    participantIdentity: participant.identity,
+    joinedAt: eventTime(event),
+  });
+}
+
+async function handleParticipantLeft(ctx: ActionCtx, event: LiveKitEvent): Promise<boolean> {
+  const { room, participant } = event;
+  if (!room || !participant?.identity.startsWith(USER_IDENTITY_PREFIX)) return false;
+
+  return await ctx.runMutation(internal.voiceSessions.recordParticipantLeft, {
+    roomName: room.name,
+    participantIdentity: participant.identity,
+    leftAt: eventTime(event),
+  });
+}
+
+async function handleRoomFinished(ctx: ActionCtx, event: LiveKitEvent): Promise<boolean> {
+  if (!event.room) return false;
+
+  return await ctx.runMutation(internal.voiceSessions.finishRoom, {
+    roomName: event.room.name,
+    endedAt: eventTime(event),
+  });
+}
+
+/**
+ * Apply an event; returns false for events that need no changes.
+ * Handlers are idempotent, so redeliveries are safe to apply again.
+ */
+export async function processLiveKitEvent(ctx: ActionCtx, event: LiveKitEvent): Promise<boolean> {
+  switch (event.event) {
+    case "participant_joined":
+      return await handleParticipantJoined(ctx, event);
+    case "participant_left":
+      return await handleParticipantLeft(ctx, event);
+    case "room_finished":
+      return await handleRoomFinished(ctx, event);
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,335 @@
+"use node";
+
+import { randomUUID } from "node:crypto";
+import { once } from "node:events";
+import { mkdir, writeFile } from "node:fs/promises";
+import net from "node:net";
+import path from "node:path";
+import tls from "node:tls";
+
+/**
+ * Mail Transports
+ * Delivery backends for the email outbox, selected with MAIL_TRANSPORT:
+ * - smtp: any SMTP relay (implicit TLS or STARTTLS, AUTH PLAIN over TLS only)
+ * - console: for development only; logs each recipient and subject, and writes
+ *   .eml files when MAIL_FILE_DIR is set
+ */
+
+export type MailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+/**
+ * A failure the relay reported as permanent (5xx); retrying will not help
+ */
+export class PermanentMailError extends Error {}
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+// ============================================================================
+// MIME
+// ============================================================================
+
+/**
+ * A header value or SMTP argument; line breaks would let it inject headers or commands
+ */
+function singleLine(value: string, field: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new PermanentMailError(`${field} contains a line break`);
+  }
+  return value;
+}
+
+function addressOf(mailbox: string): string {
+  const match = singleLine(mailbox, "Address").match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+function domainOf(mailbox: string): string {
+  return addressOf(mailbox).split("@")[1] || "localhost";
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function base64Lines(value: string): string {
+  return (Buffer.from(value, "utf8").toString("base64").match(/.{1,76}/g) ?? []).join("\r\n");
+}
+
+/**
+ * Build an RFC 5322 message with text and HTML alternatives
+ */
+export function buildMimeMessage(message: MailMessage, messageId: string): string {
+  const boundary = `alt-${randomUUID()}`;
+
+  return [
+    `From: ${singleLine(message.from, "From")}`,
+    `To: ${singleLine(message.to, "To")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${messageId}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+function createMessageId(from: string): string {
+  return `${randomUUID()}@${domainOf(from)}`;
+}
+
+// ============================================================================
+// SMTP
+// ============================================================================
+
+type SmtpReply = { code: number; lines: string[] };
+
+/**
+ * Line-oriented SMTP session over a plain or TLS socket
+ */
+class SmtpConnection {
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connection timed out")));
+    socket.on("data", (chunk: Buffer) => this.onData(chunk));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private onData(chunk: Buffer) {
+    this.buffer += chunk.toString("utf8");
+
+    let index: number;
+    while ((index = this.buffer.indexOf("\r\n")) !== -1) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line.slice(4));
+
+      // "250-..." continues a multi-line reply; "250 ..." ends it
+      if (line[3] === "-") continue;
+
+      const reply = { code: Number(line.slice(0, 3)), lines: this.lines };
+      this.lines = [];
+      if (this.waiting) {
+        this.waiting.resolve(reply);
+        this.waiting = null;
+      } else {
+        this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    if (this.waiting) {
+      this.waiting.reject(error);
+      this.waiting = null;
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.failure) return Promise.reject(this.failure);
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  async expect(codes: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      const message = `SMTP ${step} failed: ${reply.code} ${reply.lines.join(" ")}`;
+      throw reply.code >= 500 ? new PermanentMailError(message) : new Error(message);
+    }
+    return reply;
+  }
+
+  async command(line: string, codes: number[], step: string = line.split(" ")[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return await this.expect(codes, step);
+  }
+
+  /**
+   * Upgrade the session to TLS after STARTTLS
+   */
+  async startTls(host: string) {
+    this.socket.removeAllListeners();
+    this.socket.setTimeout(0);
+
+    const secure = tls.connect({ socket: this.socket, servername: host });
+    await once(secure, "secureConnect");
+
+    this.socket = secure;
+    this.buffer = "";
+    this.attach(secure);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  // Implicit TLS (port 465); otherwise STARTTLS is used when offered, and required to log in
+  secure: boolean;
+  user?: string;
+  password?: string;
+};
+
+export class SmtpTransport implements MailTransport {
+  name = "smtp";
+
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    const { host, port, secure, user, password } = this.options;
+    const messageId = createMessageId(message.from);
+
+    const socket = secure
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+    const connection = new SmtpConnection(socket);
+
+    try {
+      await once(socket, secure ? "secureConnect" : "connect");
+      await connection.expect([220], "greeting");
+
+      const hostname = domainOf(message.from);
+      const ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+
+      let encrypted = secure;
+      if (!secure && ehlo.lines.some((line) => line.toUpperCase().startsWith("STARTTLS"))) {
+        await connection.command("STARTTLS", [220]);
+        await connection.startTls(host);
+        await connection.command(`EHLO ${hostname}`, [250]);
+        encrypted = true;
+      }
+
+      if (user && password) {
+        // AUTH PLAIN sends the password in the clear
+        if (!encrypted) {
+          throw new PermanentMailError(
+            `SMTP server ${host} does not offer STARTTLS; refusing to send credentials unencrypted`
+          );
+        }
+        const credentials = Buffer.from(`\0${user}\0${password}`, "utf8").toString("base64");
+        await connection.command(`AUTH PLAIN ${credentials}`, [235], "AUTH");
+      }
+
+      await connection.command(`MAIL FROM:<${addressOf(message.from)}>`, [250], "MAIL FROM");
+      await connection.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251], "RCPT TO");
+      await connection.command("DATA", [354]);
+
+      // Base64 bodies never start a line with ".", so no dot-stuffing is needed
+      await connection.command(`${buildMimeMessage(message, messageId)}\r\n.`, [250], "message");
+      await connection.command("QUIT", [221]).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+
+    return { messageId };
+  }
+}
+
+// ============================================================================
+// Console / File
+// ============================================================================
+
+export class ConsoleTransport implements MailTransport {
+  name = "console";
+
+  constructor(private directory?: string) {}
+
+  async send(message: MailMessage): Promise<{ messageId: string }> {
+    const messageId = createMessageId(message.from);
+
+    // Bodies carry invitation links, so they only go to MAIL_FILE_DIR
+    console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}`);
+
+    if (this.directory) {
+      await mkdir(this.directory, { recursive: true });
+      const file = path.join(this.directory, `${Date.now()}-${messageId.split("@")[0]}.eml`);
+      await writeFile(file, buildMimeMessage(message, messageId), "utf8");
+    }
+
+    return { messageId };
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Transport from the environment. Defaults to SMTP when SMTP_HOST is set; the
+ * console transport is only used when MAIL_TRANSPORT=console opts into it.
+ */
+export function getMailTransport(): MailTransport {
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : undefined);
+  if (!kind) {
+    throw new Error("No mail transport configured: set SMTP_HOST, or MAIL_TRANSPORT=console");
+  }
+
+  switch (kind) {
+    case "smtp": {
+      const host = process.env.SMTP_HOST;
+      if (!host) {
+        throw new Error("SMTP_HOST is not set");
+      }
+      const port = Number(process.env.SMTP_PORT || 587);
+      return new SmtpTransport({
+        host,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      });
+    }
+    case "console":
+      return new ConsoleTransport(process.env.MAIL_FILE_DIR);
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`);
+  }
+}
+
+export function getMailFrom(): string {
+  return process.env.MAIL_FROM || "Alias <no-reply@localhost>";
+}
@@ -1,7 +1,21 @@
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
-import { api } from "./_generated/api";
+import { query } from "./_generated/server";
 import { Doc, Id } from "./_generated/dataModel";
+import { permissions } from "./schema";
+import { assertSeatAvailable, syncSeats } from "./subscriptions";
+import { assertEmailAddress, enqueueInvitationEmail } from "./emails";
+import { generateTokenNonce, verifyInvitationToken } from "./invitationTokens";
+import { getCurrentUser } from "./conversations";
+import { auditedInternalMutation, auditedMutation } from "./audit";
+import {
+  assertPermission,
+  getActiveMembership,
+  getRolePermissions,
+  hasPermission,
+  Permission,
+  requirePermission,
+  requireUser,
+} from "./permissions";
 
 /**
  * Organization Membership Functions
@@ -39,44 +53,37 @@ export const getCurrentUserMembership = query({
 });
 
 /**
- * Check if user has required role in organization
+ * Check if the current user holds a permission in an organization
  */
 export const checkPermission = query({
   args: {
     organizationId: v.id("organizations"),
-    requiredRole: v.union(
-      v.literal("owner"),
-      v.literal("admin"),
-      v.literal("member"),
-      v.literal("viewer")
-    ),
+    permission: permissions,
   },
   returns: v.boolean(),
   handler: async (ctx, args): Promise<boolean> => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) return false;
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
+    const user = await getCurrentUser(ctx);
     if (!user) return false;
 
-    const membership = await ctx.db
-      .query("organizationMemberships")
-      .withIndex("by_user_and_org", (q) => 
-        q.eq("userId", user._id).eq("organizationId", args.organizationId)
-      )
-      .unique();
+    const membership = await getActiveMembership(ctx, user._id, args.organizationId);
+    return await hasPermission(ctx, membership, args.permission);
+  },
+});
 
-    if (!membership || !membership.isActive) return false;
+/**
+ * Get every permission the current user holds in an organization
+ */
+export const getMyPermissions = query({
+  args: { organizationId: v.id("organizations") },
+  returns: v.array(permissions),
+  handler: async (ctx, args): Promise<Permission[]> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return [];
 
-    const roleHierarchy = ["viewer", "member", "admin", "owner"];
-    const userRoleIndex = roleHierarchy.indexOf(membership.role);
-    const requiredRoleIndex = roleHierarchy.indexOf(args.requiredRole);
+    const membership = await getActiveMembership(ctx, user._id, args.organizationId);
+    if (!membership) return [];
 
-    return userRoleIndex >= requiredRoleIndex;
+    return await getRolePermissions(ctx, args.organizationId, membership.role);
   },
 });
 
@@ -130,7 +137,8 @@ export const getOrganizationMembers = query({
 /**
  * Invite a user to an organization
  */
-export const inviteMember = mutation({
+export const inviteMember = auditedMutation({
+  audit: { action: "member.invited", resource: "invitation" },
   args: {
     organizationId: v.id("organizations"),
     email: v.string(),
@@ -144,40 +152,11 @@ export const inviteMember = mutation({
   },
   returns: v.id("invitations"),
   handler: async (ctx, args): Promise<Id<"invitations">> => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
-    if (!user) {
-      throw new Error("User not found");
-    }
-
-    // Check permissions (owner or admin can invite)
-    const membership = await ctx.db
-      .query("organizationMemberships")
-      .withIndex("by_user_and_org", (q) => 
-        q.eq("userId", user._id).eq("organizationId", args.organizationId)
-      )
-      .unique();
-
-    if (!membership || !membership.isActive) {
-      throw new Error("Not a member of this organization");
-    }
-
-    if (!["owner", "admin"].includes(membership.role)) {
-      throw new Error("Insufficient permissions to invite members");
-    }
-
-    // Only owner can invite admins
-    if (args.role === "admin" && membership.role !== "owner") {
-      throw new Error("Only owners can invite admins");
-    }
+    // Inviting admins also needs members.manage_admins
+    const required: Permission[] =
+      args.role === "admin" ? ["members.invite", "members.manage_admins"] : ["members.invite"];
+    const { user } = await requirePermission(ctx, args.organizationId, ...required);
+    assertEmailAddress(args.email);
 
     // Check if user is already a member
     const existingUser = await ctx.db
@@ -214,6 +193,8 @@ export const inviteMember = mutation({
       throw new Error("An invitation is already pending for this email");
     }
 
+    await assertSeatAvailable(ctx, args.organizationId);
+
     const now = Date.now();
 
     // Create invitation
@@ -226,47 +207,47 @@ export const inviteMember = mutation({
       role: args.role,
       status: "pending",
       expiresAt: now + 7 * 24 * 60 * 60 * 1000, // 7 days
+      tokenNonce: generateTokenNonce(),
       createdAt: now,
     });
 
-    // Log invitation
-    await ctx.runMutation(api.auditLogs.create, {
-      organizationId: args.organizationId,
-      userId: user._id,
-      action: "member.invited",
-      resource: "invitation",
-      resourceId: invitationId,
-      metadata: {
-        email: args.email,
-        role: args.role,
-      },
-    });
+    await enqueueInvitationEmail(
+      ctx,
+      { _id: invitationId, email: args.email, organizationId: args.organizationId },
+      "invitation"
+    );
 
     return invitationId;
   },
 });
 
 /**
- * Accept an invitation
+ * Accept an invitation, by ID (must match the user's email) or by link token.
+ * A valid token is enough on its own, so users can accept from the link after
+ * signing up with a different address.
  */
-export const acceptInvitation = mutation({
-  args: { invitationId: v.id("invitations") },
+export const acceptInvitation = auditedMutation({
+  audit: { action: "member.invitation_accepted", resource: "invitation" },
+  args: {
+    invitationId: v.optional(v.id("invitations")),
+    token: v.optional(v.string()),
+  },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
-    if (!user) {
-      throw new Error("User not found");
+    const user = await requireUser(ctx);
+
+    let invitation: Doc<"invitations"> | null = null;
+    if (args.token) {
+      const verified = await verifyInvitationToken(args.token);
+      const invitationId = verified && ctx.db.normalizeId("invitations", verified.invitationId);
+      const candidate = invitationId ? await ctx.db.get(invitationId) : null;
+      if (!candidate || candidate.tokenNonce !== verified?.nonce || candidate.tokenUsedAt) {
+        throw new Error("This invitation link is invalid or has already been used");
+      }
+      invitation = candidate;
+    } else if (args.invitationId) {
+      invitation = await ctx.db.get(args.invitationId);
     }
 
-    const invitation = await ctx.db.get(args.invitationId);
     if (!invitation) {
       throw new Error("Invitation not found");
     }
@@ -280,7 +261,7 @@ export const acceptInvitation = mutation({
       throw new Error("Invitation has expired");
     }
 
-    if (invitation.email.toLowerCase() !== user.email.toLowerCase()) {
+    if (!args.token && invitation.email.toLowerCase() !== user.email.toLowerCase()) {
       throw new Error("This invitation is for a different email address");
     }
 
@@ -294,8 +275,15 @@ export const acceptInvitation = mutation({
       )
       .unique();
 
+    // Accepting must not change the role of a current member (or demote the owner)
+    if (existingMembership?.isActive) {
+      throw new Error("You are already a member of this organization");
+    }
+
+    await assertSeatAvailable(ctx, invitation.organizationId, { claimingInvitation: true });
+
     if (existingMembership) {
-      // Reactivate if inactive
+      // Reactivate a former member
       await ctx.db.patch(existingMembership._id, {
         isActive: true,
         role: invitation.role,
@@ -316,45 +304,27 @@ export const acceptInvitation = mutation({
       });
     }
 
-    // Update invitation
+    // Update invitation (this also retires its link token)
     await ctx.db.patch(invitation._id, {
       status: "accepted",
       respondedAt: now,
+      tokenUsedAt: args.token ? now : undefined,
     });
 
-    // Log acceptance
-    await ctx.runMutation(api.auditLogs.create, {
-      organizationId: invitation.organizationId,
-      userId: user._id,
-      action: "member.invitation_accepted",
-      resource: "invitation",
-      resourceId: invitation._id,
-      metadata: {
-        role: invitation.role,
-      },
-    });
+    await syncSeats(ctx, invitation.organizationId);
+
+    ctx.audit.set({ metadata: { via: args.token ? "link" : "app" } });
   },
 });
 
 /**
  * Decline an invitation
  */
-export const declineInvitation = mutation({
+export const declineInvitation = auditedMutation({
+  audit: { action: "member.invitation_declined", resource: "invitation" },
   args: { invitationId: v.id("invitations") },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
-    if (!user) {
-      throw new Error("User not found");
-    }
+    const user = await requireUser(ctx);
 
     const invitation = await ctx.db.get(args.invitationId);
     if (!invitation) {
@@ -375,76 +345,32 @@ export const declineInvitation = mutation({
       status: "declined",
       respondedAt: now,
     });
-
-    // Log decline
-    await ctx.runMutation(api.auditLogs.create, {
-      organizationId: invitation.organizationId,
-      userId: user._id,
-      action: "member.invitation_declined",
-      resource: "invitation",
-      resourceId: invitation._id,
-    });
   },
 });
 
 /**
  * Cancel an invitation (admin/owner only)
  */
-export const cancelInvitation = mutation({
+export const cancelInvitation = auditedMutation({
+  audit: { action: "member.invitation_cancelled", resource: "invitation" },
   args: { invitationId: v.id("invitations") },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
-    if (!user) {
-      throw new Error("User not found");
-    }
-
     const invitation = await ctx.db.get(args.invitationId);
     if (!invitation) {
       throw new Error("Invitation not found");
     }
 
-    // Check permissions
-    const membership = await ctx.db
-      .query("organizationMemberships")
-      .withIndex("by_user_and_org", (q) => 
-        q.eq("userId", user._id).eq("organizationId", invitation.organizationId)
-      )
-      .unique();
-
-    if (!membership || !membership.isActive) {
-      throw new Error("Not a member of this organization");
-    }
-
-    if (!["owner", "admin"].includes(membership.role)) {
-      throw new Error("Insufficient permissions");
-    }
+    await requirePermission(ctx, invitation.organizationId, "members.invite");
 
     await ctx.db.delete(invitation._id);
-
-    // Log cancellation
-    await ctx.runMutation(api.auditLogs.create, {
-      organizationId: invitation.organizationId,
-      userId: user._id,
-      action: "member.invitation_cancelled",
-      resource: "invitation",
-      resourceId: invitation._id,
-    });
   },
 });
 
 /**
  * Update member role
  */
-export const updateRole = mutation({
+export const updateRole = auditedMutation({
+  audit: { action: "member.role_updated", resource: "organizationMembership" },
   args: {
     organizationId: v.id("organizations"),
     userId: v.id("users"),
@@ -456,44 +382,15 @@ export const updateRole = mutation({
     ),
   },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const currentUser = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
-    if (!currentUser) {
-      throw new Error("User not found");
-    }
-
-    // Get current user's membership
-    const currentMembership = await ctx.db
-      .query("organizationMemberships")
-      .withIndex("by_user_and_org", (q) => 
-        q.eq("userId", currentUser._id).eq("organizationId", args.organizationId)
-      )
-      .unique();
-
-    if (!currentMembership || !currentMembership.isActive) {
-      throw new Error("Not a member of this organization");
-    }
-
-    // Permission checks
     if (args.role === "owner") {
       throw new Error("Use transferOwnership to change the owner");
     }
 
-    if (args.role === "admin" && currentMembership.role !== "owner") {
-      throw new Error("Only owners can assign admin roles");
-    }
-
-    if (!["owner", "admin"].includes(currentMembership.role)) {
-      throw new Error("Insufficient permissions to update roles");
-    }
+    const { membership: currentMembership } = await requirePermission(
+      ctx,
+      args.organizationId,
+      "members.update_role"
+    );
 
     // Get target membership
     const targetMembership = await ctx.db
@@ -511,67 +408,37 @@ export const updateRole = mutation({
       throw new Error("Cannot change the owner's role");
     }
 
+    // Granting or revoking admin also needs members.manage_admins
+    if (args.role === "admin" || targetMembership.role === "admin") {
+      await assertPermission(ctx, currentMembership, "members.manage_admins");
+    }
+
     await ctx.db.patch(targetMembership._id, { role: args.role });
 
-    // Log role update
-    await ctx.runMutation(api.auditLogs.create, {
-      organizationId: args.organizationId,
-      userId: currentUser._id,
-      action: "member.role_updated",
-      resource: "organizationMembership",
-      resourceId: targetMembership._id,
-      metadata: {
-        targetUser: args.userId,
-        previousRole: targetMembership.role,
-        newRole: args.role,
-      },
-    });
+    // The membership diff only shows the role
+    ctx.audit.set({ metadata: { targetUser: args.userId } });
   },
 });
 
 /**
  * Remove member from organization
  */
-export const removeMember = mutation({
+export const removeMember = auditedMutation({
+  audit: { action: "member.removed", resource: "organizationMembership" },
   args: {
     organizationId: v.id("organizations"),
     userId: v.id("users"),
   },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const currentUser = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
-    if (!currentUser) {
-      throw new Error("User not found");
-    }
-
+    const currentUser = await requireUser(ctx);
     const isSelfRemoval = currentUser._id === args.userId;
 
-    // Get current user's membership
-    const currentMembership = await ctx.db
-      .query("organizationMemberships")
-      .withIndex("by_user_and_org", (q) => 
-        q.eq("userId", currentUser._id).eq("organizationId", args.organizationId)
-      )
-      .unique();
-
-    if (!currentMembership || !currentMembership.isActive) {
-      throw new Error("Not a member of this organization");
-    }
-
     // Self-removal is allowed for non-owners
-    if (!isSelfRemoval) {
-      if (currentMembership.role === "viewer" || currentMembership.role === "member") {
-        throw new Error("Insufficient permissions to remove members");
-      }
-    }
+    const { membership: currentMembership } = await requirePermission(
+      ctx,
+      args.organizationId,
+      ...(isSelfRemoval ? [] : (["members.remove"] as Permission[]))
+    );
 
     // Get target membership
     const targetMembership = await ctx.db
@@ -590,12 +457,9 @@ export const removeMember = mutation({
       throw new Error("Cannot remove the organization owner");
     }
 
-    // Admins can only remove members/viewers, not other admins
-    if (
-      currentMembership.role === "admin" && 
-      ["admin", "owner"].includes(targetMembership.role)
-    ) {
-      throw new Error("Admins cannot remove other admins or the owner");
+    // Removing another admin also needs members.manage_admins
+    if (!isSelfRemoval && targetMembership.role === "admin") {
+      await assertPermission(ctx, currentMembership, "members.manage_admins");
     }
 
     const now = Date.now();
@@ -605,48 +469,154 @@ export const removeMember = mutation({
       lastAccessedAt: now,
     });
 
-    // Log removal
-    await ctx.runMutation(api.auditLogs.create, {
-      organizationId: args.organizationId,
-      userId: currentUser._id,
-      action: "member.removed",
-      resource: "organizationMembership",
-      resourceId: targetMembership._id,
-      metadata: {
-        removedUser: args.userId,
-        removedBy: currentUser._id,
-      },
-    });
+    await syncSeats(ctx, args.organizationId);
+
+    ctx.audit.set({ metadata: { removedUser: args.userId } });
   },
 });
 
 /**
  * Update last accessed timestamp
  */
-export const updateLastAccessed = mutation({
+export const updateLastAccessed = auditedMutation({
+  audit: {
+    action: "member.accessed",
+    resource: "organizationMembership",
+    ignoreFields: ["lastAccessedAt"],
+  },
   args: { organizationId: v.id("organizations") },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) return;
+    const user = await getCurrentUser(ctx);
+    if (!user) return;
+
+    const membership = await getActiveMembership(ctx, user._id, args.organizationId);
+
+    if (membership) {
+      await ctx.db.patch(membership._id, {
+        lastAccessedAt: Date.now(),
+      });
+    }
+  },
+});
+
+// ============================================================================
+// Internal Mutations
+// ============================================================================
+
+const ROLES: Doc<"organizationMemberships">["role"][] = ["owner", "admin", "member", "viewer"];
 
+/**
+ * Internal: Create, update or deactivate a membership from a WorkOS webhook.
+ * Throws while the user or organization has not been synced yet, so the
+ * delivery is retried once the earlier event lands.
+ */
+export const internalSyncFromWorkOS = auditedInternalMutation({
+  audit: { action: "member.synced", resource: "organizationMembership" },
+  args: {
+    workosUserId: v.string(),
+    workosOrgId: v.string(),
+    role: v.optional(v.string()),
+    isActive: v.boolean(),
+  },
+  handler: async (ctx, args) => {
     const user = await ctx.db
       .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .withIndex("by_workos_id", (q) => q.eq("workosId", args.workosUserId))
       .unique();
 
-    if (!user) return;
+    const organization = await ctx.db
+      .query("organizations")
+      .withIndex("by_workos_org_id", (q) => q.eq("workosOrgId", args.workosOrgId))
+      .unique();
 
-    const membership = await ctx.db
+    if (!user || !organization) {
+      throw new Error("User or organization not synced from WorkOS yet");
+    }
+
+    const now = Date.now();
+    const existingMembership = await ctx.db
       .query("organizationMemberships")
-      .withIndex("by_user_and_org", (q) => 
-        q.eq("userId", user._id).eq("organizationId", args.organizationId)
+      .withIndex("by_user_and_org", (q) =>
+        q.eq("userId", user._id).eq("organizationId", organization._id)
       )
       .unique();
 
-    if (membership) {
-      await ctx.db.patch(membership._id, {
-        lastAccessedAt: Date.now(),
+    // WorkOS role slugs outside the local roles map to member
+    const workosRole = ROLES.find((role) => role === args.role) ?? "member";
+
+    if (existingMembership) {
+      // Ownership is managed locally (transferOwnership), never downgraded upstream
+      const role = existingMembership.role === "owner" ? "owner" : workosRole;
+
+      await ctx.db.patch(existingMembership._id, {
+        role,
+        isActive: args.isActive,
+      });
+    } else if (args.isActive) {
+      await ctx.db.insert("organizationMemberships", {
+        userId: user._id,
+        organizationId: organization._id,
+        role: workosRole,
+        isActive: true,
+        joinedAt: now,
+        lastAccessedAt: now,
       });
+    } else {
+      return;
     }
+
+    await syncSeats(ctx, organization._id);
+
+    ctx.audit.set({
+      action: args.isActive ? "member.synced" : "member.removed",
+      organizationId: organization._id,
+      metadata: { workosUserId: args.workosUserId, source: "workos" },
+    });
+  },
+});
+
+/**
+ * Internal: Deactivate or reactivate a user's membership in the organization of a
+ * synced directory, as the directory suspends, deletes or restores them.
+ * Memberships are provisioned through AuthKit, so users without one are skipped.
+ */
+export const internalSyncDirectoryUser = auditedInternalMutation({
+  audit: { action: "member.synced", resource: "organizationMembership" },
+  args: {
+    workosUserId: v.string(),
+    workosOrgId: v.string(),
+    isActive: v.boolean(),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_workos_id", (q) => q.eq("workosId", args.workosUserId))
+      .unique();
+
+    const organization = await ctx.db
+      .query("organizations")
+      .withIndex("by_workos_org_id", (q) => q.eq("workosOrgId", args.workosOrgId))
+      .unique();
+
+    if (!user || !organization) return;
+
+    const membership = await ctx.db
+      .query("organizationMemberships")
+      .withIndex("by_user_and_org", (q) =>
+        q.eq("userId", user._id).eq("organizationId", organization._id)
+      )
+      .unique();
+
+    if (!membership || membership.isActive === args.isActive) return;
+
+    await ctx.db.patch(membership._id, { isActive: args.isActive });
+    await syncSeats(ctx, organization._id);
+
+    ctx.audit.set({
+      action: args.isActive ? "member.synced" : "member.removed",
+      organizationId: organization._id,
+      metadata: { workosUserId: args.workosUserId, source: "workos", reason: args.reason },
+    });
   },
 });
@@ -0,0 +1,239 @@
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { query, mutation } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { messageRoles } from "./schema";
+import {
+  DEFAULT_CONVERSATION_TITLE,
+  getAccessibleConversation,
+  getCurrentUser,
+} from "./conversations";
+
+/**
+ * Message Functions
+ * Handles reading and writing the turns of a conversation
+ */
+
+const PREVIEW_LENGTH = 120;
+const TITLE_LENGTH = 30;
+
+/**
+ * Derive a conversation title from the first user message
+ */
+function deriveTitle(content: string): string {
+  const trimmed = content.trim();
+  const title = trimmed.substring(0, TITLE_LENGTH);
+  return title.length < trimmed.length ? `${title}...` : title || DEFAULT_CONVERSATION_TITLE;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * List messages in a conversation, oldest first
+ */
+export const list = query({
+  args: {
+    conversationId: v.id("conversations"),
+    limit: v.optional(v.number()),
+  },
+  returns: v.array(v.any()),
+  handler: async (ctx, args): Promise<Doc<"messages">[]> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return [];
+
+    const conversation = await getAccessibleConversation(ctx, user, args.conversationId);
+    if (!conversation) return [];
+
+    if (args.limit !== undefined) {
+      const latest = await ctx.db
+        .query("messages")
+        .withIndex("by_conversation", (q) => q.eq("conversationId", conversation._id))
+        .order("desc")
+        .take(args.limit);
+
+      return latest.reverse();
+    }
+
+    return await ctx.db
+      .query("messages")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", conversation._id))
+      .collect();
+  },
+});
+
+/**
+ * Paginate messages in a conversation, newest first
+ */
+export const paginate = query({
+  args: {
+    conversationId: v.id("conversations"),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return { page: [], isDone: true, continueCursor: "" };
+
+    const conversation = await getAccessibleConversation(ctx, user, args.conversationId);
+    if (!conversation) return { page: [], isDone: true, continueCursor: "" };
+
+    return await ctx.db
+      .query("messages")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", conversation._id))
+      .order("desc")
+      .paginate(args.paginationOpts);
+  },
+});
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Append a message to a conversation
+ */
+export const append = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    role: messageRoles,
+    content: v.string(),
+    metadata: v.optional(v.record(v.string(), v.any())),
+  },
+  returns: v.id("messages"),
+  handler: async (ctx, args): Promise<Id<"messages">> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const conversation = await getAccessibleConversation(ctx, user, args.conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    const now = Date.now();
+
+    const messageId = await ctx.db.insert("messages", {
+      conversationId: conversation._id,
+      userId: user._id,
+      role: args.role,
+      content: args.content,
+      metadata: args.metadata,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const updateData: Partial<Doc<"conversations">> = {
+      messageCount: conversation.messageCount + 1,
+      updatedAt: now,
+    };
+
+    if (args.role !== "system") {
+      updateData.lastMessagePreview = args.content.substring(0, PREVIEW_LENGTH);
+    }
+
+    // Name untitled conversations after their first user message
+    if (args.role === "user" && conversation.title === DEFAULT_CONVERSATION_TITLE) {
+      updateData.title = deriveTitle(args.content);
+    }
+
+    await ctx.db.patch(conversation._id, updateData);
+
+    return messageId;
+  },
+});
+
+/**
+ * Update the content or metadata of a message
+ */
+export const update = mutation({
+  args: {
+    messageId: v.id("messages"),
+    content: v.optional(v.string()),
+    metadata: v.optional(v.record(v.string(), v.any())),
+  },
+  returns: v.id("messages"),
+  handler: async (ctx, args): Promise<Id<"messages">> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const message = await ctx.db.get(args.messageId);
+    if (!message) {
+      throw new Error("Message not found");
+    }
+
+    const conversation = await getAccessibleConversation(ctx, user, message.conversationId);
+    if (!conversation) {
+      throw new Error("Message not found");
+    }
+
+    const now = Date.now();
+    const updateData: Partial<Doc<"messages">> = {
+      updatedAt: now,
+    };
+
+    if (args.content !== undefined) updateData.content = args.content;
+    if (args.metadata !== undefined) {
+      updateData.metadata = {
+        ...message.metadata,
+        ...args.metadata,
+      };
+    }
+
+    await ctx.db.patch(message._id, updateData);
+
+    if (args.content !== undefined && message.role !== "system") {
+      const latest = await ctx.db
+        .query("messages")
+        .withIndex("by_conversation", (q) => q.eq("conversationId", conversation._id))
+        .order("desc")
+        .first();
+
+      if (latest?._id === message._id) {
+        await ctx.db.patch(conversation._id, {
+          lastMessagePreview: args.content.substring(0, PREVIEW_LENGTH),
+          updatedAt: now,
+        });
+      }
+    }
+
+    return message._id;
+  },
+});
+
+/**
+ * Delete a single message
+ */
+export const remove = mutation({
+  args: { messageId: v.id("messages") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const message = await ctx.db.get(args.messageId);
+    if (!message) {
+      throw new Error("Message not found");
+    }
+
+    const conversation = await getAccessibleConversation(ctx, user, message.conversationId);
+    if (!conversation) {
+      throw new Error("Message not found");
+    }
+
+    await ctx.db.delete(message._id);
+
+    // A summary anchored on the deleted message can no longer be placed; rebuild it later
+    const summaryRemoved = conversation.summary?.lastMessageId === message._id;
+
+    await ctx.db.patch(conversation._id, {
+      messageCount: Math.max(0, conversation.messageCount - 1),
+      updatedAt: Date.now(),
+      ...(summaryRemoved && { summary: undefined }),
+    });
+  },
+});
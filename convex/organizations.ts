@@ -1,7 +1,19 @@
 import { v } from "convex/values";
-import { query, mutation, internalMutation } from "./_generated/server";
-import { api } from "./_generated/api";
+import { query } from "./_generated/server";
 import { Doc, Id } from "./_generated/dataModel";
+import { aiRoutingSettings, organizationRoles, permissions } from "./schema";
+import { syncSeats } from "./subscriptions";
+import { getCurrentUser } from "./conversations";
+import { auditedInternalMutation, auditedMutation } from "./audit";
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  getActiveMembership,
+  hasPermission,
+  OWNER_ONLY_PERMISSIONS,
+  Permission,
+  requirePermission,
+  requireUser,
+} from "./permissions";
 
 /**
  * Organization Management Functions
@@ -156,26 +168,12 @@ export const getPendingInvitations = query({
   args: { organizationId: v.id("organizations") },
   returns: v.array(v.any()),
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) return [];
-
-    // Verify caller is admin/owner
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
+    const user = await getCurrentUser(ctx);
     if (!user) return [];
 
-    const membership = await ctx.db
-      .query("organizationMemberships")
-      .withIndex("by_user_and_org", (q) => 
-        q.eq("userId", user._id).eq("organizationId", args.organizationId)
-      )
-      .unique();
-
-    if (!membership || !membership.isActive) return [];
-    if (!["owner", "admin"].includes(membership.role)) return [];
+    // Only those who can invite see pending invitations
+    const membership = await getActiveMembership(ctx, user._id, args.organizationId);
+    if (!(await hasPermission(ctx, membership, "members.invite"))) return [];
 
     const invitations = await ctx.db
       .query("invitations")
@@ -218,7 +216,8 @@ export const checkSlugAvailability = query({
 /**
  * Create a new organization
  */
-export const create = mutation({
+export const create = auditedMutation({
+  audit: { action: "organization.created", resource: "organization" },
   args: {
     name: v.string(),
     slug: v.string(),
@@ -229,19 +228,7 @@ export const create = mutation({
   },
   returns: v.id("organizations"),
   handler: async (ctx, args): Promise<Id<"organizations">> => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
-    if (!user) {
-      throw new Error("User not found");
-    }
+    const user = await requireUser(ctx);
 
     // Check slug availability
     const existing = await ctx.db
@@ -306,18 +293,7 @@ export const create = mutation({
       updatedBy: user._id,
     });
 
-    // Log creation
-    await ctx.runMutation(api.auditLogs.create, {
-      organizationId,
-      userId: user._id,
-      action: "organization.created",
-      resource: "organization",
-      resourceId: organizationId,
-      metadata: {
-        name: args.name,
-        slug: args.slug,
-      },
-    });
+    await syncSeats(ctx, organizationId);
 
     return organizationId;
   },
@@ -326,7 +302,8 @@ export const create = mutation({
 /**
  * Create personal organization (internal use)
  */
-export const createPersonal = internalMutation({
+export const createPersonal = auditedInternalMutation({
+  audit: { action: "organization.created", resource: "organization" },
   args: {
     userId: v.id("users"),
     userName: v.string(),
@@ -377,7 +354,8 @@ export const createPersonal = internalMutation({
 /**
  * Update organization details
  */
-export const update = mutation({
+export const update = auditedMutation({
+  audit: { action: "organization.updated", resource: "organization" },
   args: {
     organizationId: v.id("organizations"),
     name: v.optional(v.string()),
@@ -393,39 +371,16 @@ export const update = mutation({
         v.literal("member"),
         v.literal("viewer")
       )),
+      aiRouting: v.optional(aiRoutingSettings),
     })),
   },
   returns: v.id("organizations"),
   handler: async (ctx, args): Promise<Id<"organizations">> => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
+    // AI routing configures the agent, which is its own permission
+    const required: Permission[] = ["organization.update"];
+    if (args.settings?.aiRouting !== undefined) required.push("agent.configure");
 
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
-    if (!user) {
-      throw new Error("User not found");
-    }
-
-    // Check permissions (owner or admin)
-    const membership = await ctx.db
-      .query("organizationMemberships")
-      .withIndex("by_user_and_org", (q) => 
-        q.eq("userId", user._id).eq("organizationId", args.organizationId)
-      )
-      .unique();
-
-    if (!membership || !membership.isActive) {
-      throw new Error("Not a member of this organization");
-    }
-
-    if (!["owner", "admin"].includes(membership.role)) {
-      throw new Error("Insufficient permissions");
-    }
+    await requirePermission(ctx, args.organizationId, ...required);
 
     const updateData: Partial<Doc<"organizations">> = {
       updatedAt: Date.now(),
@@ -447,18 +402,6 @@ export const update = mutation({
 
     await ctx.db.patch(args.organizationId, updateData);
 
-    // Log update
-    await ctx.runMutation(api.auditLogs.create, {
-      organizationId: args.organizationId,
-      userId: user._id,
-      action: "organization.updated",
-      resource: "organization",
-      resourceId: args.organizationId,
-      metadata: {
-        updatedFields: Object.keys(args).filter((k) => k !== "organizationId"),
-      },
-    });
-
     return args.organizationId;
   },
 });
@@ -466,34 +409,11 @@ export const update = mutation({
 /**
  * Delete organization (owner only)
  */
-export const remove = mutation({
+export const remove = auditedMutation({
+  audit: { action: "organization.deleted", resource: "organization" },
   args: { organizationId: v.id("organizations") },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
-    if (!user) {
-      throw new Error("User not found");
-    }
-
-    // Verify owner
-    const membership = await ctx.db
-      .query("organizationMemberships")
-      .withIndex("by_user_and_org", (q) => 
-        q.eq("userId", user._id).eq("organizationId", args.organizationId)
-      )
-      .unique();
-
-    if (!membership || membership.role !== "owner") {
-      throw new Error("Only the owner can delete an organization");
-    }
+    await requirePermission(ctx, args.organizationId, "organization.delete");
 
     const org = await ctx.db.get(args.organizationId);
     if (!org) {
@@ -524,52 +444,25 @@ export const remove = mutation({
         lastAccessedAt: now,
       });
     }
-
-    // Log deletion
-    await ctx.runMutation(api.auditLogs.create, {
-      organizationId: args.organizationId,
-      userId: user._id,
-      action: "organization.deleted",
-      resource: "organization",
-      resourceId: args.organizationId,
-    });
   },
 });
 
 /**
  * Transfer organization ownership
  */
-export const transferOwnership = mutation({
+export const transferOwnership = auditedMutation({
+  audit: { action: "organization.ownership_transferred", resource: "organization" },
   args: {
     organizationId: v.id("organizations"),
     newOwnerId: v.id("users"),
   },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const currentUser = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
-    if (!currentUser) {
-      throw new Error("User not found");
-    }
-
-    // Verify current user is owner
-    const currentMembership = await ctx.db
-      .query("organizationMemberships")
-      .withIndex("by_user_and_org", (q) => 
-        q.eq("userId", currentUser._id).eq("organizationId", args.organizationId)
-      )
-      .unique();
-
-    if (!currentMembership || currentMembership.role !== "owner") {
-      throw new Error("Only the owner can transfer ownership");
-    }
+    // Owner-only: organization.transfer cannot be granted to other roles
+    const { membership: currentMembership } = await requirePermission(
+      ctx,
+      args.organizationId,
+      "organization.transfer"
+    );
 
     // Verify new owner is a member
     const newOwnerMembership = await ctx.db
@@ -600,17 +493,115 @@ export const transferOwnership = mutation({
       updatedAt: now,
     });
 
-    // Log transfer
-    await ctx.runMutation(api.auditLogs.create, {
-      organizationId: args.organizationId,
-      userId: currentUser._id,
-      action: "organization.ownership_transferred",
-      resource: "organization",
-      resourceId: args.organizationId,
+    // Only updatedAt changes on the organization itself, so point the entry at it explicitly
+    ctx.audit.set({ resourceId: args.organizationId });
+  },
+});
+
+/**
+ * Customize the permissions of a role in an organization.
+ * Pass null to restore the role's defaults.
+ */
+export const updateRolePermissions = auditedMutation({
+  audit: { action: "organization.role_permissions_updated", resource: "organizationSettings" },
+  args: {
+    organizationId: v.id("organizations"),
+    role: organizationRoles,
+    permissions: v.union(v.null(), v.array(permissions)),
+  },
+  handler: async (ctx, args) => {
+    const { user } = await requirePermission(ctx, args.organizationId, "roles.manage");
+
+    if (args.role === "owner") {
+      throw new Error("The owner always holds every permission");
+    }
+
+    const ownerOnly = args.permissions?.filter((p) => OWNER_ONLY_PERMISSIONS.includes(p)) ?? [];
+    if (ownerOnly.length > 0) {
+      throw new Error(`Only the owner can hold ${ownerOnly.join(", ")}`);
+    }
+
+    const settings = await ctx.db
+      .query("organizationSettings")
+      .withIndex("by_organization", (q) => q.eq("organizationId", args.organizationId))
+      .unique();
+
+    if (!settings) {
+      throw new Error("Organization settings not found");
+    }
+
+    await ctx.db.patch(settings._id, {
+      rolePermissions: {
+        ...settings.rolePermissions,
+        [args.role]: args.permissions ?? undefined,
+      },
+      updatedAt: Date.now(),
+      updatedBy: user._id,
+    });
+
+    // Resetting to defaults clears the override, so record the effective permissions too
+    ctx.audit.set({
       metadata: {
-        previousOwner: currentUser._id,
-        newOwner: args.newOwnerId,
+        role: args.role,
+        previous: settings.rolePermissions?.[args.role] ?? DEFAULT_ROLE_PERMISSIONS[args.role],
+        permissions: args.permissions ?? DEFAULT_ROLE_PERMISSIONS[args.role],
+      },
+    });
+  },
+});
+
+// ============================================================================
+// Internal Mutations
+// ============================================================================
+
+/**
+ * Internal: Create or update an organization from a WorkOS webhook
+ */
+export const internalSyncFromWorkOS = auditedInternalMutation({
+  audit: { action: "organization.synced", resource: "organization" },
+  args: {
+    workosOrgId: v.string(),
+    name: v.string(),
+    deleted: v.optional(v.boolean()),
+  },
+  returns: v.union(v.null(), v.id("organizations")),
+  handler: async (ctx, args): Promise<Id<"organizations"> | null> => {
+    const now = Date.now();
+    const organization = await ctx.db
+      .query("organizations")
+      .withIndex("by_workos_org_id", (q) => q.eq("workosOrgId", args.workosOrgId))
+      .unique();
+
+    ctx.audit.set({ metadata: { workosOrgId: args.workosOrgId, source: "workos" } });
+
+    if (organization) {
+      await ctx.db.patch(organization._id, {
+        name: args.name,
+        isActive: !args.deleted,
+        updatedAt: now,
+      });
+      return organization._id;
+    }
+
+    if (args.deleted) return null;
+
+    const slugBase = args.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    const organizationId = await ctx.db.insert("organizations", {
+      workosOrgId: args.workosOrgId,
+      name: args.name,
+      slug: `${slugBase || "org"}-${now.toString(36)}`,
+      settings: {
+        allowGuestAccess: false,
+        requireApproval: true,
+        defaultRole: "member",
       },
+      isActive: true,
+      isPersonal: false,
+      createdAt: now,
+      updatedAt: now,
     });
+
+    ctx.audit.set({ action: "organization.provisioned" });
+    return organizationId;
   },
 });
@@ -0,0 +1,159 @@
+import { QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { permissions } from "./schema";
+import { getCurrentUser } from "./conversations";
+
+/**
+ * Permission Model
+ * Named permissions granted to organization roles. Each organization can
+ * override the default role -> permission map; owners always hold every
+ * permission so an organization can never lock itself out.
+ */
+
+export type Permission = typeof permissions.type;
+export type OrganizationRole = Doc<"organizationMemberships">["role"];
+
+export const PERMISSIONS: Permission[] = [
+  "organization.update",
+  "organization.delete",
+  "organization.transfer",
+  "members.invite",
+  "members.remove",
+  "members.update_role",
+  "members.manage_admins",
+  "roles.manage",
+  "billing.manage",
+  "audit.read",
+  "agent.configure",
+];
+
+// Never granted to other roles, so only the owner can give up or delete the organization
+export const OWNER_ONLY_PERMISSIONS: Permission[] = [
+  "organization.delete",
+  "organization.transfer",
+];
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<OrganizationRole, Permission[]> = {
+  owner: PERMISSIONS,
+  admin: [
+    "organization.update",
+    "members.invite",
+    "members.remove",
+    "members.update_role",
+    "audit.read",
+    "agent.configure",
+  ],
+  member: [],
+  viewer: [],
+};
+
+type AuthorizedMember = {
+  user: Doc<"users">;
+  membership: Doc<"organizationMemberships">;
+};
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+/**
+ * Active membership of a user in an organization, or null
+ */
+export async function getActiveMembership(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  organizationId: Id<"organizations">
+): Promise<Doc<"organizationMemberships"> | null> {
+  const membership = await ctx.db
+    .query("organizationMemberships")
+    .withIndex("by_user_and_org", (q) =>
+      q.eq("userId", userId).eq("organizationId", organizationId)
+    )
+    .unique();
+
+  return membership?.isActive ? membership : null;
+}
+
+/**
+ * Permissions a role holds in an organization
+ */
+export async function getRolePermissions(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  role: OrganizationRole
+): Promise<Permission[]> {
+  if (role === "owner") return PERMISSIONS;
+
+  const settings = await ctx.db
+    .query("organizationSettings")
+    .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+    .unique();
+
+  const granted = settings?.rolePermissions?.[role] ?? DEFAULT_ROLE_PERMISSIONS[role];
+  return granted.filter((permission) => !OWNER_ONLY_PERMISSIONS.includes(permission));
+}
+
+/**
+ * Whether a membership grants a permission
+ */
+export async function hasPermission(
+  ctx: QueryCtx,
+  membership: Doc<"organizationMemberships"> | null,
+  permission: Permission
+): Promise<boolean> {
+  if (!membership?.isActive) return false;
+
+  const granted = await getRolePermissions(ctx, membership.organizationId, membership.role);
+  return granted.includes(permission);
+}
+
+// ============================================================================
+// Guards
+// ============================================================================
+
+/**
+ * Throw unless a membership grants a permission
+ */
+export async function assertPermission(
+  ctx: QueryCtx,
+  membership: Doc<"organizationMemberships">,
+  permission: Permission
+): Promise<void> {
+  if (!(await hasPermission(ctx, membership, permission))) {
+    throw new Error(`Insufficient permissions: ${permission} is required`);
+  }
+}
+
+/**
+ * The signed-in user; throws if there is none
+ */
+export async function requireUser(ctx: QueryCtx): Promise<Doc<"users">> {
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new Error("Not authenticated");
+  }
+  return user;
+}
+
+/**
+ * The signed-in user and their active membership; throws unless they are a
+ * member holding every listed permission
+ */
+export async function requirePermission(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  ...required: Permission[]
+): Promise<AuthorizedMember> {
+  const user = await requireUser(ctx);
+
+  const membership = await getActiveMembership(ctx, user._id, organizationId);
+  if (!membership) {
+    throw new Error("Not a member of this organization");
+  }
+
+  for (const permission of required) {
+    await assertPermission(ctx, membership, permission);
+  }
+
+  return { user, membership };
+}
@@ -0,0 +1,212 @@
+import { v } from "convex/values";
+import { mutation, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { getCurrentUser, isActiveMember } from "./conversations";
+
+/**
+ * Rate Limit Functions
+ * Fixed-window counters shared by every server instance
+ */
+
+const MINUTE = 60 * 1000;
+
+type Limit = { limit: number; windowMs: number };
+type RateLimitScope = "user" | "organization";
+
+// Chat proxy limits per window
+export const CHAT_RATE_LIMITS: Record<RateLimitScope, Limit> = {
+  user: { limit: 20, windowMs: MINUTE },
+  organization: { limit: 200, windowMs: MINUTE },
+};
+
+// Search route limits per window; each request is a paid provider call
+export const SEARCH_RATE_LIMITS: Record<RateLimitScope, Limit> = {
+  user: { limit: 10, windowMs: MINUTE },
+  organization: { limit: 100, windowMs: MINUTE },
+};
+
+// Transcription route limits per window; each request is a paid Whisper call
+export const TRANSCRIPTION_RATE_LIMITS: Record<RateLimitScope, Limit> = {
+  user: { limit: 10, windowMs: MINUTE },
+  organization: { limit: 100, windowMs: MINUTE },
+};
+
+const consumeResult = v.object({
+  allowed: v.boolean(),
+  userId: v.id("users"),
+  scope: v.optional(v.union(v.literal("user"), v.literal("organization"))),
+  retryAfterMs: v.number(),
+});
+
+type ConsumeResult = typeof consumeResult.type;
+
+type WindowCheck = {
+  key: string;
+  rowId: Id<"rateLimits"> | null;
+  windowStart: number;
+  count: number;
+  allowed: boolean;
+  retryAfterMs: number;
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Read the current window for a key without consuming it
+ */
+async function checkWindow(
+  ctx: MutationCtx,
+  key: string,
+  limit: number,
+  windowMs: number,
+  now: number
+): Promise<WindowCheck> {
+  const row = await ctx.db
+    .query("rateLimits")
+    .withIndex("by_key", (q) => q.eq("key", key))
+    .unique();
+
+  const expired = !row || now - row.windowStart >= windowMs;
+  const windowStart = expired ? now : row.windowStart;
+  const count = expired ? 0 : row.count;
+
+  return {
+    key,
+    rowId: row?._id ?? null,
+    windowStart,
+    count,
+    allowed: count < limit,
+    retryAfterMs: count < limit ? 0 : windowStart + windowMs - now,
+  };
+}
+
+/**
+ * Record one request against a window
+ */
+async function consumeWindow(ctx: MutationCtx, check: WindowCheck): Promise<void> {
+  if (check.rowId) {
+    await ctx.db.patch(check.rowId, {
+      windowStart: check.windowStart,
+      count: check.count + 1,
+    });
+  } else {
+    await ctx.db.insert("rateLimits", {
+      key: check.key,
+      windowStart: check.windowStart,
+      count: 1,
+    });
+  }
+}
+
+/**
+ * Consume one request for the current user and, if given, their organization.
+ * Nothing is consumed when any limit is exhausted.
+ */
+async function consumeRequest(
+  ctx: MutationCtx,
+  name: string,
+  limits: Record<RateLimitScope, Limit>,
+  organizationId?: Id<"organizations">
+): Promise<ConsumeResult> {
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new Error("Not authenticated");
+  }
+
+  if (organizationId && !(await isActiveMember(ctx, user._id, organizationId))) {
+    throw new Error("Not a member of this organization");
+  }
+
+  const now = Date.now();
+  const checks: { scope: RateLimitScope; check: WindowCheck }[] = [
+    {
+      scope: "user",
+      check: await checkWindow(
+        ctx,
+        `${name}:user:${user._id}`,
+        limits.user.limit,
+        limits.user.windowMs,
+        now
+      ),
+    },
+  ];
+
+  if (organizationId) {
+    checks.push({
+      scope: "organization",
+      check: await checkWindow(
+        ctx,
+        `${name}:org:${organizationId}`,
+        limits.organization.limit,
+        limits.organization.windowMs,
+        now
+      ),
+    });
+  }
+
+  const blocked = checks.find(({ check }) => !check.allowed);
+  if (blocked) {
+    return {
+      allowed: false,
+      userId: user._id,
+      scope: blocked.scope,
+      retryAfterMs: blocked.check.retryAfterMs,
+    };
+  }
+
+  for (const { check } of checks) {
+    await consumeWindow(ctx, check);
+  }
+
+  return { allowed: true, userId: user._id, retryAfterMs: 0 };
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Consume one chat request (api/chat+api.ts)
+ */
+export const consumeChatRequest = mutation({
+  args: {
+    organizationId: v.optional(v.id("organizations")),
+  },
+  returns: consumeResult,
+  handler: async (ctx, args) => {
+    return await consumeRequest(ctx, "chat", CHAT_RATE_LIMITS, args.organizationId);
+  },
+});
+
+/**
+ * Consume one web search or page read (api/search+api.ts)
+ */
+export const consumeSearchRequest = mutation({
+  args: {
+    organizationId: v.optional(v.id("organizations")),
+  },
+  returns: consumeResult,
+  handler: async (ctx, args) => {
+    return await consumeRequest(ctx, "search", SEARCH_RATE_LIMITS, args.organizationId);
+  },
+});
+
+/**
+ * Consume one audio transcription (api/transcribe+api.ts)
+ */
+export const consumeTranscriptionRequest = mutation({
+  args: {
+    organizationId: v.optional(v.id("organizations")),
+  },
+  returns: consumeResult,
+  handler: async (ctx, args) => {
+    return await consumeRequest(
+      ctx,
+      "transcription",
+      TRANSCRIPTION_RATE_LIMITS,
+      args.organizationId
+    );
+  },
+});
@@ -14,6 +14,28 @@ export const organizationRoles = v.union(
   v.literal("viewer")
 );
 
+// Named permissions granted to roles (see permissions.ts)
+export const permissions = v.union(
+  v.literal("organization.update"),
+  v.literal("organization.delete"),
+  v.literal("organization.transfer"),
+  v.literal("members.invite"),
+  v.literal("members.remove"),
+  v.literal("members.update_role"),
+  v.literal("members.manage_admins"),
+  v.literal("roles.manage"),
+  v.literal("billing.manage"),
+  v.literal("audit.read"),
+  v.literal("agent.configure")
+);
+
+// Per-organization overrides of the default role -> permission map
+export const rolePermissions = v.object({
+  admin: v.optional(v.array(permissions)),
+  member: v.optional(v.array(permissions)),
+  viewer: v.optional(v.array(permissions)),
+});
+
 // Invitation status
 export const invitationStatus = v.union(
   v.literal("pending"),
@@ -22,6 +44,100 @@ export const invitationStatus = v.union(
   v.literal("expired")
 );
 
+// Transactional email templates (see emailTemplates.ts)
+export const emailTemplates = v.union(
+  v.literal("invitation"),
+  v.literal("invitation_reminder")
+);
+
+// Outbox delivery status
+export const emailStatus = v.union(
+  v.literal("pending"),
+  v.literal("sending"),
+  v.literal("sent"),
+  v.literal("failed")
+);
+
+// Chat message roles
+export const messageRoles = v.union(
+  v.literal("user"),
+  v.literal("assistant"),
+  v.literal("system")
+);
+
+// Who spoke a voice transcript segment
+export const voiceSpeakers = v.union(v.literal("user"), v.literal("agent"));
+
+// Voice session lifecycle
+export const voiceSessionStatus = v.union(v.literal("active"), v.literal("ended"));
+
+// Action item extracted from a voice call; due dates are calendar dates (YYYY-MM-DD)
+const callActionItemFields = {
+  title: v.string(),
+  owner: v.optional(v.string()),
+  dueDate: v.optional(v.string()),
+};
+
+// Post-call summary as produced by the model (see convex/callSummaries.ts)
+export const callSummaryContent = v.object({
+  keyPoints: v.array(v.string()),
+  decisions: v.array(v.string()),
+  actionItems: v.array(v.object(callActionItemFields)),
+  followUpQuestions: v.array(v.string()),
+});
+
+// Task lifecycle
+export const taskStatus = v.union(v.literal("open"), v.literal("done"));
+
+// AI model providers
+export const aiProviders = v.union(
+  v.literal("openai"),
+  v.literal("groq"),
+  v.literal("anthropic"),
+  v.literal("gemini")
+);
+
+// Per-organization AI routing overrides (see services/ai/routing.ts)
+export const aiRoutingSettings = v.object({
+  fallbackChain: v.optional(v.array(aiProviders)),
+  // task -> provider -> model
+  models: v.optional(v.record(v.string(), v.record(v.string(), v.string()))),
+  timeoutMs: v.optional(v.number()),
+});
+
+// Subscription tiers, lowest first
+export const subscriptionTiers = v.union(
+  v.literal("free"),
+  v.literal("starter"),
+  v.literal("pro"),
+  v.literal("enterprise")
+);
+
+// Metered resources (see convex/usage.ts for quotas)
+export const usageMetrics = v.union(
+  v.literal("tokens"),
+  v.literal("voice_minutes"),
+  v.literal("files"),
+  v.literal("searches")
+);
+
+// What produced a usage event
+export const usageSources = v.union(
+  v.literal("chat"),
+  v.literal("voice"),
+  v.literal("upload"),
+  v.literal("search")
+);
+
+// Before/after values of the fields an audited mutation changed (see audit.ts)
+export const auditChange = v.object({
+  table: v.string(),
+  documentId: v.string(),
+  operation: v.union(v.literal("insert"), v.literal("update"), v.literal("delete")),
+  before: v.optional(v.record(v.string(), v.any())),
+  after: v.optional(v.record(v.string(), v.any())),
+});
+
 export default defineSchema({
   /**
    * Users - Synced from WorkOS
@@ -87,6 +203,7 @@ export default defineSchema({
       allowGuestAccess: v.optional(v.boolean()),
       requireApproval: v.optional(v.boolean()),
       defaultRole: v.optional(organizationRoles),
+      aiRouting: v.optional(aiRoutingSettings),
     })),
     
     // Status
@@ -96,7 +213,7 @@ export default defineSchema({
     // Metadata
     createdAt: v.number(),
     updatedAt: v.number(),
-    createdBy: v.id("users"),
+    createdBy: v.optional(v.id("users")), // Unset for organizations provisioned from WorkOS
   })
     .index("by_workos_org_id", ["workosOrgId"])
     .index("by_slug", ["slug"])
@@ -145,6 +262,10 @@ export default defineSchema({
     
     // WorkOS invitation ID (if using WorkOS)
     workosInvitationId: v.optional(v.string()),
+
+    // Signed link token (see invitationTokens.ts); single use
+    tokenNonce: v.optional(v.string()),
+    tokenUsedAt: v.optional(v.number()),
     
     // Expiration
     expiresAt: v.number(),
@@ -158,6 +279,31 @@ export default defineSchema({
     .index("by_status", ["status"])
     .index("by_email_and_status", ["email", "status"]),
 
+  /**
+   * Email Outbox
+   * Queued transactional emails; delivered by emailDelivery.deliver with retries
+   */
+  emailOutbox: defineTable({
+    template: emailTemplates,
+    to: v.string(),
+
+    // Source record the template is rendered from
+    organizationId: v.optional(v.id("organizations")),
+    invitationId: v.optional(v.id("invitations")),
+
+    status: emailStatus,
+    attempts: v.number(),
+    nextAttemptAt: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+    messageId: v.optional(v.string()),
+
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    sentAt: v.optional(v.number()),
+  })
+    .index("by_invitation", ["invitationId", "createdAt"])
+    .index("by_status", ["status", "updatedAt"]),
+
   /**
    * Sessions
    * Track user sessions for security and audit
@@ -171,6 +317,8 @@ export default defineSchema({
     // Device/Client info
     deviceType: v.optional(v.string()),
     deviceName: v.optional(v.string()),
+    osVersion: v.optional(v.string()),
+    appVersion: v.optional(v.string()),
     ipAddress: v.optional(v.string()),
     userAgent: v.optional(v.string()),
     
@@ -201,6 +349,7 @@ export default defineSchema({
     
     // Context
     metadata: v.optional(v.record(v.string(), v.any())),
+    changes: v.optional(v.array(auditChange)),
     ipAddress: v.optional(v.string()),
     userAgent: v.optional(v.string()),
     
@@ -210,7 +359,9 @@ export default defineSchema({
     .index("by_organization", ["organizationId"])
     .index("by_user", ["userId"])
     .index("by_action", ["action"])
-    .index("by_organization_and_time", ["organizationId", "createdAt"]),
+    .index("by_organization_and_time", ["organizationId", "createdAt"])
+    .index("by_organization_and_user", ["organizationId", "userId", "createdAt"])
+    .index("by_organization_and_resource", ["organizationId", "resource", "createdAt"]),
 
   /**
    * Organization Settings
@@ -227,6 +378,12 @@ export default defineSchema({
       analytics: v.optional(v.boolean()),
     })),
     
+    // Role -> permission overrides; roles not listed use the defaults
+    rolePermissions: v.optional(rolePermissions),
+
+    // Days audit logs are kept before the nightly cleanup deletes them
+    auditRetentionDays: v.optional(v.number()),
+
     // Limits
     limits: v.optional(v.object({
       maxMembers: v.optional(v.number()),
@@ -244,6 +401,8 @@ export default defineSchema({
       )),
       stripeCustomerId: v.optional(v.string()),
       stripeSubscriptionId: v.optional(v.string()),
+      seats: v.optional(v.number()), // Active members billed on the plan
+      seatsUpdatedAt: v.optional(v.number()),
     })),
     
     // Metadata
@@ -280,6 +439,7 @@ export default defineSchema({
     period: v.optional(v.union(v.literal("monthly"), v.literal("yearly"))),
     currency: v.optional(v.string()),
     price: v.optional(v.number()), // Price in cents
+    seats: v.optional(v.number()), // Billed quantity for organization plans
 
     // Stripe integration
     stripeSubscriptionId: v.optional(v.string()),
@@ -291,6 +451,7 @@ export default defineSchema({
     expiresAt: v.optional(v.number()),
     cancelledAt: v.optional(v.number()),
     trialEndsAt: v.optional(v.number()),
+    gracePeriodEndsAt: v.optional(v.number()), // Access ends here while past due
 
     // Metadata
     updatedAt: v.number(),
@@ -298,7 +459,8 @@ export default defineSchema({
     .index("by_user", ["userId"])
     .index("by_stripe_subscription", ["stripeSubscriptionId"])
     .index("by_status", ["status"])
-    .index("by_user_status", ["userId", "status"]),
+    .index("by_user_status", ["userId", "status"])
+    .index("by_organization", ["organizationId"]),
 
   /**
    * Payment History - Track all payment events
@@ -333,4 +495,212 @@ export default defineSchema({
     .index("by_subscription", ["subscriptionId"])
     .index("by_provider_transaction", ["providerTransactionId"])
     .index("by_status", ["status"]),
+
+  /**
+   * Conversations
+   * Chat threads owned by a user, optionally scoped to an organization
+   */
+  conversations: defineTable({
+    userId: v.id("users"),
+    organizationId: v.optional(v.id("organizations")),
+
+    // Conversation details
+    title: v.string(),
+    lastMessagePreview: v.optional(v.string()),
+    messageCount: v.number(),
+
+    // Rolling summary of older turns, sent in their place once history outgrows the context window
+    summary: v.optional(
+      v.object({
+        content: v.string(),
+        // Last message folded into the summary; later messages are sent verbatim
+        lastMessageId: v.id("messages"),
+        messageCount: v.number(),
+        updatedAt: v.number(),
+      })
+    ),
+
+    // Metadata
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId", "updatedAt"])
+    .index("by_user_and_org", ["userId", "organizationId", "updatedAt"])
+    .index("by_organization", ["organizationId"]),
+
+  /**
+   * Messages
+   * Individual chat turns belonging to a conversation
+   */
+  messages: defineTable({
+    conversationId: v.id("conversations"),
+    userId: v.id("users"),
+
+    // Message content
+    role: messageRoles,
+    content: v.string(),
+    metadata: v.optional(v.record(v.string(), v.any())),
+
+    // Metadata
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_conversation", ["conversationId", "createdAt"]),
+
+  /**
+   * Voice Sessions
+   * One row per LiveKit voice call, optionally linked to the chat it started from
+   */
+  voiceSessions: defineTable({
+    userId: v.id("users"),
+    organizationId: v.optional(v.id("organizations")),
+    conversationId: v.optional(v.id("conversations")),
+
+    // LiveKit room and participants
+    roomName: v.string(),
+    participantIdentity: v.optional(v.string()),
+    agentIdentity: v.optional(v.string()),
+    // Agent participant metadata (name, model, capabilities, ...)
+    agentMetadata: v.optional(v.record(v.string(), v.any())),
+
+    status: voiceSessionStatus,
+    startedAt: v.number(),
+    // When the user joined the LiveKit room (reported by its webhook); calls are
+    // metered from here, and sessions whose token was never used are not billed
+    joinedAt: v.optional(v.number()),
+    endedAt: v.optional(v.number()),
+    durationMs: v.optional(v.number()),
+
+    // Final segments only
+    segmentCount: v.number(),
+    lastSegmentPreview: v.optional(v.string()),
+
+    // When a summary was last requested from the app; throttles repeat requests
+    summaryRequestedAt: v.optional(v.number()),
+    // Post-call summary; action items link to the tasks created from them
+    summary: v.optional(
+      v.object({
+        keyPoints: v.array(v.string()),
+        decisions: v.array(v.string()),
+        actionItems: v.array(
+          v.object({
+            ...callActionItemFields,
+            taskId: v.optional(v.id("tasks")),
+          })
+        ),
+        followUpQuestions: v.array(v.string()),
+        generatedAt: v.number(),
+      })
+    ),
+
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId", "startedAt"])
+    .index("by_user_and_org", ["userId", "organizationId", "startedAt"])
+    .index("by_conversation", ["conversationId", "startedAt"])
+    .index("by_room", ["roomName"])
+    .index("by_status", ["status", "updatedAt"]),
+
+  /**
+   * Voice Transcript Segments
+   * Final speech-to-text (user) and text-to-speech (agent) segments of a voice session
+   */
+  voiceTranscriptSegments: defineTable({
+    sessionId: v.id("voiceSessions"),
+    // Segment ID from the agent, so redelivered segments are stored once
+    segmentId: v.string(),
+    speaker: voiceSpeakers,
+    text: v.string(),
+    // When the segment was spoken, and how far into the session
+    timestamp: v.number(),
+    offsetMs: v.number(),
+    createdAt: v.number(),
+  })
+    .index("by_session", ["sessionId", "timestamp"])
+    .index("by_session_segment", ["sessionId", "segmentId"]),
+
+  /**
+   * Tasks
+   * To-dos owned by a user, optionally created from a voice call's action items
+   */
+  tasks: defineTable({
+    userId: v.id("users"),
+    organizationId: v.optional(v.id("organizations")),
+    voiceSessionId: v.optional(v.id("voiceSessions")),
+
+    title: v.string(),
+    // Who the task was assigned to in the call, as spoken
+    owner: v.optional(v.string()),
+    // Calendar date, YYYY-MM-DD
+    dueDate: v.optional(v.string()),
+
+    status: taskStatus,
+    completedAt: v.optional(v.number()),
+
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId", "createdAt"])
+    .index("by_user_and_org", ["userId", "organizationId", "createdAt"])
+    .index("by_voice_session", ["voiceSessionId"]),
+
+  /**
+   * Stripe Events
+   * Webhook deliveries by Stripe event ID, so each event is applied once
+   */
+  stripeEvents: defineTable({
+    eventId: v.string(),
+    type: v.string(),
+    status: v.union(v.literal("processing"), v.literal("processed"), v.literal("failed")),
+    error: v.optional(v.string()),
+    receivedAt: v.number(),
+    processedAt: v.optional(v.number()),
+  })
+    .index("by_event_id", ["eventId"]),
+
+  /**
+   * Usage Events
+   * One row per metered action; the raw record behind the rollups
+   */
+  usageEvents: defineTable({
+    userId: v.id("users"),
+    organizationId: v.optional(v.id("organizations")),
+
+    metric: usageMetrics,
+    quantity: v.number(),
+    source: usageSources,
+    metadata: v.optional(v.record(v.string(), v.any())),
+
+    createdAt: v.number(),
+  })
+    .index("by_user", ["userId", "createdAt"])
+    .index("by_organization", ["organizationId", "createdAt"]),
+
+  /**
+   * Usage Rollups
+   * Daily and monthly totals per user and per organization
+   */
+  usageRollups: defineTable({
+    // "user:<id>" or "org:<id>"
+    scope: v.string(),
+    metric: usageMetrics,
+    period: v.union(v.literal("day"), v.literal("month")),
+    // UTC "YYYY-MM-DD" for days, "YYYY-MM" for months
+    periodKey: v.string(),
+    quantity: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_scope_metric_period", ["scope", "metric", "period", "periodKey"]),
+
+  /**
+   * Rate Limits
+   * Fixed-window request counters, keyed by scope (e.g. "chat:user:<id>")
+   */
+  rateLimits: defineTable({
+    key: v.string(),
+    windowStart: v.number(),
+    count: v.number(),
+  })
+    .index("by_key", ["key"]),
 });
@@ -1,13 +1,36 @@
 import { v } from "convex/values";
-import { query, mutation, internalMutation } from "./_generated/server";
-import { api } from "./_generated/api";
+import { query, internalAction, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { Doc, Id } from "./_generated/dataModel";
+import { auditedInternalMutation, auditedMutation } from "./audit";
+import { requireUser } from "./permissions";
+import { revokeWorkOSSession } from "./workos";
 
 /**
  * Session Management Functions
  * Tracks user sessions for security and device management
  */
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Revoke the WorkOS sessions behind ended session records, so the devices
+ * holding them cannot refresh their tokens and sign back in
+ */
+async function scheduleWorkOSRevocation(
+  ctx: MutationCtx,
+  sessions: Doc<"sessions">[]
+): Promise<void> {
+  const workosSessionIds = sessions.flatMap((session) =>
+    session.workosSessionId ? [session.workosSessionId] : []
+  );
+  if (workosSessionIds.length === 0) return;
+
+  await ctx.scheduler.runAfter(0, internal.sessions.revokeWorkOSSessions, { workosSessionIds });
+}
+
 // ============================================================================
 // Queries
 // ============================================================================
@@ -73,24 +96,51 @@ export const getById = query({
 // ============================================================================
 
 /**
- * Create a new session
+ * Start a session for the signed-in user on this device. Signing in again
+ * with the same WorkOS session reuses its record; a WorkOS session whose record
+ * was ended (signed out from another device) cannot start a new one.
  */
-export const create = mutation({
+export const create = auditedMutation({
+  audit: { action: "session.created", resource: "session" },
   args: {
-    userId: v.id("users"),
     deviceType: v.optional(v.string()),
     deviceName: v.optional(v.string()),
+    osVersion: v.optional(v.string()),
+    appVersion: v.optional(v.string()),
     workosSessionId: v.optional(v.string()),
   },
   returns: v.id("sessions"),
   handler: async (ctx, args): Promise<Id<"sessions">> => {
+    const user = await requireUser(ctx);
     const now = Date.now();
 
-    const sessionId = await ctx.db.insert("sessions", {
-      userId: args.userId,
-      workosSessionId: args.workosSessionId,
+    const device = {
       deviceType: args.deviceType ?? "unknown",
       deviceName: args.deviceName ?? "Unknown Device",
+      osVersion: args.osVersion,
+      appVersion: args.appVersion,
+    };
+
+    if (args.workosSessionId) {
+      const existing = await ctx.db
+        .query("sessions")
+        .withIndex("by_workos_session", (q) => q.eq("workosSessionId", args.workosSessionId))
+        .first();
+
+      if (existing) {
+        if (existing.userId !== user._id || !existing.isActive) {
+          throw new Error("Session has ended");
+        }
+
+        await ctx.db.patch(existing._id, { ...device, lastActiveAt: now });
+        return existing._id;
+      }
+    }
+
+    const sessionId = await ctx.db.insert("sessions", {
+      userId: user._id,
+      workosSessionId: args.workosSessionId,
+      ...device,
       isActive: true,
       startedAt: now,
       lastActiveAt: now,
@@ -101,33 +151,34 @@ export const create = mutation({
 });
 
 /**
- * Update last active timestamp
+ * Heartbeat: update a session's last active timestamp.
+ * Returns isActive: false once the session was signed out elsewhere.
  */
-export const updateLastActive = mutation({
-  args: { userId: v.id("users") },
+export const updateLastActive = auditedMutation({
+  audit: { action: "session.active", resource: "session", ignoreFields: ["lastActiveAt"] },
+  args: { sessionId: v.id("sessions") },
+  returns: v.object({ isActive: v.boolean() }),
   handler: async (ctx, args) => {
-    // Find the most recent active session for this user
-    const sessions = await ctx.db
-      .query("sessions")
-      .withIndex("by_user_active", (q) => 
-        q.eq("userId", args.userId).eq("isActive", true)
-      )
-      .collect();
-
-    const mostRecent = sessions.sort((a, b) => b.lastActiveAt - a.lastActiveAt)[0];
+    const user = await requireUser(ctx);
 
-    if (mostRecent) {
-      await ctx.db.patch(mostRecent._id, {
-        lastActiveAt: Date.now(),
-      });
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.userId !== user._id || !session.isActive) {
+      return { isActive: false };
     }
+
+    await ctx.db.patch(session._id, {
+      lastActiveAt: Date.now(),
+    });
+
+    return { isActive: true };
   },
 });
 
 /**
- * End a specific session
+ * End a specific session, revoking its WorkOS session
  */
-export const endSession = mutation({
+export const endSession = auditedMutation({
+  audit: { action: "session.ended", resource: "session" },
   args: { sessionId: v.id("sessions") },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -158,36 +209,19 @@ export const endSession = mutation({
       isActive: false,
       endedAt: Date.now(),
     });
-
-    // Log session end
-    await ctx.runMutation(api.auditLogs.create, {
-      userId: user._id,
-      action: "session.ended",
-      resource: "session",
-      resourceId: session._id,
-    });
+    await scheduleWorkOSRevocation(ctx, [session]);
   },
 });
 
 /**
- * End all sessions except current (logout from all devices)
+ * End all of the current user's sessions except the given one
+ * (sign out everywhere else), revoking their WorkOS sessions
  */
-export const endAllOtherSessions = mutation({
-  args: {},
-  handler: async (ctx) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
-
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
-      .unique();
-
-    if (!user) {
-      throw new Error("User not found");
-    }
+export const endAllOtherSessions = auditedMutation({
+  audit: { action: "session.all_ended", resource: "session" },
+  args: { currentSessionId: v.optional(v.id("sessions")) },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
 
     const sessions = await ctx.db
       .query("sessions")
@@ -196,36 +230,31 @@ export const endAllOtherSessions = mutation({
       )
       .collect();
 
+    const others = sessions.filter((session) => session._id !== args.currentSessionId);
     const now = Date.now();
 
-    // End all active sessions
-    for (const session of sessions) {
+    for (const session of others) {
       await ctx.db.patch(session._id, {
         isActive: false,
         endedAt: now,
       });
     }
 
-    // Log action
-    await ctx.runMutation(api.auditLogs.create, {
-      userId: user._id,
-      action: "session.all_ended",
-      resource: "session",
-      metadata: {
-        count: sessions.length,
-      },
-    });
+    await scheduleWorkOSRevocation(ctx, others);
+
+    ctx.audit.set({ metadata: { count: others.length } });
   },
 });
 
 // ============================================================================
-// Internal Mutations
+// Internal Functions
 // ============================================================================
 
 /**
  * End all sessions for a user (used during logout/deactivation)
  */
-export const endAllUserSessions = internalMutation({
+export const endAllUserSessions = auditedInternalMutation({
+  audit: { action: "session.all_ended", resource: "session" },
   args: { userId: v.id("users") },
   handler: async (ctx, args) => {
     const sessions = await ctx.db
@@ -245,3 +274,15 @@ export const endAllUserSessions = internalMutation({
     }
   },
 });
+
+/**
+ * Revoke WorkOS sessions through the WorkOS API (scheduled when sessions end)
+ */
+export const revokeWorkOSSessions = internalAction({
+  args: { workosSessionIds: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    for (const workosSessionId of args.workosSessionIds) {
+      await revokeWorkOSSession(workosSessionId);
+    }
+  },
+});
@@ -0,0 +1,363 @@
+import { v } from "convex/values";
+import { internalMutation, ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc } from "./_generated/dataModel";
+import { hmacSha256Hex, parseSignatureHeader, timingSafeEqual } from "./webhooks";
+
+/**
+ * Stripe Webhook Functions
+ * Signature verification and event handling for the /stripe/webhook HTTP route
+ * (see http.ts). Each event is applied once, keyed on its Stripe event ID.
+ */
+
+type SubscriptionTier = Doc<"subscriptions">["tier"];
+type SubscriptionStatus = Doc<"subscriptions">["status"];
+
+export type StripeEvent = {
+  id: string;
+  type: string;
+  data: { object: unknown };
+};
+
+// The fields of Stripe's objects the handlers below read
+
+// An ID, or the object when the field was expanded
+type StripeRef = string | { id: string } | null;
+
+type StripePrice = {
+  id: string;
+  currency?: string;
+  unit_amount?: number | null;
+  recurring?: { interval: string } | null;
+  metadata?: Record<string, string>;
+};
+
+type StripeCheckoutSession = {
+  customer: StripeRef;
+  client_reference_id: string | null;
+};
+
+type StripeSubscription = {
+  id: string;
+  customer: StripeRef;
+  status: string;
+  items?: {
+    data: { price?: StripePrice; quantity?: number; current_period_end?: number }[];
+  };
+  current_period_end?: number;
+  trial_end?: number | null;
+  metadata?: Record<string, string>;
+};
+
+type StripeInvoice = {
+  id: string;
+  customer: StripeRef;
+  amount_paid: number;
+  amount_due: number;
+  currency: string;
+  number: string | null;
+  attempt_count: number;
+  lines?: { data: { description: string | null }[] };
+};
+
+type StripeCharge = {
+  id: string;
+  customer: StripeRef;
+  amount_refunded: number;
+  currency: string;
+  description: string | null;
+  payment_intent: StripeRef;
+};
+
+// Reject signatures older than this to limit replay attacks (Stripe's default)
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// A delivery still marked processing after this long is assumed to have crashed
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+const TIERS: SubscriptionTier[] = ["free", "starter", "pro", "enterprise"];
+
+// ============================================================================
+// Signature Verification
+// ============================================================================
+
+/**
+ * Verify a `Stripe-Signature` header against the raw request body
+ */
+export async function verifyStripeSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  now: number = Date.now()
+): Promise<boolean> {
+  if (!header) return false;
+
+  const { timestamp, signatures } = parseSignatureHeader(header);
+  if (!timestamp || signatures.length === 0) return false;
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = await hmacSha256Hex(secret, `${timestamp}.${payload}`);
+
+  return signatures.some((signature) => timingSafeEqual(signature, expected));
+}
+
+// ============================================================================
+// Event Log
+// ============================================================================
+
+/**
+ * Claim an event for processing. Returns false if it was already applied or
+ * another delivery of it is in progress.
+ */
+export const beginEvent = internalMutation({
+  args: {
+    eventId: v.string(),
+    type: v.string(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args): Promise<boolean> => {
+    const now = Date.now();
+    const existing = await ctx.db
+      .query("stripeEvents")
+      .withIndex("by_event_id", (q) => q.eq("eventId", args.eventId))
+      .unique();
+
+    if (!existing) {
+      await ctx.db.insert("stripeEvents", {
+        eventId: args.eventId,
+        type: args.type,
+        status: "processing",
+        receivedAt: now,
+      });
+      return true;
+    }
+
+    if (existing.status === "processed") return false;
+    if (existing.status === "processing" && now - existing.receivedAt < PROCESSING_TIMEOUT_MS) {
+      return false;
+    }
+
+    // Retry a failed or abandoned delivery
+    await ctx.db.patch(existing._id, { status: "processing", error: undefined, receivedAt: now });
+    return true;
+  },
+});
+
+/**
+ * Record the outcome of processing an event
+ */
+export const finishEvent = internalMutation({
+  args: {
+    eventId: v.string(),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const event = await ctx.db
+      .query("stripeEvents")
+      .withIndex("by_event_id", (q) => q.eq("eventId", args.eventId))
+      .unique();
+
+    if (!event) return;
+
+    await ctx.db.patch(event._id, {
+      status: args.error ? "failed" : "processed",
+      error: args.error,
+      processedAt: Date.now(),
+    });
+  },
+});
+
+// ============================================================================
+// Mapping
+// ============================================================================
+
+function toSubscriptionStatus(status: string): SubscriptionStatus {
+  switch (status) {
+    case "active":
+    case "trialing":
+    case "past_due":
+    case "incomplete":
+      return status;
+    case "unpaid":
+      return "past_due";
+    case "canceled":
+      return "cancelled";
+    default:
+      // incomplete_expired, paused
+      return "expired";
+  }
+}
+
+function toTier(value: unknown): SubscriptionTier | null {
+  return TIERS.includes(value as SubscriptionTier) ? (value as SubscriptionTier) : null;
+}
+
+/**
+ * Tier for a subscription: `tier` metadata on the price or subscription,
+ * else the STRIPE_PRICE_TIERS env map (JSON of price ID to tier)
+ */
+function resolveTier(
+  subscription: StripeSubscription,
+  price: StripePrice | undefined
+): SubscriptionTier | null {
+  const fromMetadata = toTier(price?.metadata?.tier) ?? toTier(subscription.metadata?.tier);
+  if (fromMetadata) return fromMetadata;
+
+  const priceTiers: Record<string, unknown> = JSON.parse(process.env.STRIPE_PRICE_TIERS || "{}");
+  return price ? toTier(priceTiers[price.id]) : null;
+}
+
+function toMillis(seconds: number | null | undefined): number | undefined {
+  return seconds ? seconds * 1000 : undefined;
+}
+
+function refId(ref: StripeRef): string | null {
+  if (!ref) return null;
+  return typeof ref === "string" ? ref : ref.id;
+}
+
+// ============================================================================
+// Event Handlers
+// ============================================================================
+
+async function handleCheckoutCompleted(
+  ctx: ActionCtx,
+  session: StripeCheckoutSession
+): Promise<boolean> {
+  // Checkout is started with client_reference_id set to the Convex user ID
+  const stripeCustomerId = refId(session.customer);
+  if (!stripeCustomerId || !session.client_reference_id) return false;
+
+  // Unknown references are acknowledged (and logged) rather than retried
+  return await ctx.runMutation(internal.subscriptions.linkCustomerToUser, {
+    userId: session.client_reference_id,
+    stripeCustomerId,
+  });
+}
+
+async function handleSubscriptionChanged(
+  ctx: ActionCtx,
+  subscription: StripeSubscription,
+  deleted: boolean
+): Promise<boolean> {
+  const item = subscription.items?.data?.[0];
+  const price = item?.price;
+  const interval = price?.recurring?.interval;
+
+  // Cancellations go through even when the price is no longer mapped to a tier
+  const tier = resolveTier(subscription, price);
+  if (!tier && !deleted) {
+    throw new Error(`No tier configured for Stripe price ${price?.id}`);
+  }
+
+  await ctx.runMutation(internal.subscriptions.upsertSubscription, {
+    stripeCustomerId: refId(subscription.customer)!,
+    stripeSubscriptionId: subscription.id,
+    stripePriceId: price?.id ?? "",
+    tier: tier ?? undefined,
+    status: deleted ? "cancelled" : toSubscriptionStatus(subscription.status),
+    period: interval === "year" ? "yearly" : interval === "month" ? "monthly" : undefined,
+    currency: price?.currency,
+    price: price?.unit_amount ?? undefined,
+    // Newer API versions report the period end on the subscription item
+    expiresAt: toMillis(item?.current_period_end ?? subscription.current_period_end),
+    trialEndsAt: toMillis(subscription.trial_end),
+    // Organization plans are checked out with the organization ID in metadata
+    organizationId: subscription.metadata?.organizationId,
+    seats: item?.quantity,
+  });
+  return true;
+}
+
+async function handleInvoice(
+  ctx: ActionCtx,
+  invoice: StripeInvoice,
+  paid: boolean
+): Promise<boolean> {
+  const stripeCustomerId = refId(invoice.customer);
+  if (!stripeCustomerId) {
+    console.warn(`[Stripe] Invoice ${invoice.id} has no customer; not recorded`);
+    return false;
+  }
+
+  await ctx.runMutation(internal.subscriptions.recordPayment, {
+    stripeCustomerId,
+    providerTransactionId: invoice.id,
+    amount: paid ? invoice.amount_paid : invoice.amount_due,
+    currency: invoice.currency,
+    status: paid ? "succeeded" : "failed",
+    description: invoice.lines?.data?.[0]?.description ?? undefined,
+    metadata: { invoiceNumber: invoice.number, attemptCount: invoice.attempt_count },
+  });
+  return true;
+}
+
+async function handleRefund(ctx: ActionCtx, charge: StripeCharge): Promise<boolean> {
+  // Guest charges have no customer to record the refund against
+  const stripeCustomerId = refId(charge.customer);
+  if (!stripeCustomerId) {
+    console.warn(`[Stripe] Refunded charge ${charge.id} has no customer; not recorded`);
+    return false;
+  }
+
+  await ctx.runMutation(internal.subscriptions.recordPayment, {
+    stripeCustomerId,
+    providerTransactionId: charge.id,
+    amount: charge.amount_refunded,
+    currency: charge.currency,
+    status: "refunded",
+    description: charge.description ?? undefined,
+    metadata: { paymentIntent: refId(charge.payment_intent) },
+  });
+  return true;
+}
+
+/**
+ * Apply an event; returns false for event types that are not handled
+ */
+async function applyStripeEvent(ctx: ActionCtx, event: StripeEvent): Promise<boolean> {
+  const object = event.data.object;
+
+  switch (event.type) {
+    case "checkout.session.completed":
+      return await handleCheckoutCompleted(ctx, object as StripeCheckoutSession);
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+      return await handleSubscriptionChanged(ctx, object as StripeSubscription, false);
+    case "customer.subscription.deleted":
+      return await handleSubscriptionChanged(ctx, object as StripeSubscription, true);
+    case "invoice.paid":
+      return await handleInvoice(ctx, object as StripeInvoice, true);
+    case "invoice.payment_failed":
+      return await handleInvoice(ctx, object as StripeInvoice, false);
+    case "charge.refunded":
+      return await handleRefund(ctx, object as StripeCharge);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Process a verified event exactly once.
+ * Failures are recorded and rethrown so Stripe retries the delivery.
+ */
+export async function processStripeEvent(
+  ctx: ActionCtx,
+  event: StripeEvent
+): Promise<"processed" | "ignored" | "duplicate"> {
+  const claimed = await ctx.runMutation(internal.stripe.beginEvent, {
+    eventId: event.id,
+    type: event.type,
+  });
+  if (!claimed) return "duplicate";
+
+  try {
+    const handled = await applyStripeEvent(ctx, event);
+    await ctx.runMutation(internal.stripe.finishEvent, { eventId: event.id });
+    return handled ? "processed" : "ignored";
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await ctx.runMutation(internal.stripe.finishEvent, { eventId: event.id, error: message });
+    throw error;
+  }
+}
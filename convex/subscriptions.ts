@@ -1,6 +1,250 @@
 import { v } from "convex/values";
-import { query, mutation, internalMutation } from "./_generated/server";
+import { query, internalQuery, internalAction, QueryCtx, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { Doc, Id } from "./_generated/dataModel";
+import { subscriptionTiers } from "./schema";
+import { isActiveMember } from "./conversations";
+import { auditedInternalMutation, auditedMutation } from "./audit";
+import { getActiveMembership, hasPermission } from "./permissions";
+
+type SubscriptionTier = Doc<"subscriptions">["tier"];
+type SubscriptionStatus = Doc<"subscriptions">["status"];
+
+// Statuses that still grant the subscribed tier
+const ENTITLED_STATUSES = ["active", "trialing", "past_due"];
+
+// Allowed status changes. Stripe can deliver events out of order, so a stale
+// status (e.g. active -> incomplete) is ignored rather than applied.
+const STATUS_TRANSITIONS: Record<SubscriptionStatus, SubscriptionStatus[]> = {
+  incomplete: ["active", "trialing", "past_due", "expired"],
+  trialing: ["active", "past_due", "cancelled", "expired"],
+  active: ["past_due", "cancelled", "expired"],
+  past_due: ["active", "cancelled", "expired"],
+  // Stripe can still collect a late payment after a lapsed trial or grace period
+  expired: ["active", "cancelled"],
+  cancelled: [],
+};
+
+// Past-due subscriptions keep their tier this long before downgrading to free
+const PAST_DUE_GRACE_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Ended trials are left to Stripe's own status update for this long before expiring
+const TRIAL_EXPIRY_DELAY_MS = 60 * 60 * 1000;
+
+const TIER_LEVELS: Record<SubscriptionTier, number> = {
+  free: 0,
+  starter: 1,
+  pro: 2,
+  enterprise: 3,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function higherTier(a: SubscriptionTier, b: SubscriptionTier): SubscriptionTier {
+  return TIER_LEVELS[a] >= TIER_LEVELS[b] ? a : b;
+}
+
+/**
+ * Highest tier among a user's personal (non-organization) subscriptions
+ */
+async function getPersonalTier(ctx: QueryCtx, userId: Id<"users">): Promise<SubscriptionTier> {
+  const subscriptions = await ctx.db
+    .query("subscriptions")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  return subscriptions
+    .filter((s) => !s.organizationId && ENTITLED_STATUSES.includes(s.status))
+    .reduce<SubscriptionTier>((tier, s) => higherTier(tier, s.tier), "free");
+}
+
+export async function getOrganizationSettings(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">
+): Promise<Doc<"organizationSettings"> | null> {
+  return await ctx.db
+    .query("organizationSettings")
+    .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+    .unique();
+}
+
+/**
+ * Tier a user is entitled to: their own plan or the organization's, whichever is higher.
+ * An organization's plan only applies to its active members.
+ */
+export async function resolveEntitlement(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  organizationId?: Id<"organizations">
+): Promise<{ tier: SubscriptionTier; source: "personal" | "organization" }> {
+  const personal = await getPersonalTier(ctx, user._id);
+  if (!organizationId || !(await isActiveMember(ctx, user._id, organizationId))) {
+    return { tier: personal, source: "personal" };
+  }
+
+  const settings = await getOrganizationSettings(ctx, organizationId);
+  const plan = settings?.billing?.plan ?? "free";
+
+  return TIER_LEVELS[plan] > TIER_LEVELS[personal]
+    ? { tier: plan, source: "organization" }
+    : { tier: personal, source: "personal" };
+}
+
+/**
+ * Seats taken in an organization: active members, plus unexpired pending
+ * invitations, which hold a seat until they are answered
+ */
+export async function getSeatUsage(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">
+): Promise<{ members: number; pending: number; limit?: number }> {
+  const memberships = await ctx.db
+    .query("organizationMemberships")
+    .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+    .collect();
+
+  const now = Date.now();
+  const invitations = await ctx.db
+    .query("invitations")
+    .withIndex("by_organization", (q) => q.eq("organizationId", organizationId))
+    .collect();
+
+  const settings = await getOrganizationSettings(ctx, organizationId);
+
+  return {
+    members: memberships.filter((m) => m.isActive).length,
+    pending: invitations.filter((i) => i.status === "pending" && i.expiresAt > now).length,
+    limit: settings?.limits?.maxMembers,
+  };
+}
+
+/**
+ * Throw if the organization has no free seat.
+ * Pending invitations count unless the seat is being claimed by one of them.
+ */
+export async function assertSeatAvailable(
+  ctx: QueryCtx,
+  organizationId: Id<"organizations">,
+  options: { claimingInvitation?: boolean } = {}
+): Promise<void> {
+  const { members, pending, limit } = await getSeatUsage(ctx, organizationId);
+  if (limit === undefined) return;
+
+  const taken = options.claimingInvitation ? members : members + pending;
+  if (taken >= limit) {
+    throw new Error(
+      `Seat limit reached (${taken} of ${limit} seats in use). Upgrade the plan to add more members`
+    );
+  }
+}
+
+/**
+ * Record an organization's seat count on its billing settings after members are
+ * added or removed, and push it to the Stripe subscription when there is one
+ */
+export async function syncSeats(
+  ctx: MutationCtx,
+  organizationId: Id<"organizations">
+): Promise<void> {
+  const settings = await getOrganizationSettings(ctx, organizationId);
+  if (!settings) return;
+
+  const { members } = await getSeatUsage(ctx, organizationId);
+  if (settings.billing?.seats === members) return;
+
+  await ctx.db.patch(settings._id, {
+    billing: { ...settings.billing, seats: members, seatsUpdatedAt: Date.now() },
+  });
+
+  if (settings.billing?.stripeSubscriptionId) {
+    await ctx.scheduler.runAfter(0, internal.subscriptions.pushSeatQuantity, {
+      organizationId,
+    });
+  }
+}
+
+/**
+ * Apply a subscription's tier to whoever it covers: the purchaser's personal tier,
+ * or the organization's plan. Tiers fall back to free once no longer entitled.
+ */
+async function applyEntitlement(ctx: MutationCtx, subscription: Doc<"subscriptions">): Promise<void> {
+  const now = Date.now();
+
+  if (subscription.organizationId) {
+    const settings = await getOrganizationSettings(ctx, subscription.organizationId);
+    if (!settings) {
+      throw new Error("Organization settings not found for subscription");
+    }
+
+    await ctx.db.patch(settings._id, {
+      billing: {
+        ...settings.billing,
+        plan: ENTITLED_STATUSES.includes(subscription.status) ? subscription.tier : "free",
+        stripeCustomerId: subscription.stripeCustomerId,
+        stripeSubscriptionId: subscription.stripeSubscriptionId,
+      },
+      updatedAt: now,
+    });
+    return;
+  }
+
+  await ctx.db.patch(subscription.userId, {
+    subscriptionTier: await getPersonalTier(ctx, subscription.userId),
+    updatedAt: now,
+  });
+}
+
+/**
+ * Move a subscription to a new status if the transition is allowed, and record it
+ * in the audit log. Returns whether the status changed.
+ * The transition gets an entry of its own (with its reason) besides the calling
+ * mutation's, since batch runs like expireLapsed touch many organizations.
+ */
+async function transitionStatus(
+  ctx: MutationCtx,
+  subscription: Doc<"subscriptions">,
+  to: SubscriptionStatus,
+  reason: string
+): Promise<boolean> {
+  const from = subscription.status;
+  if (from === to) return false;
+
+  if (!STATUS_TRANSITIONS[from].includes(to)) {
+    console.warn(`[Subscriptions] Ignoring ${from} -> ${to} for ${subscription._id} (${reason})`);
+    return false;
+  }
+
+  const now = Date.now();
+  await ctx.db.patch(subscription._id, {
+    status: to,
+    gracePeriodEndsAt: to === "past_due" ? now + PAST_DUE_GRACE_PERIOD_MS : undefined,
+    cancelledAt: to === "cancelled" ? now : subscription.cancelledAt,
+    updatedAt: now,
+  });
+
+  await logStatusChange(ctx, subscription, from, to, reason);
+  return true;
+}
+
+async function logStatusChange(
+  ctx: MutationCtx,
+  subscription: Doc<"subscriptions">,
+  from: SubscriptionStatus | null,
+  to: SubscriptionStatus,
+  reason: string
+): Promise<void> {
+  await ctx.db.insert("auditLogs", {
+    organizationId: subscription.organizationId,
+    userId: subscription.userId,
+    action: "subscription.status_changed",
+    resource: "subscription",
+    resourceId: subscription._id,
+    metadata: { from, to, reason, tier: subscription.tier },
+    createdAt: Date.now(),
+  });
+}
 
 // ============================================================================
 // Queries
@@ -23,14 +267,14 @@ export const getUserSubscription = query({
 
     if (!user) return null;
 
-    const subscription = await ctx.db
+    const subscriptions = await ctx.db
       .query("subscriptions")
-      .withIndex("by_user_status", (q) =>
-        q.eq("userId", user._id).eq("status", "active")
-      )
-      .first();
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
 
-    return subscription ?? null;
+    return (
+      subscriptions.find((s) => !s.organizationId && ENTITLED_STATUSES.includes(s.status)) ?? null
+    );
   },
 });
 
@@ -62,7 +306,7 @@ export const getPaymentHistory = query({
 });
 
 /**
- * Check if user has specific entitlement
+ * Check if user has specific entitlement, considering the active organization's plan
  */
 export const checkEntitlement = query({
   args: {
@@ -72,6 +316,7 @@ export const checkEntitlement = query({
       v.literal("pro"),
       v.literal("enterprise")
     ),
+    organizationId: v.optional(v.id("organizations")),
   },
   returns: v.boolean(),
   handler: async (ctx, args): Promise<boolean> => {
@@ -85,23 +330,67 @@ export const checkEntitlement = query({
 
     if (!user) return false;
 
-    const subscription = await ctx.db
-      .query("subscriptions")
-      .withIndex("by_user_status", (q) =>
-        q.eq("userId", user._id).eq("status", "active")
-      )
-      .first();
+    const { tier } = await resolveEntitlement(ctx, user, args.organizationId);
 
-    if (!subscription) return args.tier === "free";
+    return TIER_LEVELS[tier] >= TIER_LEVELS[args.tier];
+  },
+});
 
-    const tierLevels: Record<string, number> = {
-      free: 0,
-      starter: 1,
-      pro: 2,
-      enterprise: 3,
-    };
+/**
+ * Get the current user's effective tier, and the organization's seats
+ */
+export const getEntitlement = query({
+  args: {
+    organizationId: v.optional(v.id("organizations")),
+  },
+  returns: v.union(
+    v.null(),
+    v.object({
+      tier: subscriptionTiers,
+      source: v.union(v.literal("personal"), v.literal("organization")),
+      seats: v.optional(
+        v.object({ members: v.number(), pending: v.number(), limit: v.optional(v.number()) })
+      ),
+    })
+  ),
+  handler: async (
+    ctx,
+    args
+  ): Promise<{
+    tier: SubscriptionTier;
+    source: "personal" | "organization";
+    seats?: { members: number; pending: number; limit?: number };
+  } | null> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return null;
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .unique();
+
+    if (!user) return null;
 
-    return tierLevels[subscription.tier] >= tierLevels[args.tier];
+    const entitlement = await resolveEntitlement(ctx, user, args.organizationId);
+    if (!args.organizationId || !(await isActiveMember(ctx, user._id, args.organizationId))) {
+      return entitlement;
+    }
+
+    return { ...entitlement, seats: await getSeatUsage(ctx, args.organizationId) };
+  },
+});
+
+/**
+ * Stripe subscription and seat count of an organization (for seat syncing)
+ */
+export const getSeatBilling = internalQuery({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    const settings = await getOrganizationSettings(ctx, args.organizationId);
+    return {
+      stripeSubscriptionId: settings?.billing?.stripeSubscriptionId,
+      seats: settings?.billing?.seats,
+    };
   },
 });
 
@@ -112,16 +401,15 @@ export const checkEntitlement = query({
 /**
  * Create or update subscription from Stripe webhook
  */
-export const upsertSubscription = internalMutation({
+export const upsertSubscription = auditedInternalMutation({
+  audit: { action: "subscription.synced", resource: "subscription" },
   args: {
     stripeCustomerId: v.string(),
     stripeSubscriptionId: v.string(),
     stripePriceId: v.string(),
-    tier: v.union(
-      v.literal("free"),
-      v.literal("starter"),
-      v.literal("pro"),
-      v.literal("enterprise")
+    // Omitted for cancellations of prices no longer mapped to a tier
+    tier: v.optional(
+      v.union(v.literal("free"), v.literal("starter"), v.literal("pro"), v.literal("enterprise"))
     ),
     status: v.union(
       v.literal("active"),
@@ -136,6 +424,9 @@ export const upsertSubscription = internalMutation({
     price: v.optional(v.number()),
     expiresAt: v.optional(v.number()),
     trialEndsAt: v.optional(v.number()),
+    // Set for organization plans (from the subscription's metadata)
+    organizationId: v.optional(v.string()),
+    seats: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
     // Find user by Stripe customer ID
@@ -151,6 +442,24 @@ export const upsertSubscription = internalMutation({
     }
 
     const now = Date.now();
+    let organizationId = args.organizationId
+      ? ctx.db.normalizeId("organizations", args.organizationId)
+      : null;
+
+    // Only a member who manages the organization's billing can buy its plan;
+    // anyone else has paid for a personal plan
+    if (organizationId) {
+      const membership = await getActiveMembership(ctx, user._id, organizationId);
+      if (!(await hasPermission(ctx, membership, "billing.manage"))) {
+        console.warn(
+          `[Stripe] User ${user._id} cannot manage billing for ${organizationId}; ` +
+            `${args.stripeSubscriptionId} is recorded as a personal subscription`
+        );
+        organizationId = null;
+      }
+    }
+
+    ctx.audit.set({ metadata: { source: "stripe" } });
 
     // Check for existing subscription
     const existingSubscription = await ctx.db
@@ -163,21 +472,20 @@ export const upsertSubscription = internalMutation({
     if (existingSubscription) {
       // Update existing subscription
       await ctx.db.patch(existingSubscription._id, {
-        tier: args.tier,
-        status: args.status,
+        tier: args.tier ?? existingSubscription.tier,
+        stripePriceId: args.stripePriceId,
         period: args.period,
         currency: args.currency,
         price: args.price,
         expiresAt: args.expiresAt,
         trialEndsAt: args.trialEndsAt,
+        seats: args.seats,
         updatedAt: now,
       });
 
-      // Update user tier
-      await ctx.db.patch(user._id, {
-        subscriptionTier: args.tier,
-        updatedAt: now,
-      });
+      const updated = (await ctx.db.get(existingSubscription._id))!;
+      await transitionStatus(ctx, updated, args.status, "stripe");
+      await applyEntitlement(ctx, (await ctx.db.get(existingSubscription._id))!);
 
       return existingSubscription._id;
     }
@@ -185,27 +493,34 @@ export const upsertSubscription = internalMutation({
     // Create new subscription
     const subscriptionId = await ctx.db.insert("subscriptions", {
       userId: user._id,
+      organizationId: organizationId ?? undefined,
       stripeCustomerId: args.stripeCustomerId,
       stripeSubscriptionId: args.stripeSubscriptionId,
       stripePriceId: args.stripePriceId,
-      tier: args.tier,
+      tier: args.tier ?? "free",
       status: args.status,
       period: args.period,
       currency: args.currency,
       price: args.price,
+      seats: args.seats,
       startedAt: now,
       expiresAt: args.expiresAt,
       trialEndsAt: args.trialEndsAt,
+      gracePeriodEndsAt: args.status === "past_due" ? now + PAST_DUE_GRACE_PERIOD_MS : undefined,
       updatedAt: now,
     });
 
-    // Update user tier
     await ctx.db.patch(user._id, {
-      subscriptionTier: args.tier,
       stripeCustomerId: args.stripeCustomerId,
       updatedAt: now,
     });
 
+    const subscription = (await ctx.db.get(subscriptionId))!;
+    await logStatusChange(ctx, subscription, null, args.status, "stripe");
+
+    // Organization plans set the organization's plan, not the purchaser's tier
+    await applyEntitlement(ctx, subscription);
+
     return subscriptionId;
   },
 });
@@ -213,7 +528,8 @@ export const upsertSubscription = internalMutation({
 /**
  * Link Stripe customer ID to user
  */
-export const linkStripeCustomer = mutation({
+export const linkStripeCustomer = auditedMutation({
+  audit: { action: "user.stripe_customer_linked", resource: "user" },
   args: {
     stripeCustomerId: v.string(),
   },
@@ -241,10 +557,41 @@ export const linkStripeCustomer = mutation({
   },
 });
 
+/**
+ * Link a Stripe customer to a user from a completed Checkout session.
+ * The user ID comes from the session's client_reference_id; returns false
+ * when it does not name a user of this deployment.
+ */
+export const linkCustomerToUser = auditedInternalMutation({
+  audit: { action: "user.stripe_customer_linked", resource: "user" },
+  args: {
+    userId: v.string(),
+    stripeCustomerId: v.string(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args) => {
+    const userId = ctx.db.normalizeId("users", args.userId);
+    const user = userId ? await ctx.db.get(userId) : null;
+    if (!user) {
+      console.warn(
+        `[Stripe] Checkout references unknown user ${args.userId} (customer ${args.stripeCustomerId})`
+      );
+      return false;
+    }
+
+    await ctx.db.patch(user._id, {
+      stripeCustomerId: args.stripeCustomerId,
+      updatedAt: Date.now(),
+    });
+    return true;
+  },
+});
+
 /**
  * Cancel subscription
  */
-export const cancelSubscription = mutation({
+export const cancelSubscription = auditedMutation({
+  audit: { action: "subscription.cancelled", resource: "subscription" },
   args: {},
   handler: async (ctx) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -261,31 +608,23 @@ export const cancelSubscription = mutation({
       throw new Error("User not found");
     }
 
-    const subscription = await ctx.db
+    // Organization plans are managed through the organization's billing
+    const subscriptions = await ctx.db
       .query("subscriptions")
-      .withIndex("by_user_status", (q) =>
-        q.eq("userId", user._id).eq("status", "active")
-      )
-      .first();
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    const subscription = subscriptions.find(
+      (s) => !s.organizationId && ENTITLED_STATUSES.includes(s.status)
+    );
 
     if (!subscription) {
       throw new Error("No active subscription found");
     }
 
-    const now = Date.now();
+    await transitionStatus(ctx, subscription, "cancelled", "cancelled_by_user");
 
-    // Update subscription status
-    await ctx.db.patch(subscription._id, {
-      status: "cancelled",
-      cancelledAt: now,
-      updatedAt: now,
-    });
-
-    // Update user tier to free
-    await ctx.db.patch(user._id, {
-      subscriptionTier: "free",
-      updatedAt: now,
-    });
+    // Update user tier (free unless another subscription still applies)
+    await applyEntitlement(ctx, (await ctx.db.get(subscription._id))!);
 
     return { success: true };
   },
@@ -294,7 +633,8 @@ export const cancelSubscription = mutation({
 /**
  * Record payment event (for history)
  */
-export const recordPayment = internalMutation({
+export const recordPayment = auditedInternalMutation({
+  audit: { action: "payment.recorded", resource: "payment" },
   args: {
     stripeCustomerId: v.string(),
     providerTransactionId: v.string(),
@@ -346,3 +686,95 @@ export const recordPayment = internalMutation({
     return { success: true };
   },
 });
+
+/**
+ * Set the quantity of an organization's Stripe subscription to its seat count.
+ * Stripe prorates the change; the resulting webhook updates the subscription record.
+ */
+export const pushSeatQuantity = internalAction({
+  args: { organizationId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    if (!secretKey) return;
+
+    const { stripeSubscriptionId, seats } = await ctx.runQuery(
+      internal.subscriptions.getSeatBilling,
+      { organizationId: args.organizationId }
+    );
+    if (!stripeSubscriptionId || !seats) return;
+
+    const headers = { Authorization: `Bearer ${secretKey}` };
+    const subscriptionResponse = await fetch(
+      `https://api.stripe.com/v1/subscriptions/${stripeSubscriptionId}`,
+      { headers }
+    );
+    if (!subscriptionResponse.ok) {
+      throw new Error(`Failed to load Stripe subscription: ${subscriptionResponse.status}`);
+    }
+
+    const subscription = await subscriptionResponse.json();
+    const item = subscription.items?.data?.[0];
+    if (!item || item.quantity === seats) return;
+
+    const updateResponse = await fetch(`https://api.stripe.com/v1/subscription_items/${item.id}`, {
+      method: "POST",
+      headers: { ...headers, "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        quantity: String(seats),
+        proration_behavior: "create_prorations",
+      }).toString(),
+    });
+    if (!updateResponse.ok) {
+      throw new Error(`Failed to update Stripe seat quantity: ${updateResponse.status}`);
+    }
+  },
+});
+
+/**
+ * Expire trials that ended without Stripe converting them, and past-due
+ * subscriptions whose grace period is over (run by crons.ts)
+ */
+export const expireLapsed = auditedInternalMutation({
+  audit: { action: "subscription.expired", resource: "subscription" },
+  args: {},
+  returns: v.object({ trials: v.number(), pastDue: v.number() }),
+  handler: async (ctx) => {
+    const now = Date.now();
+    let trials = 0;
+    let pastDue = 0;
+
+    const trialing = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_status", (q) => q.eq("status", "trialing"))
+      .collect();
+
+    for (const subscription of trialing) {
+      if (!subscription.trialEndsAt || subscription.trialEndsAt + TRIAL_EXPIRY_DELAY_MS > now) {
+        continue;
+      }
+      if (await transitionStatus(ctx, subscription, "expired", "trial_ended")) {
+        await applyEntitlement(ctx, (await ctx.db.get(subscription._id))!);
+        trials++;
+      }
+    }
+
+    const overdue = await ctx.db
+      .query("subscriptions")
+      .withIndex("by_status", (q) => q.eq("status", "past_due"))
+      .collect();
+
+    for (const subscription of overdue) {
+      // Subscriptions that went past due before grace periods were tracked count from their last update
+      const graceEndsAt =
+        subscription.gracePeriodEndsAt ?? subscription.updatedAt + PAST_DUE_GRACE_PERIOD_MS;
+      if (graceEndsAt > now) continue;
+
+      if (await transitionStatus(ctx, subscription, "expired", "grace_period_ended")) {
+        await applyEntitlement(ctx, (await ctx.db.get(subscription._id))!);
+        pastDue++;
+      }
+    }
+
+    return { trials, pastDue };
+  },
+});
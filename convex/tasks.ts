@@ -0,0 +1,200 @@
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import { query, mutation, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { taskStatus } from "./schema";
+import { getActiveOrganizationIds, getCurrentUser, isActiveMember } from "./conversations";
+import { getAccessibleSession } from "./voiceSessions";
+
+/**
+ * Task Functions
+ * Personal to-dos, mostly created from the action items of a voice call summary
+ */
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Load a task the user owns and can still access
+ */
+async function getAccessibleTask(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  taskId: Id<"tasks">
+): Promise<Doc<"tasks"> | null> {
+  const task = await ctx.db.get(taskId);
+  if (!task || task.userId !== user._id) return null;
+
+  if (task.organizationId && !(await isActiveMember(ctx, user._id, task.organizationId))) {
+    return null;
+  }
+
+  return task;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * List tasks for the current user, newest first.
+ * When an organization is given only tasks in that organization are returned;
+ * otherwise personal tasks and those in organizations the user still belongs to.
+ */
+export const list = query({
+  args: {
+    organizationId: v.optional(v.id("organizations")),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const empty = { page: [], isDone: true, continueCursor: "" };
+
+    const user = await getCurrentUser(ctx);
+    if (!user) return empty;
+
+    if (args.organizationId) {
+      if (!(await isActiveMember(ctx, user._id, args.organizationId))) {
+        return empty;
+      }
+
+      return await ctx.db
+        .query("tasks")
+        .withIndex("by_user_and_org", (q) =>
+          q.eq("userId", user._id).eq("organizationId", args.organizationId)
+        )
+        .order("desc")
+        .paginate(args.paginationOpts);
+    }
+
+    const organizationIds = await getActiveOrganizationIds(ctx, user._id);
+    return await ctx.db
+      .query("tasks")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .filter((q) =>
+        q.or(
+          q.eq(q.field("organizationId"), undefined),
+          ...organizationIds.map((id) => q.eq(q.field("organizationId"), id))
+        )
+      )
+      .paginate(args.paginationOpts);
+  },
+});
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Turn the action items of a voice session's summary into tasks.
+ * Items already turned into tasks are skipped; returns the number created.
+ */
+export const createFromVoiceSession = mutation({
+  args: {
+    sessionId: v.id("voiceSessions"),
+    // Positions in summary.actionItems; all items when omitted
+    itemIndexes: v.optional(v.array(v.number())),
+  },
+  returns: v.number(),
+  handler: async (ctx, args): Promise<number> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const session = await getAccessibleSession(ctx, user, args.sessionId);
+    if (!session) {
+      throw new Error("Voice session not found");
+    }
+    if (!session.summary) {
+      throw new Error("Voice session has no summary");
+    }
+
+    const selected = args.itemIndexes ? new Set(args.itemIndexes) : null;
+    const now = Date.now();
+    let created = 0;
+
+    const actionItems = [];
+    for (const [index, item] of session.summary.actionItems.entries()) {
+      if (item.taskId || (selected && !selected.has(index))) {
+        actionItems.push(item);
+        continue;
+      }
+
+      const taskId = await ctx.db.insert("tasks", {
+        userId: user._id,
+        organizationId: session.organizationId,
+        voiceSessionId: session._id,
+        title: item.title,
+        owner: item.owner,
+        dueDate: item.dueDate,
+        status: "open",
+        createdAt: now,
+        updatedAt: now,
+      });
+      actionItems.push({ ...item, taskId });
+      created++;
+    }
+
+    if (created > 0) {
+      await ctx.db.patch(session._id, {
+        summary: { ...session.summary, actionItems },
+        updatedAt: now,
+      });
+    }
+
+    return created;
+  },
+});
+
+/**
+ * Mark a task open or done
+ */
+export const setStatus = mutation({
+  args: {
+    taskId: v.id("tasks"),
+    status: taskStatus,
+  },
+  returns: v.id("tasks"),
+  handler: async (ctx, args): Promise<Id<"tasks">> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const task = await getAccessibleTask(ctx, user, args.taskId);
+    if (!task) {
+      throw new Error("Task not found");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(task._id, {
+      status: args.status,
+      completedAt: args.status === "done" ? now : undefined,
+      updatedAt: now,
+    });
+
+    return task._id;
+  },
+});
+
+/**
+ * Delete a task
+ */
+export const remove = mutation({
+  args: { taskId: v.id("tasks") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const task = await getAccessibleTask(ctx, user, args.taskId);
+    if (!task) {
+      throw new Error("Task not found");
+    }
+
+    await ctx.db.delete(task._id);
+  },
+});
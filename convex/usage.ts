@@ -0,0 +1,280 @@
+import { v } from "convex/values";
+import { query, internalMutation, QueryCtx, MutationCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { usageMetrics, usageSources } from "./schema";
+import { getCurrentUser, isActiveMember } from "./conversations";
+import { resolveEntitlement } from "./subscriptions";
+
+/**
+ * Usage Functions
+ * Meters tokens, voice minutes, files and web searches, keeps daily/monthly rollups per user
+ * and organization, and enforces the quotas of each subscription tier
+ */
+
+export type SubscriptionTier = NonNullable<Doc<"users">["subscriptionTier"]>;
+export type UsageMetric = Doc<"usageEvents">["metric"];
+
+type Quota = {
+  daily?: number;
+  monthly?: number;
+  // What happens once a limit is reached: refuse, or serve a cheaper fallback
+  onExceeded: "block" | "degrade";
+};
+
+// Omitted limits are unlimited
+export const TIER_QUOTAS: Record<SubscriptionTier, Record<UsageMetric, Quota>> = {
+  free: {
+    tokens: { daily: 20000, monthly: 200000, onExceeded: "block" },
+    voice_minutes: { monthly: 10, onExceeded: "block" },
+    files: { monthly: 20, onExceeded: "block" },
+    searches: { daily: 20, monthly: 200, onExceeded: "block" },
+  },
+  starter: {
+    tokens: { daily: 100000, monthly: 1000000, onExceeded: "degrade" },
+    voice_minutes: { monthly: 120, onExceeded: "block" },
+    files: { monthly: 200, onExceeded: "block" },
+    searches: { daily: 100, monthly: 1000, onExceeded: "block" },
+  },
+  pro: {
+    tokens: { monthly: 5000000, onExceeded: "degrade" },
+    voice_minutes: { monthly: 600, onExceeded: "block" },
+    files: { monthly: 1000, onExceeded: "block" },
+    searches: { monthly: 5000, onExceeded: "block" },
+  },
+  enterprise: {
+    tokens: { onExceeded: "degrade" },
+    voice_minutes: { onExceeded: "block" },
+    files: { onExceeded: "block" },
+    searches: { onExceeded: "block" },
+  },
+};
+
+const METRICS: UsageMetric[] = ["tokens", "voice_minutes", "files", "searches"];
+
+const quotaStatus = v.object({
+  metric: usageMetrics,
+  status: v.union(v.literal("ok"), v.literal("degraded"), v.literal("blocked")),
+  daily: v.object({ used: v.number(), limit: v.optional(v.number()) }),
+  monthly: v.object({ used: v.number(), limit: v.optional(v.number()) }),
+});
+
+type QuotaStatus = typeof quotaStatus.type;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * UTC rollup keys for a timestamp
+ */
+function periodKeys(timestamp: number): { day: string; month: string } {
+  const day = new Date(timestamp).toISOString().slice(0, 10);
+  return { day, month: day.slice(0, 7) };
+}
+
+async function getRollup(
+  ctx: QueryCtx,
+  scope: string,
+  metric: UsageMetric,
+  period: "day" | "month",
+  periodKey: string
+): Promise<Doc<"usageRollups"> | null> {
+  return await ctx.db
+    .query("usageRollups")
+    .withIndex("by_scope_metric_period", (q) =>
+      q.eq("scope", scope).eq("metric", metric).eq("period", period).eq("periodKey", periodKey)
+    )
+    .unique();
+}
+
+async function addToRollup(
+  ctx: MutationCtx,
+  scope: string,
+  metric: UsageMetric,
+  period: "day" | "month",
+  periodKey: string,
+  quantity: number,
+  now: number
+): Promise<void> {
+  const rollup = await getRollup(ctx, scope, metric, period, periodKey);
+  if (rollup) {
+    await ctx.db.patch(rollup._id, { quantity: rollup.quantity + quantity, updatedAt: now });
+  } else {
+    await ctx.db.insert("usageRollups", { scope, metric, period, periodKey, quantity, updatedAt: now });
+  }
+}
+
+/**
+ * Record a usage event and add it to the user's and organization's rollups
+ */
+export async function recordUsageEvent(
+  ctx: MutationCtx,
+  event: {
+    userId: Id<"users">;
+    organizationId?: Id<"organizations">;
+    metric: UsageMetric;
+    quantity: number;
+    source: Doc<"usageEvents">["source"];
+    metadata?: Record<string, any>;
+  }
+): Promise<Id<"usageEvents">> {
+  const now = Date.now();
+  const eventId = await ctx.db.insert("usageEvents", { ...event, createdAt: now });
+
+  const { day, month } = periodKeys(now);
+  const scopes = [`user:${event.userId}`];
+  if (event.organizationId) scopes.push(`org:${event.organizationId}`);
+
+  for (const scope of scopes) {
+    await addToRollup(ctx, scope, event.metric, "day", day, event.quantity, now);
+    await addToRollup(ctx, scope, event.metric, "month", month, event.quantity, now);
+  }
+
+  return eventId;
+}
+
+/**
+ * Tier whose quotas apply to a user: their own plan, or the organization's
+ * when they are working in one whose plan is higher
+ */
+export async function getQuotaTier(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  organizationId?: Id<"organizations">
+): Promise<SubscriptionTier> {
+  return (await resolveEntitlement(ctx, user, organizationId)).tier;
+}
+
+/**
+ * Current usage of a metric against a tier's quota
+ */
+async function getQuotaStatus(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  metric: UsageMetric,
+  tier: SubscriptionTier
+): Promise<QuotaStatus> {
+  const quota = TIER_QUOTAS[tier][metric];
+  const scope = `user:${user._id}`;
+  const { day, month } = periodKeys(Date.now());
+
+  const daily = (await getRollup(ctx, scope, metric, "day", day))?.quantity ?? 0;
+  const monthly = (await getRollup(ctx, scope, metric, "month", month))?.quantity ?? 0;
+
+  const exceeded =
+    (quota.daily !== undefined && daily >= quota.daily) ||
+    (quota.monthly !== undefined && monthly >= quota.monthly);
+
+  return {
+    metric,
+    status: !exceeded ? "ok" : quota.onExceeded === "degrade" ? "degraded" : "blocked",
+    daily: { used: daily, limit: quota.daily },
+    monthly: { used: monthly, limit: quota.monthly },
+  };
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Check whether the current user may use a metered resource, working in
+ * an organization when one is given
+ */
+export const checkQuota = query({
+  args: {
+    metric: usageMetrics,
+    organizationId: v.optional(v.id("organizations")),
+  },
+  returns: v.union(v.null(), quotaStatus),
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return null;
+
+    const tier = await getQuotaTier(ctx, user, args.organizationId);
+    return await getQuotaStatus(ctx, user, args.metric, tier);
+  },
+});
+
+/**
+ * Usage of every metric for the current user, plus the organization's totals
+ */
+export const getSummary = query({
+  args: {
+    organizationId: v.optional(v.id("organizations")),
+  },
+  returns: v.union(
+    v.null(),
+    v.object({
+      tier: v.string(),
+      metrics: v.array(quotaStatus),
+      organization: v.optional(
+        v.array(v.object({ metric: usageMetrics, daily: v.number(), monthly: v.number() }))
+      ),
+    })
+  ),
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return null;
+
+    const tier = await getQuotaTier(ctx, user, args.organizationId);
+    const metrics: QuotaStatus[] = [];
+    for (const metric of METRICS) {
+      metrics.push(await getQuotaStatus(ctx, user, metric, tier));
+    }
+
+    if (!args.organizationId || !(await isActiveMember(ctx, user._id, args.organizationId))) {
+      return { tier, metrics };
+    }
+
+    const scope = `org:${args.organizationId}`;
+    const { day, month } = periodKeys(Date.now());
+    const organization = [];
+    for (const metric of METRICS) {
+      organization.push({
+        metric,
+        daily: (await getRollup(ctx, scope, metric, "day", day))?.quantity ?? 0,
+        monthly: (await getRollup(ctx, scope, metric, "month", month))?.quantity ?? 0,
+      });
+    }
+
+    return { tier, metrics, organization };
+  },
+});
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Record usage measured on the server: chat tokens and web searches reported by
+ * the API routes (http.ts /usage/record). Voice minutes are recorded when a voice
+ * session ends.
+ */
+export const record = internalMutation({
+  args: {
+    userId: v.id("users"),
+    metric: usageMetrics,
+    quantity: v.number(),
+    source: usageSources,
+    organizationId: v.optional(v.id("organizations")),
+    metadata: v.optional(v.record(v.string(), v.any())),
+  },
+  returns: v.id("usageEvents"),
+  handler: async (ctx, args): Promise<Id<"usageEvents">> => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    if (!(args.quantity > 0)) {
+      throw new Error("Quantity must be positive");
+    }
+
+    if (args.organizationId && !(await isActiveMember(ctx, user._id, args.organizationId))) {
+      throw new Error("Not a member of this organization");
+    }
+
+    return await recordUsageEvent(ctx, args);
+  },
+});
@@ -1,13 +1,67 @@
 import { v } from "convex/values";
-import { query, mutation, internalMutation } from "./_generated/server";
-import { api } from "./_generated/api";
+import { query, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
 import { Doc, Id } from "./_generated/dataModel";
+import { auditedInternalMutation, auditedMutation } from "./audit";
 
 /**
  * User Management Functions
  * Handles user CRUD operations and WorkOS synchronization
  */
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Create a user's personal organization and make them its owner
+ */
+async function createPersonalOrganization(
+  ctx: MutationCtx,
+  user: Pick<Doc<"users">, "_id" | "email" | "firstName" | "lastName">
+): Promise<void> {
+  const now = Date.now();
+  const personalOrgId = await ctx.runMutation(internal.organizations.createPersonal, {
+    userId: user._id,
+    userName: `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim() || user.email,
+  });
+
+  await ctx.db.insert("organizationMemberships", {
+    userId: user._id,
+    organizationId: personalOrgId,
+    role: "owner",
+    isActive: true,
+    joinedAt: now,
+    lastAccessedAt: now,
+  });
+}
+
+/**
+ * Deactivate a user, their memberships and sessions
+ */
+async function deactivateUser(ctx: MutationCtx, userId: Id<"users">): Promise<void> {
+  const now = Date.now();
+
+  await ctx.db.patch(userId, {
+    isActive: false,
+    updatedAt: now,
+  });
+
+  const memberships = await ctx.db
+    .query("organizationMemberships")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  for (const membership of memberships) {
+    await ctx.db.patch(membership._id, {
+      isActive: false,
+      lastAccessedAt: now,
+    });
+  }
+
+  await ctx.runMutation(internal.sessions.endAllUserSessions, { userId });
+}
+
 // ============================================================================
 // Queries
 // ============================================================================
@@ -151,9 +205,12 @@ export const search = query({
 
 /**
  * Store or update user from WorkOS authentication
- * Called during sign-in/sign-up
+ * Called during sign-in/sign-up; the client then starts its device session (sessions.create).
+ * The WorkOS user ID and email come from the verified access token; the arguments
+ * must match them.
  */
-export const store = mutation({
+export const store = auditedMutation({
+  audit: { action: "user.signed_in", resource: "user", ignoreFields: ["lastLoginAt"] },
   args: {
     workosId: v.string(),
     email: v.string(),
@@ -168,38 +225,60 @@ export const store = mutation({
       throw new Error("Not authenticated");
     }
 
+    // The access token must carry the email claim (WorkOS JWT template)
+    const workosId = identity.subject;
+    const email = identity.email;
+    if (
+      args.workosId !== workosId ||
+      !email ||
+      args.email.toLowerCase() !== email.toLowerCase()
+    ) {
+      throw new Error("User details do not match the signed-in identity");
+    }
+
     const now = Date.now();
 
     // Check if user exists by WorkOS ID
     const existingUser = await ctx.db
       .query("users")
-      .withIndex("by_workos_id", (q) => q.eq("workosId", args.workosId))
+      .withIndex("by_workos_id", (q) => q.eq("workosId", workosId))
       .unique();
 
     if (existingUser) {
+      // Users provisioned from WorkOS have no token until their first sign-in
+      const isFirstSignIn = !existingUser.tokenIdentifier;
+      if (!isFirstSignIn && existingUser.tokenIdentifier !== identity.tokenIdentifier) {
+        throw new Error("User is linked to a different sign-in");
+      }
+
       // Update existing user
       await ctx.db.patch(existingUser._id, {
-        email: args.email,
+        ...(isFirstSignIn ? { tokenIdentifier: identity.tokenIdentifier } : {}),
+        email,
         firstName: args.firstName ?? existingUser.firstName,
         lastName: args.lastName ?? existingUser.lastName,
         profilePictureUrl: args.profilePictureUrl ?? existingUser.profilePictureUrl,
         lastLoginAt: now,
         updatedAt: now,
       });
-      
-      // Update session
-      await ctx.runMutation(api.sessions.updateLastActive, {
-        userId: existingUser._id,
-      });
+
+      if (isFirstSignIn) {
+        await createPersonalOrganization(ctx, {
+          _id: existingUser._id,
+          email,
+          firstName: args.firstName ?? existingUser.firstName,
+          lastName: args.lastName ?? existingUser.lastName,
+        });
+      }
 
       return existingUser._id;
     }
 
     // Create new user
     const userId = await ctx.db.insert("users", {
-      workosId: args.workosId,
+      workosId,
       tokenIdentifier: identity.tokenIdentifier,
-      email: args.email,
+      email,
       firstName: args.firstName,
       lastName: args.lastName,
       profilePictureUrl: args.profilePictureUrl,
@@ -210,38 +289,9 @@ export const store = mutation({
     });
 
     // Create personal organization for new user
-    const personalOrgId = await ctx.runMutation(api.organizations.createPersonal, {
-      userId,
-      userName: `${args.firstName ?? ""} ${args.lastName ?? ""}`.trim() || args.email,
-    });
-
-    // Add user as owner of their personal org
-    await ctx.db.insert("organizationMemberships", {
-      userId,
-      organizationId: personalOrgId,
-      role: "owner",
-      isActive: true,
-      joinedAt: now,
-      lastAccessedAt: now,
-    });
-
-    // Create session
-    await ctx.runMutation(api.sessions.create, {
-      userId,
-    });
-
-    // Log user creation
-    await ctx.runMutation(api.auditLogs.create, {
-      userId,
-      action: "user.created",
-      resource: "user",
-      resourceId: userId,
-      metadata: {
-        email: args.email,
-        method: "workos",
-      },
-    });
+    await createPersonalOrganization(ctx, { _id: userId, ...args, email });
 
+    ctx.audit.set({ action: "user.created", metadata: { method: "workos" } });
     return userId;
   },
 });
@@ -249,7 +299,8 @@ export const store = mutation({
 /**
  * Update user profile
  */
-export const updateProfile = mutation({
+export const updateProfile = auditedMutation({
+  audit: { action: "user.profile_updated", resource: "user" },
   args: {
     firstName: v.optional(v.string()),
     lastName: v.optional(v.string()),
@@ -292,14 +343,6 @@ export const updateProfile = mutation({
 
     await ctx.db.patch(user._id, updateData);
 
-    // Log profile update
-    await ctx.runMutation(api.auditLogs.create, {
-      userId: user._id,
-      action: "user.profile_updated",
-      resource: "user",
-      resourceId: user._id,
-    });
-
     return user._id;
   },
 });
@@ -307,7 +350,8 @@ export const updateProfile = mutation({
 /**
  * Update user's last login timestamp
  */
-export const updateLastLogin = mutation({
+export const updateLastLogin = auditedMutation({
+  audit: { action: "user.signed_in", resource: "user", ignoreFields: ["lastLoginAt"] },
   args: {},
   handler: async (ctx) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -330,7 +374,8 @@ export const updateLastLogin = mutation({
 /**
  * Deactivate user account (soft delete)
  */
-export const deactivate = mutation({
+export const deactivate = auditedMutation({
+  audit: { action: "user.deactivated", resource: "user" },
   args: {},
   handler: async (ctx) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -347,39 +392,8 @@ export const deactivate = mutation({
       throw new Error("User not found");
     }
 
-    const now = Date.now();
-
-    // Deactivate user
-    await ctx.db.patch(user._id, {
-      isActive: false,
-      updatedAt: now,
-    });
-
-    // Deactivate all memberships
-    const memberships = await ctx.db
-      .query("organizationMemberships")
-      .withIndex("by_user", (q) => q.eq("userId", user._id))
-      .collect();
-
-    for (const membership of memberships) {
-      await ctx.db.patch(membership._id, {
-        isActive: false,
-        lastAccessedAt: now,
-      });
-    }
-
-    // End all sessions
-    await ctx.runMutation(api.sessions.endAllUserSessions, {
-      userId: user._id,
-    });
-
-    // Log deactivation
-    await ctx.runMutation(api.auditLogs.create, {
-      userId: user._id,
-      action: "user.deactivated",
-      resource: "user",
-      resourceId: user._id,
-    });
+    // Deactivate user, memberships and sessions
+    await deactivateUser(ctx, user._id);
   },
 });
 
@@ -388,9 +402,11 @@ export const deactivate = mutation({
 // ============================================================================
 
 /**
- * Internal: Update user from WorkOS webhook
+ * Internal: Create or update user from WorkOS webhook.
+ * Users created upstream are provisioned ahead of their first sign-in.
  */
-export const internalUpdateFromWorkOS = internalMutation({
+export const internalUpdateFromWorkOS = auditedInternalMutation({
+  audit: { action: "user.synced", resource: "user" },
   args: {
     workosId: v.string(),
     email: v.string(),
@@ -398,20 +414,59 @@ export const internalUpdateFromWorkOS = internalMutation({
     lastName: v.optional(v.string()),
     profilePictureUrl: v.optional(v.string()),
   },
-  handler: async (ctx, args) => {
+  returns: v.id("users"),
+  handler: async (ctx, args): Promise<Id<"users">> => {
+    const now = Date.now();
     const user = await ctx.db
       .query("users")
       .withIndex("by_workos_id", (q) => q.eq("workosId", args.workosId))
       .unique();
 
+    ctx.audit.set({ metadata: { source: "workos" } });
+
     if (user) {
       await ctx.db.patch(user._id, {
         email: args.email,
         firstName: args.firstName ?? user.firstName,
         lastName: args.lastName ?? user.lastName,
         profilePictureUrl: args.profilePictureUrl ?? user.profilePictureUrl,
-        updatedAt: Date.now(),
+        updatedAt: now,
       });
+      return user._id;
     }
+
+    const userId = await ctx.db.insert("users", {
+      ...args,
+      tokenIdentifier: "", // Set by store on first sign-in
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    ctx.audit.set({ action: "user.provisioned" });
+    return userId;
+  },
+});
+
+/**
+ * Internal: Deactivate a user deleted in WorkOS
+ */
+export const internalDeactivateFromWorkOS = auditedInternalMutation({
+  audit: { action: "user.deactivated", resource: "user" },
+  args: {
+    workosId: v.string(),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_workos_id", (q) => q.eq("workosId", args.workosId))
+      .unique();
+
+    if (!user || !user.isActive) return;
+
+    await deactivateUser(ctx, user._id);
+
+    ctx.audit.set({ metadata: { source: "workos", reason: args.reason } });
   },
 });
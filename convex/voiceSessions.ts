@@ -0,0 +1,674 @@
+import { v } from "convex/values";
+import { paginationOptsValidator } from "convex/server";
+import {
+  query,
+  mutation,
+  internalQuery,
+  internalMutation,
+  MutationCtx,
+  QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { callSummaryContent, voiceSpeakers } from "./schema";
+import {
+  getAccessibleConversation,
+  getActiveOrganizationIds,
+  getCurrentUser,
+  isActiveMember,
+} from "./conversations";
+import { recordUsageEvent } from "./usage";
+
+/**
+ * Voice Session Functions
+ * Records LiveKit voice calls and their final transcript segments, so past
+ * calls can be replayed next to text chats. Sessions are opened by the LiveKit
+ * token route and metered from LiveKit's webhooks (livekit.ts), never from
+ * what the app reports.
+ */
+
+const PREVIEW_LENGTH = 120;
+
+// Tokens are valid for at most two hours; sessions not joined by then never will be
+const UNJOINED_SESSION_MS = 2 * 60 * 60 * 1000;
+
+// Lets the app store segments that became final as the call dropped
+const SUMMARY_DELAY_MS = 30 * 1000;
+
+// Each request runs a model; one that found nothing to summarize is not retried sooner
+const SUMMARY_REQUEST_INTERVAL_MS = 10 * 60 * 1000;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Load a voice session the user owns and can still access.
+ * Sessions in an organization become inaccessible once membership ends.
+ */
+export async function getAccessibleSession(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  sessionId: Id<"voiceSessions">
+): Promise<Doc<"voiceSessions"> | null> {
+  const session = await ctx.db.get(sessionId);
+  if (!session || session.userId !== user._id) return null;
+
+  if (session.organizationId && !(await isActiveMember(ctx, user._id, session.organizationId))) {
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Active sessions in a LiveKit room
+ */
+async function getActiveRoomSessions(
+  ctx: QueryCtx,
+  roomName: string
+): Promise<Doc<"voiceSessions">[]> {
+  return await ctx.db
+    .query("voiceSessions")
+    .withIndex("by_room", (q) => q.eq("roomName", roomName))
+    .filter((q) => q.eq(q.field("status"), "active"))
+    .collect();
+}
+
+/**
+ * Mark a session ended, meter its voice minutes (per started minute since the
+ * user joined the room) and schedule its summary
+ */
+async function finishSession(
+  ctx: MutationCtx,
+  session: Doc<"voiceSessions">,
+  endedAt: number
+): Promise<void> {
+  const durationMs = session.joinedAt ? Math.max(0, endedAt - session.joinedAt) : 0;
+  await ctx.db.patch(session._id, { status: "ended", endedAt, durationMs, updatedAt: Date.now() });
+
+  const minutes = Math.ceil(durationMs / 60000);
+  if (minutes > 0) {
+    await recordUsageEvent(ctx, {
+      userId: session.userId,
+      organizationId: session.organizationId,
+      metric: "voice_minutes",
+      quantity: minutes,
+      source: "voice",
+      metadata: { voiceSessionId: session._id },
+    });
+  }
+
+  if (session.joinedAt) {
+    await ctx.scheduler.runAfter(SUMMARY_DELAY_MS, internal.callSummaries.summarize, {
+      sessionId: session._id,
+    });
+  }
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * List voice sessions for the current user, most recent first.
+ * When an organization is given only sessions in that organization are returned;
+ * otherwise personal sessions and those in organizations the user still belongs to.
+ */
+export const list = query({
+  args: {
+    organizationId: v.optional(v.id("organizations")),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const empty = { page: [], isDone: true, continueCursor: "" };
+
+    const user = await getCurrentUser(ctx);
+    if (!user) return empty;
+
+    if (args.organizationId) {
+      if (!(await isActiveMember(ctx, user._id, args.organizationId))) {
+        return empty;
+      }
+
+      return await ctx.db
+        .query("voiceSessions")
+        .withIndex("by_user_and_org", (q) =>
+          q.eq("userId", user._id).eq("organizationId", args.organizationId)
+        )
+        .order("desc")
+        .paginate(args.paginationOpts);
+    }
+
+    const organizationIds = await getActiveOrganizationIds(ctx, user._id);
+    return await ctx.db
+      .query("voiceSessions")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .filter((q) =>
+        q.or(
+          q.eq(q.field("organizationId"), undefined),
+          ...organizationIds.map((id) => q.eq(q.field("organizationId"), id))
+        )
+      )
+      .paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * Get voice session by ID
+ */
+export const getById = query({
+  args: { sessionId: v.id("voiceSessions") },
+  returns: v.union(v.null(), v.any()),
+  handler: async (ctx, args): Promise<Doc<"voiceSessions"> | null> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return null;
+
+    return await getAccessibleSession(ctx, user, args.sessionId);
+  },
+});
+
+/**
+ * List the transcript of a voice session, in the order it was spoken
+ */
+export const listSegments = query({
+  args: { sessionId: v.id("voiceSessions") },
+  returns: v.array(v.any()),
+  handler: async (ctx, args): Promise<Doc<"voiceTranscriptSegments">[]> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return [];
+
+    const session = await getAccessibleSession(ctx, user, args.sessionId);
+    if (!session) return [];
+
+    return await ctx.db
+      .query("voiceTranscriptSegments")
+      .withIndex("by_session", (q) => q.eq("sessionId", session._id))
+      .collect();
+  },
+});
+
+/**
+ * The current user's active session in a LiveKit room, if any
+ */
+export const getActiveForRoom = query({
+  args: { roomName: v.string() },
+  returns: v.union(v.null(), v.id("voiceSessions")),
+  handler: async (ctx, args): Promise<Id<"voiceSessions"> | null> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) return null;
+
+    const session = (await getActiveRoomSessions(ctx, args.roomName)).find(
+      (candidate) => candidate.userId === user._id
+    );
+    return session?._id ?? null;
+  },
+});
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Open a voice session for a room. Called by the LiveKit token route
+ * (api/livekit-token+api.ts) when it issues a token; asking for a token to a
+ * room whose session is still active continues that session. Nothing is
+ * metered until LiveKit reports the user joining the room.
+ */
+export const start = mutation({
+  args: {
+    roomName: v.string(),
+    organizationId: v.optional(v.id("organizations")),
+    participantIdentity: v.optional(v.string()),
+  },
+  returns: v.id("voiceSessions"),
+  handler: async (ctx, args): Promise<Id<"voiceSessions">> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    if (args.organizationId && !(await isActiveMember(ctx, user._id, args.organizationId))) {
+      throw new Error("Not a member of this organization");
+    }
+
+    const existing = (await getActiveRoomSessions(ctx, args.roomName)).find(
+      (session) => session.userId === user._id
+    );
+    if (existing) return existing._id;
+
+    const now = Date.now();
+
+    return await ctx.db.insert("voiceSessions", {
+      userId: user._id,
+      organizationId: args.organizationId,
+      roomName: args.roomName,
+      participantIdentity: args.participantIdentity,
+      status: "active",
+      startedAt: now,
+      segmentCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Link a voice session to the conversation the call was started from
+ */
+export const linkConversation = mutation({
+  args: {
+    sessionId: v.id("voiceSessions"),
+    conversationId: v.id("conversations"),
+  },
+  returns: v.id("voiceSessions"),
+  handler: async (ctx, args): Promise<Id<"voiceSessions">> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const session = await getAccessibleSession(ctx, user, args.sessionId);
+    if (!session) {
+      throw new Error("Voice session not found");
+    }
+
+    if (!(await getAccessibleConversation(ctx, user, args.conversationId))) {
+      throw new Error("Conversation not found");
+    }
+
+    await ctx.db.patch(session._id, {
+      conversationId: args.conversationId,
+      updatedAt: Date.now(),
+    });
+
+    return session._id;
+  },
+});
+
+/**
+ * Record the agent that joined a voice session
+ */
+export const setAgent = mutation({
+  args: {
+    sessionId: v.id("voiceSessions"),
+    agentIdentity: v.string(),
+    agentMetadata: v.optional(v.record(v.string(), v.any())),
+  },
+  returns: v.id("voiceSessions"),
+  handler: async (ctx, args): Promise<Id<"voiceSessions">> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const session = await getAccessibleSession(ctx, user, args.sessionId);
+    if (!session) {
+      throw new Error("Voice session not found");
+    }
+
+    await ctx.db.patch(session._id, {
+      agentIdentity: args.agentIdentity,
+      agentMetadata: args.agentMetadata ?? session.agentMetadata,
+      updatedAt: Date.now(),
+    });
+
+    return session._id;
+  },
+});
+
+/**
+ * Append final transcript segments to a voice session.
+ * Segments already stored (by segment ID) are skipped.
+ */
+export const appendSegments = mutation({
+  args: {
+    sessionId: v.id("voiceSessions"),
+    segments: v.array(
+      v.object({
+        segmentId: v.string(),
+        speaker: voiceSpeakers,
+        text: v.string(),
+        timestamp: v.number(),
+      })
+    ),
+  },
+  returns: v.number(),
+  handler: async (ctx, args): Promise<number> => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const session = await getAccessibleSession(ctx, user, args.sessionId);
+    if (!session) {
+      throw new Error("Voice session not found");
+    }
+
+    const now = Date.now();
+    let added = 0;
+    let lastText: string | undefined;
+
+    for (const segment of args.segments) {
+      const text = segment.text.trim();
+      if (!text) continue;
+
+      const existing = await ctx.db
+        .query("voiceTranscriptSegments")
+        .withIndex("by_session_segment", (q) =>
+          q.eq("sessionId", session._id).eq("segmentId", segment.segmentId)
+        )
+        .unique();
+      if (existing) continue;
+
+      await ctx.db.insert("voiceTranscriptSegments", {
+        sessionId: session._id,
+        segmentId: segment.segmentId,
+        speaker: segment.speaker,
+        text,
+        timestamp: segment.timestamp,
+        offsetMs: Math.max(0, segment.timestamp - session.startedAt),
+        createdAt: now,
+      });
+      added++;
+      lastText = text;
+    }
+
+    if (added > 0) {
+      await ctx.db.patch(session._id, {
+        segmentCount: session.segmentCount + added,
+        lastSegmentPreview: lastText?.substring(0, PREVIEW_LENGTH),
+        updatedAt: now,
+      });
+    }
+
+    return added;
+  },
+});
+
+/**
+ * Summarize an ended call that has no summary, e.g. one that ended before a
+ * provider was configured. Requests are throttled per session.
+ */
+export const requestSummary = mutation({
+  args: { sessionId: v.id("voiceSessions") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const session = await getAccessibleSession(ctx, user, args.sessionId);
+    if (!session) {
+      throw new Error("Voice session not found");
+    }
+    if (session.status !== "ended") {
+      throw new Error("The call has not ended yet");
+    }
+    if (session.summary) {
+      throw new Error("The call has already been summarized");
+    }
+
+    const now = Date.now();
+    const lastRequestedAt = session.summaryRequestedAt ?? 0;
+    if (now - lastRequestedAt < SUMMARY_REQUEST_INTERVAL_MS) {
+      throw new Error("A summary was requested recently; try again later");
+    }
+
+    await ctx.db.patch(session._id, { summaryRequestedAt: now, updatedAt: now });
+    await ctx.scheduler.runAfter(0, internal.callSummaries.summarize, { sessionId: session._id });
+  },
+});
+
+/**
+ * Delete a voice session and its transcript
+ */
+export const remove = mutation({
+  args: { sessionId: v.id("voiceSessions") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Not authenticated");
+    }
+
+    const session = await getAccessibleSession(ctx, user, args.sessionId);
+    if (!session) {
+      throw new Error("Voice session not found");
+    }
+
+    const segments = await ctx.db
+      .query("voiceTranscriptSegments")
+      .withIndex("by_session", (q) => q.eq("sessionId", session._id))
+      .collect();
+
+    for (const segment of segments) {
+      await ctx.db.delete(segment._id);
+    }
+
+    // Tasks created from the call outlive it
+    const tasks = await ctx.db
+      .query("tasks")
+      .withIndex("by_voice_session", (q) => q.eq("voiceSessionId", session._id))
+      .collect();
+
+    for (const task of tasks) {
+      await ctx.db.patch(task._id, { voiceSessionId: undefined });
+    }
+
+    await ctx.db.delete(session._id);
+  },
+});
+
+// ============================================================================
+// Internal Functions
+// ============================================================================
+
+/**
+ * What the summary action needs: the transcript and the organization's routing settings
+ */
+export const getSummaryInput = internalQuery({
+  args: { sessionId: v.id("voiceSessions") },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || session.status !== "ended") return null;
+
+    const segments = await ctx.db
+      .query("voiceTranscriptSegments")
+      .withIndex("by_session", (q) => q.eq("sessionId", session._id))
+      .collect();
+    const organization = session.organizationId
+      ? await ctx.db.get(session.organizationId)
+      : null;
+
+    return {
+      startedAt: session.startedAt,
+      aiRouting: organization?.settings?.aiRouting,
+      segments: segments.map(({ speaker, text }) => ({ speaker, text })),
+    };
+  },
+});
+
+/**
+ * Save the post-call summary of a voice session, replacing any earlier one.
+ * Action items already turned into tasks stay linked when their title is unchanged.
+ */
+export const saveSummary = internalMutation({
+  args: {
+    sessionId: v.id("voiceSessions"),
+    summary: callSummaryContent,
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session) return;
+
+    const existingTasks = new Map(
+      (session.summary?.actionItems ?? [])
+        .filter((item) => item.taskId)
+        .map((item) => [item.title, item.taskId])
+    );
+
+    const now = Date.now();
+    await ctx.db.patch(session._id, {
+      summary: {
+        ...args.summary,
+        actionItems: args.summary.actionItems.map((item) => ({
+          ...item,
+          taskId: existingTasks.get(item.title),
+        })),
+        generatedAt: now,
+      },
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Meter the tokens a summary attempt used, against the session's owner
+ */
+export const recordSummaryUsage = internalMutation({
+  args: {
+    sessionId: v.id("voiceSessions"),
+    tokens: v.number(),
+    provider: v.string(),
+    model: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const session = await ctx.db.get(args.sessionId);
+    if (!session || args.tokens <= 0) return;
+
+    await recordUsageEvent(ctx, {
+      userId: session.userId,
+      organizationId: session.organizationId,
+      metric: "tokens",
+      quantity: args.tokens,
+      source: "voice",
+      metadata: {
+        voiceSessionId: session._id,
+        task: "summary",
+        provider: args.provider,
+        model: args.model,
+      },
+    });
+  },
+});
+
+/**
+ * Record the user joining a session's LiveKit room (webhook); the call is
+ * metered from here. Rejoining a room whose session already ended opens a new
+ * session, as the token that was used is still valid.
+ */
+export const recordParticipantJoined = internalMutation({
+  args: {
+    roomName: v.string(),
+    userId: v.string(),
+    organizationId: v.optional(v.string()),
+    participantIdentity: v.string(),
+    joinedAt: v.number(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args): Promise<boolean> => {
+    const userId = ctx.db.normalizeId("users", args.userId);
+    const user = userId ? await ctx.db.get(userId) : null;
+    if (!user) return false;
+
+    const session = (await getActiveRoomSessions(ctx, args.roomName)).find(
+      (candidate) => candidate.userId === user._id
+    );
+
+    if (session) {
+      if (session.joinedAt) return false;
+
+      await ctx.db.patch(session._id, {
+        participantIdentity: args.participantIdentity,
+        startedAt: args.joinedAt,
+        joinedAt: args.joinedAt,
+        updatedAt: Date.now(),
+      });
+      return true;
+    }
+
+    const organizationId = args.organizationId
+      ? ctx.db.normalizeId("organizations", args.organizationId)
+      : null;
+    if (organizationId && !(await isActiveMember(ctx, user._id, organizationId))) {
+      return false;
+    }
+
+    const now = Date.now();
+    await ctx.db.insert("voiceSessions", {
+      userId: user._id,
+      organizationId: organizationId ?? undefined,
+      roomName: args.roomName,
+      participantIdentity: args.participantIdentity,
+      status: "active",
+      startedAt: args.joinedAt,
+      joinedAt: args.joinedAt,
+      segmentCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return true;
+  },
+});
+
+/**
+ * End the session of a user who left its LiveKit room (webhook)
+ */
+export const recordParticipantLeft = internalMutation({
+  args: {
+    roomName: v.string(),
+    participantIdentity: v.string(),
+    leftAt: v.number(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args): Promise<boolean> => {
+    const sessions = (await getActiveRoomSessions(ctx, args.roomName)).filter(
+      (session) => session.participantIdentity === args.participantIdentity
+    );
+
+    for (const session of sessions) {
+      await finishSession(ctx, session, args.leftAt);
+    }
+    return sessions.length > 0;
+  },
+});
+
+/**
+ * End every session still open in a LiveKit room that closed (webhook)
+ */
+export const finishRoom = internalMutation({
+  args: {
+    roomName: v.string(),
+    endedAt: v.number(),
+  },
+  returns: v.boolean(),
+  handler: async (ctx, args): Promise<boolean> => {
+    const sessions = await getActiveRoomSessions(ctx, args.roomName);
+
+    for (const session of sessions) {
+      await finishSession(ctx, session, args.endedAt);
+    }
+    return sessions.length > 0;
+  },
+});
+
+/**
+ * End sessions whose token was never used to join the room (run by cron).
+ * Nothing is billed for them; joined sessions are ended by LiveKit's webhooks.
+ */
+export const endStale = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - UNJOINED_SESSION_MS;
+    const stale = await ctx.db
+      .query("voiceSessions")
+      .withIndex("by_status", (q) => q.eq("status", "active").lt("updatedAt", cutoff))
+      .filter((q) => q.eq(q.field("joinedAt"), undefined))
+      .collect();
+
+    for (const session of stale) {
+      await finishSession(ctx, session, session.updatedAt);
+    }
+  },
+});
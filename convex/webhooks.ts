@@ -0,0 +1,83 @@
+/**
+ * Webhook Signature Helpers
+ * HMAC-SHA256 signing shared by the Stripe, WorkOS and LiveKit webhook
+ * handlers (and by invitation link tokens)
+ */
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+}
+
+async function hmacSha256(secret: string, payload: string): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+}
+
+/**
+ * Hex-encoded HMAC-SHA256 of a payload
+ */
+export async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+  return toHex(await hmacSha256(secret, payload));
+}
+
+/**
+ * Unpadded base64url HMAC-SHA256 of a payload, as in JWT signatures
+ */
+export async function hmacSha256Base64Url(secret: string, payload: string): Promise<string> {
+  return toBase64(await hmacSha256(secret, payload))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Base64-encoded SHA-256 digest of a payload
+ */
+export async function sha256Base64(payload: string): Promise<string> {
+  return toBase64(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(payload)));
+}
+
+/**
+ * Decode an unpadded base64url string (e.g. a JWT segment) as UTF-8 text
+ */
+export function decodeBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+/**
+ * Compare two signatures in constant time
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Parse a `t=...,v1=...` signature header into its timestamp and signatures
+ */
+export function parseSignatureHeader(header: string): { timestamp: number; signatures: string[] } {
+  const parts = header.split(",").map((part) => part.trim().split("="));
+  return {
+    timestamp: Number(parts.find(([key]) => key === "t")?.[1]),
+    signatures: parts.filter(([key]) => key === "v1").map(([, value]) => value),
+  };
+}
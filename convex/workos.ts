@@ -0,0 +1,200 @@
+import { ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { hmacSha256Hex, parseSignatureHeader, timingSafeEqual } from "./webhooks";
+
+/**
+ * WorkOS Webhook Functions
+ * Signature verification and event handling for the /workos/webhook HTTP route
+ * (see http.ts). Keeps users, organizations and memberships in sync with WorkOS,
+ * including directory sync (SCIM) suspension and reactivation.
+ */
+
+export type WorkOSEvent = {
+  id: string;
+  event: string;
+  data: any;
+};
+
+// WorkOS's default tolerance; its timestamps are in milliseconds
+const SIGNATURE_TOLERANCE_MS = 3 * 60 * 1000;
+
+const WORKOS_API_URL = "https://api.workos.com";
+
+// ============================================================================
+// Signature Verification
+// ============================================================================
+
+/**
+ * Verify a `WorkOS-Signature` header against the raw request body
+ */
+export async function verifyWorkOSSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  now: number = Date.now()
+): Promise<boolean> {
+  if (!header) return false;
+
+  const { timestamp, signatures } = parseSignatureHeader(header);
+  if (!timestamp || signatures.length === 0) return false;
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_MS) return false;
+
+  const expected = await hmacSha256Hex(secret, `${timestamp}.${payload}`);
+
+  return signatures.some((signature) => timingSafeEqual(signature, expected));
+}
+
+// ============================================================================
+// Event Handlers
+// ============================================================================
+
+/**
+ * Primary email of a directory user
+ */
+function directoryUserEmail(user: any): string | undefined {
+  const primary = user.emails?.find((email: any) => email.primary) ?? user.emails?.[0];
+  return user.email ?? primary?.value;
+}
+
+/**
+ * WorkOS user ID of the AuthKit account with this email, if there is one
+ */
+async function findWorkOSUserId(email: string): Promise<string | null> {
+  const apiKey = process.env.WORKOS_API_KEY;
+  if (!apiKey) {
+    throw new Error("WORKOS_API_KEY is not set");
+  }
+
+  const response = await fetch(
+    `${WORKOS_API_URL}/user_management/users?email=${encodeURIComponent(email)}`,
+    { headers: { Authorization: `Bearer ${apiKey}` } }
+  );
+  if (!response.ok) {
+    throw new Error(`WorkOS user lookup failed: ${response.status}`);
+  }
+
+  const { data } = await response.json();
+  return data?.[0]?.id ?? null;
+}
+
+async function handleUser(ctx: ActionCtx, event: WorkOSEvent): Promise<boolean> {
+  const user = event.data;
+
+  if (event.event === "user.deleted") {
+    await ctx.runMutation(internal.users.internalDeactivateFromWorkOS, {
+      workosId: user.id,
+      reason: "user_deleted",
+    });
+    return true;
+  }
+
+  await ctx.runMutation(internal.users.internalUpdateFromWorkOS, {
+    workosId: user.id,
+    email: user.email,
+    firstName: user.first_name ?? undefined,
+    lastName: user.last_name ?? undefined,
+    profilePictureUrl: user.profile_picture_url ?? undefined,
+  });
+  return true;
+}
+
+async function handleOrganization(ctx: ActionCtx, event: WorkOSEvent): Promise<boolean> {
+  await ctx.runMutation(internal.organizations.internalSyncFromWorkOS, {
+    workosOrgId: event.data.id,
+    name: event.data.name,
+    deleted: event.event === "organization.deleted",
+  });
+  return true;
+}
+
+async function handleMembership(ctx: ActionCtx, event: WorkOSEvent): Promise<boolean> {
+  const membership = event.data;
+
+  // Pending memberships become active once the invitation is accepted
+  if (membership.status === "pending") return false;
+
+  await ctx.runMutation(internal.memberships.internalSyncFromWorkOS, {
+    workosUserId: membership.user_id,
+    workosOrgId: membership.organization_id,
+    role: membership.role?.slug,
+    isActive: event.event !== "organization_membership.deleted" && membership.status === "active",
+  });
+  return true;
+}
+
+async function handleDirectoryUser(ctx: ActionCtx, event: WorkOSEvent): Promise<boolean> {
+  const user = event.data;
+  const email = directoryUserEmail(user);
+  if (!email || !user.organization_id) return false;
+
+  // Directory users without an AuthKit account have nothing to sync yet
+  const workosUserId = await findWorkOSUserId(email);
+  if (!workosUserId) return false;
+
+  const isActive = event.event !== "dsync.user.deleted" && user.state === "active";
+
+  // Only the membership in the directory's organization follows the directory
+  await ctx.runMutation(internal.memberships.internalSyncDirectoryUser, {
+    workosUserId,
+    workosOrgId: user.organization_id,
+    isActive,
+    reason:
+      event.event === "dsync.user.deleted"
+        ? "directory_user_deleted"
+        : isActive
+          ? "directory_user_active"
+          : "directory_user_suspended",
+  });
+  return true;
+}
+
+/**
+ * Apply an event; returns false for events that need no changes.
+ * Handlers are idempotent, so redeliveries are safe to apply again.
+ */
+export async function processWorkOSEvent(ctx: ActionCtx, event: WorkOSEvent): Promise<boolean> {
+  switch (event.event) {
+    case "user.created":
+    case "user.updated":
+    case "user.deleted":
+      return await handleUser(ctx, event);
+    case "organization.created":
+    case "organization.updated":
+    case "organization.deleted":
+      return await handleOrganization(ctx, event);
+    case "organization_membership.created":
+    case "organization_membership.updated":
+    case "organization_membership.deleted":
+      return await handleMembership(ctx, event);
+    case "dsync.user.created":
+    case "dsync.user.updated":
+    case "dsync.user.deleted":
+      return await handleDirectoryUser(ctx, event);
+    default:
+      return false;
+  }
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+/**
+ * Revoke a WorkOS session, so its refresh token stops working.
+ * Sessions WorkOS no longer knows are already gone.
+ */
+export async function revokeWorkOSSession(sessionId: string): Promise<void> {
+  const apiKey = process.env.WORKOS_API_KEY;
+  if (!apiKey) {
+    throw new Error("WORKOS_API_KEY is not set");
+  }
+
+  const response = await fetch(`${WORKOS_API_URL}/user_management/sessions/revoke`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+    body: JSON.stringify({ session_id: sessionId }),
+  });
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`WorkOS session revocation failed: ${response.status}`);
+  }
+}
@@ -1,17 +1,13 @@
 /**
  * useChatStream Hook
- * React Native hook for streaming AI chat using Vercel AI SDK v5
+ * React Native hook for streaming AI chat using the Vercel AI SDK
  */
 
 import { useState, useCallback, useRef } from 'react';
-import {
-  createChatStream,
-  createChat,
-  ChatMessage,
-  ChatProvider,
-  ChatOptions,
-  StreamChunk,
-} from '@/services/ai/chat';
+import { ChatMessage, ChatOptions, ChatStreamEvent, StreamChunk } from '@/services/ai/chat';
+import { ChatProvider } from '@/services/ai/providers';
+import { routeChat, routeChatStream } from '@/services/ai/routing';
+import { applyToolEvent, isToolEvent } from '@/services/ai/tools';
 
 // ========================================
 // Types
@@ -43,6 +39,9 @@ export function useChatStream(options: UseChatStreamOptions = {}): UseChatStream
     model,
     temperature,
     maxTokens,
+    tools,
+    maxToolPermission,
+    maxSteps,
     system: initialSystem,
     onError,
   } = options;
@@ -82,26 +81,31 @@ export function useChatStream(options: UseChatStreamOptions = {}): UseChatStream
       content: '',
     };
 
+    // Update or append the assistant message
+    const publishAssistantMessage = () => {
+      const snapshot = { ...assistantMessage };
+      setMessages((prev) => {
+        const updated = [...prev];
+        const lastIndex = updated.length - 1;
+        if (updated[lastIndex]?.role === 'assistant') {
+          updated[lastIndex] = snapshot;
+        } else {
+          updated.push(snapshot);
+        }
+        return updated;
+      });
+    };
+
     try {
       const conversationHistory = [...messages, userMessage];
 
       // Stream the response
-      const fullResponse = await createChatStream(
+      const { text: fullResponse } = await routeChatStream(
         conversationHistory,
         (chunk: StreamChunk) => {
           if (!chunk.isComplete) {
             assistantMessage.content += chunk.text;
-            setMessages((prev) => {
-              const updated = [...prev];
-              // Update or append the assistant message
-              const lastIndex = updated.length - 1;
-              if (updated[lastIndex]?.role === 'assistant') {
-                updated[lastIndex] = assistantMessage;
-              } else {
-                updated.push(assistantMessage);
-              }
-              return updated;
-            });
+            publishAssistantMessage();
           }
         },
         {
@@ -109,22 +113,26 @@ export function useChatStream(options: UseChatStreamOptions = {}): UseChatStream
           model,
           temperature,
           maxTokens,
+          tools,
+          maxToolPermission,
+          maxSteps,
           system: systemRef.current,
+        },
+        (event: ChatStreamEvent) => {
+          if (!isToolEvent(event)) return;
+
+          // Track tool calls as they move from pending to completed
+          assistantMessage.toolInvocations = applyToolEvent(
+            assistantMessage.toolInvocations ?? [],
+            event
+          );
+          publishAssistantMessage();
         }
       );
 
       // Ensure final message is set
       assistantMessage.content = fullResponse;
-      setMessages((prev) => {
-        const updated = [...prev];
-        const lastIndex = updated.length - 1;
-        if (updated[lastIndex]?.role === 'assistant') {
-          updated[lastIndex] = assistantMessage;
-        } else {
-          updated.push(assistantMessage);
-        }
-        return updated;
-      });
+      publishAssistantMessage();
 
     } catch (err) {
       const errorObj = err instanceof Error ? err : new Error('Unknown error');
@@ -143,7 +151,7 @@ export function useChatStream(options: UseChatStreamOptions = {}): UseChatStream
       setIsLoading(false);
       setStreaming(false);
     }
-  }, [messages, model, temperature, maxTokens, onError]);
+  }, [messages, model, temperature, maxTokens, tools, maxToolPermission, maxSteps, onError]);
 
   /**
    * Reset the conversation
@@ -229,7 +237,7 @@ export function useChat(options: UseChatOptions = {}): UseChatReturn {
 
     try {
       const conversationHistory = [...messages, userMessage];
-      const response = await createChat(conversationHistory, {
+      const { text: response } = await routeChat(conversationHistory, {
         provider: providerRef.current,
         model,
         temperature,
@@ -10,12 +10,14 @@
  */
 
 import { TokenSource, TokenSourceBase, type TokenSourceResponseObject } from 'livekit-client';
-import { createContext, useContext, useMemo, useState } from 'react';
+import { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import { useQuery } from 'convex/react';
 import { SessionProvider, useSession } from '@livekit/components-react';
-
-// Token server configuration
-const TOKEN_SERVER_URL = process.env.EXPO_PUBLIC_TOKEN_SERVER_URL || 'http://localhost:8008';
-const LIVEKIT_URL = process.env.EXPO_PUBLIC_LIVEKIT_URL || 'ws://localhost:7880';
+import { api } from '@/convex/_generated/api';
+import { onSessionChanged } from '@/services/auth/session';
+import { getToken } from '@/services/livekit';
+import { useOrganizationStore } from '@/stores/organizationStore';
 
 // Optional: Sandbox ID for LiveKit Cloud testing
 // See: https://docs.livekit.io/frontends/authentication/tokens/endpoint/#use-an-endpoint-based-tokensource
@@ -27,12 +29,15 @@ const agentName = process.env.EXPO_PUBLIC_LIVEKIT_AGENT_NAME || undefined;
 
 interface ConnectionContextType {
   isConnectionActive: boolean;
+  /** Voice minutes for the current plan are used up */
+  isQuotaExceeded: boolean;
   connect: () => void;
   disconnect: () => void;
 }
 
 const ConnectionContext = createContext<ConnectionContextType>({
   isConnectionActive: false,
+  isQuotaExceeded: false,
   connect: () => {},
   disconnect: () => {},
 });
@@ -55,7 +60,7 @@ interface ConnectionProviderProps {
  * Uses TokenSource for token management as recommended by LiveKit docs:
  * https://docs.livekit.io/frontends/authentication/tokens/endpoint
  * 
- * Supports both sandbox token server (for testing) and custom token server.
+ * Supports both the sandbox token server (for testing) and the app's token route.
  */
 export function ConnectionProvider({ children }: ConnectionProviderProps) {
   const [isConnectionActive, setIsConnectionActive] = useState(false);
@@ -66,31 +71,13 @@ export function ConnectionProvider({ children }: ConnectionProviderProps) {
       // Docs: https://docs.livekit.io/frontends/authentication/tokens/endpoint/#use-an-endpoint-based-tokensource
       return TokenSource.sandboxTokenServer(sandboxID);
     } else {
-      // Use custom token server endpoint
-      // Create a custom TokenSource that fetches from our token server
+      // Use the authenticated token route (api/livekit-token+api.ts),
+      // which picks the identity and room for the signed-in user
       return new (class extends TokenSourceBase {
         async fetchToken(): Promise<TokenSourceResponseObject> {
-          const response = await fetch(`${TOKEN_SERVER_URL}/token`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              room: `alias-${Date.now()}-${Math.random().toString(36).substring(7)}`,
-              identity: `user-${Math.random().toString(36).substring(7)}`,
-              name: 'ALIAS User',
-              auto_create_room: true,
-            }),
-          });
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Failed to get token: ${errorText}`);
-          }
-
-          const data = await response.json();
+          const data = await getToken();
           return {
-            serverUrl: data.url || LIVEKIT_URL,
+            serverUrl: data.url,
             participantToken: data.token,
           };
         }
@@ -105,10 +92,27 @@ export function ConnectionProvider({ children }: ConnectionProviderProps) {
 
   const { start: startSession, end: endSession } = session;
 
+  // Voice time is metered on the server from LiveKit's room events (convex/livekit.ts)
+  // Calls run in the active organization, under its plan when that is higher (see getToken)
+  const activeOrganizationId = useOrganizationStore((state) => state.activeOrganizationId);
+  const voiceQuota = useQuery(api.usage.checkQuota, {
+    metric: 'voice_minutes',
+    organizationId: activeOrganizationId ?? undefined,
+  });
+  const isQuotaExceeded = voiceQuota?.status === 'blocked';
+
   const value = useMemo(() => {
     return {
       isConnectionActive,
+      isQuotaExceeded,
       connect: () => {
+        if (isQuotaExceeded) {
+          Alert.alert(
+            'Voice minutes used up',
+            'You have used all voice minutes included in your plan. Upgrade to keep talking.'
+          );
+          return;
+        }
         setIsConnectionActive(true);
         startSession();
       },
@@ -117,7 +121,21 @@ export function ConnectionProvider({ children }: ConnectionProviderProps) {
         endSession();
       },
     };
-  }, [startSession, endSession, isConnectionActive]);
+  }, [startSession, endSession, isConnectionActive, isQuotaExceeded]);
+
+  // Leave the room when the user signs out
+  const disconnectRef = useRef(value.disconnect);
+  disconnectRef.current = value.disconnect;
+  const isActiveRef = useRef(isConnectionActive);
+  isActiveRef.current = isConnectionActive;
+
+  useEffect(
+    () =>
+      onSessionChanged((authSession) => {
+        if (!authSession && isActiveRef.current) disconnectRef.current();
+      }),
+    []
+  );
 
   return (
     <SessionProvider session={session}>
@@ -0,0 +1,48 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import { messageService } from '@/services/messages';
+
+/**
+ * Hook for the most recently updated conversation
+ */
+export function useLatestConversation(organizationId: Id<'organizations'> | null) {
+  const latest = useQuery(api.conversations.getLatest, organizationId ? { organizationId } : {});
+
+  return {
+    conversation: latest ?? null,
+    isLoading: latest === undefined,
+  };
+}
+
+/**
+ * Hook for a single conversation and its messages
+ */
+export function useConversation(conversationId: Id<'conversations'> | null) {
+  const conversation = useQuery(
+    api.conversations.getById,
+    conversationId ? { conversationId } : 'skip'
+  );
+
+  const storedMessages = useQuery(api.messages.list, conversationId ? { conversationId } : 'skip');
+
+  const createConversation = useMutation(api.conversations.create);
+  const appendMessage = useMutation(api.messages.append);
+  const updateSummary = useMutation(api.conversations.updateSummary);
+  const updateMessage = useMutation(api.messages.update);
+  const deleteMessage = useMutation(api.messages.remove);
+
+  const messages = useMemo(() => messageService.toMessages(storedMessages ?? []), [storedMessages]);
+
+  return {
+    conversation: conversation ?? null,
+    messages,
+    isLoading: conversationId !== null && storedMessages === undefined,
+    createConversation,
+    appendMessage,
+    updateSummary,
+    updateMessage,
+    deleteMessage,
+  };
+}
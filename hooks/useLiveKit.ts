@@ -11,6 +11,8 @@
 import { useCallback, useRef, useState, useEffect } from 'react';
 import { AudioSession, registerGlobals } from '@livekit/react-native';
 import { Room, RoomEvent, ConnectionState as LKConnectionState, Track } from 'livekit-client';
+import { onSessionChanged } from '@/services/auth/session';
+import { getToken, type TokenResponse } from '@/services/livekit';
 
 // Register globals at module load (required for LiveKit React Native)
 try {
@@ -20,8 +22,7 @@ try {
   console.log('LiveKit globals registration:', e instanceof Error ? e.message : 'already registered');
 }
 
-// Token server configuration
-const TOKEN_SERVER_URL = process.env.EXPO_PUBLIC_TOKEN_SERVER_URL || 'http://localhost:8008';
+// LiveKit configuration
 const LIVEKIT_URL = process.env.EXPO_PUBLIC_LIVEKIT_URL || 'ws://localhost:7880';
 
 /**
@@ -56,16 +57,6 @@ export type VoiceAgentState = {
     audioSessionActive: boolean;
 };
 
-/**
- * Token response from server
- */
-export type TokenResponse = {
-    token: string;
-    url: string;
-    identity: string;
-    room: string;
-};
-
 /**
  * Connection details type (matching expo-ai-chatbot-pro)
  */
@@ -74,45 +65,7 @@ export type ConnectionDetails = {
     serverUrl: string;
 };
 
-/**
- * Generate a random room name and identity for the session.
- */
-function generateSessionInfo() {
-    const roomId = `alias-${Date.now()}-${Math.random().toString(36).substring(7)}`;
-    const identity = `user-${Math.random().toString(36).substring(7)}`;
-    return { roomId, identity };
-}
-
-/**
- * Fetch a LiveKit token from the token server.
- * Enhanced with better error handling and response validation.
- */
-async function fetchToken(room: string, identity: string, name?: string): Promise<TokenResponse> {
-    const response = await fetch(`${TOKEN_SERVER_URL}/token`, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-            room,
-            identity,
-            name: name || identity,
-            auto_create_room: true,
-        }),
-    });
-
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to get token: ${errorText}`);
-    }
-
-    const data = await response.json();
-    // Return explicit URL if provided, otherwise use env config
-    return {
-        ...data,
-        url: data.url || LIVEKIT_URL,
-    };
-}
+export type { TokenResponse };
 
 /**
  * Generate connection details (matching expo-ai-chatbot-pro pattern)
@@ -199,7 +152,7 @@ export function useLiveKit() {
     /**
      * Connect to the voice agent with enhanced error handling.
      */
-    const connect = useCallback(async (userName?: string) => {
+    const connect = useCallback(async () => {
         try {
             // Check if LiveKit is available
             if (!state.isLiveKitAvailable) {
@@ -227,12 +180,10 @@ export function useLiveKit() {
                 setState(prev => ({ ...prev, audioSessionActive: true }));
             }
 
-            // Generate session info
-            const { roomId, identity } = generateSessionInfo();
-            sessionRef.current = { roomId, identity };
-
-            // Fetch token from server
-            const tokenResponse = await fetchToken(roomId, identity, userName);
+            // Fetch a token; the token route picks the room and identity for this user
+            const tokenResponse = await getToken();
+            const roomId = tokenResponse.room;
+            sessionRef.current = { roomId, identity: tokenResponse.identity };
 
             console.log('🎙️ Token received:', {
                 room: tokenResponse.room,
@@ -364,6 +315,17 @@ export function useLiveKit() {
         }
     }, []);
 
+    /**
+     * Leave the room when the user signs out
+     */
+    useEffect(
+        () =>
+            onSessionChanged((session) => {
+                if (!session && roomRef.current) disconnect();
+            }),
+        [disconnect]
+    );
+
     /**
      * Toggle microphone mute state with improved handling.
      */
@@ -1,7 +1,9 @@
-import { useQuery, useMutation } from 'convex/react';
+import { useAction, useQuery, useMutation, usePaginatedQuery } from 'convex/react';
 import { api } from '@/convex/_generated/api';
-import { Id } from '@/convex/_generated/dataModel';
+import { Doc, Id } from '@/convex/_generated/dataModel';
+import type { Permission } from '@/convex/permissions';
 import { useAuth } from '@/contexts/AuthContext';
+import { useSessionStore } from '@/stores/sessionStore';
 
 /**
  * Hook for managing organizations
@@ -48,6 +50,11 @@ export function useOrganization(organizationId: Id<'organizations'> | null) {
     organizationId ? { organizationId } : 'skip'
   );
   
+  const permissions = useQuery(
+    api.memberships.getMyPermissions,
+    organizationId ? { organizationId } : 'skip'
+  );
+  
   const updateOrganization = useMutation(api.organizations.update);
   const deleteOrganization = useMutation(api.organizations.remove);
   const transferOwnership = useMutation(api.organizations.transferOwnership);
@@ -61,6 +68,8 @@ export function useOrganization(organizationId: Id<'organizations'> | null) {
     isLoading: orgWithMembers === undefined,
     isAdmin: currentMembership?.role === 'admin' || currentMembership?.role === 'owner',
     isOwner: currentMembership?.role === 'owner',
+    permissions: permissions ?? [],
+    can: (permission: Permission) => (permissions ?? []).includes(permission),
     updateOrganization,
     deleteOrganization,
     transferOwnership,
@@ -91,6 +100,24 @@ export function useOrganizationMembers(organizationId: Id<'organizations'> | nul
   };
 }
 
+/**
+ * Hook for invitation email delivery status
+ */
+export function useInvitationDeliveries(organizationId: Id<'organizations'> | null) {
+  const deliveries = useQuery(
+    api.emails.getInvitationDeliveries,
+    organizationId ? { organizationId } : 'skip'
+  );
+  
+  const retryDelivery = useMutation(api.emails.retryDelivery);
+  
+  return {
+    deliveries: deliveries ?? [],
+    isLoading: deliveries === undefined,
+    retryDelivery,
+  };
+}
+
 /**
  * Hook for invitations
  */
@@ -116,11 +143,11 @@ export function useInvitations() {
  */
 export function useOrganizationPermission(
   organizationId: Id<'organizations'> | null,
-  requiredRole: 'owner' | 'admin' | 'member' | 'viewer'
+  permission: Permission
 ) {
   const hasPermission = useQuery(
     api.memberships.checkPermission,
-    organizationId ? { organizationId, requiredRole } : 'skip'
+    organizationId ? { organizationId, permission } : 'skip'
   );
   
   return {
@@ -129,13 +156,26 @@ export function useOrganizationPermission(
   };
 }
 
+export interface AuditLogFilters {
+  userId?: Id<'users'>;
+  actionPrefix?: string;
+  resource?: string;
+  from?: number;
+  to?: number;
+}
+
 /**
- * Hook for audit logs
+ * Hook for audit logs, filtered on the server and loaded a page at a time
  */
-export function useAuditLogs(organizationId: Id<'organizations'> | null) {
-  const logs = useQuery(
+export function useAuditLogs(
+  organizationId: Id<'organizations'> | null,
+  filters: AuditLogFilters = {},
+  pageSize: number = 50
+) {
+  const { results, status, loadMore } = usePaginatedQuery(
     api.auditLogs.getForOrganization,
-    organizationId ? { organizationId, limit: 50 } : 'skip'
+    organizationId ? { organizationId, ...filters } : 'skip',
+    { initialNumItems: pageSize }
   );
   
   const activitySummary = useQuery(
@@ -143,27 +183,45 @@ export function useAuditLogs(organizationId: Id<'organizations'> | null) {
     organizationId ? { organizationId } : 'skip'
   );
   
+  const retention = useQuery(
+    api.auditLogs.getRetention,
+    organizationId ? { organizationId } : 'skip'
+  );
+  
+  const exportLogs = useAction(api.auditLogs.exportForOrganization);
+  const setRetention = useMutation(api.auditLogs.setRetention);
+  
   return {
-    logs: logs?.logs ?? [],
-    nextCursor: logs?.nextCursor,
+    logs: results,
     activitySummary: activitySummary ?? { totalActions: 0, recentActions: [], actionCounts: {} },
-    isLoading: logs === undefined,
+    retention: retention ?? null,
+    isLoading: status === 'LoadingFirstPage',
+    isLoadingMore: status === 'LoadingMore',
+    hasMore: status === 'CanLoadMore',
+    loadMore: () => loadMore(pageSize),
+    exportLogs: (format: 'csv' | 'jsonl') =>
+      organizationId ? exportLogs({ organizationId, ...filters, format }) : Promise.resolve(null),
+    setRetention: (days: number) =>
+      organizationId ? setRetention({ organizationId, days }) : Promise.resolve(null),
   };
 }
 
 /**
- * Hook for sessions
+ * Hook for sessions (devices signed in to the current user's account)
  */
 export function useSessions() {
   const sessions = useQuery(api.sessions.getActiveForCurrentUser);
-  
+  const currentSessionId = useSessionStore((state) => state.sessionId);
+
   const endSession = useMutation(api.sessions.endSession);
   const endAllOtherSessions = useMutation(api.sessions.endAllOtherSessions);
-  
+
   return {
-    sessions: sessions ?? [],
+    sessions: (sessions ?? []) as Doc<'sessions'>[],
+    currentSessionId,
     isLoading: sessions === undefined,
-    endSession,
-    endAllOtherSessions,
+    endSession: (sessionId: Id<'sessions'>) => endSession({ sessionId }),
+    endAllOtherSessions: () =>
+      endAllOtherSessions({ currentSessionId: currentSessionId ?? undefined }),
   };
 }
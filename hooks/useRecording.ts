@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
 import { useAudioRecorder, RecordingPresets, requestRecordingPermissionsAsync, setAudioModeAsync } from 'expo-audio';
+import { transcribeAudio as transcribeRecording } from '@/services/speech';
 
 export function useRecording() {
     const [isTranscribing, setIsTranscribing] = useState(false);
@@ -73,43 +74,10 @@ export function useRecording() {
     }, [recorder]);
 
     const transcribeAudio = useCallback(async (audioUri: string): Promise<string> => {
-        const apiKey = process.env.EXPO_PUBLIC_OPENAI_API_KEY;
-
-        // Return mock transcription for demo when no API key
-        if (!apiKey || apiKey === 'your-openai-key-here') {
-            setIsTranscribing(true);
-            // Simulate transcription delay
-            await new Promise(resolve => setTimeout(resolve, 1500));
-            setIsTranscribing(false);
-            return "This is a demo transcription. Add your OpenAI API key to enable real speech-to-text.";
-        }
-
         setIsTranscribing(true);
 
         try {
-            const formData = new FormData();
-            formData.append('file', {
-                uri: audioUri,
-                type: 'audio/m4a',
-                name: 'recording.m4a',
-            } as any);
-            formData.append('model', 'whisper-1');
-
-            const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${apiKey}`,
-                },
-                body: formData,
-            });
-
-            if (!response.ok) {
-                const error = await response.json();
-                throw new Error(error.error?.message || 'Transcription failed');
-            }
-
-            const data = await response.json();
-            return data.text;
+            return await transcribeRecording(audioUri);
         } finally {
             setIsTranscribing(false);
         }
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import { resolveRoutingPolicy, RoutingPolicy } from '@/services/ai/routing';
+
+/**
+ * Hook for the AI routing policy of an organization
+ * Applies the organization's overrides on top of the default policy
+ */
+export function useRoutingPolicy(organizationId: Id<'organizations'> | null): RoutingPolicy {
+  const organization = useQuery(
+    api.organizations.getById,
+    organizationId ? { organizationId } : 'skip'
+  );
+
+  const overrides = organization?.settings?.aiRouting;
+  return useMemo(() => resolveRoutingPolicy(overrides), [overrides]);
+}
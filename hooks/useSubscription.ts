@@ -1,17 +1,23 @@
 import { useCallback } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import { useOrganizationStore } from '@/stores/organizationStore';
 
 export type SubscriptionTier = 'free' | 'starter' | 'pro' | 'enterprise';
 
 /**
  * Hook for checking subscription status and gating features
- * NOTE: This is a stub implementation without RevenueCat
- * All users are treated as having 'free' tier
+ * The tier is the higher of the user's own plan and the active organization's plan
  */
 export const useSubscription = () => {
-  // Stub values - all users are free tier without RevenueCat
-  const isActiveSubscriber = false;
-  const subscriptionTier: SubscriptionTier = 'free';
-  const loading = false;
+  const activeOrganizationId = useOrganizationStore((state) => state.activeOrganizationId);
+  const entitlement = useQuery(api.subscriptions.getEntitlement, {
+    organizationId: activeOrganizationId ?? undefined,
+  });
+
+  const subscriptionTier: SubscriptionTier = entitlement?.tier ?? 'free';
+  const isActiveSubscriber = subscriptionTier !== 'free';
+  const loading = entitlement === undefined;
   const error = null;
 
   /**
@@ -57,6 +63,8 @@ export const useSubscription = () => {
     // Subscription status
     isActiveSubscriber,
     subscriptionTier,
+    entitlementSource: entitlement?.source ?? 'personal',
+    seats: entitlement?.seats,
     isLoading: loading,
     error,
 
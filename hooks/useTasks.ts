@@ -0,0 +1,83 @@
+/**
+ * Tasks Hook
+ * To-dos created from voice call action items
+ */
+
+import { useCallback, useMemo } from 'react';
+import {
+  optimisticallyUpdateValueInPaginatedQuery,
+  useMutation,
+  usePaginatedQuery,
+} from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import { PAGINATION } from '@/utils/constants';
+
+interface TasksOptions {
+  organizationId?: Id<'organizations'> | null;
+  pageSize?: number;
+}
+
+/**
+ * Hook for the user's tasks, newest first
+ */
+export function useTasks(options: TasksOptions = {}) {
+  const { organizationId, pageSize = PAGINATION.CONVERSATIONS_LIMIT } = options;
+  const queryArgs = useMemo(() => (organizationId ? { organizationId } : {}), [organizationId]);
+
+  const { results, status, loadMore } = usePaginatedQuery(api.tasks.list, queryArgs, {
+    initialNumItems: pageSize,
+  });
+
+  const setStatus = useMutation(api.tasks.setStatus).withOptimisticUpdate((localStore, args) => {
+    optimisticallyUpdateValueInPaginatedQuery(localStore, api.tasks.list, queryArgs, (current) =>
+      current._id === args.taskId ? { ...current, status: args.status } : current
+    );
+  });
+
+  const removeTask = useMutation(api.tasks.remove).withOptimisticUpdate((localStore, args) => {
+    for (const { args: pageArgs, value } of localStore.getAllQueries(api.tasks.list)) {
+      if (!value) continue;
+      localStore.setQuery(api.tasks.list, pageArgs, {
+        ...value,
+        page: value.page.filter((t) => t._id !== args.taskId),
+      });
+    }
+  });
+
+  const toggleTask = useCallback(
+    async (taskId: Id<'tasks'>, done: boolean): Promise<boolean> => {
+      try {
+        await setStatus({ taskId, status: done ? 'done' : 'open' });
+        return true;
+      } catch (e) {
+        console.error('Failed to update task:', e);
+        return false;
+      }
+    },
+    [setStatus]
+  );
+
+  const deleteTask = useCallback(
+    async (taskId: Id<'tasks'>): Promise<boolean> => {
+      try {
+        await removeTask({ taskId });
+        return true;
+      } catch (e) {
+        console.error('Failed to delete task:', e);
+        return false;
+      }
+    },
+    [removeTask]
+  );
+
+  return {
+    tasks: results,
+    isLoading: status === 'LoadingFirstPage',
+    isLoadingMore: status === 'LoadingMore',
+    hasMore: status === 'CanLoadMore',
+    loadMore: () => loadMore(pageSize),
+    toggleTask,
+    deleteTask,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Voice Session Recorder Hook
+ * Records the current LiveKit call and its final transcript segments in Convex.
+ * The server summarizes the call once it ends (convex/callSummaries.ts).
+ */
+
+import { useEffect, useRef } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { useConnectionState, useRoomContext } from '@livekit/react-native';
+import { ConnectionState, Participant } from 'livekit-client';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import type { AgentMetadata } from './useAgentState';
+import type { TranscriptSegment } from './useAgentTranscription';
+
+function toSegmentInput(segment: TranscriptSegment) {
+  return {
+    segmentId: segment.id,
+    speaker: segment.speaker,
+    text: segment.text,
+    timestamp: segment.timestamp,
+  };
+}
+
+interface VoiceSessionRecorderOptions {
+  transcript: TranscriptSegment[];
+  agentParticipant: Participant | null;
+  agentMetadata: AgentMetadata | null;
+  conversationId?: Id<'conversations'> | null;
+}
+
+/**
+ * Hook to persist a voice session's transcript while the room is connected.
+ * The session itself is opened by the token route and ended by LiveKit's
+ * webhooks (convex/livekit.ts); segments are sent once final, each at most once.
+ */
+export function useVoiceSessionRecorder(options: VoiceSessionRecorderOptions) {
+  const { transcript, agentParticipant, agentMetadata, conversationId } = options;
+  const room = useRoomContext();
+  const connectionState = useConnectionState();
+
+  const isConnected = connectionState === ConnectionState.Connected;
+  const activeSessionId = useQuery(
+    api.voiceSessions.getActiveForRoom,
+    isConnected && room.name ? { roomName: room.name } : 'skip'
+  );
+  const sessionId = activeSessionId ?? null;
+
+  const linkConversation = useMutation(api.voiceSessions.linkConversation);
+  const setAgent = useMutation(api.voiceSessions.setAgent);
+  const appendSegments = useMutation(api.voiceSessions.appendSegments);
+
+  const sentSegmentIds = useRef(new Set<string>());
+
+  // Read when the call ends, after the session may already have been closed
+  const transcriptRef = useRef(transcript);
+  transcriptRef.current = transcript;
+  const lastSessionIdRef = useRef<Id<'voiceSessions'> | null>(null);
+  if (sessionId) lastSessionIdRef.current = sessionId;
+
+  // Store segments that became final as the call dropped
+  useEffect(() => {
+    if (!isConnected) return;
+
+    return () => {
+      const endedId = lastSessionIdRef.current;
+      if (!endedId) return;
+
+      const unsent = transcriptRef.current.filter(
+        (segment) => segment.isFinal && !sentSegmentIds.current.has(segment.id)
+      );
+      if (unsent.length === 0) return;
+
+      unsent.forEach((segment) => sentSegmentIds.current.add(segment.id));
+      appendSegments({ sessionId: endedId, segments: unsent.map(toSegmentInput) }).catch((e) =>
+        console.error('Failed to save transcript:', e)
+      );
+    };
+  }, [isConnected, appendSegments]);
+
+  // Link the conversation the call was started from
+  useEffect(() => {
+    if (!sessionId || !conversationId) return;
+
+    linkConversation({ sessionId, conversationId }).catch((e) =>
+      console.error('Failed to link voice session:', e)
+    );
+  }, [sessionId, conversationId, linkConversation]);
+
+  // Record the agent once it joins
+  const agentIdentity = agentParticipant?.identity;
+  useEffect(() => {
+    if (!sessionId || !agentIdentity) return;
+
+    setAgent({
+      sessionId,
+      agentIdentity,
+      agentMetadata: agentMetadata ? { ...agentMetadata } : undefined,
+    }).catch((e) => console.error('Failed to record voice agent:', e));
+  }, [sessionId, agentIdentity, agentMetadata, setAgent]);
+
+  // Send final segments not yet stored
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const pending = transcript.filter(
+      (segment) => segment.isFinal && !sentSegmentIds.current.has(segment.id)
+    );
+    if (pending.length === 0) return;
+
+    pending.forEach((segment) => sentSegmentIds.current.add(segment.id));
+
+    appendSegments({ sessionId, segments: pending.map(toSegmentInput) }).catch((e) => {
+      // Allow a retry with the next transcript update
+      pending.forEach((segment) => sentSegmentIds.current.delete(segment.id));
+      console.error('Failed to save transcript:', e);
+    });
+  }, [sessionId, transcript, appendSegments]);
+
+  return { sessionId };
+}
@@ -0,0 +1,112 @@
+/**
+ * Voice Sessions Hooks
+ * Past voice calls, their transcripts and post-call summaries
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useMutation, usePaginatedQuery, useQuery } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import { Id } from '@/convex/_generated/dataModel';
+import { PAGINATION } from '@/utils/constants';
+
+// Calls shorter than this have nothing worth summarizing (see convex/callSummaries.ts)
+const MIN_SUMMARY_LINES = 2;
+
+interface VoiceSessionsOptions {
+  organizationId?: Id<'organizations'> | null;
+  pageSize?: number;
+}
+
+/**
+ * Hook for the user's voice calls, most recent first
+ */
+export function useVoiceSessions(options: VoiceSessionsOptions = {}) {
+  const { organizationId, pageSize = PAGINATION.CONVERSATIONS_LIMIT } = options;
+  const queryArgs = useMemo(() => (organizationId ? { organizationId } : {}), [organizationId]);
+
+  const { results, status, loadMore } = usePaginatedQuery(api.voiceSessions.list, queryArgs, {
+    initialNumItems: pageSize,
+  });
+
+  const removeSession = useMutation(api.voiceSessions.remove).withOptimisticUpdate(
+    (localStore, args) => {
+      for (const { args: pageArgs, value } of localStore.getAllQueries(api.voiceSessions.list)) {
+        if (!value) continue;
+        localStore.setQuery(api.voiceSessions.list, pageArgs, {
+          ...value,
+          page: value.page.filter((s) => s._id !== args.sessionId),
+        });
+      }
+    }
+  );
+
+  const deleteSession = useCallback(
+    async (sessionId: Id<'voiceSessions'>): Promise<boolean> => {
+      try {
+        await removeSession({ sessionId });
+        return true;
+      } catch (e) {
+        console.error('Failed to delete voice session:', e);
+        return false;
+      }
+    },
+    [removeSession]
+  );
+
+  return {
+    sessions: results,
+    isLoading: status === 'LoadingFirstPage',
+    isLoadingMore: status === 'LoadingMore',
+    hasMore: status === 'CanLoadMore',
+    loadMore: () => loadMore(pageSize),
+    deleteSession,
+  };
+}
+
+/**
+ * Hook for a single voice call, its transcript and summary
+ */
+export function useVoiceSession(sessionId: Id<'voiceSessions'> | null) {
+  const session = useQuery(api.voiceSessions.getById, sessionId ? { sessionId } : 'skip');
+  const segments = useQuery(api.voiceSessions.listSegments, sessionId ? { sessionId } : 'skip');
+
+  const requestSummary = useMutation(api.voiceSessions.requestSummary);
+  const createTasksFromSession = useMutation(api.tasks.createFromVoiceSession);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+
+  // Summaries are written on the server; the session updates once one is saved
+  const summaryGeneratedAt = session?.summary?.generatedAt;
+  useEffect(() => {
+    setIsSummarizing(false);
+  }, [summaryGeneratedAt]);
+
+  const summarize = useCallback(async () => {
+    if (!sessionId) return;
+
+    setIsSummarizing(true);
+    try {
+      await requestSummary({ sessionId });
+    } catch (e) {
+      setIsSummarizing(false);
+      throw e;
+    }
+  }, [sessionId, requestSummary]);
+
+  const createTasks = useCallback(
+    async (itemIndexes?: number[]): Promise<number> => {
+      if (!sessionId) return 0;
+      return await createTasksFromSession({ sessionId, itemIndexes });
+    },
+    [sessionId, createTasksFromSession]
+  );
+
+  return {
+    session: session ?? null,
+    segments: segments ?? [],
+    isLoading: sessionId !== null && (session === undefined || segments === undefined),
+    canSummarize: (segments ?? []).filter((s) => s.text.trim()).length >= MIN_SUMMARY_LINES,
+    isSummarizing,
+    summarize,
+    createTasks,
+  };
+}
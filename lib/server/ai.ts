@@ -0,0 +1,34 @@
+/**
+ * Server AI Configuration
+ * Provider keys for API routes. These are never bundled into the app.
+ */
+
+import { LanguageModel } from 'ai';
+import { AIError } from '@/services/ai/errors';
+import { ChatProvider, createProviderModel } from '@/services/ai/providers';
+
+const SERVER_API_KEYS: Record<ChatProvider, string | undefined> = {
+  openai: process.env.OPENAI_API_KEY,
+  groq: process.env.GROQ_API_KEY,
+  anthropic: process.env.ANTHROPIC_API_KEY,
+  gemini: process.env.GOOGLE_AI_API_KEY,
+};
+
+/**
+ * Check if the server has a key for a provider
+ */
+export function isServerProviderConfigured(provider: ChatProvider): boolean {
+  return !!SERVER_API_KEYS[provider];
+}
+
+/**
+ * Create a language model using the server's key for a provider
+ */
+export function getServerModel(provider: ChatProvider, model?: string): LanguageModel {
+  const apiKey = SERVER_API_KEYS[provider];
+  if (!apiKey) {
+    throw new AIError(`${provider} is not configured on the server`, 'not_configured', provider);
+  }
+
+  return createProviderModel(provider, apiKey, model, globalThis.fetch);
+}
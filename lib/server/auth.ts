@@ -0,0 +1,69 @@
+/**
+ * Server Auth
+ * Verifies WorkOS access tokens sent to API routes as `Authorization: Bearer <token>`.
+ * The same token is accepted by Convex (see convex/auth.config.ts), so routes can
+ * forward it to act as the signed-in user.
+ */
+
+import { createRemoteJWKSet, jwtVerify } from 'jose';
+
+const CLIENT_ID = process.env.EXPO_PUBLIC_WORKOS_CLIENT_ID || process.env.WORKOS_CLIENT_ID || '';
+
+const ISSUERS = ['https://api.workos.com/', `https://api.workos.com/user_management/${CLIENT_ID}`];
+
+// Keys are fetched lazily and cached by jose between requests
+const jwks = createRemoteJWKSet(new URL(`https://api.workos.com/sso/jwks/${CLIENT_ID}`));
+
+export type VerifiedSession = {
+  token: string;
+  workosUserId: string;
+  workosOrganizationId?: string;
+  sessionId?: string;
+};
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Read the bearer token from a request
+ */
+export function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization');
+  const match = header?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Verify the request's bearer token and return the session it belongs to
+ */
+export async function verifyRequest(request: Request): Promise<VerifiedSession> {
+  if (!CLIENT_ID) {
+    throw new AuthError('WorkOS client ID is not configured');
+  }
+
+  const token = getBearerToken(request);
+  if (!token) {
+    throw new AuthError('Missing bearer token');
+  }
+
+  try {
+    const { payload } = await jwtVerify(token, jwks, { issuer: ISSUERS });
+    if (!payload.sub) {
+      throw new AuthError('Token has no subject');
+    }
+
+    return {
+      token,
+      workosUserId: payload.sub,
+      workosOrganizationId: typeof payload.org_id === 'string' ? payload.org_id : undefined,
+      sessionId: typeof payload.sid === 'string' ? payload.sid : undefined,
+    };
+  } catch (error) {
+    if (error instanceof AuthError) throw error;
+    throw new AuthError('Invalid or expired token');
+  }
+}
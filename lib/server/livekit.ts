@@ -0,0 +1,69 @@
+/**
+ * Server LiveKit
+ * Signs LiveKit access tokens for API routes. Tokens are HS256 JWTs signed with
+ * the project's API secret, so LiveKit trusts the identity, grants and
+ * participant metadata they carry.
+ */
+
+import { SignJWT } from 'jose';
+
+const LIVEKIT_URL = process.env.LIVEKIT_URL || '';
+const LIVEKIT_API_KEY = process.env.LIVEKIT_API_KEY || '';
+const LIVEKIT_API_SECRET = process.env.LIVEKIT_API_SECRET || '';
+
+export type TrackSource = 'camera' | 'microphone' | 'screen_share' | 'screen_share_audio';
+
+// Subset of LiveKit's VideoGrant claim used by the app
+export type VideoGrant = {
+  room: string;
+  roomJoin: boolean;
+  canPublish: boolean;
+  canSubscribe: boolean;
+  canPublishData: boolean;
+  canPublishSources?: TrackSource[];
+  canUpdateOwnMetadata?: boolean;
+};
+
+export type ParticipantTokenOptions = {
+  identity: string;
+  name: string;
+  grant: VideoGrant;
+  metadata?: Record<string, unknown>;
+  ttlSeconds: number;
+};
+
+/**
+ * Whether LIVEKIT_URL, LIVEKIT_API_KEY and LIVEKIT_API_SECRET are set
+ */
+export function isLiveKitConfigured(): boolean {
+  return !!(LIVEKIT_URL && LIVEKIT_API_KEY && LIVEKIT_API_SECRET);
+}
+
+/**
+ * WebSocket URL clients connect to
+ */
+export function getLiveKitUrl(): string {
+  return LIVEKIT_URL;
+}
+
+/**
+ * Sign an access token for one participant in one room
+ */
+export async function createParticipantToken(options: ParticipantTokenOptions): Promise<string> {
+  if (!isLiveKitConfigured()) {
+    throw new Error('LIVEKIT_URL, LIVEKIT_API_KEY and LIVEKIT_API_SECRET must be set');
+  }
+
+  return await new SignJWT({
+    name: options.name,
+    video: options.grant,
+    metadata: options.metadata ? JSON.stringify(options.metadata) : undefined,
+  })
+    .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+    .setIssuer(LIVEKIT_API_KEY)
+    .setSubject(options.identity)
+    .setJti(options.identity)
+    .setNotBefore(new Date())
+    .setExpirationTime(`${options.ttlSeconds}s`)
+    .sign(new TextEncoder().encode(LIVEKIT_API_SECRET));
+}
@@ -0,0 +1,31 @@
+/**
+ * Server Search Configuration
+ * The Tavily key for the search API route. It is never bundled into the app.
+ */
+
+import { TavilySearchProvider } from '@/services/search/tavily';
+import { SearchProvider } from '@/services/search/types';
+
+let provider: SearchProvider | null = null;
+
+/**
+ * Check if the server has a search provider key
+ */
+export function isServerSearchConfigured(): boolean {
+  return !!process.env.TAVILY_API_KEY;
+}
+
+/**
+ * Get the search provider using the server's key
+ */
+export function getServerSearchProvider(): SearchProvider {
+  const apiKey = process.env.TAVILY_API_KEY;
+  if (!apiKey) {
+    throw new Error('TAVILY_API_KEY is not configured');
+  }
+
+  if (!provider) {
+    provider = new TavilySearchProvider(apiKey);
+  }
+  return provider;
+}
@@ -0,0 +1,50 @@
+/**
+ * Server Transcription
+ * Whisper speech-to-text for the transcription API route, using the server's
+ * OpenAI key. It is never bundled into the app.
+ */
+
+const WHISPER_URL = 'https://api.openai.com/v1/audio/transcriptions';
+const WHISPER_MODEL = 'whisper-1';
+
+/**
+ * Check if the server has an OpenAI key for transcription
+ */
+export function isServerTranscriptionConfigured(): boolean {
+  return !!process.env.OPENAI_API_KEY;
+}
+
+/**
+ * Transcribe an audio file with Whisper
+ */
+export async function transcribeWithWhisper(
+  file: Blob,
+  filename: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY is not configured');
+  }
+
+  const form = new FormData();
+  form.append('file', file, filename);
+  form.append('model', WHISPER_MODEL);
+
+  const response = await fetch(WHISPER_URL, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}` },
+    body: form,
+    signal,
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(
+      data?.error?.message || `Whisper request failed with status ${response.status}`
+    );
+  }
+
+  const data = await response.json();
+  return typeof data.text === 'string' ? data.text : '';
+}
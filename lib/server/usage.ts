@@ -0,0 +1,41 @@
+/**
+ * Server Usage Reporting
+ * Records usage measured in API routes through the Convex HTTP endpoint
+ * (convex/http.ts /usage/record). Clients cannot record usage themselves.
+ */
+
+import type { Doc, Id } from '@/convex/_generated/dataModel';
+import type { UsageMetric } from '@/convex/usage';
+
+export type ServerUsageEvent = {
+  userId: Id<'users'>;
+  organizationId?: Id<'organizations'>;
+  metric: UsageMetric;
+  quantity: number;
+  source: Doc<'usageEvents'>['source'];
+  metadata?: Record<string, unknown>;
+};
+
+/**
+ * Record a usage event for a user
+ */
+export async function recordServerUsage(event: ServerUsageEvent): Promise<void> {
+  const siteUrl = process.env.CONVEX_SITE_URL;
+  const secret = process.env.USAGE_INGEST_SECRET;
+  if (!siteUrl || !secret) {
+    throw new Error('CONVEX_SITE_URL and USAGE_INGEST_SECRET must be set');
+  }
+
+  const response = await fetch(new URL('/usage/record', siteUrl), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${secret}`,
+    },
+    body: JSON.stringify(event),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Usage was not recorded: ${response.status} ${await response.text()}`);
+  }
+}
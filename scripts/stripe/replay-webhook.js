@@ -0,0 +1,72 @@
+/* eslint-env node */
+/**
+ * Replay recorded Stripe webhook fixtures against a Convex deployment.
+ * Signs each payload with STRIPE_WEBHOOK_SECRET the way Stripe does, so the
+ * full webhook path runs without contacting Stripe.
+ *
+ * Usage:
+ *   CONVEX_SITE_URL=https://<deployment>.convex.site \
+ *   STRIPE_WEBHOOK_SECRET=whsec_... \
+ *   node scripts/stripe/replay-webhook.js [--user <convexUserId>] [fixture ...]
+ *
+ * Fixtures default to the full lifecycle in order. `{{USER_ID}}` in a fixture
+ * is replaced with --user. Replaying a fixture twice returns "duplicate".
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+const DEFAULT_FIXTURES = [
+  'checkout.session.completed',
+  'customer.subscription.created',
+  'customer.subscription.updated',
+  'invoice.paid',
+  'charge.refunded',
+  'invoice.payment_failed',
+  'customer.subscription.deleted',
+];
+
+function sign(payload, secret) {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+async function main() {
+  const siteUrl = process.env.CONVEX_SITE_URL;
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!siteUrl || !secret) {
+    console.error('Set CONVEX_SITE_URL and STRIPE_WEBHOOK_SECRET');
+    process.exit(1);
+  }
+
+  const args = process.argv.slice(2);
+  const userIndex = args.indexOf('--user');
+  const userId = userIndex === -1 ? '' : args.splice(userIndex, 2)[1];
+  const fixtures = args.length > 0 ? args : DEFAULT_FIXTURES;
+
+  for (const name of fixtures) {
+    const file = path.join(FIXTURES_DIR, name.endsWith('.json') ? name : `${name}.json`);
+    const payload = fs.readFileSync(file, 'utf8').replaceAll('{{USER_ID}}', userId);
+
+    const response = await fetch(`${siteUrl}/stripe/webhook`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Stripe-Signature': sign(payload, secret) },
+      body: payload,
+    });
+
+    console.log(`${name}: ${response.status} ${await response.text()}`);
+    if (!response.ok) process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -44,12 +44,6 @@ else
     echo -e "${GREEN}✓ LiveKit server already running on port 7880${NC}"
 fi
 
-# Start Token server in background
-echo -e "${GREEN}▶ Starting Token server on port 8008...${NC}"
-uv run python token_server.py &
-TOKEN_PID=$!
-sleep 1
-
 # Start Voice agent
 echo -e "${GREEN}▶ Starting Voice agent on port 8083...${NC}"
 echo ""
@@ -58,7 +52,7 @@ echo -e "${GREEN}ALIAS Voice Agent is ready!${NC}"
 echo ""
 echo "Services running:"
 echo "  • LiveKit Server: ws://localhost:7880"
-echo "  • Token Server:   http://localhost:8008"
+echo "  • Tokens:         /api/livekit-token (app server)"
 echo "  • Voice Agent:    port 8083"
 echo ""
 echo "Press Ctrl+C to stop all services"
@@ -69,5 +63,5 @@ echo ""
 uv run python agent.py start
 
 # Cleanup on exit
-trap "kill $TOKEN_PID 2>/dev/null; pkill -f 'livekit-server' 2>/dev/null" EXIT
+trap "pkill -f 'livekit-server' 2>/dev/null" EXIT
 
@@ -1,12 +1,14 @@
 /**
- * Vercel AI SDK v5 Chat Service
- * Provides streaming chat support with multiple AI providers
+ * Vercel AI SDK Chat Service
+ * Streaming chat over every configured provider (see ./providers), with tool calling
  */
 
-import { streamText, core } from 'ai';
-import { createOpenAI } from '@ai-sdk/openai';
-import { createGroq } from '@ai-sdk/groq';
-import { createAnthropic } from '@ai-sdk/anthropic';
+import { streamText, stepCountIs, LanguageModel, ModelMessage, ToolSet } from 'ai';
+import { fitToContext, getContextBudget, getMaxOutputTokens } from './context';
+import { AIError, toAIError } from './errors';
+import { ChatProvider, getDefaultModel, getDefaultProvider, getModel } from './providers';
+import { buildToolSet, ToolPermission, ToolStreamEvent } from './tools';
+import type { ToolInvocation } from '@/components/chat/ToolResults';
 
 // ========================================
 // Types
@@ -15,18 +17,35 @@ import { createAnthropic } from '@ai-sdk/anthropic';
 export type ChatMessage = {
   role: 'user' | 'assistant' | 'system';
   content: string;
+  /** Tool calls made while producing this message (display only, not sent to the model) */
+  toolInvocations?: ToolInvocation[];
 };
 
-export type ChatProvider = 'openai' | 'groq' | 'anthropic';
-
 export type ChatOptions = {
   provider?: ChatProvider;
   model?: string;
   temperature?: number;
   maxTokens?: number;
   system?: string;
+  /** Tool names to offer the model; pass an empty array to disable tools */
+  tools?: string[];
+  /** Highest tool permission level allowed for this request */
+  maxToolPermission?: ToolPermission;
+  /** Maximum model steps when tools are called (each tool round trip is a step) */
+  maxSteps?: number;
+  abortSignal?: AbortSignal;
+  /** Prebuilt model (e.g. one holding server-side credentials); skips the provider lookup */
+  languageModel?: LanguageModel;
 };
 
+export type ChatStreamEvent =
+  | { type: 'text-delta'; text: string }
+  | ToolStreamEvent
+  | { type: 'usage'; inputTokens?: number; outputTokens?: number; totalTokens?: number }
+  | { type: 'finish'; finishReason: string };
+
+export type StreamEventCallback = (event: ChatStreamEvent) => void;
+
 export type StreamChunk = {
   text: string;
   isComplete: boolean;
@@ -35,53 +54,77 @@ export type StreamChunk = {
 export type StreamCallback = (chunk: StreamChunk) => void;
 
 // ========================================
-// Provider Configuration
+// Tools
 // ========================================
 
-function getOpenAI() {
-  const apiKey = process.env.EXPO_PUBLIC_OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error('EXPO_PUBLIC_OPENAI_API_KEY is not configured');
-  }
-  return createOpenAI({ apiKey });
-}
+const DEFAULT_MAX_STEPS = 5;
 
-function getGroq() {
-  const apiKey = process.env.EXPO_PUBLIC_GROQ_API_KEY;
-  if (!apiKey) {
-    throw new Error('EXPO_PUBLIC_GROQ_API_KEY is not configured');
-  }
-  return createGroq({ apiKey });
+/**
+ * Resolve the tool set for a request, or undefined when tools are disabled
+ */
+function resolveTools(
+  names: string[] | undefined,
+  maxPermission: ToolPermission | undefined
+): ToolSet | undefined {
+  if (names && names.length === 0) return undefined;
+
+  const toolSet = buildToolSet({ names, maxPermission });
+  return Object.keys(toolSet).length > 0 ? toolSet : undefined;
 }
 
-function getAnthropic() {
-  const apiKey = process.env.EXPO_PUBLIC_CLAUDE_API_KEY;
-  if (!apiKey) {
-    throw new Error('EXPO_PUBLIC_CLAUDE_API_KEY is not configured');
-  }
-  return createAnthropic({ apiKey });
-}
+/**
+ * Start a model request with shared defaults for streaming and non-streaming calls
+ */
+function startChat(messages: ChatMessage[], options: ChatOptions) {
+  const {
+    provider = getDefaultProvider(),
+    model,
+    temperature = 0.7,
+    maxTokens,
+    system,
+    tools,
+    maxToolPermission,
+    maxSteps = DEFAULT_MAX_STEPS,
+    abortSignal,
+    languageModel,
+  } = options;
 
-// Default model configurations
-const DEFAULT_MODELS: Record<ChatProvider, string> = {
-  openai: 'gpt-4o-mini',
-  groq: 'llama-3.3-70b-versatile',
-  anthropic: 'claude-3-haiku-20240307',
-};
+  const modelInstance = languageModel ?? getModel(provider, model);
+  const maxOutputTokens = getMaxOutputTokens(provider, maxTokens);
+
+  // Drop the oldest turns that would overflow the model's context window
+  const budget = getContextBudget(provider, model, maxOutputTokens);
+  const fitted = fitToContext(
+    system ? [{ role: 'system', content: system }, ...messages] : messages,
+    budget
+  );
+
+  // System messages (prompt, conversation summary) are passed separately; tool invocations are display-only
+  const chatMessages = fitted
+    .filter(m => m.role !== 'system')
+    .map(({ role, content }) => ({ role, content }) as ModelMessage);
+  const systemMessage = fitted
+    .filter(m => m.role === 'system')
+    .map(m => m.content)
+    .join('\n\n');
+
+  const toolSet = resolveTools(tools, maxToolPermission);
+
+  const result = streamText({
+    model: modelInstance,
+    messages: chatMessages,
+    temperature,
+    maxOutputTokens,
+    abortSignal,
+    ...(systemMessage && { system: systemMessage }),
+    ...(toolSet && { tools: toolSet, stopWhen: stepCountIs(maxSteps) }),
+  });
+
+  return { provider, model: model || getDefaultModel(provider), result };
+}
 
-function getModel(provider: ChatProvider, model?: string) {
-  const modelName = model || DEFAULT_MODELS[provider];
-
-  switch (provider) {
-    case 'openai':
-      return getOpenAI()(modelName);
-    case 'groq':
-      return getGroq()(modelName);
-    case 'anthropic':
-      return getAnthropic()(modelName);
-    default:
-      throw new Error(`Unknown provider: ${provider}`);
-  }
+function toErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
 }
 
 // ========================================
@@ -93,44 +136,75 @@ function getModel(provider: ChatProvider, model?: string) {
  * @param messages - Array of chat messages
  * @param onChunk - Callback for each stream chunk
  * @param options - Chat configuration options
+ * @param onEvent - Optional callback for text and tool lifecycle events
  */
 export async function createChatStream(
   messages: ChatMessage[],
   onChunk: StreamCallback,
-  options: ChatOptions = {}
+  options: ChatOptions = {},
+  onEvent?: StreamEventCallback
 ): Promise<string> {
-  const {
-    provider = (process.env.EXPO_PUBLIC_AI_PROVIDER as ChatProvider) || 'openai',
-    model,
-    temperature = 0.7,
-    maxTokens = 1024,
-    system,
-  } = options;
+  let provider = options.provider;
 
   try {
-    const modelInstance = getModel(provider, model);
-
-    // Filter out system messages from the array (they're passed separately)
-    const chatMessages = messages.filter(m => m.role !== 'system');
-    const systemMessage = messages.find(m => m.role === 'system')?.content || system;
-
-    const result = await streamText({
-      model: modelInstance,
-      messages: chatMessages,
-      temperature,
-      maxTokens,
-      ...(systemMessage && { system: systemMessage }),
-    });
+    const chat = startChat(messages, options);
+    provider = chat.provider;
+    const { result } = chat;
 
     let fullText = '';
 
-    // Stream the response
-    for await (const chunk of result.textStream) {
-      fullText += chunk;
-      onChunk({
-        text: chunk,
-        isComplete: false,
-      });
+    // Stream the response, forwarding tool lifecycle events
+    for await (const part of result.fullStream) {
+      switch (part.type) {
+        case 'text-delta':
+          fullText += part.text;
+          onChunk({
+            text: part.text,
+            isComplete: false,
+          });
+          onEvent?.({ type: 'text-delta', text: part.text });
+          break;
+        case 'tool-input-start':
+          onEvent?.({ type: 'tool-input-start', toolCallId: part.id, toolName: part.toolName });
+          break;
+        case 'tool-call':
+          onEvent?.({
+            type: 'tool-call',
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            args: (part.input ?? {}) as Record<string, any>,
+          });
+          break;
+        case 'tool-result':
+          onEvent?.({
+            type: 'tool-result',
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            result: part.output,
+          });
+          break;
+        case 'tool-error':
+          onEvent?.({
+            type: 'tool-error',
+            toolCallId: part.toolCallId,
+            toolName: part.toolName,
+            error: toErrorMessage(part.error),
+          });
+          break;
+        case 'finish':
+          onEvent?.({
+            type: 'usage',
+            inputTokens: part.totalUsage.inputTokens,
+            outputTokens: part.totalUsage.outputTokens,
+            totalTokens: part.totalUsage.totalTokens,
+          });
+          onEvent?.({ type: 'finish', finishReason: part.finishReason });
+          break;
+        case 'error':
+          throw part.error;
+        case 'abort':
+          throw new AIError('Request was cancelled', 'aborted', provider);
+      }
     }
 
     // Signal completion
@@ -141,9 +215,9 @@ export async function createChatStream(
 
     return fullText;
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error('[AI Chat] Error:', errorMessage);
-    throw new Error(`AI chat failed: ${errorMessage}`);
+    const aiError = toAIError(error, provider);
+    console.error(`[AI Chat] ${aiError.code}:`, aiError.message);
+    throw aiError;
   }
 }
 
@@ -160,79 +234,18 @@ export async function createChat(
   messages: ChatMessage[],
   options: ChatOptions = {}
 ): Promise<string> {
-  const {
-    provider = (process.env.EXPO_PUBLIC_AI_PROVIDER as ChatProvider) || 'openai',
-    model,
-    temperature = 0.7,
-    maxTokens = 1024,
-    system,
-  } = options;
+  let provider = options.provider;
 
   try {
-    const modelInstance = getModel(provider, model);
-
-    const chatMessages = messages.filter(m => m.role !== 'system');
-    const systemMessage = messages.find(m => m.role === 'system')?.content || system;
-
-    const result = await streamText({
-      model: modelInstance,
-      messages: chatMessages,
-      temperature,
-      maxTokens,
-      ...(systemMessage && { system: systemMessage }),
-    });
+    const chat = startChat(messages, options);
+    provider = chat.provider;
+    const { result } = chat;
 
     // Collect full response
-    const { text } = await result;
-    return text;
+    return await result.text;
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error('[AI Chat] Error:', errorMessage);
-    throw new Error(`AI chat failed: ${errorMessage}`);
+    const aiError = toAIError(error, provider);
+    console.error(`[AI Chat] ${aiError.code}:`, aiError.message);
+    throw aiError;
   }
 }
-
-// ========================================
-// Validation
-// ========================================
-
-/**
- * Check if a provider is configured
- */
-export function isProviderConfigured(provider: ChatProvider): boolean {
-  switch (provider) {
-    case 'openai':
-      return !!process.env.EXPO_PUBLIC_OPENAI_API_KEY;
-    case 'groq':
-      return !!process.env.EXPO_PUBLIC_GROQ_API_KEY;
-    case 'anthropic':
-      return !!process.env.EXPO_PUBLIC_CLAUDE_API_KEY;
-    default:
-      return false;
-  }
-}
-
-/**
- * Get all configured providers
- */
-export function getConfiguredProviders(): ChatProvider[] {
-  const providers: ChatProvider[] = ['openai', 'groq', 'anthropic'];
-  return providers.filter(isProviderConfigured);
-}
-
-/**
- * Get the default provider from environment or first available
- */
-export function getDefaultProvider(): ChatProvider {
-  const envProvider = process.env.EXPO_PUBLIC_AI_PROVIDER as ChatProvider;
-  if (envProvider && isProviderConfigured(envProvider)) {
-    return envProvider;
-  }
-
-  const configured = getConfiguredProviders();
-  if (configured.length === 0) {
-    throw new Error('No AI provider configured. Please add API keys to your .env file.');
-  }
-
-  return configured[0];
-}
@@ -0,0 +1,111 @@
+/**
+ * AI Context Budgets
+ * Token estimation and per-model context windows, so requests never send more
+ * history than the model can take
+ */
+
+import { AI_LIMITS } from '@/utils/constants';
+import type { ChatMessage } from './chat';
+import { ChatProvider } from './providers';
+
+// ========================================
+// Context Windows
+// ========================================
+
+// Matched by model name prefix; the first match wins, so list specific names first
+const MODEL_CONTEXT_WINDOWS: [prefix: string, tokens: number][] = [
+  ['gpt-4.1', 1047576],
+  ['gpt-4o', 128000],
+  ['o1', 200000],
+  ['o3', 200000],
+  ['o4', 200000],
+  ['llama-3.3', 131072],
+  ['llama-3.1', 131072],
+  ['claude', 200000],
+  ['gemini-2.5', 1048576],
+  ['gemini-2.0', 1048576],
+];
+
+const PROVIDER_CONTEXT_WINDOWS: Record<ChatProvider, number> = {
+  openai: 128000,
+  groq: 131072,
+  anthropic: 200000,
+  gemini: 1048576,
+};
+
+// Allowance for message framing and tokenizer differences between providers
+const SAFETY_MARGIN = 0.1;
+
+// Tokens added per message for role and formatting
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Context window of a model, in tokens
+ */
+export function getContextWindow(provider: ChatProvider, model?: string): number {
+  const match = model && MODEL_CONTEXT_WINDOWS.find(([prefix]) => model.startsWith(prefix));
+  return match ? match[1] : PROVIDER_CONTEXT_WINDOWS[provider];
+}
+
+/**
+ * Output tokens to request, capped at the provider's limit
+ */
+export function getMaxOutputTokens(provider: ChatProvider, requested?: number): number {
+  return Math.min(requested ?? AI_LIMITS.DEFAULT_MAX_TOKENS, AI_LIMITS.MAX_TOKENS[provider]);
+}
+
+/**
+ * Tokens available for messages once the reply and a safety margin are reserved
+ */
+export function getContextBudget(
+  provider: ChatProvider,
+  model: string | undefined,
+  maxOutputTokens: number
+): number {
+  const window = getContextWindow(provider, model);
+  return Math.floor(window * (1 - SAFETY_MARGIN)) - maxOutputTokens;
+}
+
+// ========================================
+// Token Estimation
+// ========================================
+
+/**
+ * Estimate the tokens in a piece of text.
+ * Roughly four characters per token for English; deliberately errs high.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimate the tokens a list of messages will use
+ */
+export function estimateMessageTokens(messages: Pick<ChatMessage, 'content'>[]): number {
+  return messages.reduce(
+    (total, message) => total + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS,
+    0
+  );
+}
+
+/**
+ * Drop the oldest turns until the messages fit the budget.
+ * System messages and the latest message are always kept.
+ */
+export function fitToContext(messages: ChatMessage[], budget: number): ChatMessage[] {
+  const system = messages.filter((m) => m.role === 'system');
+  const turns = messages.filter((m) => m.role !== 'system');
+
+  let remaining = budget - estimateMessageTokens(system);
+  let start = turns.length;
+
+  while (start > 0) {
+    const cost = estimateMessageTokens([turns[start - 1]]);
+    if (cost > remaining && start < turns.length) break;
+    remaining -= cost;
+    start--;
+  }
+
+  if (start === 0) return messages;
+  return [...system, ...turns.slice(start)];
+}
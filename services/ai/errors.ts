@@ -0,0 +1,77 @@
+/**
+ * AI Error Types
+ * Normalizes failures from every provider into a single error class
+ */
+
+import { APICallError, RetryError } from 'ai';
+
+export type AIErrorCode =
+  | 'not_configured'
+  | 'authentication'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'context_length'
+  | 'provider_error'
+  | 'timeout'
+  | 'network'
+  | 'aborted'
+  | 'unknown';
+
+export class AIError extends Error {
+  constructor(
+    message: string,
+    public code: AIErrorCode,
+    public provider?: string,
+    public status?: number,
+    public retryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'AIError';
+  }
+}
+
+function codeForStatus(status: number | undefined, body: string): AIErrorCode {
+  if (status === 401 || status === 403) return 'authentication';
+  if (status === 429) return 'rate_limited';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 400 && /context|too long|maximum.*tokens/i.test(body)) return 'context_length';
+  return 'provider_error';
+}
+
+/**
+ * Convert any error thrown while calling a provider into an AIError
+ */
+export function toAIError(error: unknown, provider?: string): AIError {
+  if (error instanceof AIError) return error;
+
+  // Retries exhausted: classify by the last underlying failure
+  if (RetryError.isInstance(error)) {
+    return toAIError(error.lastError, provider);
+  }
+
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode;
+    return new AIError(
+      error.message,
+      codeForStatus(status, error.responseBody ?? ''),
+      provider,
+      status,
+      error.isRetryable
+    );
+  }
+
+  if (error instanceof Error) {
+    if (error.name === 'AbortError') {
+      return new AIError('Request was cancelled', 'aborted', provider);
+    }
+    if (error.name === 'TimeoutError') {
+      return new AIError('Request timed out', 'timeout', provider, undefined, true);
+    }
+    if (error instanceof TypeError && /network|fetch/i.test(error.message)) {
+      return new AIError(error.message, 'network', provider, undefined, true);
+    }
+    return new AIError(error.message, 'unknown', provider);
+  }
+
+  return new AIError('Unknown error', 'unknown', provider);
+}
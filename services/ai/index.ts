@@ -0,0 +1,56 @@
+/**
+ * AI Service
+ * Single entry point for chat, providers and routing
+ */
+
+import { getAIMode, getConfiguredProviders } from './providers';
+import { routeChat, routeChatStream, RoutedChatOptions } from './routing';
+
+export * from './chat';
+export * from './context';
+export * from './errors';
+export * from './providers';
+export * from './proxy';
+export * from './routing';
+export * from './summary';
+
+export type AIMessage = {
+  role: 'user' | 'assistant';
+  content: string;
+};
+
+/**
+ * Check if chat is available: always through the proxy, or with at least one local key
+ */
+export function isConfigured(): boolean {
+  return getAIMode() === 'proxy' || getConfiguredProviders().length > 0;
+}
+
+/**
+ * Send messages and wait for the full reply
+ */
+export async function sendMessage(
+  messages: AIMessage[],
+  options?: RoutedChatOptions
+): Promise<string> {
+  const { text } = await routeChat(messages, options);
+  return text;
+}
+
+/**
+ * Stream a reply, calling onChunk with each text delta as it arrives
+ */
+export async function streamMessage(
+  messages: AIMessage[],
+  onChunk: (chunk: string) => void,
+  options?: RoutedChatOptions
+): Promise<string> {
+  const { text } = await routeChatStream(
+    messages,
+    (chunk) => {
+      if (!chunk.isComplete) onChunk(chunk.text);
+    },
+    options
+  );
+  return text;
+}
@@ -0,0 +1,193 @@
+/**
+ * AI Providers
+ * One place to configure every model vendor the app can talk to
+ */
+
+import { LanguageModel } from 'ai';
+import { fetch as expoFetch } from 'expo/fetch';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createGroq } from '@ai-sdk/groq';
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { AIError } from './errors';
+
+// ========================================
+// Types
+// ========================================
+
+export type ChatProvider = 'openai' | 'groq' | 'anthropic' | 'gemini';
+
+/**
+ * How the app reaches providers:
+ * - proxy: through the authenticated server route (api/chat+api.ts); the app holds no keys
+ * - direct: straight to the provider with EXPO_PUBLIC_* keys, for local development only
+ */
+export type AIMode = 'proxy' | 'direct';
+
+type ProviderConfig = {
+  label: string;
+  apiKeyEnv: string;
+  apiKey: string | undefined;
+  defaultModel: string;
+  createModel: (apiKey: string, model: string, fetch?: typeof globalThis.fetch) => LanguageModel;
+};
+
+// ========================================
+// Mode
+// ========================================
+
+// Direct mode is compiled out of release builds, so keys never reach the bundle there
+const DIRECT_MODE = __DEV__ && process.env.EXPO_PUBLIC_AI_MODE === 'direct';
+
+/**
+ * Whether requests go through the chat proxy or straight to providers
+ */
+export function getAIMode(): AIMode {
+  return DIRECT_MODE ? 'direct' : 'proxy';
+}
+
+// ========================================
+// Provider Configuration
+// ========================================
+
+// expo/fetch supports streamed response bodies, which React Native's global fetch does not
+const streamingFetch = expoFetch as unknown as typeof globalThis.fetch;
+
+// Env vars are listed literally so Expo can inline them at build time
+const PROVIDERS: Record<ChatProvider, ProviderConfig> = {
+  openai: {
+    label: 'OpenAI',
+    apiKeyEnv: 'EXPO_PUBLIC_OPENAI_API_KEY',
+    apiKey: DIRECT_MODE ? process.env.EXPO_PUBLIC_OPENAI_API_KEY : undefined,
+    defaultModel: 'gpt-4o-mini',
+    createModel: (apiKey, model, fetch) => createOpenAI({ apiKey, fetch })(model),
+  },
+  groq: {
+    label: 'Groq',
+    apiKeyEnv: 'EXPO_PUBLIC_GROQ_API_KEY',
+    apiKey: DIRECT_MODE ? process.env.EXPO_PUBLIC_GROQ_API_KEY : undefined,
+    defaultModel: 'llama-3.3-70b-versatile',
+    createModel: (apiKey, model, fetch) => createGroq({ apiKey, fetch })(model),
+  },
+  anthropic: {
+    label: 'Anthropic',
+    apiKeyEnv: 'EXPO_PUBLIC_CLAUDE_API_KEY',
+    apiKey: DIRECT_MODE ? process.env.EXPO_PUBLIC_CLAUDE_API_KEY : undefined,
+    defaultModel: 'claude-3-5-haiku-latest',
+    createModel: (apiKey, model, fetch) => createAnthropic({ apiKey, fetch })(model),
+  },
+  gemini: {
+    label: 'Google Gemini',
+    apiKeyEnv: 'EXPO_PUBLIC_GEMINI_API_KEY',
+    apiKey: DIRECT_MODE ? process.env.EXPO_PUBLIC_GEMINI_API_KEY : undefined,
+    defaultModel: 'gemini-2.0-flash',
+    createModel: (apiKey, model, fetch) => createGoogleGenerativeAI({ apiKey, fetch })(model),
+  },
+};
+
+export const CHAT_PROVIDERS = Object.keys(PROVIDERS) as ChatProvider[];
+
+// Older .env files use 'claude' for Anthropic
+const PROVIDER_ALIASES: Record<string, ChatProvider> = {
+  claude: 'anthropic',
+  google: 'gemini',
+};
+
+/**
+ * Resolve a provider name, accepting legacy aliases
+ */
+export function resolveProvider(name: string | undefined): ChatProvider | undefined {
+  if (!name) return undefined;
+  if (name in PROVIDERS) return name as ChatProvider;
+  return PROVIDER_ALIASES[name];
+}
+
+/**
+ * Human-readable provider name
+ */
+export function getProviderLabel(provider: ChatProvider): string {
+  return PROVIDERS[provider].label;
+}
+
+/**
+ * Default model for a provider
+ */
+export function getDefaultModel(provider: ChatProvider): string {
+  return PROVIDERS[provider].defaultModel;
+}
+
+/**
+ * Create a language model instance for a provider
+ */
+export function getModel(provider: ChatProvider, model?: string): LanguageModel {
+  const config = PROVIDERS[provider];
+  if (!config) {
+    throw new AIError(`Unknown provider: ${provider}`, 'not_configured', provider);
+  }
+
+  if (!DIRECT_MODE) {
+    throw new AIError(
+      'Direct provider access is disabled; chat requests go through the server proxy',
+      'not_configured',
+      provider
+    );
+  }
+
+  if (!isProviderConfigured(provider)) {
+    throw new AIError(`${config.apiKeyEnv} is not configured`, 'not_configured', provider);
+  }
+
+  return config.createModel(config.apiKey!, model || config.defaultModel, streamingFetch);
+}
+
+/**
+ * Create a model with explicit credentials (used by the server-side proxy)
+ */
+export function createProviderModel(
+  provider: ChatProvider,
+  apiKey: string,
+  model?: string,
+  fetch?: typeof globalThis.fetch
+): LanguageModel {
+  const config = PROVIDERS[provider];
+  return config.createModel(apiKey, model || config.defaultModel, fetch);
+}
+
+// ========================================
+// Validation
+// ========================================
+
+/**
+ * Check if a provider is configured
+ */
+export function isProviderConfigured(provider: ChatProvider): boolean {
+  const apiKey = PROVIDERS[provider]?.apiKey;
+  return !!apiKey && !apiKey.startsWith('your_') && !apiKey.startsWith('your-');
+}
+
+/**
+ * Get all configured providers
+ */
+export function getConfiguredProviders(): ChatProvider[] {
+  return CHAT_PROVIDERS.filter(isProviderConfigured);
+}
+
+/**
+ * Get the default provider from environment or first available
+ */
+export function getDefaultProvider(): ChatProvider {
+  const envProvider = resolveProvider(process.env.EXPO_PUBLIC_AI_PROVIDER);
+  if (envProvider && isProviderConfigured(envProvider)) {
+    return envProvider;
+  }
+
+  const configured = getConfiguredProviders();
+  if (configured.length === 0) {
+    throw new AIError(
+      'No AI provider configured. Please add API keys to your .env file.',
+      'not_configured'
+    );
+  }
+
+  return configured[0];
+}
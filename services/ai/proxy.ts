@@ -0,0 +1,117 @@
+/**
+ * AI Chat Proxy Client
+ * Sends chat requests through the authenticated server route (api/chat+api.ts),
+ * so provider keys never leave the server
+ */
+
+import { APIError, streamRequest } from '@/services/api/client';
+import { getAccessToken } from '@/services/auth/session';
+import type { ChatMessage, ChatOptions, StreamCallback, StreamEventCallback } from './chat';
+import { AIError, toAIError } from './errors';
+import type { ChatTask, RoutedChatResult, RoutingPolicy } from './routing';
+import type { ChatSSEEvent } from './sse';
+
+export const CHAT_PROXY_URL =
+  process.env.EXPO_PUBLIC_CHAT_API_URL || 'http://localhost:8081/api/chat';
+
+export type ProxyChatOptions = Pick<
+  ChatOptions,
+  'temperature' | 'maxTokens' | 'system' | 'tools' | 'abortSignal'
+> & {
+  task: ChatTask;
+  policy: RoutingPolicy;
+  organizationId?: string;
+};
+
+/**
+ * Convert a failed proxy request into an AIError
+ */
+function toProxyError(error: unknown, abortSignal?: AbortSignal): AIError {
+  if (abortSignal?.aborted) {
+    return new AIError('Request was cancelled', 'aborted');
+  }
+
+  if (error instanceof APIError) {
+    const event = error.data as ChatSSEEvent | undefined;
+    if (event?.type === 'error') {
+      return new AIError(event.message, event.code, undefined, undefined, event.retryable);
+    }
+
+    switch (error.status) {
+      case 401:
+      case 403:
+        return new AIError(error.message, 'authentication', undefined, error.status);
+      case 402:
+        return new AIError(error.message, 'quota_exceeded', undefined, 402);
+      case 429:
+        return new AIError(error.message, 'rate_limited', undefined, 429, true);
+      case 0:
+        return new AIError(error.message, 'network', undefined, undefined, true);
+      default:
+        return new AIError(error.message, 'provider_error', undefined, error.status);
+    }
+  }
+
+  return toAIError(error);
+}
+
+/**
+ * Stream a reply through the chat proxy.
+ * The server applies the routing policy, so the result reports the provider that answered.
+ */
+export async function proxyChatStream(
+  messages: ChatMessage[],
+  onChunk: StreamCallback,
+  options: ProxyChatOptions,
+  onEvent?: StreamEventCallback
+): Promise<RoutedChatResult> {
+  const { task, policy, organizationId, abortSignal, ...chatOptions } = options;
+
+  // Refreshed first if it is about to expire
+  const token = await getAccessToken();
+  if (!token) {
+    throw new AIError('Sign in to use AI chat', 'authentication');
+  }
+
+  let text = '';
+
+  try {
+    const done = await streamRequest(
+      CHAT_PROXY_URL,
+      {
+        ...chatOptions,
+        messages: messages.map(({ role, content }) => ({ role, content })),
+        task,
+        organizationId,
+        routing: policy,
+      },
+      (delta) => {
+        text += delta;
+        onChunk({ text: delta, isComplete: false });
+      },
+      {
+        authToken: token,
+        signal: abortSignal,
+        onEvent: (event) => {
+          if (event.type === 'done') {
+            onEvent?.({ type: 'finish', finishReason: event.finishReason });
+          } else if (event.type !== 'error') {
+            onEvent?.(event);
+          }
+        },
+      }
+    );
+
+    if (done?.type !== 'done') {
+      throw new AIError('Chat stream ended unexpectedly', 'network', undefined, undefined, true);
+    }
+
+    onChunk({ text: '', isComplete: true });
+
+    return { text, provider: done.provider, model: done.model, failed: [] };
+  } catch (error) {
+    const aiError = toProxyError(error, abortSignal);
+    console.error(`[AI Proxy] ${aiError.code}:`, aiError.message);
+    throw aiError;
+  }
+}
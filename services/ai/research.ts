@@ -0,0 +1,279 @@
+/**
+ * Web Search & Deep Research
+ * Answers grounded in web sources, with numbered citations
+ */
+
+import { ChatMessage, ChatOptions } from './chat';
+import {
+  routeChat,
+  routeChatStream,
+  RoutedChatResult,
+  RouteTarget,
+  RoutingPolicy,
+} from './routing';
+import { ToolStreamEvent } from './tools';
+import type { ToolInvocation } from '@/components/chat/ToolResults';
+import { readPage, searchWeb, SearchResult } from '@/services/search';
+
+// ========================================
+// Types
+// ========================================
+
+export type ResearchMode = 'web-search' | 'deep-research';
+
+export type ResearchOptions = Pick<ChatOptions, 'temperature'> & {
+  policy?: RoutingPolicy;
+  /** Organization the model calls are rate limited against */
+  organizationId?: string;
+  /** Earlier conversation turns, used for context when synthesizing */
+  history?: ChatMessage[];
+  signal?: AbortSignal;
+  /** Receives each chunk of the synthesized answer */
+  onText?: (text: string) => void;
+  /** Receives search and page-read steps as tool events */
+  onEvent?: (event: ToolStreamEvent) => void;
+};
+
+export type ResearchSource = SearchResult & {
+  /** Page text read during deep research */
+  content?: string;
+};
+
+export type ResearchResult = RouteTarget & {
+  text: string;
+  /** Sources in citation order; source N is cited as [N] */
+  sources: ResearchSource[];
+};
+
+// ========================================
+// Configuration
+// ========================================
+
+const WEB_SEARCH_RESULTS = 5;
+const RESEARCH_MAX_QUERIES = 3;
+const RESEARCH_RESULTS_PER_QUERY = 4;
+const RESEARCH_MAX_PAGES = 5;
+const SOURCE_EXCERPT_LENGTH = 1500;
+
+const PLANNER_PROMPT = `You plan web research. Break the user's question into at most ${RESEARCH_MAX_QUERIES} focused web search queries that together cover it.
+Reply with a JSON array of query strings and nothing else.`;
+
+const SYNTHESIS_PROMPT = `You answer questions using the numbered web sources provided.
+- Cite sources inline with their number in square brackets, e.g. [1] or [2][3].
+- Only cite sources that support the statement.
+- If the sources do not answer the question, say so plainly.
+- Do not add a separate list of sources at the end.`;
+
+// ========================================
+// Steps
+// ========================================
+
+/**
+ * Plan search queries for a question, falling back to the question itself
+ */
+async function planQueries(question: string, options: ResearchOptions): Promise<string[]> {
+  try {
+    const { text: response } = await routeChat([{ role: 'user', content: question }], {
+      task: 'chat',
+      policy: options.policy,
+      organizationId: options.organizationId,
+      temperature: 0,
+      system: PLANNER_PROMPT,
+      tools: [],
+      abortSignal: options.signal,
+    });
+
+    const json = response.match(/\[[\s\S]*\]/)?.[0];
+    const queries = json ? JSON.parse(json) : [];
+    const valid = Array.isArray(queries)
+      ? queries.filter((q): q is string => typeof q === 'string' && q.trim().length > 0)
+      : [];
+
+    return valid.length > 0 ? valid.slice(0, RESEARCH_MAX_QUERIES) : [question];
+  } catch (error) {
+    console.error('[Research] Planning failed:', error);
+    return [question];
+  }
+}
+
+/**
+ * Run a search and report it as a webSearch tool call
+ */
+async function runSearch(
+  query: string,
+  maxResults: number,
+  stepId: string,
+  options: ResearchOptions
+): Promise<SearchResult[]> {
+  const toolCallId = `research-${stepId}`;
+  options.onEvent?.({ type: 'tool-call', toolCallId, toolName: 'webSearch', args: { query } });
+
+  try {
+    const results = await searchWeb(query, { maxResults, signal: options.signal });
+    options.onEvent?.({
+      type: 'tool-result',
+      toolCallId,
+      toolName: 'webSearch',
+      result: { query, results },
+    });
+    return results;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Search failed';
+    options.onEvent?.({ type: 'tool-error', toolCallId, toolName: 'webSearch', error: message });
+    throw error;
+  }
+}
+
+/**
+ * Read a source page and report it as a fetchUrl tool call.
+ * Failures are reported but not fatal; the snippet is used instead.
+ */
+async function readSource(
+  source: ResearchSource,
+  stepId: string,
+  options: ResearchOptions
+): Promise<ResearchSource> {
+  const toolCallId = `research-${stepId}`;
+  options.onEvent?.({
+    type: 'tool-call',
+    toolCallId,
+    toolName: 'fetchUrl',
+    args: { url: source.url },
+  });
+
+  try {
+    const page = await readPage(source.url, options.signal);
+    options.onEvent?.({ type: 'tool-result', toolCallId, toolName: 'fetchUrl', result: page });
+    return { ...source, content: page.content };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Could not read page';
+    options.onEvent?.({ type: 'tool-error', toolCallId, toolName: 'fetchUrl', error: message });
+    return source;
+  }
+}
+
+/**
+ * Stream an answer grounded in the numbered sources
+ */
+async function synthesize(
+  question: string,
+  sources: ResearchSource[],
+  options: ResearchOptions
+): Promise<RoutedChatResult> {
+  const sourceList = sources
+    .map((source, index) => {
+      const excerpt = (source.content || source.snippet || '').slice(0, SOURCE_EXCERPT_LENGTH);
+      return `[${index + 1}] ${source.title} (${source.url})\n${excerpt}`;
+    })
+    .join('\n\n');
+
+  const messages: ChatMessage[] = [
+    ...(options.history ?? []),
+    {
+      role: 'user',
+      content: `Sources:\n\n${sourceList || '(no results)'}\n\nQuestion: ${question}`,
+    },
+  ];
+
+  return routeChatStream(
+    messages,
+    (chunk) => {
+      if (!chunk.isComplete) options.onText?.(chunk.text);
+    },
+    {
+      task: 'research',
+      policy: options.policy,
+      organizationId: options.organizationId,
+      temperature: options.temperature,
+      system: SYNTHESIS_PROMPT,
+      tools: [],
+      abortSignal: options.signal,
+    }
+  );
+}
+
+function dedupeByUrl<T extends SearchResult>(results: T[]): T[] {
+  const seen = new Set<string>();
+  return results.filter((result) => {
+    if (seen.has(result.url)) return false;
+    seen.add(result.url);
+    return true;
+  });
+}
+
+// ========================================
+// Public API
+// ========================================
+
+/**
+ * Single search, then an answer citing the results
+ */
+export async function runWebSearch(
+  question: string,
+  options: ResearchOptions = {}
+): Promise<ResearchResult> {
+  const results = await runSearch(question, WEB_SEARCH_RESULTS, 'search', options);
+  const sources = dedupeByUrl(results);
+  const { text, provider, model } = await synthesize(question, sources, options);
+  return { text, sources, provider, model };
+}
+
+/**
+ * Multi-step research: plan queries, search, read the top pages, then synthesize
+ */
+export async function runDeepResearch(
+  question: string,
+  options: ResearchOptions = {}
+): Promise<ResearchResult> {
+  const queries = await planQueries(question, options);
+
+  const searches = await Promise.allSettled(
+    queries.map((query, index) =>
+      runSearch(query, RESEARCH_RESULTS_PER_QUERY, `search-${index}`, options)
+    )
+  );
+
+  const found = dedupeByUrl(
+    searches.flatMap((search) => (search.status === 'fulfilled' ? search.value : []))
+  );
+  if (found.length === 0 && searches.every((search) => search.status === 'rejected')) {
+    throw (searches[0] as PromiseRejectedResult).reason;
+  }
+
+  const sources = await Promise.all(
+    found
+      .slice(0, RESEARCH_MAX_PAGES)
+      .map((source, index) => readSource(source, `read-${index}`, options))
+  );
+
+  const { text, provider, model } = await synthesize(question, sources, options);
+  return { text, sources, provider, model };
+}
+
+/**
+ * Run the research flow for a chat input mode
+ */
+export function runResearch(
+  mode: ResearchMode,
+  question: string,
+  options: ResearchOptions = {}
+): Promise<ResearchResult> {
+  return mode === 'deep-research'
+    ? runDeepResearch(question, options)
+    : runWebSearch(question, options);
+}
+
+/**
+ * Tool invocation that renders numbered sources through SearchResultsCard
+ */
+export function createCitationInvocation(sources: ResearchSource[]): ToolInvocation {
+  return {
+    toolCallId: 'citations',
+    toolName: 'citations',
+    args: {},
+    result: {
+      results: sources.map(({ title, url, snippet }) => ({ title, url, snippet })),
+    },
+    state: 'completed',
+  };
+}
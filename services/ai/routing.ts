@@ -0,0 +1,342 @@
+/**
+ * AI Routing Policy
+ * Picks the provider and model for each request and falls back down an
+ * ordered chain when a provider is rate limited, erroring or too slow
+ */
+
+import {
+  createChatStream,
+  ChatMessage,
+  ChatOptions,
+  StreamCallback,
+  StreamEventCallback,
+} from './chat';
+import { AIError, toAIError } from './errors';
+import {
+  CHAT_PROVIDERS,
+  ChatProvider,
+  getAIMode,
+  getDefaultModel,
+  isProviderConfigured,
+  resolveProvider,
+} from './providers';
+import { proxyChatStream } from './proxy';
+
+// ========================================
+// Types
+// ========================================
+
+/** What a request is for; each task can use a different model */
+export type ChatTask = 'chat' | 'title' | 'research' | 'summary';
+
+export type TaskModels = Partial<Record<ChatTask, Partial<Record<ChatProvider, string>>>>;
+
+export type RoutingPolicy = {
+  /** Providers to try, in order */
+  fallbackChain: ChatProvider[];
+  /** Model per task and provider; falls back to the provider's default model */
+  models: TaskModels;
+  /** Give up on a provider if it has not started responding within this time */
+  timeoutMs: number;
+};
+
+/** Organization-level overrides, stored in organization settings */
+export type RoutingOverrides = {
+  fallbackChain?: string[];
+  models?: Record<string, Record<string, string>>;
+  timeoutMs?: number;
+};
+
+export type RouteTarget = {
+  provider: ChatProvider;
+  model: string;
+};
+
+/** `provider` and `model`, when set, pin the request to that provider instead of the chain */
+export type RoutedChatOptions = Omit<ChatOptions, 'languageModel'> & {
+  task?: ChatTask;
+  policy?: RoutingPolicy;
+  /** Organization the request is rate limited against (proxy mode) */
+  organizationId?: string;
+};
+
+export type RoutedChatResult = RouteTarget & {
+  text: string;
+  /** Providers that failed before one answered */
+  failed: { provider: ChatProvider; error: AIError }[];
+};
+
+// ========================================
+// Policy
+// ========================================
+
+export const DEFAULT_ROUTING_POLICY: RoutingPolicy = {
+  fallbackChain: Array.from(
+    new Set([
+      ...[resolveProvider(process.env.EXPO_PUBLIC_AI_PROVIDER)].filter(
+        (p): p is ChatProvider => !!p
+      ),
+      ...CHAT_PROVIDERS,
+    ])
+  ),
+  models: {
+    title: {
+      openai: 'gpt-4o-mini',
+      groq: 'llama-3.1-8b-instant',
+      anthropic: 'claude-3-5-haiku-latest',
+      gemini: 'gemini-2.0-flash-lite',
+    },
+    summary: {
+      openai: 'gpt-4o-mini',
+      groq: 'llama-3.1-8b-instant',
+      anthropic: 'claude-3-5-haiku-latest',
+      gemini: 'gemini-2.0-flash',
+    },
+    research: {
+      openai: 'gpt-4o',
+      groq: 'llama-3.3-70b-versatile',
+      anthropic: 'claude-sonnet-4-5',
+      gemini: 'gemini-2.5-pro',
+    },
+  },
+  timeoutMs: 20000,
+};
+
+/**
+ * Apply organization overrides on top of the default policy
+ */
+export function resolveRoutingPolicy(
+  overrides?: RoutingOverrides | null,
+  base: RoutingPolicy = DEFAULT_ROUTING_POLICY
+): RoutingPolicy {
+  if (!overrides) return base;
+
+  const fallbackChain = overrides.fallbackChain
+    ?.map(resolveProvider)
+    .filter((p): p is ChatProvider => !!p);
+
+  const models: TaskModels = { ...base.models };
+  for (const [task, byProvider] of Object.entries(overrides.models ?? {})) {
+    models[task as ChatTask] = { ...models[task as ChatTask], ...byProvider };
+  }
+
+  return {
+    fallbackChain: fallbackChain?.length ? fallbackChain : base.fallbackChain,
+    models,
+    timeoutMs: overrides.timeoutMs ?? base.timeoutMs,
+  };
+}
+
+/**
+ * Narrow a policy to the providers a caller asked for. Providers outside the policy,
+ * models and timeouts in the request are ignored; the policy is kept when nothing matches.
+ */
+export function narrowRoutingPolicy(
+  policy: RoutingPolicy,
+  requested?: RoutingOverrides | null
+): RoutingPolicy {
+  const allowed = new Set(policy.fallbackChain);
+  const fallbackChain = (requested?.fallbackChain ?? [])
+    .map(resolveProvider)
+    .filter((p): p is ChatProvider => !!p && allowed.has(p));
+
+  return fallbackChain.length ? { ...policy, fallbackChain } : policy;
+}
+
+/**
+ * Restrict a policy to a single provider, optionally with a specific model for a task
+ */
+export function pinRoutingPolicy(
+  policy: RoutingPolicy,
+  task: ChatTask,
+  provider?: ChatProvider,
+  model?: string
+): RoutingPolicy {
+  if (!provider) return policy;
+
+  return {
+    ...policy,
+    fallbackChain: [provider],
+    models: model
+      ? { ...policy.models, [task]: { ...policy.models[task], [provider]: model } }
+      : policy.models,
+  };
+}
+
+/**
+ * Ordered list of configured provider/model pairs to try for a task
+ */
+export function planRoute(
+  task: ChatTask = 'chat',
+  policy: RoutingPolicy = DEFAULT_ROUTING_POLICY,
+  isAvailable: (provider: ChatProvider) => boolean = isProviderConfigured
+): RouteTarget[] {
+  return policy.fallbackChain.filter(isAvailable).map((provider) => ({
+    provider,
+    model: policy.models[task]?.[provider] ?? getDefaultModel(provider),
+  }));
+}
+
+/**
+ * Whether an error should move on to the next provider rather than fail
+ */
+export function shouldFallback(error: AIError): boolean {
+  switch (error.code) {
+    case 'rate_limited':
+    case 'timeout':
+    case 'network':
+      return true;
+    case 'provider_error':
+      return error.status === undefined || error.status >= 500;
+    default:
+      return false;
+  }
+}
+
+// ========================================
+// Routed Requests
+// ========================================
+
+/**
+ * Try each route in turn. A provider is only abandoned before it has produced
+ * output, so a half-streamed answer is never mixed with another provider's.
+ */
+export async function runWithFallback(
+  routes: RouteTarget[],
+  policy: RoutingPolicy,
+  abortSignal: AbortSignal | undefined,
+  attempt: (route: RouteTarget, signal: AbortSignal, markStarted: () => void) => Promise<string>
+): Promise<RoutedChatResult> {
+  if (routes.length === 0) {
+    throw new AIError(
+      'No AI provider configured. Please add API keys to your .env file.',
+      'not_configured'
+    );
+  }
+
+  const failed: RoutedChatResult['failed'] = [];
+
+  for (const [index, route] of routes.entries()) {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    abortSignal?.addEventListener('abort', abort);
+
+    let started = false;
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, policy.timeoutMs);
+
+    const markStarted = () => {
+      started = true;
+      clearTimeout(timer);
+    };
+
+    try {
+      const text = await attempt(route, controller.signal, markStarted);
+      return { ...route, text, failed };
+    } catch (err) {
+      const error = timedOut
+        ? new AIError(
+            `${route.provider} did not respond within ${policy.timeoutMs}ms`,
+            'timeout',
+            route.provider,
+            undefined,
+            true
+          )
+        : toAIError(err, route.provider);
+
+      const next = routes[index + 1];
+      if (started || abortSignal?.aborted || !next || !shouldFallback(error)) {
+        throw error;
+      }
+
+      failed.push({ provider: route.provider, error });
+      console.warn(
+        `[AI Router] ${route.provider} failed (${error.code}), falling back to ${next.provider}`
+      );
+    } finally {
+      clearTimeout(timer);
+      abortSignal?.removeEventListener('abort', abort);
+    }
+  }
+
+  // Unreachable: the last route either answers or throws
+  throw failed[failed.length - 1].error;
+}
+
+/**
+ * Separate routing options from the options passed through to each model call
+ */
+function splitRoutedOptions(options: RoutedChatOptions) {
+  const {
+    task = 'chat',
+    policy = DEFAULT_ROUTING_POLICY,
+    provider,
+    model,
+    organizationId,
+    abortSignal,
+    ...chatOptions
+  } = options;
+
+  return {
+    task,
+    policy: pinRoutingPolicy(policy, task, provider, model),
+    organizationId,
+    abortSignal,
+    chatOptions,
+  };
+}
+
+/**
+ * Stream a reply using the routing policy.
+ * In proxy mode the server applies the policy; otherwise providers are called directly.
+ */
+export function routeChatStream(
+  messages: ChatMessage[],
+  onChunk: StreamCallback,
+  options: RoutedChatOptions = {},
+  onEvent?: StreamEventCallback
+): Promise<RoutedChatResult> {
+  const { task, policy, organizationId, abortSignal, chatOptions } = splitRoutedOptions(options);
+
+  if (getAIMode() === 'proxy') {
+    return proxyChatStream(
+      messages,
+      onChunk,
+      { ...chatOptions, task, policy, organizationId, abortSignal },
+      onEvent
+    );
+  }
+
+  return runWithFallback(
+    planRoute(task, policy),
+    policy,
+    abortSignal,
+    (route, signal, markStarted) =>
+      createChatStream(
+        messages,
+        (chunk) => {
+          markStarted();
+          onChunk(chunk);
+        },
+        { ...chatOptions, ...route, abortSignal: signal },
+        (event) => {
+          markStarted();
+          onEvent?.(event);
+        }
+      )
+  );
+}
+
+/**
+ * Get a complete reply using the routing policy. The reply is streamed underneath,
+ * so the policy timeout limits how long it takes to start, not to finish.
+ */
+export function routeChat(
+  messages: ChatMessage[],
+  options: RoutedChatOptions = {}
+): Promise<RoutedChatResult> {
+  return routeChatStream(messages, () => {}, options);
+}
@@ -0,0 +1,76 @@
+/**
+ * Chat SSE Protocol
+ * The single event format the chat proxy (api/chat+api.ts) streams to clients,
+ * whatever provider produced the reply.
+ *
+ * Each event is one Server-Sent Events message whose data is a JSON object
+ * with a `type` field:
+ *
+ *   data: {"type":"text-delta","text":"Hel"}
+ *   data: {"type":"tool-call","toolCallId":"c1","toolName":"webSearch","args":{"query":"..."}}
+ *   data: {"type":"tool-result","toolCallId":"c1","toolName":"webSearch","result":{...}}
+ *   data: {"type":"usage","inputTokens":120,"outputTokens":48,"totalTokens":168}
+ *   data: {"type":"done","finishReason":"stop","provider":"openai","model":"gpt-4o-mini"}
+ *   data: {"type":"error","code":"rate_limited","message":"...","retryable":true}
+ *
+ * A stream always ends with exactly one `done` or `error` event.
+ */
+
+import { AIError, AIErrorCode } from './errors';
+import { ChatProvider } from './providers';
+import { ToolStreamEvent } from './tools';
+
+export type ChatSSEEvent =
+  | { type: 'text-delta'; text: string }
+  | ToolStreamEvent
+  | { type: 'usage'; inputTokens?: number; outputTokens?: number; totalTokens?: number }
+  | { type: 'done'; finishReason: string; provider: ChatProvider; model: string }
+  | { type: 'error'; code: AIErrorCode; message: string; retryable: boolean };
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+};
+
+/**
+ * Serialize an event as an SSE message
+ */
+export function encodeSSEEvent(event: ChatSSEEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Build the error event for a failure
+ */
+export function toErrorEvent(error: AIError): ChatSSEEvent {
+  return { type: 'error', code: error.code, message: error.message, retryable: error.retryable };
+}
+
+/**
+ * Parse complete SSE messages from a buffer.
+ * Returns the parsed events and any trailing partial message to keep buffering.
+ */
+export function parseSSEEvents(buffer: string): { events: ChatSSEEvent[]; rest: string } {
+  const messages = buffer.split('\n\n');
+  const rest = messages.pop() ?? '';
+  const events: ChatSSEEvent[] = [];
+
+  for (const message of messages) {
+    const data = message
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+
+    if (!data) continue;
+
+    try {
+      events.push(JSON.parse(data) as ChatSSEEvent);
+    } catch {
+      // Skip malformed messages
+    }
+  }
+
+  return { events, rest };
+}
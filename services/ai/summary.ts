@@ -0,0 +1,165 @@
+/**
+ * Conversation Summaries
+ * Folds older turns into a rolling summary once a conversation outgrows its
+ * context budget. The summary is stored on the conversation and sent in place
+ * of the turns it covers.
+ */
+
+import { AI_LIMITS } from '@/utils/constants';
+import type { ChatMessage } from './chat';
+import {
+  estimateMessageTokens,
+  estimateTokens,
+  getContextBudget,
+  getMaxOutputTokens,
+} from './context';
+import { ChatTask, DEFAULT_ROUTING_POLICY, planRoute, routeChat, RoutingPolicy } from './routing';
+
+// ========================================
+// Types
+// ========================================
+
+/** A persisted chat turn; the ID anchors where a summary ends */
+export type ContextMessage = Pick<ChatMessage, 'role' | 'content'> & { id: string };
+
+export type ConversationSummary = {
+  content: string;
+  /** Last message folded into the summary */
+  lastMessageId: string;
+  /** Number of messages the summary covers */
+  messageCount: number;
+};
+
+export type SummarizeOptions = {
+  /** Task the history is sent for; its models decide the budget */
+  task?: ChatTask;
+  policy?: RoutingPolicy;
+  organizationId?: string;
+  abortSignal?: AbortSignal;
+};
+
+// ========================================
+// Configuration
+// ========================================
+
+const SUMMARY_MAX_TOKENS = 1000;
+
+const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant.
+Merge the existing summary (if any) with the new messages into one updated summary.
+- Keep facts, decisions, names, numbers, open questions and the user's stated preferences.
+- Drop greetings and small talk.
+- Write concise bullet points in the third person, under 400 words.
+Reply with the summary only.`;
+
+// ========================================
+// Context
+// ========================================
+
+/**
+ * Where a summary ends in the history, or -1 if it does not apply
+ */
+function findSummaryEnd(history: ContextMessage[], summary?: ConversationSummary | null): number {
+  return summary ? history.findIndex((m) => m.id === summary.lastMessageId) : -1;
+}
+
+/**
+ * Messages to send: the summary in place of the turns it covers, then later turns verbatim
+ */
+export function applySummary(
+  history: ContextMessage[],
+  summary?: ConversationSummary | null
+): ChatMessage[] {
+  const turns = history.map(({ role, content }) => ({ role, content }));
+  const end = findSummaryEnd(history, summary);
+  if (!summary || end === -1) return turns;
+
+  return [
+    { role: 'system', content: `Summary of the earlier conversation:\n${summary.content}` },
+    ...turns.slice(end + 1),
+  ];
+}
+
+/**
+ * Smallest context budget among the models a task may be routed to
+ */
+export function getPolicyContextBudget(
+  task: ChatTask = 'chat',
+  policy: RoutingPolicy = DEFAULT_ROUTING_POLICY
+): number {
+  // Availability is not checked: in proxy mode the server decides which providers answer
+  const budgets = planRoute(task, policy, () => true).map(({ provider, model }) =>
+    getContextBudget(provider, model, getMaxOutputTokens(provider))
+  );
+  return Math.min(...budgets);
+}
+
+// ========================================
+// Summarization
+// ========================================
+
+/**
+ * Fold older turns into the summary once the history sent to the model passes the
+ * summary threshold. The most recent messages always stay verbatim.
+ * Returns the updated summary, or null when none is needed yet.
+ */
+export async function updateSummaryIfNeeded(
+  history: ContextMessage[],
+  summary: ConversationSummary | null | undefined,
+  options: SummarizeOptions = {}
+): Promise<ConversationSummary | null> {
+  const { task = 'chat', policy = DEFAULT_ROUTING_POLICY, organizationId, abortSignal } = options;
+
+  const context = applySummary(history, summary);
+  if (
+    estimateMessageTokens(context) <
+    getPolicyContextBudget(task, policy) * AI_LIMITS.SUMMARY_THRESHOLD
+  ) {
+    return null;
+  }
+
+  const summaryEnd = findSummaryEnd(history, summary);
+  const current = summaryEnd === -1 ? null : summary;
+  const start = summaryEnd + 1;
+  const end = history.length - AI_LIMITS.RECENT_MESSAGES;
+  if (end <= start) return null;
+
+  // Take as many older turns as the summarizer can read; the rest are folded in next time
+  const readBudget =
+    getPolicyContextBudget('summary', policy) -
+    estimateTokens(SUMMARY_PROMPT) -
+    estimateTokens(current?.content ?? '');
+  const older: ContextMessage[] = [];
+  let used = 0;
+  for (const message of history.slice(start, end)) {
+    const cost = estimateMessageTokens([message]);
+    if (older.length > 0 && used + cost > readBudget) break;
+    older.push(message);
+    used += cost;
+  }
+
+  const transcript = older
+    .map(
+      (m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content.slice(0, readBudget * 4)}`
+    )
+    .join('\n\n');
+  const prompt = current
+    ? `Existing summary:\n${current.content}\n\nNew messages:\n\n${transcript}`
+    : `New messages:\n\n${transcript}`;
+
+  const { text } = await routeChat([{ role: 'user', content: prompt }], {
+    task: 'summary',
+    policy,
+    organizationId,
+    system: SUMMARY_PROMPT,
+    temperature: 0,
+    maxTokens: SUMMARY_MAX_TOKENS,
+    tools: [],
+    abortSignal,
+  });
+
+  return {
+    content: text.trim(),
+    lastMessageId: older[older.length - 1].id,
+    messageCount: start + older.length,
+  };
+}
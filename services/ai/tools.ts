@@ -0,0 +1,319 @@
+/**
+ * AI Tool Registry
+ * Typed tool definitions the chat service exposes to the model
+ */
+
+import { tool, ToolSet } from 'ai';
+import { z } from 'zod';
+import type { ToolInvocation } from '@/components/chat/ToolResults';
+import { extractReadableText, searchWeb } from '@/services/search';
+
+// ========================================
+// Types
+// ========================================
+
+/**
+ * Permission level a tool requires, from least to most privileged.
+ * - safe: pure computation, no I/O
+ * - network: reads public data from the internet
+ * - sensitive: touches user data or performs actions on their behalf
+ */
+export type ToolPermission = 'safe' | 'network' | 'sensitive';
+
+const PERMISSION_RANK: Record<ToolPermission, number> = {
+  safe: 0,
+  network: 1,
+  sensitive: 2,
+};
+
+export type ToolExecutionContext = {
+  toolCallId: string;
+  abortSignal?: AbortSignal;
+};
+
+export type ChatToolDefinition<TSchema extends z.ZodTypeAny = z.ZodTypeAny, TResult = unknown> = {
+  name: string;
+  description: string;
+  inputSchema: TSchema;
+  permission: ToolPermission;
+  execute: (args: z.infer<TSchema>, context: ToolExecutionContext) => Promise<TResult>;
+};
+
+type AnyChatToolDefinition = ChatToolDefinition<any, any>;
+
+export type ToolSelection = {
+  /** Restrict to these tool names; defaults to every registered tool */
+  names?: string[];
+  /** Highest permission level the caller allows; defaults to 'network' */
+  maxPermission?: ToolPermission;
+};
+
+/**
+ * Stream events describing a tool call's lifecycle
+ */
+export type ToolStreamEvent =
+  | { type: 'tool-input-start'; toolCallId: string; toolName: string }
+  | { type: 'tool-call'; toolCallId: string; toolName: string; args: Record<string, any> }
+  | { type: 'tool-result'; toolCallId: string; toolName: string; result: unknown }
+  | { type: 'tool-error'; toolCallId: string; toolName: string; error: string };
+
+// ========================================
+// Registry
+// ========================================
+
+const registry = new Map<string, AnyChatToolDefinition>();
+
+/**
+ * Define a tool with its input type inferred from the schema
+ */
+export function defineTool<TSchema extends z.ZodTypeAny, TResult>(
+  definition: ChatToolDefinition<TSchema, TResult>
+): ChatToolDefinition<TSchema, TResult> {
+  return definition;
+}
+
+/**
+ * Register a tool so it can be offered to the model
+ */
+export function registerTool<TSchema extends z.ZodTypeAny, TResult>(
+  definition: ChatToolDefinition<TSchema, TResult>
+): void {
+  registry.set(definition.name, definition);
+}
+
+/**
+ * Remove a tool from the registry
+ */
+export function unregisterTool(name: string): void {
+  registry.delete(name);
+}
+
+/**
+ * Look up a registered tool
+ */
+export function getTool(name: string): AnyChatToolDefinition | undefined {
+  return registry.get(name);
+}
+
+/**
+ * List registered tools, optionally filtered by name and permission
+ */
+export function listTools(selection: ToolSelection = {}): AnyChatToolDefinition[] {
+  const { names, maxPermission = 'network' } = selection;
+  const maxRank = PERMISSION_RANK[maxPermission];
+
+  return Array.from(registry.values()).filter(
+    (definition) =>
+      PERMISSION_RANK[definition.permission] <= maxRank &&
+      (!names || names.includes(definition.name))
+  );
+}
+
+/**
+ * Build the tool set passed to streamText
+ */
+export function buildToolSet(selection: ToolSelection = {}): ToolSet {
+  const tools: ToolSet = {};
+
+  for (const definition of listTools(selection)) {
+    tools[definition.name] = tool({
+      description: definition.description,
+      inputSchema: definition.inputSchema,
+      execute: (args, options) =>
+        definition.execute(args, {
+          toolCallId: options.toolCallId,
+          abortSignal: options.abortSignal,
+        }),
+    });
+  }
+
+  return tools;
+}
+
+// ========================================
+// Invocation State
+// ========================================
+
+const TOOL_EVENT_TYPES = new Set(['tool-input-start', 'tool-call', 'tool-result', 'tool-error']);
+
+/**
+ * Narrow a chat stream event to a tool lifecycle event
+ */
+export function isToolEvent(event: { type: string }): event is ToolStreamEvent {
+  return TOOL_EVENT_TYPES.has(event.type);
+}
+
+/**
+ * Apply a tool stream event to the list of invocations shown in the chat UI.
+ * Moves each call through pending → running → completed/error.
+ */
+export function applyToolEvent(
+  invocations: ToolInvocation[],
+  event: ToolStreamEvent
+): ToolInvocation[] {
+  const existing = invocations.find((i) => i.toolCallId === event.toolCallId);
+
+  let next: ToolInvocation;
+  switch (event.type) {
+    case 'tool-input-start':
+      if (existing) return invocations;
+      next = { toolCallId: event.toolCallId, toolName: event.toolName, args: {}, state: 'pending' };
+      break;
+    case 'tool-call':
+      next = {
+        toolCallId: event.toolCallId,
+        toolName: event.toolName,
+        args: event.args,
+        state: 'running',
+      };
+      break;
+    case 'tool-result':
+      next = {
+        toolCallId: event.toolCallId,
+        toolName: event.toolName,
+        args: existing?.args ?? {},
+        result: event.result,
+        state: 'completed',
+      };
+      break;
+    case 'tool-error':
+      next = {
+        toolCallId: event.toolCallId,
+        toolName: event.toolName,
+        args: existing?.args ?? {},
+        result: { error: event.error },
+        state: 'error',
+      };
+      break;
+  }
+
+  if (!existing) return [...invocations, next];
+  return invocations.map((i) => (i.toolCallId === event.toolCallId ? next : i));
+}
+
+// ========================================
+// Built-in Tools
+// ========================================
+
+const MAX_PAGE_CONTENT_LENGTH = 4000;
+
+// WMO weather interpretation codes used by Open-Meteo
+const WEATHER_CONDITIONS: Record<number, string> = {
+  0: 'Clear sky',
+  1: 'Mainly clear',
+  2: 'Partly cloudy',
+  3: 'Overcast',
+  45: 'Fog',
+  48: 'Fog',
+  51: 'Light drizzle',
+  53: 'Drizzle',
+  55: 'Heavy drizzle',
+  61: 'Light rain',
+  63: 'Rain',
+  65: 'Heavy rain',
+  71: 'Light snow',
+  73: 'Snow',
+  75: 'Heavy snow',
+  80: 'Rain showers',
+  81: 'Rain showers',
+  82: 'Heavy rain showers',
+  95: 'Thunderstorm',
+  96: 'Thunderstorm with hail',
+  99: 'Thunderstorm with hail',
+};
+
+export const getWeatherTool = defineTool({
+  name: 'getWeather',
+  description: 'Get the current weather for a city or place name',
+  permission: 'network',
+  inputSchema: z.object({
+    location: z.string().describe('City or place name, e.g. "Paris, France"'),
+  }),
+  execute: async ({ location }, { abortSignal }) => {
+    const geoResponse = await fetch(
+      `https://geocoding-api.open-meteo.com/v1/search?count=1&name=${encodeURIComponent(location)}`,
+      { signal: abortSignal }
+    );
+    if (!geoResponse.ok) {
+      throw new Error(`Geocoding failed with status ${geoResponse.status}`);
+    }
+
+    const geo = await geoResponse.json();
+    const place = geo.results?.[0];
+    if (!place) {
+      throw new Error(`Could not find location "${location}"`);
+    }
+
+    const forecastResponse = await fetch(
+      `https://api.open-meteo.com/v1/forecast?latitude=${place.latitude}&longitude=${place.longitude}` +
+        '&current=temperature_2m,relative_humidity_2m,wind_speed_10m,weather_code' +
+        '&temperature_unit=fahrenheit&wind_speed_unit=mph',
+      { signal: abortSignal }
+    );
+    if (!forecastResponse.ok) {
+      throw new Error(`Weather lookup failed with status ${forecastResponse.status}`);
+    }
+
+    const { current } = await forecastResponse.json();
+    return {
+      location: [place.name, place.country].filter(Boolean).join(', '),
+      temperature: Math.round(current.temperature_2m),
+      condition: WEATHER_CONDITIONS[current.weather_code] ?? 'Unknown',
+      humidity: current.relative_humidity_2m,
+      windSpeed: Math.round(current.wind_speed_10m),
+    };
+  },
+});
+
+export const fetchUrlTool = defineTool({
+  name: 'fetchUrl',
+  description: 'Fetch a web page and return its title and readable text content',
+  permission: 'network',
+  inputSchema: z.object({
+    url: z.string().url().describe('Absolute http(s) URL to fetch'),
+  }),
+  execute: async ({ url }, { abortSignal }) => {
+    const response = await fetch(url, { signal: abortSignal });
+    if (!response.ok) {
+      throw new Error(`Request failed with status ${response.status}`);
+    }
+
+    const { title, content } = extractReadableText(await response.text());
+    return { url, title, content: content.slice(0, MAX_PAGE_CONTENT_LENGTH) };
+  },
+});
+
+export const webSearchTool = defineTool({
+  name: 'webSearch',
+  description: 'Search the web for current information. Returns titles, URLs and snippets.',
+  permission: 'network',
+  inputSchema: z.object({
+    query: z.string().describe('Search query'),
+  }),
+  execute: async ({ query }, { abortSignal }) => {
+    const results = await searchWeb(query, { signal: abortSignal });
+    return { query, results };
+  },
+});
+
+export const getCurrentTimeTool = defineTool({
+  name: 'getCurrentTime',
+  description: 'Get the current date and time, optionally in a specific IANA time zone',
+  permission: 'safe',
+  inputSchema: z.object({
+    timeZone: z.string().optional().describe('IANA time zone, e.g. "America/New_York"'),
+  }),
+  execute: async ({ timeZone }) => {
+    const now = new Date();
+    return {
+      iso: now.toISOString(),
+      formatted: now.toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' }),
+      timeZone: timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  },
+});
+
+registerTool(getWeatherTool);
+registerTool(fetchUrlTool);
+registerTool(webSearchTool);
+registerTool(getCurrentTimeTool);
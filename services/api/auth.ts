@@ -1,16 +1,12 @@
 /**
  * Authentication Service
- * Handles user authentication, token management, and OAuth flows
+ * Email/password and OAuth sign-in against the REST API.
+ * Tokens are stored and refreshed by the session manager (services/auth/session.ts).
  */
 
-import * as SecureStore from 'expo-secure-store';
+import { clearSession, setSession } from '@/services/auth/session';
 import { apiRequest } from './client';
 
-// Token storage keys
-const ACCESS_TOKEN_KEY = 'auth_access_token';
-const REFRESH_TOKEN_KEY = 'auth_refresh_token';
-const USER_KEY = 'auth_user';
-
 // Types
 export interface User {
     id: string;
@@ -50,65 +46,22 @@ export interface OAuthData {
 }
 
 /**
- * Get current access token
- */
-export async function getAuthToken(): Promise<string | null> {
-    try {
-        return await SecureStore.getItemAsync(ACCESS_TOKEN_KEY);
-    } catch (error) {
-        console.error('Error getting auth token:', error);
-        return null;
-    }
-}
-
-/**
- * Store auth tokens securely
- */
-async function storeTokens(accessToken: string, refreshToken: string): Promise<void> {
-    try {
-        await SecureStore.setItemAsync(ACCESS_TOKEN_KEY, accessToken);
-        await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, refreshToken);
-    } catch (error) {
-        console.error('Error storing tokens:', error);
-        throw new Error('Failed to store authentication tokens');
-    }
-}
-
-/**
- * Store user data
- */
-async function storeUser(user: User): Promise<void> {
-    try {
-        await SecureStore.setItemAsync(USER_KEY, JSON.stringify(user));
-    } catch (error) {
-        console.error('Error storing user:', error);
-    }
-}
-
-/**
- * Get stored user data
- */
-export async function getUser(): Promise<User | null> {
-    try {
-        const userData = await SecureStore.getItemAsync(USER_KEY);
-        return userData ? JSON.parse(userData) : null;
-    } catch (error) {
-        console.error('Error getting user:', error);
-        return null;
-    }
-}
-
-/**
- * Clear all auth data
+ * Hand a REST sign-in response to the session manager
  */
-export async function clearAuth(): Promise<void> {
-    try {
-        await SecureStore.deleteItemAsync(ACCESS_TOKEN_KEY);
-        await SecureStore.deleteItemAsync(REFRESH_TOKEN_KEY);
-        await SecureStore.deleteItemAsync(USER_KEY);
-    } catch (error) {
-        console.error('Error clearing auth:', error);
-    }
+async function startSession(response: AuthResponse): Promise<void> {
+    await setSession({
+        provider: 'password',
+        accessToken: response.access_token,
+        refreshToken: response.refresh_token,
+        expiresAt: Date.now() + response.expires_in * 1000,
+        user: {
+            id: response.user.id,
+            email: response.user.email,
+            name: response.user.name,
+            avatarUrl: response.user.avatar_url,
+            aiProvider: response.user.ai_provider,
+        },
+    });
 }
 
 /**
@@ -121,8 +74,7 @@ export async function register(data: RegisterData): Promise<AuthResponse> {
         requireAuth: false,
     });
 
-    await storeTokens(response.access_token, response.refresh_token);
-    await storeUser(response.user);
+    await startSession(response);
 
     return response;
 }
@@ -137,8 +89,7 @@ export async function login(credentials: LoginCredentials): Promise<AuthResponse
         requireAuth: false,
     });
 
-    await storeTokens(response.access_token, response.refresh_token);
-    await storeUser(response.user);
+    await startSession(response);
 
     return response;
 }
@@ -153,8 +104,7 @@ export async function loginWithGoogle(oauthData: OAuthData): Promise<AuthRespons
         requireAuth: false,
     });
 
-    await storeTokens(response.access_token, response.refresh_token);
-    await storeUser(response.user);
+    await startSession(response);
 
     return response;
 }
@@ -169,38 +119,11 @@ export async function loginWithApple(oauthData: OAuthData): Promise<AuthResponse
         requireAuth: false,
     });
 
-    await storeTokens(response.access_token, response.refresh_token);
-    await storeUser(response.user);
+    await startSession(response);
 
     return response;
 }
 
-/**
- * Refresh authentication token
- */
-export async function refreshAuthToken(): Promise<boolean> {
-    try {
-        const refreshToken = await SecureStore.getItemAsync(REFRESH_TOKEN_KEY);
-
-        if (!refreshToken) {
-            return false;
-        }
-
-        const response = await apiRequest<{ access_token: string; expires_in: number }>('/auth/refresh', {
-            method: 'POST',
-            body: { refresh_token: refreshToken },
-            requireAuth: false,
-        });
-
-        await SecureStore.setItemAsync(ACCESS_TOKEN_KEY, response.access_token);
-        return true;
-    } catch (error) {
-        console.error('Token refresh failed:', error);
-        await clearAuth();
-        return false;
-    }
-}
-
 /**
  * Logout and clear authentication
  */
@@ -213,14 +136,7 @@ export async function logout(): Promise<void> {
         // Continue with logout even if API call fails
         console.error('Logout API call failed:', error);
     } finally {
-        await clearAuth();
+        await clearSession();
     }
 }
 
-/**
- * Check if user is authenticated
- */
-export async function isAuthenticated(): Promise<boolean> {
-    const token = await getAuthToken();
-    return !!token;
-}
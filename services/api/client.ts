@@ -3,10 +3,10 @@
  * Type-safe HTTP client for backend communication
  */
 
-import { getAuthToken, refreshAuthToken } from './auth';
-
-// API Configuration
-const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:8000/api/v1';
+import { fetch as expoFetch } from 'expo/fetch';
+import { ChatSSEEvent, parseSSEEvents } from '@/services/ai/sse';
+import { getAccessToken, onSessionChanged, refreshSession } from '@/services/auth/session';
+import { API_BASE_URL } from './config';
 
 export class APIError extends Error {
     constructor(
@@ -19,6 +19,15 @@ export class APIError extends Error {
     }
 }
 
+// Authenticated requests in flight, cancelled when the user signs out
+const authenticatedRequests = new Set<AbortController>();
+
+onSessionChanged((session) => {
+    if (session) return;
+    authenticatedRequests.forEach((controller) => controller.abort());
+    authenticatedRequests.clear();
+});
+
 export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
 
 export interface RequestConfig {
@@ -34,7 +43,8 @@ export interface RequestConfig {
  */
 export async function apiRequest<T>(
     endpoint: string,
-    config: RequestConfig = {}
+    config: RequestConfig = {},
+    isRetry = false
 ): Promise<T> {
     const {
         method = 'GET',
@@ -52,15 +62,20 @@ export async function apiRequest<T>(
 
     // Add auth token if required
     if (requireAuth) {
-        const token = await getAuthToken();
+        const token = await getAccessToken();
         if (token) {
             requestHeaders['Authorization'] = `Bearer ${token}`;
         }
     }
 
-    // Create abort controller for timeout
+    // Create abort controller for timeout (and sign-out, for authenticated requests)
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeout);
+    if (requireAuth) authenticatedRequests.add(controller);
 
     try {
         const response = await fetch(`${API_BASE_URL}${endpoint}`, {
@@ -71,13 +86,13 @@ export async function apiRequest<T>(
         });
 
         clearTimeout(timeoutId);
+        authenticatedRequests.delete(controller);
 
-        // Handle 401 - try to refresh token
-        if (response.status === 401 && requireAuth) {
-            const refreshed = await refreshAuthToken();
+        // Handle 401 - refresh the session once and retry
+        if (response.status === 401 && requireAuth && !isRetry) {
+            const refreshed = await refreshSession();
             if (refreshed) {
-                // Retry request with new token
-                return apiRequest<T>(endpoint, config);
+                return apiRequest<T>(endpoint, config, true);
             }
         }
 
@@ -96,6 +111,7 @@ export async function apiRequest<T>(
         return data as T;
     } catch (error) {
         clearTimeout(timeoutId);
+        authenticatedRequests.delete(controller);
 
         if (error instanceof APIError) {
             throw error;
@@ -103,7 +119,9 @@ export async function apiRequest<T>(
 
         if (error instanceof Error) {
             if (error.name === 'AbortError') {
-                throw new APIError('Request timeout', 408);
+                throw timedOut
+                    ? new APIError('Request timeout', 408)
+                    : new APIError('Signed out', 401);
             }
             throw new APIError(error.message, 0);
         }
@@ -124,7 +142,7 @@ export async function uploadFile<T>(
     },
     additionalData?: Record<string, any>
 ): Promise<T> {
-    const token = await getAuthToken();
+    const token = await getAccessToken();
 
     const formData = new FormData();
     formData.append('file', {
@@ -160,19 +178,34 @@ export async function uploadFile<T>(
     return data as T;
 }
 
+export interface StreamOptions {
+    onError?: (error: Error) => void;
+    /** Called with every event, including tool calls and usage */
+    onEvent?: (event: ChatSSEEvent) => void;
+    signal?: AbortSignal;
+    /** Token to send instead of the stored API token */
+    authToken?: string | null;
+}
+
 /**
  * Stream data from SSE endpoint
+ * Consumes the chat SSE schema (see services/ai/sse.ts): text deltas go to onChunk,
+ * every event goes to onEvent, and an error event is thrown as an APIError.
+ * Accepts an endpoint relative to the API base URL or an absolute URL.
  */
 export async function streamRequest(
     endpoint: string,
     body: any,
     onChunk: (chunk: string) => void,
-    onError?: (error: Error) => void
-): Promise<void> {
-    const token = await getAuthToken();
+    options: StreamOptions = {}
+): Promise<ChatSSEEvent | null> {
+    const { onError, onEvent, signal } = options;
+    const token = options.authToken !== undefined ? options.authToken : await getAccessToken();
+    const url = /^https?:\/\//.test(endpoint) ? endpoint : `${API_BASE_URL}${endpoint}`;
 
     try {
-        const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+        // expo/fetch exposes the response body as a stream on native
+        const response = await expoFetch(url, {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
@@ -180,12 +213,13 @@ export async function streamRequest(
                 'Accept': 'text/event-stream',
             },
             body: JSON.stringify(body),
+            signal,
         });
 
         if (!response.ok) {
-            const error = await response.json();
+            const error = await response.json().catch(() => null);
             throw new APIError(
-                error?.message || 'Stream failed',
+                error?.error || error?.message || 'Stream failed',
                 response.status,
                 error
             );
@@ -198,6 +232,8 @@ export async function streamRequest(
             throw new Error('No response body');
         }
 
+        let buffer = '';
+
         while (true) {
             const { done, value } = await reader.read();
 
@@ -205,27 +241,24 @@ export async function streamRequest(
                 break;
             }
 
-            const chunk = decoder.decode(value, { stream: true });
-            const lines = chunk.split('\n');
-
-            for (const line of lines) {
-                if (line.startsWith('data: ')) {
-                    const data = line.slice(6);
-                    if (data === '[DONE]') {
-                        return;
-                    }
-
-                    try {
-                        const parsed = JSON.parse(data);
-                        if (parsed.type === 'chunk' && parsed.content) {
-                            onChunk(parsed.content);
-                        }
-                    } catch {
-                        // Skip invalid JSON
-                    }
+            buffer += decoder.decode(value, { stream: true });
+            const parsed = parseSSEEvents(buffer);
+            buffer = parsed.rest;
+
+            for (const event of parsed.events) {
+                onEvent?.(event);
+
+                if (event.type === 'text-delta') {
+                    onChunk(event.text);
+                } else if (event.type === 'error') {
+                    throw new APIError(event.message, 0, event);
+                } else if (event.type === 'done') {
+                    return event;
                 }
             }
         }
+
+        return null;
     } catch (error) {
         if (onError) {
             onError(error instanceof Error ? error : new Error('Stream error'));
@@ -0,0 +1,6 @@
+/**
+ * API Configuration
+ * Shared by the API client and the session manager's token refresh
+ */
+
+export const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:8000/api/v1';
@@ -0,0 +1,24 @@
+/**
+ * Auth Services Index
+ * The session manager and the session types shared by every sign-in flow
+ */
+
+export {
+  loadSession,
+  getCurrentSession,
+  setSession,
+  updateSessionUser,
+  clearSession,
+  refreshSession,
+  getAccessToken,
+  onSessionChanged,
+  SessionExpiredError,
+} from './session';
+export type {
+  AuthProvider,
+  AuthSession,
+  SessionListener,
+  User,
+  LoginCredentials,
+  SignupCredentials,
+} from './session';
@@ -0,0 +1,339 @@
+/**
+ * Session Manager
+ *
+ * Single owner of the signed-in session, whichever way the user signed in
+ * (WorkOS or email/password against the REST API):
+ * - one secure store entry holding the tokens, user and expiry
+ * - proactive refresh shortly before the access token expires
+ * - onSessionChanged(), which Convex, the API client and LiveKit subscribe to
+ *
+ * Sign-in flows build a session and hand it to setSession(); everything that
+ * sends a token asks getAccessToken().
+ */
+
+import { AppState } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+import { API_BASE_URL } from '@/services/api/config';
+import { refreshWorkOSSession, type WorkOSOrganization, type WorkOSUser } from './workos';
+
+const SESSION_KEY = 'auth_session';
+
+// Token stores used before sessions were consolidated
+const LEGACY_WORKOS_SESSION_KEY = 'workos_session';
+const LEGACY_KEYS = [
+  'auth_token',
+  'refresh_token',
+  'user_data',
+  'auth_access_token',
+  'auth_refresh_token',
+  'auth_user',
+  'workos_organization',
+];
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+// Retry delay after a refresh fails for a reason other than a rejected token
+const REFRESH_RETRY_MS = 30 * 1000;
+
+export type AuthProvider = 'workos' | 'password';
+
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  avatarUrl?: string;
+  aiProvider?: string;
+}
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+export interface SignupCredentials {
+  email: string;
+  password: string;
+  name: string;
+}
+
+export interface AuthSession {
+  provider: AuthProvider;
+  accessToken: string;
+  refreshToken: string;
+  // Access token expiry (ms since epoch)
+  expiresAt: number;
+  user: User;
+  // WorkOS sessions only
+  workosUser?: WorkOSUser;
+  organization?: WorkOSOrganization;
+  workosSessionId?: string;
+}
+
+export type SessionListener = (session: AuthSession | null) => void;
+
+/**
+ * The refresh token was rejected; the session cannot be renewed
+ */
+export class SessionExpiredError extends Error {
+  constructor(message = 'Your session has expired - please sign in again') {
+    super(message);
+    this.name = 'SessionExpiredError';
+  }
+}
+
+// undefined until the stored session has been read
+let current: AuthSession | null | undefined;
+let loading: Promise<AuthSession | null> | null = null;
+let refreshing: Promise<AuthSession | null> | null = null;
+// Bumped on every sign-in and sign-out, so a refresh that outlives its session is dropped
+let generation = 0;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+let appStateSubscribed = false;
+const listeners = new Set<SessionListener>();
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function emit(session: AuthSession | null): void {
+  listeners.forEach((listener) => {
+    try {
+      listener(session);
+    } catch (error) {
+      console.error('[Session] Listener failed:', error);
+    }
+  });
+}
+
+function isExpiring(session: AuthSession): boolean {
+  return Date.now() > session.expiresAt - REFRESH_MARGIN_MS;
+}
+
+function scheduleRefresh(session: AuthSession | null, delay?: number): void {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = null;
+  if (!session) return;
+
+  const wait = delay ?? Math.max(session.expiresAt - REFRESH_MARGIN_MS - Date.now(), 0);
+  refreshTimer = setTimeout(() => {
+    refreshSession().catch(() => undefined);
+  }, wait);
+
+  // Timers don't run while the app is suspended, so check again on resume
+  if (!appStateSubscribed) {
+    appStateSubscribed = true;
+    AppState.addEventListener('change', (state) => {
+      if (state === 'active' && current && isExpiring(current)) {
+        refreshSession().catch(() => undefined);
+      }
+    });
+  }
+}
+
+async function persist(session: AuthSession | null): Promise<void> {
+  if (session) {
+    await SecureStore.setItemAsync(SESSION_KEY, JSON.stringify(session));
+  } else {
+    await SecureStore.deleteItemAsync(SESSION_KEY);
+  }
+}
+
+/**
+ * Read the stored session, converting a pre-consolidation WorkOS session
+ */
+async function readStoredSession(): Promise<AuthSession | null> {
+  try {
+    const stored = await SecureStore.getItemAsync(SESSION_KEY);
+    if (stored) return JSON.parse(stored) as AuthSession;
+
+    const legacy = await SecureStore.getItemAsync(LEGACY_WORKOS_SESSION_KEY);
+    if (!legacy) return null;
+
+    await SecureStore.deleteItemAsync(LEGACY_WORKOS_SESSION_KEY);
+    const { refreshToken } = JSON.parse(legacy) as { refreshToken: string };
+    const session = await refreshWorkOSSession(refreshToken);
+    await persist(session);
+    return session;
+  } catch (error) {
+    console.warn('[Session] Could not restore the stored session:', error);
+    return null;
+  }
+}
+
+/**
+ * Renew an email/password session with the REST API
+ */
+async function refreshPasswordSession(session: AuthSession): Promise<AuthSession> {
+  const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ refresh_token: session.refreshToken }),
+  });
+
+  if (response.status === 400 || response.status === 401) {
+    throw new SessionExpiredError();
+  }
+  if (!response.ok) {
+    throw new Error(`Token refresh failed: ${response.status}`);
+  }
+
+  const data: { access_token: string; refresh_token?: string; expires_in: number } =
+    await response.json();
+
+  return {
+    ...session,
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token ?? session.refreshToken,
+    expiresAt: Date.now() + data.expires_in * 1000,
+  };
+}
+
+// ============================================================================
+// Session Manager
+// ============================================================================
+
+/**
+ * Load the stored session (once), refreshing it if it has expired
+ */
+export async function loadSession(): Promise<AuthSession | null> {
+  if (current !== undefined) return current;
+
+  if (!loading) {
+    loading = (async () => {
+      const stored = await readStoredSession();
+      current = stored;
+      scheduleRefresh(stored);
+      emit(stored);
+
+      return stored && isExpiring(stored) ? refreshSession() : stored;
+    })().finally(() => {
+      loading = null;
+    });
+  }
+
+  return loading;
+}
+
+/**
+ * The session as last loaded, without touching storage
+ */
+export function getCurrentSession(): AuthSession | null {
+  return current ?? null;
+}
+
+/**
+ * Store a new session after sign-in and notify subscribers
+ */
+export async function setSession(session: AuthSession): Promise<void> {
+  generation++;
+  await persist(session);
+  current = session;
+  scheduleRefresh(session);
+  emit(session);
+}
+
+/**
+ * Update the signed-in user's profile fields kept with the session
+ */
+export async function updateSessionUser(updates: Partial<User>): Promise<User> {
+  const session = await loadSession();
+  if (!session) {
+    throw new Error('No authenticated user');
+  }
+
+  const updated = { ...session, user: { ...session.user, ...updates } };
+  await persist(updated);
+  current = updated;
+  emit(updated);
+  return updated.user;
+}
+
+/**
+ * Forget the session (sign-out, or a refresh token that was rejected)
+ */
+export async function clearSession(): Promise<void> {
+  const hadSession = current !== null;
+  generation++;
+  current = null;
+  scheduleRefresh(null);
+
+  await Promise.all(
+    [SESSION_KEY, LEGACY_WORKOS_SESSION_KEY, ...LEGACY_KEYS].map((key) =>
+      SecureStore.deleteItemAsync(key).catch(() => undefined)
+    )
+  );
+
+  if (hadSession) emit(null);
+}
+
+/**
+ * Renew the access token. Concurrent callers share one request.
+ * A rejected refresh token ends the session; other failures keep it and retry later.
+ */
+export async function refreshSession(): Promise<AuthSession | null> {
+  if (refreshing) return refreshing;
+
+  const session = current ?? (await loadSession());
+  if (!session) return null;
+
+  const startedGeneration = generation;
+  // Signed out, or signed in again, while the request was in flight
+  const isSuperseded = () => generation !== startedGeneration;
+
+  refreshing = (async () => {
+    try {
+      const renewed =
+        session.provider === 'workos'
+          ? await refreshWorkOSSession(session.refreshToken)
+          : await refreshPasswordSession(session);
+
+      if (isSuperseded()) return current ?? null;
+
+      await setSession(renewed);
+      return renewed;
+    } catch (error) {
+      if (isSuperseded()) return current ?? null;
+
+      if (error instanceof SessionExpiredError) {
+        console.warn('[Session] Refresh token rejected, signing out');
+        await clearSession();
+        return null;
+      }
+
+      console.warn('[Session] Token refresh failed, will retry:', error);
+      scheduleRefresh(session, REFRESH_RETRY_MS);
+      return session;
+    } finally {
+      refreshing = null;
+    }
+  })();
+
+  return refreshing;
+}
+
+/**
+ * Access token for the signed-in session, refreshed first when it is about to expire
+ */
+export async function getAccessToken(
+  options: { forceRefresh?: boolean } = {}
+): Promise<string | null> {
+  let session = await loadSession();
+  if (session && (options.forceRefresh || isExpiring(session))) {
+    session = await refreshSession();
+  }
+  return session?.accessToken ?? null;
+}
+
+/**
+ * Subscribe to sign-in, token refresh and sign-out. Once the stored session
+ * has loaded, the listener is also called right away with the current session.
+ * Returns an unsubscribe function.
+ */
+export function onSessionChanged(listener: SessionListener): () => void {
+  listeners.add(listener);
+  if (current !== undefined) listener(current);
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
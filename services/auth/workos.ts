@@ -4,16 +4,18 @@
  * This module provides WorkOS authentication using PKCE flow:
  * - getSignInUrl() generates PKCE-protected authorization URL for AuthKit
  * - getSignInUrlWithProvider() generates URL for specific OAuth provider (Google, Apple)
- * - handleCallback() exchanges code for tokens
- * - getUser() returns current user (with auto-refresh)
- * - clearSession() clears stored credentials
+ * - handleCallback() exchanges code for a session
+ * - refreshWorkOSSession() exchanges a refresh token for a new session
  * - Organization support for multi-tenant apps
  *
+ * Sessions are stored and refreshed by the session manager (./session.ts)
+ *
  * Requires react-native-quick-crypto polyfill for crypto support
  */
 
 import { WorkOS } from '@workos-inc/node';
 import * as SecureStore from 'expo-secure-store';
+import { SessionExpiredError, type AuthSession } from './session';
 
 // Environment variables (set in .env)
 const WORKOS_CLIENT_ID = process.env.EXPO_PUBLIC_WORKOS_CLIENT_ID!;
@@ -34,9 +36,7 @@ function getWorkOS(): WorkOS {
 
 // Storage keys
 const KEYS = {
-  SESSION: 'workos_session',
   PKCE: 'workos_pkce',
-  ORGANIZATION: 'workos_organization',
 } as const;
 
 export interface WorkOSUser {
@@ -71,13 +71,6 @@ function toWorkOSUser(workosUser: {
   };
 }
 
-interface StoredSession {
-  accessToken: string;
-  refreshToken: string;
-  user: WorkOSUser;
-  organization?: WorkOSOrganization;
-}
-
 interface PkceState {
   codeVerifier: string;
   expiresAt: number;
@@ -120,9 +113,10 @@ export async function getAppleSignInUrl(): Promise<string> {
 }
 
 /**
- * Exchange authorization code for tokens using stored code verifier.
+ * Exchange authorization code for a session using stored code verifier.
+ * The caller hands the session to the session manager.
  */
-export async function handleCallback(code: string): Promise<{ user: WorkOSUser; organization?: WorkOSOrganization }> {
+export async function handleCallback(code: string): Promise<AuthSession> {
   const pkceData = await SecureStore.getItemAsync(KEYS.PKCE);
   if (!pkceData) {
     throw new Error('No PKCE state found - please try signing in again');
@@ -143,29 +137,26 @@ export async function handleCallback(code: string): Promise<{ user: WorkOSUser;
   // Clear PKCE state after successful exchange
   await SecureStore.deleteItemAsync(KEYS.PKCE);
 
-  // Extract organization info if present
-  const organization: WorkOSOrganization | undefined = auth.organization ? {
-    id: auth.organization.id,
-    name: auth.organization.name,
-    slug: auth.organization.slug,
-    logoUrl: auth.organization.logoUrl,
-  } : undefined;
-
-  // Store session securely
-  const session: StoredSession = {
-    accessToken: auth.accessToken,
-    refreshToken: auth.refreshToken,
-    user: toWorkOSUser(auth.user),
-    organization,
-  };
-  await SecureStore.setItemAsync(KEYS.SESSION, JSON.stringify(session));
+  return toAuthSession(auth);
+}
 
-  // Store organization separately for easy access
-  if (organization) {
-    await SecureStore.setItemAsync(KEYS.ORGANIZATION, JSON.stringify(organization));
+/**
+ * Exchange a refresh token for a new session.
+ * Throws SessionExpiredError when WorkOS rejects the refresh token.
+ */
+export async function refreshWorkOSSession(refreshToken: string): Promise<AuthSession> {
+  try {
+    const refreshed = await getWorkOS().userManagement.authenticateWithRefreshToken({
+      refreshToken,
+    });
+    return toAuthSession(refreshed);
+  } catch (error) {
+    const status = (error as { status?: number }).status;
+    if (status === 400 || status === 401) {
+      throw new SessionExpiredError();
+    }
+    throw error;
   }
-
-  return { user: session.user, organization };
 }
 
 /**
@@ -178,71 +169,39 @@ function parseJwtPayload(token: string): Record<string, unknown> {
   return JSON.parse(atob(normalized));
 }
 
-/**
- * Get current user, refreshing token if expired.
- */
-export async function getUser(): Promise<{ user: WorkOSUser; organization?: WorkOSOrganization } | null> {
-  const sessionData = await SecureStore.getItemAsync(KEYS.SESSION);
-  if (!sessionData) return null;
-
-  const session: StoredSession = JSON.parse(sessionData);
-
-  // Check if token is expired (with 10 second buffer)
-  const payload = parseJwtPayload(session.accessToken);
-  const exp = payload.exp as number;
-  const isExpired = Date.now() > exp * 1000 - 10000;
-
-  if (isExpired) {
-    try {
-      const refreshed =
-        await getWorkOS().userManagement.authenticateWithRefreshToken({
-          refreshToken: session.refreshToken,
-        });
-
-      const organization: WorkOSOrganization | undefined = refreshed.organization ? {
-        id: refreshed.organization.id,
-        name: refreshed.organization.name,
-        slug: refreshed.organization.slug,
-        logoUrl: refreshed.organization.logoUrl,
-      } : undefined;
-
-      const newSession: StoredSession = {
-        accessToken: refreshed.accessToken,
-        refreshToken: refreshed.refreshToken,
-        user: toWorkOSUser(refreshed.user),
-        organization,
-      };
-      await SecureStore.setItemAsync(KEYS.SESSION, JSON.stringify(newSession));
-      
-      if (organization) {
-        await SecureStore.setItemAsync(KEYS.ORGANIZATION, JSON.stringify(organization));
-      }
-      
-      return { user: newSession.user, organization };
-    } catch {
-      // Refresh failed - clear session and return null
-      await clearSession();
-      return null;
-    }
-  }
-
-  return { user: session.user, organization: session.organization };
-}
-
-/**
- * Get session ID from stored access token (needed for logout).
- */
-export async function getSessionId(): Promise<string | null> {
-  const sessionData = await SecureStore.getItemAsync(KEYS.SESSION);
-  if (!sessionData) return null;
+/** Map a WorkOS authentication response to a session */
+function toAuthSession(auth: {
+  accessToken: string;
+  refreshToken: string;
+  user: Parameters<typeof toWorkOSUser>[0];
+  organization?: WorkOSOrganization | null;
+}): AuthSession {
+  const user = toWorkOSUser(auth.user);
+  const payload = parseJwtPayload(auth.accessToken);
 
-  try {
-    const session: StoredSession = JSON.parse(sessionData);
-    const payload = parseJwtPayload(session.accessToken);
-    return (payload.sid as string) ?? null;
-  } catch {
-    return null;
-  }
+  return {
+    provider: 'workos',
+    accessToken: auth.accessToken,
+    refreshToken: auth.refreshToken,
+    expiresAt: (payload.exp as number) * 1000,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: `${user.firstName || ''} ${user.lastName || ''}`.trim() || user.email,
+      avatarUrl: user.profilePictureUrl ?? undefined,
+    },
+    workosUser: user,
+    organization: auth.organization
+      ? {
+          id: auth.organization.id,
+          name: auth.organization.name,
+          slug: auth.organization.slug,
+          logoUrl: auth.organization.logoUrl,
+        }
+      : undefined,
+    // Session ID claim, needed for logout
+    workosSessionId: payload.sid as string | undefined,
+  };
 }
 
 /**
@@ -253,47 +212,14 @@ export function getLogoutUrl(sessionId: string): string {
 }
 
 /**
- * Get stored access token (for API calls)
- */
-export async function getAccessToken(): Promise<string | null> {
-  const sessionData = await SecureStore.getItemAsync(KEYS.SESSION);
-  if (!sessionData) return null;
-
-  try {
-    const session: StoredSession = JSON.parse(sessionData);
-    return session.accessToken;
-  } catch {
-    return null;
-  }
-}
-
-/**
- * Get current organization from session
- */
-export async function getOrganization(): Promise<WorkOSOrganization | null> {
-  const orgData = await SecureStore.getItemAsync(KEYS.ORGANIZATION);
-  if (!orgData) return null;
-
-  try {
-    return JSON.parse(orgData);
-  } catch {
-    return null;
-  }
-}
-
-/**
- * Get invite token from URL (for organization invites)
+ * Get invite token from URL (for organization invites): either an
+ * `alias-executive-agent://invite/<token>` or `https://<host>/invite/<token>` link,
+ * or an `invite_token` query parameter
  */
 export async function getInviteToken(url: string): Promise<string | null> {
   const parsed = new URL(url);
+  // Custom-scheme links parse "invite" as the host
+  const match = `${parsed.host}${parsed.pathname}`.match(/(?:^|\/)invite\/([^/]+)/);
+  if (match) return decodeURIComponent(match[1]);
   return parsed.searchParams.get('invite_token');
 }
-
-/**
- * Clear stored session and PKCE state.
- */
-export async function clearSession(): Promise<void> {
-  await SecureStore.deleteItemAsync(KEYS.SESSION);
-  await SecureStore.deleteItemAsync(KEYS.PKCE);
-  await SecureStore.deleteItemAsync(KEYS.ORGANIZATION);
-}
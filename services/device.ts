@@ -0,0 +1,36 @@
+/**
+ * Device Service
+ * Describes this device for the sessions list
+ */
+
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import * as Application from 'expo-application';
+
+export interface DeviceInfo {
+  deviceType: string;
+  deviceName: string;
+  osVersion?: string;
+  appVersion?: string;
+}
+
+const PLATFORM_NAMES: Record<string, string> = {
+  ios: 'iPhone',
+  android: 'Android device',
+  web: 'Web browser',
+};
+
+/**
+ * Device type, name, OS and app version of this install
+ */
+export function getDeviceInfo(): DeviceInfo {
+  const version = Application.nativeApplicationVersion;
+  const build = Application.nativeBuildVersion;
+
+  return {
+    deviceType: Platform.OS,
+    deviceName: Constants.deviceName ?? PLATFORM_NAMES[Platform.OS] ?? 'Unknown Device',
+    osVersion: Platform.OS === 'web' ? undefined : `${Platform.OS} ${Platform.Version}`,
+    appVersion: version ? (build ? `${version} (${build})` : version) : undefined,
+  };
+}
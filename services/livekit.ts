@@ -1,11 +1,21 @@
 /**
  * LiveKit Service
  * Handles LiveKit room connection and audio track management.
+ *
+ * Tokens come from the authenticated api/livekit-token route, which derives the
+ * participant identity from the signed-in user and scopes the room to them.
  */
 
+import { getAccessToken } from '@/services/auth/session';
+import { useOrganizationStore } from '@/stores/organizationStore';
+
+const TOKEN_URL =
+    process.env.EXPO_PUBLIC_LIVEKIT_TOKEN_URL || 'http://localhost:8081/api/livekit-token';
+
 // Configuration
 export const LIVEKIT_CONFIG = {
-    tokenServerUrl: process.env.EXPO_PUBLIC_TOKEN_SERVER_URL || 'http://localhost:8008',
+    tokenUrl: TOKEN_URL,
+    healthUrl: new URL('health', TOKEN_URL).toString(),
     livekitUrl: process.env.EXPO_PUBLIC_LIVEKIT_URL || 'ws://localhost:7880',
 };
 
@@ -13,94 +23,81 @@ export const LIVEKIT_CONFIG = {
  * Token request payload
  */
 export interface TokenRequest {
-    room: string;
-    identity: string;
-    name?: string;
-    auto_create_room?: boolean;
+    /** Session to rejoin; a new room is created when omitted */
+    room?: string;
+    /** Defaults to the active organization */
+    organizationId?: string | null;
+    /** Passed to the agent as participant metadata */
+    metadata?: Record<string, unknown>;
 }
 
 /**
- * Token response from server
+ * Token response from the token route
  */
 export interface TokenResponse {
     token: string;
     url: string;
     identity: string;
     room: string;
+    /** Voice session opened for the room (convex/voiceSessions.ts) */
+    sessionId: string;
 }
 
 /**
- * Fetch a LiveKit access token from the token server.
+ * Headers for a token request, authenticated as the signed-in user.
  */
-export async function getToken(request: TokenRequest): Promise<TokenResponse> {
-    const response = await fetch(`${LIVEKIT_CONFIG.tokenServerUrl}/token`, {
+export async function getTokenRequestHeaders(): Promise<Record<string, string>> {
+    const accessToken = await getAccessToken();
+    if (!accessToken) {
+        throw new Error('Sign in to start a voice session');
+    }
+
+    return {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${accessToken}`,
+    };
+}
+
+/**
+ * Fetch a LiveKit access token for the signed-in user.
+ */
+export async function getToken(request: TokenRequest = {}): Promise<TokenResponse> {
+    const organizationId =
+        request.organizationId !== undefined
+            ? request.organizationId
+            : useOrganizationStore.getState().activeOrganizationId;
+
+    const response = await fetch(LIVEKIT_CONFIG.tokenUrl, {
         method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
+        headers: await getTokenRequestHeaders(),
         body: JSON.stringify({
             room: request.room,
-            identity: request.identity,
-            name: request.name || request.identity,
-            auto_create_room: request.auto_create_room ?? true,
+            organizationId: organizationId ?? undefined,
+            metadata: request.metadata,
         }),
     });
 
     if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Token server error: ${errorText}`);
+        const error = await response.json().catch(() => null);
+        throw new Error(`Failed to get token: ${error?.error || response.status}`);
     }
 
-    return response.json();
+    const data: TokenResponse = await response.json();
+    return {
+        ...data,
+        url: data.url || LIVEKIT_CONFIG.livekitUrl,
+    };
 }
 
 /**
- * Check if the token server is healthy.
+ * Check if the token route is reachable.
  */
 export async function checkTokenServerHealth(): Promise<boolean> {
     try {
-        const response = await fetch(`${LIVEKIT_CONFIG.tokenServerUrl}/health`);
+        const response = await fetch(LIVEKIT_CONFIG.healthUrl);
         const data = await response.json();
         return data.status === 'ok';
     } catch {
         return false;
     }
 }
-
-/**
- * Create a new room on the token server.
- */
-export async function createRoom(name: string): Promise<{ room: string; created: boolean }> {
-    const response = await fetch(`${LIVEKIT_CONFIG.tokenServerUrl}/rooms`, {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ name }),
-    });
-
-    if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to create room: ${errorText}`);
-    }
-
-    return response.json();
-}
-
-/**
- * Generate a unique room name for a voice session.
- */
-export function generateRoomName(): string {
-    const timestamp = Date.now();
-    const random = Math.random().toString(36).substring(2, 8);
-    return `alias-voice-${timestamp}-${random}`;
-}
-
-/**
- * Generate a unique participant identity.
- */
-export function generateIdentity(): string {
-    const random = Math.random().toString(36).substring(2, 10);
-    return `user-${random}`;
-}
-
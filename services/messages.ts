@@ -1,134 +1,51 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Message } from '@/components/Conversation';
+import { Doc } from '@/convex/_generated/dataModel';
+import type { ContextMessage } from '@/services/ai/summary';
 
-const MESSAGES_KEY = '@alias_messages';
-const CONVERSATIONS_KEY = '@alias_conversations';
+/**
+ * Message Service
+ * Conversations and messages are persisted in Convex (see convex/conversations.ts
+ * and convex/messages.ts). These helpers map stored documents to the shapes the
+ * chat UI and AI services expect.
+ */
 
-export interface Conversation {
-  id: string;
-  title: string;
-  messages: Message[];
-  createdAt: number;
-  updatedAt: number;
-}
+export type Conversation = Doc<'conversations'>;
+export type StoredMessage = Doc<'messages'>;
 
-export const messageService = {
-  // Save all conversations
-  async saveConversations(conversations: Conversation[]): Promise<void> {
-    try {
-      const jsonValue = JSON.stringify(conversations);
-      await AsyncStorage.setItem(CONVERSATIONS_KEY, jsonValue);
-    } catch (error) {
-      console.error('Error saving conversations:', error);
-      throw new Error('Failed to save conversations');
-    }
-  },
-
-  // Load all conversations
-  async loadConversations(): Promise<Conversation[]> {
-    try {
-      const jsonValue = await AsyncStorage.getItem(CONVERSATIONS_KEY);
-      return jsonValue != null ? JSON.parse(jsonValue) : [];
-    } catch (error) {
-      console.error('Error loading conversations:', error);
-      return [];
-    }
-  },
+// Mode prefixes added to user messages sent from web search / deep research
+const MODE_PREFIX_PATTERN = /^[🔍🔬] /u;
 
-  // Save a single conversation
-  async saveConversation(conversation: Conversation): Promise<void> {
-    try {
-      const conversations = await this.loadConversations();
-      const existingIndex = conversations.findIndex(c => c.id === conversation.id);
-      
-      if (existingIndex >= 0) {
-        conversations[existingIndex] = conversation;
-      } else {
-        conversations.push(conversation);
-      }
-      
-      await this.saveConversations(conversations);
-    } catch (error) {
-      console.error('Error saving conversation:', error);
-      throw new Error('Failed to save conversation');
-    }
-  },
-
-  // Get a single conversation by ID
-  async getConversation(id: string): Promise<Conversation | null> {
-    try {
-      const conversations = await this.loadConversations();
-      return conversations.find(c => c.id === id) || null;
-    } catch (error) {
-      console.error('Error getting conversation:', error);
-      return null;
-    }
-  },
-
-  // Delete a conversation
-  async deleteConversation(id: string): Promise<void> {
-    try {
-      const conversations = await this.loadConversations();
-      const filtered = conversations.filter(c => c.id !== id);
-      await this.saveConversations(filtered);
-    } catch (error) {
-      console.error('Error deleting conversation:', error);
-      throw new Error('Failed to delete conversation');
-    }
-  },
-
-  // Create a new conversation
-  createConversation(title: string = 'New Chat'): Conversation {
-    const now = Date.now();
+export const messageService = {
+  // Convert a stored message into the UI message shape
+  toMessage(message: StoredMessage): Message {
     return {
-      id: `conv_${now}_${Math.random().toString(36).substring(7)}`,
-      title,
-      messages: [],
-      createdAt: now,
-      updatedAt: now,
+      id: message._id,
+      type: message.role === 'user' ? 'user' : 'assistant',
+      content: message.content,
+      timestamp: new Date(message.createdAt),
+      toolInvocations: message.metadata?.toolInvocations,
+      provider: message.metadata?.provider,
+      model: message.metadata?.model,
     };
   },
 
-  // Update conversation title based on first message
-  generateTitle(messages: Message[]): string {
-    if (messages.length === 0) return 'New Chat';
-    const firstUserMessage = messages.find(m => m.type === 'user');
-    if (!firstUserMessage) return 'New Chat';
-    
-    // Truncate to 30 characters
-    const title = firstUserMessage.content.substring(0, 30);
-    return title.length < firstUserMessage.content.length ? title + '...' : title;
-  },
-
-  // Clear all conversations
-  async clearAllConversations(): Promise<void> {
-    try {
-      await AsyncStorage.removeItem(CONVERSATIONS_KEY);
-    } catch (error) {
-      console.error('Error clearing conversations:', error);
-      throw new Error('Failed to clear conversations');
-    }
+  // Convert stored messages into UI messages, skipping system messages
+  toMessages(messages: StoredMessage[]): Message[] {
+    return messages.filter((m) => m.role !== 'system').map((m) => this.toMessage(m));
   },
 
-  // Export conversations (for backup)
-  async exportConversations(): Promise<string> {
-    const conversations = await this.loadConversations();
-    return JSON.stringify(conversations, null, 2);
+  // Strip the mode prefix the UI adds to user messages
+  stripModePrefix(content: string): string {
+    return content.replace(MODE_PREFIX_PATTERN, '');
   },
 
-  // Import conversations (from backup)
-  async importConversations(jsonData: string): Promise<void> {
-    try {
-      const conversations = JSON.parse(jsonData);
-      if (Array.isArray(conversations)) {
-        await this.saveConversations(conversations);
-      } else {
-        throw new Error('Invalid data format');
-      }
-    } catch (error) {
-      console.error('Error importing conversations:', error);
-      throw new Error('Failed to import conversations');
-    }
+  // Convert UI messages into model context, without mode prefixes
+  toContextMessages(messages: Message[]): ContextMessage[] {
+    return messages.map((m) => ({
+      id: m.id,
+      role: m.type,
+      content: this.stripModePrefix(m.content),
+    }));
   },
 };
 
@@ -0,0 +1,78 @@
+/**
+ * Fixture Search Provider
+ * Deterministic, offline provider backed by local documents for tests and demos
+ */
+
+import { PageContent, SearchOptions, SearchProvider, SearchResult } from './types';
+
+export type FixtureDocument = {
+  title: string;
+  url: string;
+  snippet: string;
+  content: string;
+};
+
+const DEFAULT_MAX_RESULTS = 5;
+
+export const DEFAULT_FIXTURE_DOCUMENTS: FixtureDocument[] = [
+  {
+    title: 'Expo Router: File-based routing',
+    url: 'https://docs.expo.dev/router/introduction/',
+    snippet: 'Expo Router is a file-based router for React Native and web applications.',
+    content:
+      'Expo Router is a file-based router for React Native and web applications. Screens are ' +
+      'added by creating files in the app directory, and API routes can be defined with the ' +
+      '+api suffix to run server code alongside the app.',
+  },
+  {
+    title: 'Convex: The reactive database',
+    url: 'https://docs.convex.dev/home',
+    snippet:
+      'Convex is a reactive backend with queries, mutations and actions written in TypeScript.',
+    content:
+      'Convex is a reactive backend. Queries re-run automatically when the data they read ' +
+      'changes, mutations are transactional, and actions can call third-party services.',
+  },
+  {
+    title: 'LiveKit Agents overview',
+    url: 'https://docs.livekit.io/agents/',
+    snippet: 'Build realtime voice AI agents that join LiveKit rooms as participants.',
+    content:
+      'LiveKit Agents lets you build realtime voice and video AI agents. An agent joins a room ' +
+      'as a participant, listens to audio, and responds using speech-to-text, an LLM and ' +
+      'text-to-speech.',
+  },
+];
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
+
+export class FixtureSearchProvider implements SearchProvider {
+  readonly id = 'fixture';
+
+  constructor(private documents: FixtureDocument[] = DEFAULT_FIXTURE_DOCUMENTS) {}
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const terms = new Set(tokenize(query));
+
+    return this.documents
+      .map((doc) => {
+        const words = tokenize(`${doc.title} ${doc.snippet} ${doc.content}`);
+        const score = words.filter((word) => terms.has(word)).length;
+        return { doc, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.maxResults ?? DEFAULT_MAX_RESULTS)
+      .map(({ doc }) => ({ title: doc.title, url: doc.url, snippet: doc.snippet }));
+  }
+
+  async fetchPage(url: string): Promise<PageContent> {
+    const doc = this.documents.find((d) => d.url === url);
+    if (!doc) {
+      throw new Error(`No fixture for ${url}`);
+    }
+    return { url, title: doc.title, content: doc.content };
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Search Service
+ * Selects the active search provider and reads pages for research.
+ * The app searches through the server route by default (./server.ts).
+ */
+
+import { FixtureSearchProvider } from './fixture';
+import { ServerSearchProvider } from './server';
+import { PageContent, SearchOptions, SearchProvider, SearchResult } from './types';
+
+export * from './types';
+export { FixtureSearchProvider, DEFAULT_FIXTURE_DOCUMENTS } from './fixture';
+export type { FixtureDocument } from './fixture';
+export { ServerSearchProvider, SEARCH_API_URL } from './server';
+export { TavilySearchProvider } from './tavily';
+
+const MAX_PAGE_CONTENT_LENGTH = 4000;
+
+let activeProvider: SearchProvider | null = null;
+
+function createDefaultProvider(): SearchProvider {
+  const providerName = process.env.EXPO_PUBLIC_SEARCH_PROVIDER || 'server';
+
+  switch (providerName) {
+    case 'fixture':
+      return new FixtureSearchProvider();
+    case 'server':
+      return new ServerSearchProvider();
+    default:
+      throw new Error(`Unknown search provider: ${providerName}`);
+  }
+}
+
+/**
+ * Get the active search provider, creating it from the environment on first use
+ */
+export function getSearchProvider(): SearchProvider {
+  if (!activeProvider) {
+    activeProvider = createDefaultProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Override the active search provider (e.g. with a FixtureSearchProvider in tests)
+ */
+export function setSearchProvider(provider: SearchProvider | null): void {
+  activeProvider = provider;
+}
+
+/**
+ * Check if web search can be used. The search route holds the provider key,
+ * so a missing key only shows up as a failed search.
+ */
+export function isSearchConfigured(): boolean {
+  if (activeProvider) return true;
+  const providerName = process.env.EXPO_PUBLIC_SEARCH_PROVIDER || 'server';
+  return providerName === 'fixture' || providerName === 'server';
+}
+
+/**
+ * Search the web with the active provider
+ */
+export function searchWeb(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+  return getSearchProvider().search(query, options);
+}
+
+/**
+ * Reduce an HTML document to its title and readable text
+ */
+export function extractReadableText(html: string): { title?: string; content: string } {
+  const title = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1]?.trim();
+  const content = html
+    .replace(/<(script|style|noscript)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return { title, content };
+}
+
+/**
+ * Read a page's text, using the provider's reader when it has one
+ */
+export async function readPage(url: string, signal?: AbortSignal): Promise<PageContent> {
+  const provider = getSearchProvider();
+
+  let page: PageContent;
+  if (provider.fetchPage) {
+    page = await provider.fetchPage(url, signal);
+  } else {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`Request failed with status ${response.status}`);
+    }
+    page = { url, ...extractReadableText(await response.text()) };
+  }
+
+  return { ...page, content: page.content.slice(0, MAX_PAGE_CONTENT_LENGTH) };
+}
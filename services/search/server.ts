@@ -0,0 +1,59 @@
+/**
+ * Server Search Provider
+ * Searches and reads pages through the authenticated search route
+ * (api/search+api.ts), so the search provider key never leaves the server
+ */
+
+import { getAccessToken } from '@/services/auth/session';
+import { useOrganizationStore } from '@/stores/organizationStore';
+import { PageContent, SearchOptions, SearchProvider, SearchResult } from './types';
+
+export const SEARCH_API_URL =
+  process.env.EXPO_PUBLIC_SEARCH_API_URL || 'http://localhost:8081/api/search';
+
+export class ServerSearchProvider implements SearchProvider {
+  readonly id = 'server';
+
+  constructor(private url: string = SEARCH_API_URL) {}
+
+  private async post<T>(body: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+    const token = await getAccessToken();
+    if (!token) {
+      throw new Error('Sign in to search the web');
+    }
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      // Searches count against the active organization's limits and quota
+      body: JSON.stringify({
+        ...body,
+        organizationId: useOrganizationStore.getState().activeOrganizationId ?? undefined,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || `Search request failed with status ${response.status}`);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const { results } = await this.post<{ results: SearchResult[] }>(
+      { action: 'search', query, maxResults: options.maxResults },
+      options.signal
+    );
+    return results;
+  }
+
+  async fetchPage(url: string, signal?: AbortSignal): Promise<PageContent> {
+    const { page } = await this.post<{ page: PageContent }>({ action: 'read', url }, signal);
+    return page;
+  }
+}
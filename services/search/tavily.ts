@@ -0,0 +1,63 @@
+/**
+ * Tavily Search Provider
+ * Web search API built for LLM agents (https://tavily.com)
+ */
+
+import { PageContent, SearchOptions, SearchProvider, SearchResult } from './types';
+
+const TAVILY_API_URL = 'https://api.tavily.com';
+const DEFAULT_MAX_RESULTS = 5;
+
+export class TavilySearchProvider implements SearchProvider {
+  readonly id = 'tavily';
+
+  constructor(private apiKey: string) {}
+
+  private async post<T>(path: string, body: Record<string, unknown>, signal?: AbortSignal) {
+    const response = await fetch(`${TAVILY_API_URL}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Tavily API error: ${response.status} - ${error}`);
+    }
+
+    return (await response.json()) as T;
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const data = await this.post<{ results?: { title: string; url: string; content?: string }[] }>(
+      '/search',
+      { query, max_results: options.maxResults ?? DEFAULT_MAX_RESULTS },
+      options.signal
+    );
+
+    return (data.results ?? []).map((result) => ({
+      title: result.title,
+      url: result.url,
+      snippet: result.content,
+    }));
+  }
+
+  async fetchPage(url: string, signal?: AbortSignal): Promise<PageContent> {
+    const data = await this.post<{ results?: { url: string; raw_content?: string }[] }>(
+      '/extract',
+      { urls: [url] },
+      signal
+    );
+
+    const page = data.results?.[0];
+    if (!page?.raw_content) {
+      throw new Error(`Could not extract content from ${url}`);
+    }
+
+    return { url, content: page.raw_content };
+  }
+}
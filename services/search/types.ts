@@ -0,0 +1,29 @@
+/**
+ * Search Provider Types
+ * Shared contract for web search backends
+ */
+
+export type SearchResult = {
+  title: string;
+  url: string;
+  snippet?: string;
+};
+
+export type SearchOptions = {
+  maxResults?: number;
+  signal?: AbortSignal;
+};
+
+export type PageContent = {
+  url: string;
+  title?: string;
+  content: string;
+};
+
+export interface SearchProvider {
+  /** Stable identifier, e.g. 'tavily' or 'fixture' */
+  readonly id: string;
+  search(query: string, options?: SearchOptions): Promise<SearchResult[]>;
+  /** Optional page reader; falls back to fetching the raw page when omitted */
+  fetchPage?(url: string, signal?: AbortSignal): Promise<PageContent>;
+}
@@ -0,0 +1,37 @@
+/**
+ * File Sharing Service
+ * Hands generated text files (exports) to the share sheet, or downloads them on web
+ */
+
+import { Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * Write text to a temporary file and share it
+ */
+export async function shareTextFile(
+  filename: string,
+  content: string,
+  mimeType: string
+): Promise<void> {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const file = new File(Paths.cache, filename);
+  file.create({ overwrite: true });
+  file.write(content);
+
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: filename });
+}
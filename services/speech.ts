@@ -1,5 +1,10 @@
 import { AudioModule, RecordingPresets, requestRecordingPermissionsAsync, setAudioModeAsync } from 'expo-audio';
 import * as FileSystem from 'expo-file-system';
+import { getAccessToken } from '@/services/auth/session';
+import { useOrganizationStore } from '@/stores/organizationStore';
+
+export const TRANSCRIBE_API_URL =
+    process.env.EXPO_PUBLIC_TRANSCRIBE_API_URL || 'http://localhost:8081/api/transcribe';
 
 type AudioRecorderType = InstanceType<typeof AudioModule.AudioRecorder>;
 let recorder: AudioRecorderType | null = null;
@@ -80,10 +85,14 @@ export async function stopRecording(): Promise<string | null> {
     }
 }
 
+/**
+ * Transcribe a recording through the authenticated transcription route
+ * (api/transcribe+api.ts), which holds the OpenAI key
+ */
 export async function transcribeAudio(audioUri: string): Promise<string> {
-    const apiKey = process.env.EXPO_PUBLIC_OPENAI_API_KEY;
-    if (!apiKey || apiKey === 'your-openai-key-here') {
-        throw new Error('OpenAI API key not configured. Add EXPO_PUBLIC_OPENAI_API_KEY to your .env file.');
+    const token = await getAccessToken();
+    if (!token) {
+        throw new Error('Sign in to use voice input');
     }
 
     console.log('Transcribing audio from:', audioUri);
@@ -96,20 +105,23 @@ export async function transcribeAudio(audioUri: string): Promise<string> {
         type: 'audio/m4a',
         name: 'recording.m4a',
     } as any);
-    formData.append('model', 'whisper-1');
 
-    // Send to Whisper API
-    const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+    const organizationId = useOrganizationStore.getState().activeOrganizationId;
+    if (organizationId) {
+        formData.append('organizationId', organizationId);
+    }
+
+    const response = await fetch(TRANSCRIBE_API_URL, {
         method: 'POST',
         headers: {
-            'Authorization': `Bearer ${apiKey}`,
+            'Authorization': `Bearer ${token}`,
         },
         body: formData,
     });
 
     if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error?.message || 'Transcription failed');
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error || 'Transcription failed');
     }
 
     const data = await response.json();
@@ -0,0 +1,229 @@
+/**
+ * Transcript Export Service
+ * Formats voice agent transcripts as SRT, WebVTT, Markdown or JSON and shares the file
+ */
+
+import { TranscriptSegment } from '@/hooks/useAgentTranscription';
+import { shareTextFile } from '@/services/sharing';
+import { formatDuration, formatToYYYYMMDD } from '@/utils/date';
+
+export type TranscriptExportFormat = 'srt' | 'vtt' | 'markdown' | 'json';
+
+export interface TranscriptExportOptions {
+  /** Leave out interim (not yet final) segments */
+  finalOnly?: boolean;
+  /** Label speakers "Speaker 1", "Speaker 2"… instead of "You" and "Agent" */
+  anonymize?: boolean;
+}
+
+export interface TranscriptExport {
+  filename: string;
+  content: string;
+  mimeType: string;
+}
+
+// A cue without a following segment stays on screen for roughly its reading time
+const MIN_CUE_MS = 1000;
+const MAX_CUE_MS = 10000;
+const MS_PER_WORD = 400;
+
+const FORMATS: Record<TranscriptExportFormat, { extension: string; mimeType: string }> = {
+  srt: { extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { extension: 'vtt', mimeType: 'text/vtt' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  json: { extension: 'json', mimeType: 'application/json' },
+};
+
+interface Cue {
+  speaker: string;
+  text: string;
+  timestamp: number;
+  startMs: number;
+  endMs: number;
+  isFinal: boolean;
+}
+
+/**
+ * Segments the options keep, in spoken order
+ */
+function selectSegments(
+  segments: TranscriptSegment[],
+  options: TranscriptExportOptions
+): TranscriptSegment[] {
+  return segments
+    .filter((segment) => segment.text.trim() && (!options.finalOnly || segment.isFinal))
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Resolve speaker labels and cue timings relative to the first segment
+ */
+function toCues(segments: TranscriptSegment[], options: TranscriptExportOptions): Cue[] {
+  const included = selectSegments(segments, options);
+  if (included.length === 0) return [];
+
+  const origin = included[0].timestamp;
+  const anonymousLabels = new Map<string, string>();
+
+  const speakerLabel = (speaker: TranscriptSegment['speaker']) => {
+    if (!options.anonymize) return speaker === 'user' ? 'You' : 'Agent';
+
+    let label = anonymousLabels.get(speaker);
+    if (!label) {
+      label = `Speaker ${anonymousLabels.size + 1}`;
+      anonymousLabels.set(speaker, label);
+    }
+    return label;
+  };
+
+  return included.map((segment, index) => {
+    const text = segment.text.trim();
+    const startMs = segment.timestamp - origin;
+    const readingMs = Math.min(MAX_CUE_MS, text.split(/\s+/).length * MS_PER_WORD);
+    const next = included[index + 1];
+    const endMs = Math.max(
+      startMs + MIN_CUE_MS,
+      next ? Math.min(next.timestamp - origin, startMs + readingMs) : startMs + readingMs
+    );
+
+    return {
+      speaker: speakerLabel(segment.speaker),
+      text,
+      timestamp: segment.timestamp,
+      startMs,
+      endMs,
+      isFinal: segment.isFinal,
+    };
+  });
+}
+
+/**
+ * Format milliseconds as hh:mm:ss,mmm (SRT) or hh:mm:ss.mmm (WebVTT)
+ */
+function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+function toSrt(cues: Cue[]): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n` +
+        `${formatCueTime(cue.startMs, ',')} --> ${formatCueTime(cue.endMs, ',')}\n` +
+        `${cue.speaker}: ${cue.text}\n`
+    )
+    .join('\n');
+}
+
+function toVtt(cues: Cue[]): string {
+  // Cue text is markup: escape it so "-->", "<" and "&" in speech survive
+  const escape = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+  const body = cues.map(
+    (cue) =>
+      `${formatCueTime(cue.startMs, '.')} --> ${formatCueTime(cue.endMs, '.')}\n` +
+      `<v ${escape(cue.speaker)}>${escape(cue.text)}`
+  );
+  return `${['WEBVTT', ...body].join('\n\n')}\n`;
+}
+
+function toMarkdown(cues: Cue[], exportedAt: Date, options: TranscriptExportOptions): string {
+  const lines = [
+    '# Voice Transcript',
+    '',
+    options.anonymize
+      ? `Exported ${exportedAt.toLocaleDateString()}`
+      : `Recorded ${new Date(cues[0]?.timestamp ?? exportedAt).toLocaleString()}`,
+    '',
+  ];
+
+  for (const cue of cues) {
+    const interim = cue.isFinal ? '' : ' _(interim)_';
+    lines.push(`**[${formatDuration(cue.startMs)}] ${cue.speaker}:** ${cue.text}${interim}`, '');
+  }
+
+  return lines.join('\n');
+}
+
+function toJson(cues: Cue[], exportedAt: Date, options: TranscriptExportOptions): string {
+  return JSON.stringify(
+    {
+      exportedAt: exportedAt.toISOString(),
+      // Wall-clock times are left out of anonymized exports
+      startedAt:
+        options.anonymize || cues.length === 0
+          ? undefined
+          : new Date(cues[0].timestamp).toISOString(),
+      speakers: [...new Set(cues.map((cue) => cue.speaker))],
+      segments: cues.map((cue) => ({
+        speaker: cue.speaker,
+        text: cue.text,
+        startMs: cue.startMs,
+        endMs: cue.endMs,
+        isFinal: cue.isFinal,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Format a transcript for export
+ */
+export function formatTranscript(
+  segments: TranscriptSegment[],
+  format: TranscriptExportFormat,
+  options: TranscriptExportOptions = {}
+): TranscriptExport {
+  const cues = toCues(segments, options);
+  const exportedAt = new Date();
+  const { extension, mimeType } = FORMATS[format];
+
+  let content: string;
+  switch (format) {
+    case 'srt':
+      content = toSrt(cues);
+      break;
+    case 'vtt':
+      content = toVtt(cues);
+      break;
+    case 'markdown':
+      content = toMarkdown(cues, exportedAt, options);
+      break;
+    case 'json':
+      content = toJson(cues, exportedAt, options);
+      break;
+  }
+
+  const time = [exportedAt.getHours(), exportedAt.getMinutes()]
+    .map((value) => String(value).padStart(2, '0'))
+    .join('');
+
+  return {
+    filename: `transcript-${formatToYYYYMMDD(exportedAt)}-${time}.${extension}`,
+    content,
+    mimeType,
+  };
+}
+
+/**
+ * Write a transcript export to a file and open the share sheet
+ */
+export async function exportTranscript(
+  segments: TranscriptSegment[],
+  format: TranscriptExportFormat,
+  options: TranscriptExportOptions = {}
+): Promise<void> {
+  if (selectSegments(segments, options).length === 0) {
+    throw new Error('There is nothing in the transcript to export yet');
+  }
+
+  const result = formatTranscript(segments, format, options);
+  await shareTextFile(result.filename, result.content, result.mimeType);
+}
@@ -5,7 +5,7 @@
  * This service provides token generation and connection management for LiveKit voice agents.
  */
 
-import { LIVEKIT_CONFIG } from './livekit';
+import { LIVEKIT_CONFIG, checkTokenServerHealth, getToken, getTokenRequestHeaders } from './livekit';
 
 /**
  * Connection details for LiveKit room
@@ -31,14 +31,17 @@ export type AgentState =
  * Token request options for voice agent
  */
 export type VoiceAgentTokenRequest = {
-  identity?: string;
+  /** Session to rejoin; the token route scopes it to the user or organization */
   roomName?: string;
+  /** Defaults to the active organization */
+  organizationId?: string | null;
   historyMessages?: string;
   metadata?: Record<string, unknown>;
 };
 
 /**
- * Generate a token for the voice agent connection
+ * Generate a token for the voice agent connection.
+ * The participant identity is derived from the signed-in user by the token route.
  *
  * @param options - Token request options
  * @returns Connection details with token and server URL
@@ -47,43 +50,26 @@ export async function generateVoiceAgentToken(
   options: VoiceAgentTokenRequest = {},
 ): Promise<ConnectionDetails> {
   const {
-    identity,
     roomName,
+    organizationId,
     historyMessages,
     metadata,
   } = options;
 
-  // Use the token server endpoint
-  const tokenServerUrl = process.env.EXPO_PUBLIC_TOKEN_SERVER_URL || LIVEKIT_CONFIG.tokenServerUrl;
-  const livekitUrl = process.env.EXPO_PUBLIC_LIVEKIT_URL || LIVEKIT_CONFIG.livekitUrl;
-
   try {
-    const response = await fetch(`${tokenServerUrl}/token`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
+    const data = await getToken({
+      room: roomName,
+      organizationId,
+      metadata: {
+        ...metadata,
+        // Passed through for agents that seed the conversation with history
+        ...(historyMessages ? { historyMessages } : {}),
       },
-      body: JSON.stringify({
-        room: roomName || generateRoomName(),
-        identity: identity || generateIdentity(),
-        name: identity || 'ALIAS User',
-        auto_create_room: true,
-        metadata: JSON.stringify(metadata || {}),
-        // Some token servers support historyMessages for context
-        history_messages: historyMessages,
-      }),
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Token server error: ${errorText}`);
-    }
-
-    const data = await response.json();
-
     return {
       participantToken: data.token,
-      serverUrl: data.url || livekitUrl,
+      serverUrl: data.url,
     };
   } catch (error) {
     console.error('Failed to generate voice agent token:', error);
@@ -111,9 +97,7 @@ export async function generateConnectionDetails(
   try {
     const response = await fetch(`${apiUrl}/api/connection-details`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      headers: await getTokenRequestHeaders(),
       body: JSON.stringify({ historyMessages }),
     });
 
@@ -143,31 +127,11 @@ export function generateRoomName(): string {
   return `alias-voice-${timestamp}-${random}`;
 }
 
-/**
- * Generate a unique participant identity
- */
-export function generateIdentity(): string {
-  const random = Math.random().toString(36).substring(2, 10);
-  return `user-${random}`;
-}
-
 /**
  * Check if the voice agent service is available
  */
 export async function checkVoiceAgentHealth(): Promise<boolean> {
-  try {
-    const tokenServerUrl = process.env.EXPO_PUBLIC_TOKEN_SERVER_URL || LIVEKIT_CONFIG.tokenServerUrl;
-    const response = await fetch(`${tokenServerUrl}/health`);
-
-    if (response.ok) {
-      const data = await response.json();
-      return data.status === 'ok';
-    }
-
-    return false;
-  } catch {
-    return false;
-  }
+  return checkTokenServerHealth();
 }
 
 /**
@@ -1,3 +1,6 @@
 // Zustand Stores - Re-export for easy imports
 export { useProfileStore, type Profile } from './profileStore';
 export { useOnboardingStore } from './onboardingStore';
+export { useOrganizationStore } from './organizationStore';
+export { useInviteStore } from './inviteStore';
+export { useSessionStore } from './sessionStore';
@@ -0,0 +1,32 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { zustandStorage } from '@/lib/storage/zustand';
+
+interface InviteState {
+  // Invitation link token opened before signing in; accepted once auth completes
+  pendingToken: string | null;
+
+  // Actions
+  setPendingToken: (token: string) => void;
+  clearPendingToken: () => void;
+}
+
+export const useInviteStore = create<InviteState>()(
+  persist(
+    (set) => ({
+      pendingToken: null,
+
+      setPendingToken: (token: string) => {
+        set({ pendingToken: token });
+      },
+
+      clearPendingToken: () => {
+        set({ pendingToken: null });
+      },
+    }),
+    {
+      name: 'invite-storage',
+      storage: createJSONStorage(() => zustandStorage),
+    }
+  )
+);
@@ -0,0 +1,32 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { zustandStorage } from '@/lib/storage/zustand';
+import { Id } from '@/convex/_generated/dataModel';
+
+interface OrganizationState {
+  activeOrganizationId: Id<'organizations'> | null;
+
+  // Actions
+  setActiveOrganization: (organizationId: Id<'organizations'> | null) => void;
+  clearActiveOrganization: () => void;
+}
+
+export const useOrganizationStore = create<OrganizationState>()(
+  persist(
+    (set) => ({
+      activeOrganizationId: null,
+
+      setActiveOrganization: (organizationId: Id<'organizations'> | null) => {
+        set({ activeOrganizationId: organizationId });
+      },
+
+      clearActiveOrganization: () => {
+        set({ activeOrganizationId: null });
+      },
+    }),
+    {
+      name: 'organization-storage',
+      storage: createJSONStorage(() => zustandStorage),
+    }
+  )
+);
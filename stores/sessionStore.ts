@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { zustandStorage } from '@/lib/storage/zustand';
+import type { Id } from '@/convex/_generated/dataModel';
+
+interface SessionState {
+  // This device's record in the Convex sessions table
+  sessionId: Id<'sessions'> | null;
+
+  // Actions
+  setSessionId: (sessionId: Id<'sessions'>) => void;
+  clearSessionId: () => void;
+}
+
+export const useSessionStore = create<SessionState>()(
+  persist(
+    (set) => ({
+      sessionId: null,
+
+      setSessionId: (sessionId: Id<'sessions'>) => {
+        set({ sessionId });
+      },
+
+      clearSessionId: () => {
+        set({ sessionId: null });
+      },
+    }),
+    {
+      name: 'session-storage',
+      storage: createJSONStorage(() => zustandStorage),
+    }
+  )
+);
@@ -105,13 +105,19 @@ export const VOICE_CONFIG = {
 
 // AI Provider Limits
 export const AI_LIMITS = {
+    // Maximum output tokens per reply, by provider
     MAX_TOKENS: {
         openai: 4096,
+        groq: 8192,
         gemini: 8192,
-        claude: 4096,
+        anthropic: 4096,
     },
     DEFAULT_TEMPERATURE: 0.7,
     DEFAULT_MAX_TOKENS: 1000,
+    // Summarize older turns once history fills this share of the context budget
+    SUMMARY_THRESHOLD: 0.75,
+    // Most recent messages that are always sent verbatim
+    RECENT_MESSAGES: 6,
 } as const;
 
 // Error Messages